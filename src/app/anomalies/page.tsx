@@ -0,0 +1,139 @@
+/**
+ * Anomaly Review Page
+ *
+ * Server Component listing the suspicious attendance days found by the
+ * anomaly detector on upload (see lib/anomalies), with accept, correct and
+ * dismiss actions.
+ *
+ * URL PARAMS:
+ * - status=OPEN|ACCEPTED|CORRECTED|DISMISSED|all (default: OPEN)
+ * - employeeId: only this employee's anomalies (linked from the dashboard)
+ *
+ * ACCESS: ADMIN or HR_MANAGER.
+ *
+ * @module app/anomalies/page
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import Link from 'next/link';
+import { ArrowLeft, ShieldAlert } from 'lucide-react';
+import { prisma } from '@/lib/prisma';
+import { requirePageUser } from '@/lib/auth';
+import { ANOMALY_STATUSES, toAnomalySummary, type AnomalyStatus } from '@/lib/anomalies';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId } from '@/lib/validation';
+import { Button } from '@/components/ui/button';
+import { AnomalyReviewQueue } from '@/components/anomalies/anomaly-review-queue';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Page props with search parameters
+ */
+interface AnomaliesPageProps {
+  searchParams: Promise<{
+    /** Review state to list, or "all" */
+    status?: string;
+
+    /** Employee to list anomalies of */
+    employeeId?: string;
+  }>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Most anomalies listed at once (newest days first)
+ */
+const MAX_LISTED_ANOMALIES = 500;
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+
+/**
+ * Anomaly Review Page
+ *
+ * @param {AnomaliesPageProps} props - Page props with search params
+ * @returns {Promise<React.JSX.Element>} Rendered review queue
+ */
+export default async function AnomaliesPage({ searchParams }: AnomaliesPageProps): Promise<React.JSX.Element> {
+  await requirePageUser(ATTENDANCE_MANAGER_ROLES);
+
+  const resolvedSearchParams = await searchParams;
+  const status: AnomalyStatus | null = resolvedSearchParams.status === 'all'
+    ? null
+    : ANOMALY_STATUSES.find((option) => option === resolvedSearchParams.status) ?? 'OPEN';
+  const employeeId = isValidObjectId(resolvedSearchParams.employeeId) ? resolvedSearchParams.employeeId : undefined;
+
+  const [anomalies, employee] = await Promise.all([
+    prisma.attendanceAnomaly.findMany({
+      where: { status: status ?? undefined, employeeId },
+      include: { employee: true, attendanceRecord: true },
+      orderBy: [{ date: 'desc' }, { createdAt: 'asc' }],
+      take: MAX_LISTED_ANOMALIES,
+    }),
+    employeeId ? prisma.employee.findUnique({ where: { id: employeeId }, select: { name: true } }) : null,
+  ]);
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <ShieldAlert className="h-7 w-7" />
+                Anomalies
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                {employee
+                  ? `Suspicious attendance days of ${employee.name}`
+                  : 'Suspicious attendance days found on upload'}
+                {employee && (
+                  <>
+                    {' · '}
+                    <Link
+                      href={status ? `/anomalies?status=${status}` : '/anomalies?status=all'}
+                      className="underline underline-offset-4"
+                    >
+                      Show all employees
+                    </Link>
+                  </>
+                )}
+              </p>
+            </div>
+
+            <Button asChild variant="outline">
+              <Link href="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 space-y-2">
+        <AnomalyReviewQueue anomalies={anomalies.map(toAnomalySummary)} status={status} />
+        {anomalies.length === MAX_LISTED_ANOMALIES && (
+          <p className="text-xs text-muted-foreground">
+            Showing the {MAX_LISTED_ANOMALIES} most recent days; review these to see older ones.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
+
+/**
+ * Always render with fresh data
+ */
+export const revalidate = 0;
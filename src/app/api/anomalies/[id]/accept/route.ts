@@ -0,0 +1,110 @@
+/**
+ * Attendance Anomaly Acceptance API Route
+ * 
+ * POST /api/anomalies/:id/accept - Accept an open anomaly
+ * 
+ * Accepting confirms the flagged day is genuine (e.g., a real double
+ * shift); the attendance record stays as recorded. The decision survives
+ * re-uploads of the month as long as the same rule fires on the same day.
+ * 
+ * REQUEST BODY:
+ * { "note": "Covered the night release" }
+ * 
+ * ACCESS: ADMIN or HR_MANAGER; the signed-in user is recorded as the
+ * reviewer.
+ * 
+ * @module app/api/anomalies/[id]/accept/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  RecordConflictError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import { parseAnomalyReviewInput, toAnomalySummary, type AnomalySummary } from '@/lib/anomalies';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single anomaly
+ */
+interface AnomalyResponse {
+  success: true;
+  anomaly: AnomalySummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/anomalies/:id/accept
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid note
+ * - 401: Not signed in
+ * - 403: Not an ADMIN or HR_MANAGER
+ * - 404: Anomaly does not exist
+ * - 409: Anomaly was already reviewed
+ * 
+ * @param {NextRequest} request - Request with JSON review body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Accepted anomaly
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<AnomalyResponse | ApiErrorResponse>> {
+  try {
+    const reviewer = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Anomaly', id);
+    }
+    
+    const review = parseAnomalyReviewInput(await readJsonObject(request), reviewer.name);
+    
+    // Conditional update so two concurrent reviews cannot both succeed
+    const { count } = await prisma.attendanceAnomaly.updateMany({
+      where: { id, status: 'OPEN' },
+      data: { ...review, status: 'ACCEPTED', reviewedAt: new Date() },
+    });
+    
+    const anomaly = await prisma.attendanceAnomaly.findUnique({
+      where: { id },
+      include: { employee: true, attendanceRecord: true },
+    });
+    
+    if (!anomaly) {
+      throw new RecordNotFoundError('Anomaly', id);
+    }
+    
+    if (count === 0) {
+      throw new RecordConflictError(`Anomaly is already ${anomaly.status.toLowerCase()}`);
+    }
+    
+    console.log(`[Anomalies] Accepted anomaly ${id} by "${review.reviewer}"`);
+    
+    return NextResponse.json({ success: true, anomaly: toAnomalySummary(anomaly) });
+  } catch (error) {
+    return handleApiError(error, 'Anomalies');
+  }
+}
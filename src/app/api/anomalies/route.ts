@@ -0,0 +1,94 @@
+/**
+ * Attendance Anomaly Collection API Route
+ * 
+ * GET /api/anomalies?status=OPEN&employeeId=...&month=YYYY-MM - List anomalies
+ * 
+ * Anomalies are created by the detector when a month is uploaded (see
+ * lib/anomalies) and reviewed through POST /api/anomalies/:id/accept or
+ * /dismiss, or resolved by correcting the record
+ * (PATCH /api/attendance/:id).
+ * 
+ * ACCESS: ADMIN or HR_MANAGER.
+ * 
+ * @module app/api/anomalies/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { endOfMonth } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { isValidObjectId, RequestValidationError } from '@/lib/validation';
+import { parseAnomalyStatus, toAnomalySummary, type AnomalySummary } from '@/lib/anomalies';
+import { parseMonthQuery } from '@/lib/months';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for anomaly listings
+ */
+interface AnomalyListResponse {
+  success: true;
+  anomalies: AnomalySummary[];
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/anomalies
+ * 
+ * ERROR HANDLING:
+ * - 400: Malformed status, employeeId or month
+ * - 401: Not signed in
+ * - 403: Not an ADMIN or HR_MANAGER
+ * 
+ * @param {NextRequest} request - Request with optional `status`, `employeeId` and `month` search params
+ * @returns {Promise<NextResponse>} Anomalies, newest day first
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<AnomalyListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status');
+    const employeeId = searchParams.get('employeeId');
+    const monthParam = searchParams.get('month');
+    
+    if (employeeId !== null && !isValidObjectId(employeeId)) {
+      throw new RequestValidationError('employeeId must be a valid employee id', 'employeeId');
+    }
+    
+    let dateFilter: { gte: Date; lte: Date } | undefined;
+    if (monthParam !== null) {
+      const { year, month } = parseMonthQuery(monthParam);
+      const start = new Date(year, month - 1, 1);
+      dateFilter = { gte: start, lte: endOfMonth(start) };
+    }
+    
+    const anomalies = await prisma.attendanceAnomaly.findMany({
+      where: {
+        status: statusParam ? parseAnomalyStatus(statusParam) : undefined,
+        employeeId: employeeId ?? undefined,
+        date: dateFilter,
+      },
+      include: { employee: true, attendanceRecord: true },
+      orderBy: [{ date: 'desc' }, { createdAt: 'asc' }],
+    });
+    
+    return NextResponse.json({
+      success: true,
+      anomalies: anomalies.map(toAnomalySummary),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Anomalies');
+  }
+}
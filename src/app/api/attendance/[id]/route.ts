@@ -0,0 +1,231 @@
+/**
+ * Single Attendance Record API Route
+ * 
+ * GET   /api/attendance/:id - Record with its correction history
+ * PATCH /api/attendance/:id - Correct inTime, outTime and/or status
+ * 
+ * Every correction recomputes worked hours and late or early minutes (see
+ * lib/attendance-corrections) and is written to the AttendanceAudit log
+ * together with the values before and after, the reason and the editor
+ * (the signed-in user). Open anomalies of the record that no longer apply
+ * to the corrected values are marked CORRECTED (see lib/anomalies).
+ * 
+ * ACCESS: Reading requires a signed-in user who may see the employee;
+ * corrections require ADMIN or HR_MANAGER.
+ * 
+ * REQUEST BODY (PATCH):
+ * {
+ *   "inTime": "09:00",
+ *   "outTime": "17:30",
+ *   "status": "PRESENT",
+ *   "reason": "Badge reader offline, confirmed by team lead"
+ * }
+ * 
+ * @module app/api/attendance/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  PermissionDeniedError,
+  RecordConflictError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { getEmployeeScope, requireApiUser } from '@/lib/auth';
+import { toApiAttendanceRecord, type ApiAttendanceRecord } from '@/lib/api-v1';
+import { detectRecordAnomalies } from '@/lib/anomalies';
+import {
+  applyAttendanceCorrection,
+  parseAttendanceCorrectionInput,
+  toAttendanceAuditSummary,
+  toAttendanceSnapshot,
+  type AttendanceAuditSummary,
+} from '@/lib/attendance-corrections';
+import { ATTENDANCE_MANAGER_ROLES, isInScope } from '@/lib/users';
+import { formatDateOnly, isValidObjectId, readJsonObject } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for record lookups
+ */
+interface AttendanceRecordResponse {
+  success: true;
+  record: ApiAttendanceRecord;
+
+  /** Corrections of this record, newest first */
+  audits: AttendanceAuditSummary[];
+}
+
+/**
+ * API response structure for corrections
+ */
+interface AttendanceCorrectionResponse {
+  success: true;
+  record: ApiAttendanceRecord;
+  audit: AttendanceAuditSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/attendance/:id
+ * 
+ * ERROR HANDLING:
+ * - 401: Not signed in
+ * - 403: Employee is outside the caller's scope
+ * - 404: Record does not exist
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Record and its audit log
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<AttendanceRecordResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser();
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Attendance record', id);
+    }
+    
+    const record = await prisma.attendanceRecord.findUnique({
+      where: { id },
+      include: {
+        employee: true,
+        audits: { include: { employee: true }, orderBy: { createdAt: 'desc' } },
+      },
+    });
+    if (!record) {
+      throw new RecordNotFoundError('Attendance record', id);
+    }
+    
+    if (!isInScope(await getEmployeeScope(user), record.employeeId)) {
+      throw new PermissionDeniedError('You may only view employees in your scope');
+    }
+    
+    return NextResponse.json({
+      success: true,
+      record: toApiAttendanceRecord(record),
+      audits: record.audits.map(toAttendanceAuditSummary),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Attendance');
+  }
+}
+
+/**
+ * PATCH /api/attendance/:id
+ * 
+ * The update only applies if the record is unchanged since it was read, so
+ * the audit's "before" values are always accurate.
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid times or status, missing reason, no effective change
+ * - 401: Not signed in
+ * - 403: Not an ADMIN or HR_MANAGER
+ * - 404: Record does not exist
+ * - 409: Record was modified concurrently
+ * 
+ * @param {NextRequest} request - Request with JSON correction body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Corrected record and the new audit entry
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<AttendanceCorrectionResponse | ApiErrorResponse>> {
+  try {
+    const editor = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Attendance record', id);
+    }
+    
+    const input = parseAttendanceCorrectionInput(await readJsonObject(request), editor.name);
+    
+    const record = await prisma.attendanceRecord.findUnique({
+      where: { id },
+      include: { employee: { include: { shift: true } } },
+    });
+    if (!record) {
+      throw new RecordNotFoundError('Attendance record', id);
+    }
+    
+    // Break rule, expected hours and shift in effect on the record's date
+    const [schedules, holidays] = await Promise.all([
+      prisma.workSchedule.findMany(),
+      prisma.holiday.findMany({ where: { date: record.date } }),
+    ]);
+    const corrected = applyAttendanceCorrection(record, input, {
+      schedules,
+      holidays,
+      employment: record.employee,
+      shift: record.employee.shift,
+    });
+    
+    const { updated, audit } = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.attendanceRecord.updateMany({
+        where: { id, updatedAt: record.updatedAt },
+        data: corrected,
+      });
+      if (count === 0) {
+        throw new RecordConflictError('Attendance record was changed by someone else; reload and try again');
+      }
+      
+      // Anomalies the correction fixed are resolved by it
+      const remainingRules = detectRecordAnomalies(corrected, record.employee.shift).map(({ rule }) => rule);
+      await tx.attendanceAnomaly.updateMany({
+        where: { attendanceRecordId: id, status: 'OPEN', rule: { notIn: remainingRules } },
+        data: { status: 'CORRECTED', reviewer: input.editor, reviewNote: input.reason, reviewedAt: new Date() },
+      });
+      
+      return {
+        updated: await tx.attendanceRecord.findUniqueOrThrow({ where: { id }, include: { employee: true } }),
+        audit: await tx.attendanceAudit.create({
+          data: {
+            attendanceRecordId: id,
+            employeeId: record.employeeId,
+            date: record.date,
+            before: toAttendanceSnapshot(record),
+            after: toAttendanceSnapshot(corrected),
+            reason: input.reason,
+            editor: input.editor,
+          },
+          include: { employee: true },
+        }),
+      };
+    });
+    
+    console.log(
+      `[Attendance] ${input.editor} corrected ${updated.employee.name} on ${formatDateOnly(record.date)}: ${record.status} -> ${updated.status}`
+    );
+    
+    return NextResponse.json({
+      success: true,
+      record: toApiAttendanceRecord(updated),
+      audit: toAttendanceAuditSummary(audit),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Attendance');
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Login API Route
+ * 
+ * POST /api/auth/login - Sign in with e-mail and password
+ * 
+ * Sets the signed, HTTP-only session cookie used by every other route and
+ * page. Wrong credentials and inactive accounts get the same 401 response.
+ * 
+ * REQUEST BODY:
+ * { "email": "jane@example.com", "password": "..." }
+ * 
+ * @module app/api/auth/login/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { logIn } from '@/lib/auth';
+import { readJsonObject } from '@/lib/validation';
+import { parseLoginInput, type SessionUser } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for a started session
+ */
+interface SessionResponse {
+  success: true;
+  user: SessionUser;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/auth/login
+ * 
+ * ERROR HANDLING:
+ * - 400: Missing e-mail or password
+ * - 401: Wrong credentials or inactive account
+ * 
+ * @param {NextRequest} request - Request with JSON credentials
+ * @returns {Promise<NextResponse>} Signed-in user
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<SessionResponse | ApiErrorResponse>> {
+  try {
+    const { email, password } = parseLoginInput(await readJsonObject(request));
+    
+    const user = await logIn(email, password);
+    
+    console.log(`[Auth] "${user.email}" signed in`);
+    
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    return handleApiError(error, 'Auth');
+  }
+}
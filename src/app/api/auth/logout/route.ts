@@ -0,0 +1,34 @@
+/**
+ * Logout API Route
+ * 
+ * POST /api/auth/logout - End the current session
+ * 
+ * Clears the session cookie. Succeeds even when nobody is signed in.
+ * 
+ * @module app/api/auth/logout/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextResponse } from 'next/server';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { endSession } from '@/lib/auth';
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/auth/logout
+ * 
+ * @returns {Promise<NextResponse>} Success flag
+ */
+export async function POST(): Promise<NextResponse<{ success: true } | ApiErrorResponse>> {
+  try {
+    await endSession();
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Auth');
+  }
+}
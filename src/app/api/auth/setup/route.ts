@@ -0,0 +1,118 @@
+/**
+ * First Admin Setup API Route
+ * 
+ * POST /api/auth/setup - Create the first admin account and sign in
+ * 
+ * Only available while no user exists, so a fresh installation can be
+ * claimed once; afterwards admins create accounts through /api/users.
+ * The admin is created together with a uniquely keyed SetupClaim in one
+ * transaction, so of two concurrent setup requests only one succeeds.
+ * 
+ * REQUEST BODY:
+ * { "email": "admin@example.com", "name": "Jane Admin", "password": "..." }
+ * 
+ * @module app/api/auth/setup/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordConflictError, type ApiErrorResponse } from '@/lib/api';
+import { hashPassword, startSession } from '@/lib/auth';
+import { readJsonObject } from '@/lib/validation';
+import { parseUserCreateInput, type SessionUser } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for a started session
+ */
+interface SessionResponse {
+  success: true;
+  user: SessionUser;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Key of the SetupClaim written by the first setup
+ */
+const SETUP_CLAIM_KEY = 'FIRST_ADMIN';
+
+/**
+ * Prisma errors raised when a concurrent setup inserted the claim first
+ * (P2002: unique constraint violation, P2034: transaction write conflict)
+ */
+const SETUP_RACE_ERROR_CODES = ['P2002', 'P2034'];
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/auth/setup
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 409: Users already exist, or a concurrent setup completed first
+ * 
+ * @param {NextRequest} request - Request with JSON account body
+ * @returns {Promise<NextResponse>} Created admin, signed in (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<SessionResponse | ApiErrorResponse>> {
+  try {
+    const input = parseUserCreateInput({ ...(await readJsonObject(request)), role: 'ADMIN' });
+    
+    if ((await prisma.user.count()) > 0) {
+      throw new RecordConflictError('Setup is already complete; sign in instead');
+    }
+    
+    const passwordHash = await hashPassword(input.password);
+    
+    let user;
+    try {
+      user = await prisma.$transaction(async (tx) => {
+        // Fails for every request but the first, even concurrent ones
+        await tx.setupClaim.create({ data: { key: SETUP_CLAIM_KEY } });
+        
+        return tx.user.create({
+          data: {
+            email: input.email,
+            name: input.name,
+            passwordHash,
+            role: 'ADMIN',
+            employeeId: input.employeeId,
+            lastLoginAt: new Date(),
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && SETUP_RACE_ERROR_CODES.includes(error.code)) {
+        throw new RecordConflictError('Setup is already complete; sign in instead');
+      }
+      throw error;
+    }
+    
+    await startSession(user.id);
+    
+    console.log(`[Auth] Created first admin "${user.email}"`);
+    
+    return NextResponse.json(
+      {
+        success: true,
+        user: { id: user.id, email: user.email, name: user.name, role: user.role, employeeId: user.employeeId },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Auth');
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Single Department API Route
+ * 
+ * PATCH  /api/departments/:id - Rename a department
+ * DELETE /api/departments/:id - Remove a department
+ * 
+ * A department can only be deleted once it has no teams; its employees
+ * keep their records and simply lose the department.
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/departments/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  RecordConflictError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import { parseDepartmentInput, toDepartmentSummary, type DepartmentSummary } from '@/lib/org-chart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single department
+ */
+interface DepartmentResponse {
+  success: true;
+  department: DepartmentSummary;
+}
+
+/**
+ * API response structure for deletions
+ */
+interface DepartmentDeleteResponse {
+  success: true;
+  id: string;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/departments/:id
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 404: Department does not exist
+ * - 409: Another department has that name
+ * 
+ * @param {NextRequest} request - Request with JSON department body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated department
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<DepartmentResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Department', id);
+    }
+    
+    const input = parseDepartmentInput(await readJsonObject(request));
+    
+    const department = await prisma.department.update({
+      where: { id },
+      data: input,
+      include: { _count: { select: { employees: true } } },
+    });
+    
+    console.log(`[Departments] Renamed department ${id} to "${department.name}"`);
+    
+    return NextResponse.json({ success: true, department: toDepartmentSummary(department) });
+  } catch (error) {
+    return handleApiError(error, 'Departments');
+  }
+}
+
+/**
+ * DELETE /api/departments/:id
+ * 
+ * ERROR HANDLING:
+ * - 404: Department does not exist
+ * - 409: The department still has teams
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Deleted department id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<DepartmentDeleteResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Department', id);
+    }
+    
+    const teamCount = await prisma.team.count({ where: { departmentId: id } });
+    if (teamCount > 0) {
+      throw new RecordConflictError(`The department still has ${teamCount} team(s). Delete or move them first.`);
+    }
+    
+    await prisma.department.delete({ where: { id } });
+    
+    console.log(`[Departments] Deleted department ${id}`);
+    
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return handleApiError(error, 'Departments');
+  }
+}
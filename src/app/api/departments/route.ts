@@ -0,0 +1,101 @@
+/**
+ * Department Collection API Route
+ * 
+ * GET  /api/departments - List departments, alphabetical
+ * POST /api/departments - Create a department
+ * 
+ * REQUEST BODY (POST):
+ * { "name": "Engineering" }
+ * 
+ * ACCESS: Listing requires a signed-in user; changes require ADMIN or HR_MANAGER.
+ * 
+ * @module app/api/departments/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { readJsonObject } from '@/lib/validation';
+import { parseDepartmentInput, toDepartmentSummary, type DepartmentSummary } from '@/lib/org-chart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for department listings
+ */
+interface DepartmentListResponse {
+  success: true;
+  departments: DepartmentSummary[];
+}
+
+/**
+ * API response structure for a single department
+ */
+interface DepartmentResponse {
+  success: true;
+  department: DepartmentSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/departments
+ * 
+ * @returns {Promise<NextResponse>} Departments with their employee counts
+ */
+export async function GET(): Promise<NextResponse<DepartmentListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser();
+    
+    const departments = await prisma.department.findMany({
+      include: { _count: { select: { employees: true } } },
+      orderBy: { name: 'asc' },
+    });
+    
+    return NextResponse.json({ success: true, departments: departments.map(toDepartmentSummary) });
+  } catch (error) {
+    return handleApiError(error, 'Departments');
+  }
+}
+
+/**
+ * POST /api/departments
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 409: A department with that name already exists
+ * 
+ * @param {NextRequest} request - Request with JSON department body
+ * @returns {Promise<NextResponse>} Created department (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<DepartmentResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const input = parseDepartmentInput(await readJsonObject(request));
+    
+    const department = await prisma.department.create({
+      data: input,
+      include: { _count: { select: { employees: true } } },
+    });
+    
+    console.log(`[Departments] Created department "${department.name}"`);
+    
+    return NextResponse.json(
+      { success: true, department: toDepartmentSummary(department) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Departments');
+  }
+}
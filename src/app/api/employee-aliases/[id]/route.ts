@@ -0,0 +1,70 @@
+/**
+ * Single Employee Alias API Route
+ * 
+ * DELETE /api/employee-aliases/:id - Remove an alias
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/employee-aliases/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for deletions
+ */
+interface EmployeeAliasDeleteResponse {
+  success: true;
+  id: string;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * DELETE /api/employee-aliases/:id
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Deleted alias id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<EmployeeAliasDeleteResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Employee alias', id);
+    }
+    
+    const alias = await prisma.employeeAlias.delete({ where: { id } });
+    
+    console.log(`[EmployeeAliases] "${user.email}" removed alias "${alias.alias}"`);
+    
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return handleApiError(error, 'EmployeeAliases');
+  }
+}
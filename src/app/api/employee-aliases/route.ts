@@ -0,0 +1,123 @@
+/**
+ * Employee Alias Collection API Route
+ * 
+ * GET  /api/employee-aliases?employeeId=... - List aliases (optionally of one employee)
+ * POST /api/employee-aliases                - Add an alias
+ * 
+ * An alias is another spelling of an employee's name. Upload rows without
+ * an employee code whose name matches no employee are matched against the
+ * aliases, so a misspelt export no longer creates a second employee.
+ * 
+ * REQUEST BODY (POST):
+ * { "employeeId": "65f1c2...", "alias": "Jon Smith" }
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/employee-aliases/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordConflictError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject, RequestValidationError } from '@/lib/validation';
+import {
+  parseEmployeeAliasInput,
+  toEmployeeAliasSummary,
+  type EmployeeAliasSummary,
+} from '@/lib/employees';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for alias listings
+ */
+interface EmployeeAliasListResponse {
+  success: true;
+  aliases: EmployeeAliasSummary[];
+}
+
+/**
+ * API response structure for a single alias
+ */
+interface EmployeeAliasResponse {
+  success: true;
+  alias: EmployeeAliasSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/employee-aliases
+ * 
+ * @param {NextRequest} request - Request with optional employeeId query
+ * @returns {Promise<NextResponse>} Aliases in alphabetical order
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<EmployeeAliasListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const employeeId = request.nextUrl.searchParams.get('employeeId');
+    if (employeeId !== null && !isValidObjectId(employeeId)) {
+      throw new RequestValidationError('employeeId must be a valid id', 'employeeId');
+    }
+    
+    const aliases = await prisma.employeeAlias.findMany({
+      where: employeeId ? { employeeId } : undefined,
+      orderBy: { alias: 'asc' },
+    });
+    
+    return NextResponse.json({ success: true, aliases: aliases.map(toEmployeeAliasSummary) });
+  } catch (error) {
+    return handleApiError(error, 'EmployeeAliases');
+  }
+}
+
+/**
+ * POST /api/employee-aliases
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 404: Employee does not exist
+ * - 409: The alias exists, or an employee has that name (names are
+ *   matched before aliases, so the alias would never apply)
+ * 
+ * @param {NextRequest} request - Request with JSON alias body
+ * @returns {Promise<NextResponse>} Created alias (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<EmployeeAliasResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const input = parseEmployeeAliasInput(await readJsonObject(request));
+    
+    const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+    if (!employee) {
+      throw new RecordNotFoundError('Employee', input.employeeId);
+    }
+    
+    const namesake = await prisma.employee.findFirst({ where: { name: input.alias }, select: { id: true } });
+    if (namesake) {
+      throw new RecordConflictError(`An employee is named "${input.alias}"; merge the employees instead`);
+    }
+    
+    const alias = await prisma.employeeAlias.create({ data: input });
+    
+    console.log(`[EmployeeAliases] "${user.email}" added alias "${alias.alias}" for "${employee.name}"`);
+    
+    return NextResponse.json({ success: true, alias: toEmployeeAliasSummary(alias) }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'EmployeeAliases');
+  }
+}
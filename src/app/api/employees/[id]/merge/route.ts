@@ -0,0 +1,229 @@
+/**
+ * Employee Merge API Route
+ * 
+ * POST /api/employees/:id/merge - Merge duplicate employees into this one
+ * 
+ * Duplicates arise when one person was uploaded under two spellings, or
+ * under a name before the file had employee codes. Everything recorded for
+ * a duplicate moves onto the target employee, then the duplicate is
+ * deleted and its name is kept as an alias of the target, so later uploads
+ * with the old spelling land on the target.
+ * 
+ * MERGE RULES:
+ * - Attendance: days only the duplicate has are moved. On days both have,
+ *   the target's record is kept, unless it has no check-in and the
+ *   duplicate's has one (an upload gap-fills whole months, so the target
+ *   usually has ABSENT days where the duplicate was present). Anomalies
+ *   follow their record and go with discarded ones
+ * - Leave requests, corrections (audit log) and login accounts are moved
+ * - Snapshots of records replaced by uploads (kept for import rollback)
+ *   are moved, so they are not lost with the duplicate
+ * - Leave entitlement overrides are moved for leave types the target has
+ *   none for; the target's own overrides win
+ * - Direct reports of the duplicate report to the target
+ * - Aliases move; the employee code, department and team, shift, and the
+ *   employment start and end dates are taken over when the target has none
+ * - Two different employee codes mean two different people: 409
+ * 
+ * REQUEST BODY:
+ * { "duplicateIds": ["65f1c2...", "65f1c3..."] }
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/employees/[id]/merge/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordConflictError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { toApiEmployee, type ApiEmployee } from '@/lib/api-v1';
+import { parseEmployeeMergeInput } from '@/lib/employees';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { formatDateOnly, isValidObjectId, readJsonObject } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a merge
+ */
+interface EmployeeMergeResponse {
+  success: true;
+  message: string;
+  employee: ApiEmployee;
+  details: {
+    /** Employees merged into the target */
+    mergedCount: number;
+    
+    /** Attendance records moved onto the target */
+    movedRecordCount: number;
+    
+    /** Duplicate attendance records discarded in favour of the target's */
+    discardedRecordCount: number;
+  };
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/employees/:id/merge
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body or the target is among the duplicates
+ * - 401: Not signed in
+ * - 403: Not an ADMIN or HR_MANAGER
+ * - 404: Target or a duplicate does not exist
+ * - 409: Target and duplicate have different employee codes
+ * 
+ * @param {NextRequest} request - Request with JSON duplicate ids
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Merged employee with move counts
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<EmployeeMergeResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Employee', id);
+    }
+    
+    const duplicateIds = parseEmployeeMergeInput(await readJsonObject(request), id);
+    
+    const result = await prisma.$transaction(async (tx) => {
+      let target = await tx.employee.findUnique({ where: { id } });
+      if (!target) {
+        throw new RecordNotFoundError('Employee', id);
+      }
+      
+      let movedRecordCount = 0;
+      let discardedRecordCount = 0;
+      
+      for (const duplicateId of duplicateIds) {
+        const duplicate = await tx.employee.findUnique({ where: { id: duplicateId } });
+        if (!duplicate) {
+          throw new RecordNotFoundError('Employee', duplicateId);
+        }
+        
+        if (target.employeeCode && duplicate.employeeCode && target.employeeCode !== duplicate.employeeCode) {
+          throw new RecordConflictError(
+            `${duplicate.name} has employee code "${duplicate.employeeCode}" and ${target.name} has ` +
+            `"${target.employeeCode}"; employees with different codes cannot be merged`
+          );
+        }
+        
+        // Attendance: move free days, resolve days both employees have
+        const [targetRecords, duplicateRecords] = await Promise.all([
+          tx.attendanceRecord.findMany({ where: { employeeId: id }, select: { id: true, date: true, inTime: true } }),
+          tx.attendanceRecord.findMany({ where: { employeeId: duplicateId }, select: { id: true, date: true, inTime: true } }),
+        ]);
+        const targetByDay = new Map(targetRecords.map((record) => [formatDateOnly(record.date), record]));
+        
+        const movedIds: string[] = [];
+        const replacedIds: string[] = [];
+        const discardedIds: string[] = [];
+        for (const record of duplicateRecords) {
+          const existing = targetByDay.get(formatDateOnly(record.date));
+          if (!existing) {
+            movedIds.push(record.id);
+          } else if (existing.inTime === null && record.inTime !== null) {
+            replacedIds.push(existing.id);
+            movedIds.push(record.id);
+          } else {
+            discardedIds.push(record.id);
+          }
+        }
+        
+        await tx.attendanceAnomaly.deleteMany({
+          where: { attendanceRecordId: { in: [...replacedIds, ...discardedIds] } },
+        });
+        await tx.attendanceRecord.deleteMany({ where: { id: { in: [...replacedIds, ...discardedIds] } } });
+        await tx.attendanceRecord.updateMany({ where: { id: { in: movedIds } }, data: { employeeId: id } });
+        movedRecordCount += movedIds.length;
+        discardedRecordCount += replacedIds.length + discardedIds.length;
+        
+        // Leave entitlement overrides the target lacks
+        const targetEntitlementTypes = (
+          await tx.leaveEntitlement.findMany({ where: { employeeId: id }, select: { type: true } })
+        ).map((entitlement) => entitlement.type);
+        await tx.leaveEntitlement.deleteMany({
+          where: { employeeId: duplicateId, type: { in: targetEntitlementTypes } },
+        });
+        await tx.leaveEntitlement.updateMany({ where: { employeeId: duplicateId }, data: { employeeId: id } });
+        
+        // History, accounts, aliases and reports follow the target
+        await tx.leaveRequest.updateMany({ where: { employeeId: duplicateId }, data: { employeeId: id } });
+        await tx.attendanceAudit.updateMany({ where: { employeeId: duplicateId }, data: { employeeId: id } });
+        await tx.attendanceAnomaly.updateMany({ where: { employeeId: duplicateId }, data: { employeeId: id } });
+        await tx.replacedAttendanceRecord.updateMany({ where: { employeeId: duplicateId }, data: { employeeId: id } });
+        await tx.user.updateMany({ where: { employeeId: duplicateId }, data: { employeeId: id } });
+        await tx.employeeAlias.updateMany({ where: { employeeId: duplicateId }, data: { employeeId: id } });
+        await tx.employee.updateMany({
+          where: { managerId: duplicateId, id: { not: id } },
+          data: { managerId: id },
+        });
+        
+        await tx.employee.delete({ where: { id: duplicateId } });
+        
+        if (duplicate.name !== target.name) {
+          const aliasExists = await tx.employeeAlias.findUnique({ where: { alias: duplicate.name } });
+          if (!aliasExists) {
+            await tx.employeeAlias.create({ data: { alias: duplicate.name, employeeId: id } });
+          }
+        }
+        
+        target = await tx.employee.update({
+          where: { id },
+          data: {
+            employeeCode: target.employeeCode ?? duplicate.employeeCode,
+            employmentStartDate: target.employmentStartDate ?? duplicate.employmentStartDate,
+            employmentEndDate: target.employmentEndDate ?? duplicate.employmentEndDate,
+            shiftId: target.shiftId ?? duplicate.shiftId,
+            // Reporting to the duplicate means reporting to its manager now
+            managerId: target.managerId === duplicateId ? duplicate.managerId : target.managerId,
+            ...(target.departmentId === null && {
+              departmentId: duplicate.departmentId,
+              teamId: duplicate.teamId,
+            }),
+          },
+        });
+        
+        console.log(
+          `[EmployeeMerge] "${user.email}" merged "${duplicate.name}" into "${target.name}": ` +
+          `${movedIds.length} records moved, ${replacedIds.length + discardedIds.length} discarded`
+        );
+      }
+      
+      return { employee: target, movedRecordCount, discardedRecordCount };
+    });
+    
+    return NextResponse.json({
+      success: true,
+      message: `Merged ${duplicateIds.length} employee(s) into ${result.employee.name}`,
+      employee: toApiEmployee(result.employee),
+      details: {
+        mergedCount: duplicateIds.length,
+        movedRecordCount: result.movedRecordCount,
+        discardedRecordCount: result.discardedRecordCount,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'EmployeeMerge');
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Single Employee API Route
+ * 
+ * PATCH /api/employees/:id - Rename the employee, set the employee code,
+ *                            assign the manager, department, team and
+ *                            shift, or set the employment start and end
+ *                            dates
+ * 
+ * The employee code is the business key uploads prefer over the name, so
+ * no two employees may share one.
+ * 
+ * The manager decides which team lead sees the employee: a team lead's
+ * account sees everyone below the lead's own employee in the reporting
+ * line. Reporting lines cannot form a cycle.
+ * 
+ * A team implies its department: assigning a team also sets the
+ * department, and moving the employee to another department drops a team
+ * of the old one.
+ * 
+ * The employment dates limit the days the employee owes hours on, so they
+ * must not end before they start.
+ * 
+ * The shift decides late arrivals and early departures of days uploaded
+ * from now on; already-imported months change when they are re-uploaded.
+ * 
+ * REQUEST BODY (every field optional, null clears):
+ * { "name": "John Smith", "employeeCode": "E1042", "managerId": "65f1c2...",
+ *   "departmentId": "65f1d0...", "teamId": "65f1d4...", "shiftId": "65f1e2...",
+ *   "employmentStartDate": "2024-03-11", "employmentEndDate": null }
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/employees/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordConflictError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { toApiEmployee, type ApiEmployee } from '@/lib/api-v1';
+import { parseEmployeeUpdateInput } from '@/lib/employees';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject, RequestValidationError } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single employee
+ */
+interface EmployeeResponse {
+  success: true;
+  employee: ApiEmployee;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/employees/:id
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body, a reporting cycle, a team of another department, or
+ *        an employment end before its start
+ * - 401: Not signed in
+ * - 403: Not an ADMIN or HR_MANAGER
+ * - 404: Employee, manager, department, team or shift does not exist
+ * - 409: Another employee has the employee code
+ * 
+ * @param {NextRequest} request - Request with JSON changes
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated employee
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<EmployeeResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Employee', id);
+    }
+    
+    const input = parseEmployeeUpdateInput(await readJsonObject(request));
+    const data = { ...input };
+    
+    const current = await prisma.employee.findUnique({ where: { id }, include: { team: true } });
+    if (!current) {
+      throw new RecordNotFoundError('Employee', id);
+    }
+    
+    const employmentStartDate = input.employmentStartDate !== undefined
+      ? input.employmentStartDate
+      : current.employmentStartDate;
+    const employmentEndDate = input.employmentEndDate !== undefined
+      ? input.employmentEndDate
+      : current.employmentEndDate;
+    if (employmentStartDate && employmentEndDate && employmentEndDate < employmentStartDate) {
+      throw new RequestValidationError(
+        'employmentEndDate must be on or after employmentStartDate',
+        input.employmentEndDate !== undefined ? 'employmentEndDate' : 'employmentStartDate'
+      );
+    }
+    
+    if (input.employeeCode) {
+      const holder = await prisma.employee.findFirst({
+        where: { employeeCode: input.employeeCode, id: { not: id } },
+        select: { name: true },
+      });
+      if (holder) {
+        throw new RecordConflictError(`Employee code "${input.employeeCode}" already belongs to ${holder.name}`);
+      }
+    }
+    
+    if (input.managerId) {
+      // Walk up from the new manager; reaching this employee means a cycle
+      // (a cycle already stored above it ends the walk when an id repeats)
+      const visited = new Set<string>();
+      let managerId: string | null = input.managerId;
+      while (managerId && !visited.has(managerId)) {
+        if (managerId === id) {
+          throw new RequestValidationError('An employee cannot report to themselves or their own reports', 'managerId');
+        }
+        
+        const manager: { managerId: string | null } | null = await prisma.employee.findUnique({
+          where: { id: managerId },
+          select: { managerId: true },
+        });
+        if (!manager) {
+          throw new RecordNotFoundError('Employee', managerId);
+        }
+        visited.add(managerId);
+        managerId = manager.managerId;
+      }
+    }
+    
+    if (input.teamId) {
+      const team = await prisma.team.findUnique({ where: { id: input.teamId } });
+      if (!team) {
+        throw new RecordNotFoundError('Team', input.teamId);
+      }
+      
+      if (input.departmentId !== undefined && input.departmentId !== team.departmentId) {
+        throw new RequestValidationError('The team belongs to another department', 'teamId');
+      }
+      data.departmentId = team.departmentId;
+    } else if (input.departmentId !== undefined && input.teamId === undefined) {
+      if (current.team && current.team.departmentId !== input.departmentId) {
+        data.teamId = null;
+      }
+    }
+    
+    if (input.departmentId) {
+      const department = await prisma.department.findUnique({ where: { id: input.departmentId } });
+      if (!department) {
+        throw new RecordNotFoundError('Department', input.departmentId);
+      }
+    }
+    
+    if (input.shiftId) {
+      const shift = await prisma.shift.findUnique({ where: { id: input.shiftId } });
+      if (!shift) {
+        throw new RecordNotFoundError('Shift', input.shiftId);
+      }
+    }
+    
+    const employee = await prisma.employee.update({ where: { id }, data });
+    
+    console.log(
+      `[Employees] "${user.email}" updated "${employee.name}" (${employee.employeeCode ?? 'no code'}): manager ${employee.managerId ?? 'none'}, ` +
+      `department ${employee.departmentId ?? 'none'}, team ${employee.teamId ?? 'none'}, shift ${employee.shiftId ?? 'none'}`
+    );
+    
+    return NextResponse.json({ success: true, employee: toApiEmployee(employee) });
+  } catch (error) {
+    return handleApiError(error, 'Employees');
+  }
+}
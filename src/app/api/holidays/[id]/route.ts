@@ -0,0 +1,118 @@
+/**
+ * Single Holiday API Route
+ * 
+ * PATCH  /api/holidays/:id - Rename or move a holiday
+ * DELETE /api/holidays/:id - Remove a holiday
+ * 
+ * NOTE: HOLIDAY statuses are written at upload time. Changes here affect
+ * expected hours on the dashboard immediately, while stored statuses for
+ * already-imported months change when the month is re-uploaded.
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/holidays/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import { parseHolidayInput, toHolidaySummary, type HolidaySummary } from '@/lib/holidays';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single holiday
+ */
+interface HolidayResponse {
+  success: true;
+  holiday: HolidaySummary;
+}
+
+/**
+ * API response structure for deletions
+ */
+interface HolidayDeleteResponse {
+  success: true;
+  id: string;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/holidays/:id
+ * 
+ * @param {NextRequest} request - Request with partial JSON holiday body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated holiday
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<HolidayResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Holiday', id);
+    }
+    
+    const input = parseHolidayInput(await readJsonObject(request), true);
+    
+    const holiday = await prisma.holiday.update({
+      where: { id },
+      data: input,
+    });
+    
+    console.log(`[Holidays] Updated holiday ${id}`);
+    
+    return NextResponse.json({ success: true, holiday: toHolidaySummary(holiday) });
+  } catch (error) {
+    return handleApiError(error, 'Holidays');
+  }
+}
+
+/**
+ * DELETE /api/holidays/:id
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Deleted holiday id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<HolidayDeleteResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Holiday', id);
+    }
+    
+    await prisma.holiday.delete({ where: { id } });
+    
+    console.log(`[Holidays] Deleted holiday ${id}`);
+    
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return handleApiError(error, 'Holidays');
+  }
+}
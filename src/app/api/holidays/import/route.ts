@@ -0,0 +1,145 @@
+/**
+ * Holiday iCalendar Import API Route
+ * 
+ * POST /api/holidays/import
+ * 
+ * Imports holidays from an iCalendar (.ics) file sent as multipart FormData
+ * under the key "file". Each event date becomes a holiday; dates that
+ * already have a holiday are renamed to the event summary (upsert by date),
+ * so re-importing the same calendar is idempotent.
+ * 
+ * SECURITY:
+ * - File type validation (only .ics)
+ * - File size limit (1MB)
+ * - Content parsed as plain text, never executed
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/holidays/import/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, jsonError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { ICalendarParseError, parseICalendarHolidays } from '@/lib/holidays';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for successful imports
+ */
+interface HolidayImportResponse {
+  success: true;
+  message: string;
+  details: {
+    /** Holidays found in the file */
+    parsedCount: number;
+    
+    /** New holidays created */
+    createdCount: number;
+    
+    /** Existing holidays renamed */
+    updatedCount: number;
+  };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum accepted .ics file size (1MB)
+ */
+const MAX_ICS_FILE_SIZE = 1024 * 1024;
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/holidays/import
+ * 
+ * ERROR HANDLING:
+ * - 400: Missing file, wrong type, too large, or unparseable calendar
+ * - 500: Database failures
+ * 
+ * @param {NextRequest} request - Request with FormData containing the .ics file
+ * @returns {Promise<NextResponse>} Import statistics
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<HolidayImportResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    
+    if (!file) {
+      return jsonError(400, 'No file provided', 'Request must include a file in FormData with key "file"');
+    }
+    
+    if (!file.name.toLowerCase().endsWith('.ics')) {
+      return jsonError(400, `Invalid file type. Expected iCalendar file (.ics), got: ${file.name}`);
+    }
+    
+    if (file.size > MAX_ICS_FILE_SIZE) {
+      return jsonError(400, 'File too large', 'iCalendar files must be at most 1MB');
+    }
+    
+    const holidays = parseICalendarHolidays(await file.text());
+    
+    if (holidays.length === 0) {
+      return jsonError(400, 'No holidays found', 'The calendar contains no events');
+    }
+    
+    console.log(`[HolidayImport] Parsed ${holidays.length} holidays from ${file.name}`);
+    
+    // Upsert by date inside a transaction so a failure leaves no partial import
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.holiday.findMany({
+        where: { date: { in: holidays.map((holiday) => holiday.date) } },
+        select: { date: true },
+      });
+      const existingTimes = new Set(existing.map((holiday) => holiday.date.getTime()));
+      
+      for (const holiday of holidays) {
+        await tx.holiday.upsert({
+          where: { date: holiday.date },
+          update: { name: holiday.name },
+          create: holiday,
+        });
+      }
+      
+      const updatedCount = holidays.filter((holiday) => existingTimes.has(holiday.date.getTime())).length;
+      
+      return {
+        createdCount: holidays.length - updatedCount,
+        updatedCount,
+      };
+    });
+    
+    console.log(`[HolidayImport] Created ${result.createdCount}, updated ${result.updatedCount} holidays`);
+    
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${holidays.length} holidays from ${file.name}`,
+      details: {
+        parsedCount: holidays.length,
+        ...result,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ICalendarParseError) {
+      return jsonError(400, 'Invalid iCalendar file', error.message);
+    }
+    
+    return handleApiError(error, 'HolidayImport');
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Holiday Collection API Route
+ * 
+ * GET  /api/holidays?year=YYYY - List holidays (optionally for one year)
+ * POST /api/holidays           - Create a holiday
+ * 
+ * Holidays have zero expected hours. Unrecorded holiday dates are stored as
+ * HOLIDAY rather than ABSENT when attendance for their month is uploaded.
+ * 
+ * REQUEST BODY (POST):
+ * { "name": "Independence Day", "date": "2024-08-15" }
+ * 
+ * ACCESS: Listing requires a signed-in user; changes require ADMIN or HR_MANAGER.
+ * 
+ * @module app/api/holidays/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { parseNumberInRange, readJsonObject } from '@/lib/validation';
+import { parseHolidayInput, toHolidaySummary, type HolidaySummary } from '@/lib/holidays';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for holiday listings
+ */
+interface HolidayListResponse {
+  success: true;
+  holidays: HolidaySummary[];
+}
+
+/**
+ * API response structure for a single holiday
+ */
+interface HolidayResponse {
+  success: true;
+  holiday: HolidaySummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/holidays
+ * 
+ * @param {NextRequest} request - Request with optional `year` search param
+ * @returns {Promise<NextResponse>} Holidays ordered by date
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<HolidayListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser();
+    
+    const yearParam = request.nextUrl.searchParams.get('year');
+    const year = yearParam ? Math.trunc(parseNumberInRange(yearParam, 'year', 1900, 2100)) : null;
+    
+    const holidays = await prisma.holiday.findMany({
+      where: year
+        ? { date: { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) } }
+        : undefined,
+      orderBy: { date: 'asc' },
+    });
+    
+    return NextResponse.json({ success: true, holidays: holidays.map(toHolidaySummary) });
+  } catch (error) {
+    return handleApiError(error, 'Holidays');
+  }
+}
+
+/**
+ * POST /api/holidays
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 409: A holiday already exists on that date
+ * 
+ * @param {NextRequest} request - Request with JSON holiday body
+ * @returns {Promise<NextResponse>} Created holiday (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<HolidayResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const input = parseHolidayInput(await readJsonObject(request));
+    
+    const holiday = await prisma.holiday.create({ data: input });
+    
+    console.log(`[Holidays] Created holiday "${holiday.name}" on ${holiday.date.toISOString()}`);
+    
+    return NextResponse.json(
+      { success: true, holiday: toHolidaySummary(holiday) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Holidays');
+  }
+}
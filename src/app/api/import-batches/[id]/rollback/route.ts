@@ -0,0 +1,197 @@
+/**
+ * Import Batch Rollback API Route
+ * 
+ * POST /api/import-batches/:id/rollback - Undo an upload
+ * 
+ * Deletes the records the upload wrote and restores the records it
+ * replaced from their snapshots, under their original ids. Anomalies of
+ * the restored records are detected again, keeping review decisions where
+ * the same rule fires on the same day. Blocked while a later upload or an
+ * employee merge touched the same months (see findRollbackConflict in
+ * lib/import-batches).
+ * 
+ * ACCESS: ADMIN or HR_MANAGER; the signed-in user is recorded on the batch.
+ * 
+ * @module app/api/import-batches/[id]/rollback/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  RecordConflictError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/validation';
+import { detectAttendanceAnomalies } from '@/lib/anomalies';
+import { storeMonthAnomalies, takeAnomalyDecisions } from '@/lib/anomaly-queries';
+import { findRollbackConflict, toImportBatchSummary, type ImportBatchSummary } from '@/lib/import-batches';
+import { getMonthWindow } from '@/lib/months';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a rollback
+ */
+interface ImportBatchRollbackResponse {
+  success: true;
+  importBatch: ImportBatchSummary;
+
+  /** Records restored from the batch's snapshots */
+  restoredCount: number;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/import-batches/:id/rollback
+ * 
+ * ERROR HANDLING:
+ * - 401: Not signed in
+ * - 403: Not an ADMIN or HR_MANAGER
+ * - 404: Import batch does not exist
+ * - 409: Already rolled back, or a later upload or merge touched its months
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Rolled back batch
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ImportBatchRollbackResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Import batch', id);
+    }
+    
+    const { importBatch, restoredCount } = await prisma.$transaction(async (tx) => {
+      const batch = await tx.importBatch.findUnique({ where: { id } });
+      if (!batch) {
+        throw new RecordNotFoundError('Import batch', id);
+      }
+      
+      const scopes = batch.months.map(({ year, month, employeeIds }) => ({
+        employeeIds,
+        window: getMonthWindow(year, month),
+      }));
+      const scopeWhere = scopes.map(({ employeeIds, window }) => ({
+        employeeId: { in: employeeIds },
+        date: { gte: window.startDate, lte: window.endDate },
+      }));
+      
+      const scopeRecords = scopeWhere.length > 0
+        ? await tx.attendanceRecord.findMany({
+          where: { OR: scopeWhere },
+          select: { employeeId: true, date: true, importBatchId: true },
+        })
+        : [];
+      
+      const conflict = findRollbackConflict(batch, scopeRecords);
+      if (conflict) {
+        throw new RecordConflictError(conflict);
+      }
+      
+      // Conditional update so two concurrent rollbacks cannot both succeed
+      const { count } = await tx.importBatch.updateMany({
+        where: { id, status: 'APPLIED' },
+        data: { status: 'ROLLED_BACK', rolledBackBy: user.name, rolledBackAt: new Date() },
+      });
+      if (count === 0) {
+        throw new RecordConflictError('This upload was already rolled back');
+      }
+      
+      const [snapshots, shiftedEmployees] = await Promise.all([
+        tx.replacedAttendanceRecord.findMany({ where: { importBatchId: id } }),
+        tx.employee.findMany({
+          where: { id: { in: scopes.flatMap((scope) => scope.employeeIds) }, shiftId: { not: null } },
+          select: { id: true, shift: true },
+        }),
+      ]);
+      const shiftByEmployee = new Map(shiftedEmployees.map((employee) => [employee.id, employee.shift]));
+      
+      let restored = 0;
+      
+      for (const [index, { employeeIds, window }] of scopes.entries()) {
+        const decisions = await takeAnomalyDecisions(tx, employeeIds, window);
+        await tx.attendanceRecord.deleteMany({ where: scopeWhere[index] });
+        
+        const records = snapshots
+          .filter((snapshot) =>
+            employeeIds.includes(snapshot.employeeId) &&
+            snapshot.date >= window.startDate &&
+            snapshot.date <= window.endDate
+          )
+          .map((snapshot) => ({
+            id: snapshot.recordId,
+            employeeId: snapshot.employeeId,
+            importBatchId: snapshot.previousImportBatchId,
+            date: snapshot.date,
+            inTime: snapshot.inTime,
+            outTime: snapshot.outTime,
+            workedHours: snapshot.workedHours,
+            punches: snapshot.punches,
+            breakDeductionHours: snapshot.breakDeductionHours,
+            unmatchedPunchCount: snapshot.unmatchedPunchCount,
+            invertedPunchCount: snapshot.invertedPunchCount,
+            lateMinutes: snapshot.lateMinutes,
+            earlyDepartureMinutes: snapshot.earlyDepartureMinutes,
+            status: snapshot.status,
+            sourceRows: snapshot.sourceRows,
+            createdAt: snapshot.recordCreatedAt,
+          }));
+        
+        if (records.length > 0) {
+          await tx.attendanceRecord.createMany({ data: records });
+        }
+        
+        const detected = records.flatMap((record) =>
+          detectAttendanceAnomalies([record], shiftByEmployee.get(record.employeeId) ?? null)
+        );
+        await storeMonthAnomalies(tx, employeeIds, window, detected, decisions);
+        
+        restored += records.length;
+      }
+      
+      // The snapshots are restored; the batch keeps its provenance only
+      await tx.replacedAttendanceRecord.deleteMany({ where: { importBatchId: id } });
+      
+      return {
+        importBatch: await tx.importBatch.findUniqueOrThrow({ where: { id } }),
+        restoredCount: restored,
+      };
+    });
+    
+    console.log(
+      `[ImportBatches] Rolled back "${importBatch.filename}" (${id}) by "${user.name}": ` +
+      `${importBatch.recordCount} records removed, ${restoredCount} restored`
+    );
+    
+    return NextResponse.json({
+      success: true,
+      importBatch: toImportBatchSummary(importBatch),
+      restoredCount,
+    });
+  } catch (error) {
+    return handleApiError(error, 'ImportBatches');
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Import Batch Collection API Route
+ * 
+ * GET /api/import-batches - List recorded uploads, newest first
+ * 
+ * Import batches are recorded by POST /api/upload and rolled back through
+ * POST /api/import-batches/:id/rollback (see lib/import-batches).
+ * 
+ * ACCESS: ADMIN or HR_MANAGER.
+ * 
+ * @module app/api/import-batches/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { toImportBatchSummary, type ImportBatchSummary } from '@/lib/import-batches';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for import batch listings
+ */
+interface ImportBatchListResponse {
+  success: true;
+  importBatches: ImportBatchSummary[];
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/import-batches
+ * 
+ * ERROR HANDLING:
+ * - 401: Not signed in
+ * - 403: Not an ADMIN or HR_MANAGER
+ * 
+ * @returns {Promise<NextResponse>} Import batches, newest first
+ */
+export async function GET(): Promise<NextResponse<ImportBatchListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const importBatches = await prisma.importBatch.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      importBatches: importBatches.map(toImportBatchSummary),
+    });
+  } catch (error) {
+    return handleApiError(error, 'ImportBatches');
+  }
+}
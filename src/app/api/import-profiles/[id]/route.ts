@@ -0,0 +1,121 @@
+/**
+ * Single Import Profile API Route
+ * 
+ * PATCH  /api/import-profiles/:id - Update fields of an existing profile
+ * DELETE /api/import-profiles/:id - Remove a profile
+ * 
+ * Profiles only affect how files are read at upload time; changing or
+ * deleting one never alters attendance that was already imported.
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/import-profiles/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import {
+  parseImportProfileInput,
+  toImportProfileSummary,
+  type ImportProfileSummary,
+} from '@/lib/import-profiles';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single profile
+ */
+interface ImportProfileResponse {
+  success: true;
+  profile: ImportProfileSummary;
+}
+
+/**
+ * API response structure for deletions
+ */
+interface ImportProfileDeleteResponse {
+  success: true;
+  id: string;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/import-profiles/:id
+ * 
+ * @param {NextRequest} request - Request with partial JSON profile body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated profile
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ImportProfileResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Import profile', id);
+    }
+    
+    const input = parseImportProfileInput(await readJsonObject(request), true);
+    
+    const profile = await prisma.importProfile.update({
+      where: { id },
+      data: input,
+    });
+    
+    console.log(`[ImportProfiles] Updated profile ${id}`);
+    
+    return NextResponse.json({ success: true, profile: toImportProfileSummary(profile) });
+  } catch (error) {
+    return handleApiError(error, 'ImportProfiles');
+  }
+}
+
+/**
+ * DELETE /api/import-profiles/:id
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Deleted profile id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ImportProfileDeleteResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Import profile', id);
+    }
+    
+    await prisma.importProfile.delete({ where: { id } });
+    
+    console.log(`[ImportProfiles] Deleted profile ${id}`);
+    
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return handleApiError(error, 'ImportProfiles');
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Import Profile Collection API Route
+ * 
+ * GET  /api/import-profiles - List all import profiles ordered by name
+ * POST /api/import-profiles - Create a new import profile
+ * 
+ * Profiles map the headers of a source spreadsheet onto attendance fields so
+ * files exported by other systems can be uploaded without editing. The
+ * upload route applies a profile when its id is sent as "profileId".
+ * 
+ * REQUEST BODY (POST):
+ * {
+ *   "name": "Biometric export",
+ *   "sheetName": "Punches",
+ *   "dateFormat": "dd/MM/yyyy",
+ *   "columns": { "employeeName": "Staff", "date": "Day", "inTime": "First In", "outTime": "Last Out" }
+ * }
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/import-profiles/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { readJsonObject } from '@/lib/validation';
+import {
+  parseImportProfileInput,
+  toImportProfileSummary,
+  type ImportProfileSummary,
+} from '@/lib/import-profiles';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for profile listings
+ */
+interface ImportProfileListResponse {
+  success: true;
+  profiles: ImportProfileSummary[];
+}
+
+/**
+ * API response structure for a single profile
+ */
+interface ImportProfileResponse {
+  success: true;
+  profile: ImportProfileSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/import-profiles
+ * 
+ * @returns {Promise<NextResponse>} All profiles, alphabetical
+ */
+export async function GET(): Promise<NextResponse<ImportProfileListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const profiles = await prisma.importProfile.findMany({
+      orderBy: { name: 'asc' },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      profiles: profiles.map(toImportProfileSummary),
+    });
+  } catch (error) {
+    return handleApiError(error, 'ImportProfiles');
+  }
+}
+
+/**
+ * POST /api/import-profiles
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 409: A profile with the same name already exists
+ * 
+ * @param {NextRequest} request - Request with JSON profile body
+ * @returns {Promise<NextResponse>} Created profile (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ImportProfileResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const input = parseImportProfileInput(await readJsonObject(request));
+    
+    const profile = await prisma.importProfile.create({ data: input });
+    
+    console.log(`[ImportProfiles] Created profile "${profile.name}"`);
+    
+    return NextResponse.json(
+      { success: true, profile: toImportProfileSummary(profile) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'ImportProfiles');
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Leave Balance API Route
+ * 
+ * GET /api/leave-balances?employeeId=...&asOf=YYYY-MM-DD - Balances as of a date
+ * 
+ * Balances are calculated on demand from the leave entitlements, recorded
+ * ABSENT days and approved leave (see lib/leave-balances for the rules).
+ * Without employeeId every employee the caller may see is returned; without
+ * asOf the balance is calculated for today.
+ * 
+ * RESPONSE:
+ * {
+ *   "success": true,
+ *   "asOf": "2024-06-30",
+ *   "employees": [
+ *     { "employeeId": "...", "employeeName": "John Doe",
+ *       "balances": [{ "type": "CASUAL", "annualDays": 12, "carriedForward": 0,
+ *                      "accrued": 6, "used": 2, "remaining": 4 }] }
+ *   ]
+ * }
+ * 
+ * @module app/api/leave-balances/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { startOfDay } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  PermissionDeniedError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { getEmployeeScope, requireApiUser } from '@/lib/auth';
+import {
+  formatDateOnly,
+  isValidObjectId,
+  parseDateOnly,
+  RequestValidationError,
+} from '@/lib/validation';
+import { getLeaveBalances } from '@/lib/leave-balance-queries';
+import type { LeaveBalance } from '@/lib/leave-balances';
+import { isInScope, toScopeFilter } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Balances of one employee
+ */
+interface EmployeeLeaveBalances {
+  employeeId: string;
+  employeeName: string;
+  balances: LeaveBalance[];
+}
+
+/**
+ * API response structure for balance queries
+ */
+interface LeaveBalanceResponse {
+  success: true;
+
+  /** Balance date (YYYY-MM-DD) */
+  asOf: string;
+
+  employees: EmployeeLeaveBalances[];
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/leave-balances
+ * 
+ * ERROR HANDLING:
+ * - 400: Malformed employeeId or asOf
+ * - 401: Not signed in
+ * - 403: Employee is outside the caller's scope
+ * - 404: Employee does not exist
+ * 
+ * @param {NextRequest} request - Request with optional `employeeId` and `asOf` search params
+ * @returns {Promise<NextResponse>} Balances per employee, alphabetical
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<LeaveBalanceResponse | ApiErrorResponse>> {
+  try {
+    const scope = await getEmployeeScope(await requireApiUser());
+    
+    const searchParams = request.nextUrl.searchParams;
+    const employeeId = searchParams.get('employeeId');
+    const asOfParam = searchParams.get('asOf');
+    
+    if (employeeId !== null && !isValidObjectId(employeeId)) {
+      throw new RequestValidationError('employeeId must be a valid employee id', 'employeeId');
+    }
+    
+    if (employeeId !== null && !isInScope(scope, employeeId)) {
+      throw new PermissionDeniedError('You may only view employees in your scope');
+    }
+    
+    const asOf = asOfParam ? parseDateOnly(asOfParam, 'asOf') : startOfDay(new Date());
+    
+    const employees = await prisma.employee.findMany({
+      where: employeeId ? { id: employeeId } : { id: toScopeFilter(scope) },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+    
+    if (employeeId && employees.length === 0) {
+      throw new RecordNotFoundError('Employee', employeeId);
+    }
+    
+    const balances = await getLeaveBalances(employees.map((employee) => employee.id), asOf);
+    
+    return NextResponse.json({
+      success: true,
+      asOf: formatDateOnly(asOf),
+      employees: employees.map((employee) => ({
+        employeeId: employee.id,
+        employeeName: employee.name,
+        balances: balances.get(employee.id) ?? [],
+      })),
+    });
+  } catch (error) {
+    return handleApiError(error, 'LeaveBalances');
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Single Leave Entitlement API Route
+ * 
+ * PATCH  /api/leave-entitlements/:id - Update fields of an existing entitlement
+ * DELETE /api/leave-entitlements/:id - Remove an entitlement
+ * 
+ * Balances are calculated on demand from the entitlement and recorded
+ * absences, so changes apply retroactively to every balance date.
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/leave-entitlements/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import {
+  parseLeaveEntitlementInput,
+  toLeaveEntitlementSummary,
+  type LeaveEntitlementSummary,
+} from '@/lib/leave-balances';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single entitlement
+ */
+interface LeaveEntitlementResponse {
+  success: true;
+  entitlement: LeaveEntitlementSummary;
+}
+
+/**
+ * API response structure for deletions
+ */
+interface LeaveEntitlementDeleteResponse {
+  success: true;
+  id: string;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/leave-entitlements/:id
+ * 
+ * @param {NextRequest} request - Request with partial JSON entitlement body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated entitlement
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<LeaveEntitlementResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Leave entitlement', id);
+    }
+    
+    const input = parseLeaveEntitlementInput(await readJsonObject(request), true);
+    
+    if (input.employeeId) {
+      const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+      if (!employee) {
+        throw new RecordNotFoundError('Employee', input.employeeId);
+      }
+    }
+    
+    const entitlement = await prisma.leaveEntitlement.update({
+      where: { id },
+      data: input,
+      include: { employee: true },
+    });
+    
+    console.log(`[LeaveEntitlements] Updated entitlement ${id}`);
+    
+    return NextResponse.json({ success: true, entitlement: toLeaveEntitlementSummary(entitlement) });
+  } catch (error) {
+    return handleApiError(error, 'LeaveEntitlements');
+  }
+}
+
+/**
+ * DELETE /api/leave-entitlements/:id
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Deleted entitlement id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<LeaveEntitlementDeleteResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Leave entitlement', id);
+    }
+    
+    await prisma.leaveEntitlement.delete({ where: { id } });
+    
+    console.log(`[LeaveEntitlements] Deleted entitlement ${id}`);
+    
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return handleApiError(error, 'LeaveEntitlements');
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Leave Entitlement Collection API Route
+ * 
+ * GET  /api/leave-entitlements - List entitlements (company defaults first)
+ * POST /api/leave-entitlements - Create an entitlement
+ * 
+ * An entitlement without employeeId is the company default for its leave
+ * type; one with employeeId overrides the default for that employee.
+ * 
+ * REQUEST BODY (POST):
+ * {
+ *   "employeeId": null,
+ *   "type": "EARNED",
+ *   "annualDays": 18,
+ *   "accrualFrequency": "MONTHLY",
+ *   "carryForwardCap": 5,
+ *   "effectiveFrom": "2024-01-01"
+ * }
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/leave-entitlements/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { readJsonObject } from '@/lib/validation';
+import {
+  parseLeaveEntitlementInput,
+  toLeaveEntitlementSummary,
+  type LeaveEntitlementSummary,
+} from '@/lib/leave-balances';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for entitlement listings
+ */
+interface LeaveEntitlementListResponse {
+  success: true;
+  entitlements: LeaveEntitlementSummary[];
+}
+
+/**
+ * API response structure for a single entitlement
+ */
+interface LeaveEntitlementResponse {
+  success: true;
+  entitlement: LeaveEntitlementSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/leave-entitlements
+ * 
+ * @returns {Promise<NextResponse>} All entitlements
+ */
+export async function GET(): Promise<NextResponse<LeaveEntitlementListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const entitlements = await prisma.leaveEntitlement.findMany({
+      include: { employee: true },
+      orderBy: [{ employeeId: 'asc' }, { type: 'asc' }],
+    });
+    
+    return NextResponse.json({
+      success: true,
+      entitlements: entitlements.map(toLeaveEntitlementSummary),
+    });
+  } catch (error) {
+    return handleApiError(error, 'LeaveEntitlements');
+  }
+}
+
+/**
+ * POST /api/leave-entitlements
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 404: Employee does not exist
+ * - 409: An entitlement for the same employee (or default) and type exists
+ * 
+ * @param {NextRequest} request - Request with JSON entitlement body
+ * @returns {Promise<NextResponse>} Created entitlement (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<LeaveEntitlementResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const input = parseLeaveEntitlementInput(await readJsonObject(request));
+    
+    if (input.employeeId) {
+      const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+      if (!employee) {
+        throw new RecordNotFoundError('Employee', input.employeeId);
+      }
+    }
+    
+    const entitlement = await prisma.leaveEntitlement.create({
+      data: input,
+      include: { employee: true },
+    });
+    
+    console.log(
+      `[LeaveEntitlements] Created ${entitlement.type} entitlement for ${entitlement.employee?.name ?? 'all employees'}`
+    );
+    
+    return NextResponse.json(
+      { success: true, entitlement: toLeaveEntitlementSummary(entitlement) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'LeaveEntitlements');
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Leave Request Approval API Route
+ * 
+ * POST /api/leave-requests/:id/approve - Approve a pending leave request
+ * 
+ * Once approved, ABSENT days inside the request's date range count as
+ * approved leave instead of unexplained absences on the dashboard. The
+ * stored attendance records are not modified, so later uploads of the same
+ * month keep the classification.
+ * 
+ * REQUEST BODY:
+ * { "note": "Get well soon" }
+ * 
+ * ACCESS: ADMIN, HR_MANAGER or TEAM_LEAD, for employees in their scope.
+ * Nobody decides their own request; the signed-in user is recorded as the
+ * approver.
+ * 
+ * @module app/api/leave-requests/[id]/approve/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  PermissionDeniedError,
+  RecordConflictError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { getEmployeeScope, requireApiUser } from '@/lib/auth';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import {
+  parseLeaveDecisionInput,
+  toLeaveRequestSummary,
+  type LeaveRequestSummary,
+} from '@/lib/leave-requests';
+import { isInScope, LEAVE_APPROVER_ROLES } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single leave request
+ */
+interface LeaveRequestResponse {
+  success: true;
+  leaveRequest: LeaveRequestSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/leave-requests/:id/approve
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid note
+ * - 401: Not signed in
+ * - 403: Not an approver, the employee is outside the approver's scope, or
+ *   the request is the approver's own
+ * - 404: Leave request does not exist
+ * - 409: Request was already approved or rejected
+ * 
+ * @param {NextRequest} request - Request with JSON decision body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Approved leave request
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<LeaveRequestResponse | ApiErrorResponse>> {
+  try {
+    const approver = await requireApiUser(LEAVE_APPROVER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Leave request', id);
+    }
+    
+    const decision = parseLeaveDecisionInput(await readJsonObject(request), approver.name);
+    
+    const pending = await prisma.leaveRequest.findUnique({ where: { id } });
+    if (!pending) {
+      throw new RecordNotFoundError('Leave request', id);
+    }
+    
+    if (pending.employeeId === approver.employeeId) {
+      throw new PermissionDeniedError('You cannot decide your own leave request');
+    }
+    
+    if (!isInScope(await getEmployeeScope(approver), pending.employeeId)) {
+      throw new PermissionDeniedError('You may only decide leave requests of your reports');
+    }
+    
+    // Conditional update so two concurrent decisions cannot both succeed
+    const { count } = await prisma.leaveRequest.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { ...decision, status: 'APPROVED', decidedAt: new Date() },
+    });
+    
+    const leaveRequest = await prisma.leaveRequest.findUnique({
+      where: { id },
+      include: { employee: true },
+    });
+    
+    if (!leaveRequest) {
+      throw new RecordNotFoundError('Leave request', id);
+    }
+    
+    if (count === 0) {
+      throw new RecordConflictError(`Leave request is already ${leaveRequest.status.toLowerCase()}`);
+    }
+    
+    console.log(`[LeaveRequests] Approved leave request ${id} by "${decision.approver}"`);
+    
+    return NextResponse.json({ success: true, leaveRequest: toLeaveRequestSummary(leaveRequest) });
+  } catch (error) {
+    return handleApiError(error, 'LeaveRequests');
+  }
+}
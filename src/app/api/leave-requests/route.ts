@@ -0,0 +1,177 @@
+/**
+ * Leave Request Collection API Route
+ * 
+ * GET  /api/leave-requests?status=PENDING&employeeId=... - List leave requests
+ * POST /api/leave-requests                               - Submit a leave request
+ * 
+ * Submitted requests start as PENDING and are decided through
+ * POST /api/leave-requests/:id/approve or /reject. ABSENT days covered by an
+ * approved request count as approved leave on the dashboard.
+ * 
+ * REQUEST BODY (POST):
+ * {
+ *   "employeeId": "65f1c2...",
+ *   "type": "SICK",
+ *   "startDate": "2024-03-04",
+ *   "endDate": "2024-03-05",
+ *   "reason": "Flu"
+ * }
+ * 
+ * ACCESS: Any signed-in user, limited to the employees they may see, so
+ * employees list and submit only their own leave.
+ * 
+ * @module app/api/leave-requests/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  PermissionDeniedError,
+  RecordConflictError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { getEmployeeScope, requireApiUser } from '@/lib/auth';
+import { isValidObjectId, readJsonObject, RequestValidationError } from '@/lib/validation';
+import {
+  parseLeaveRequestInput,
+  parseLeaveRequestStatus,
+  toLeaveRequestSummary,
+  type LeaveRequestSummary,
+} from '@/lib/leave-requests';
+import { isInScope, toScopeFilter } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for leave request listings
+ */
+interface LeaveRequestListResponse {
+  success: true;
+  leaveRequests: LeaveRequestSummary[];
+}
+
+/**
+ * API response structure for a single leave request
+ */
+interface LeaveRequestResponse {
+  success: true;
+  leaveRequest: LeaveRequestSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/leave-requests
+ * 
+ * ERROR HANDLING:
+ * - 400: Malformed status or employeeId
+ * - 401: Not signed in
+ * - 403: Employee is outside the caller's scope
+ * 
+ * @param {NextRequest} request - Request with optional `status` and `employeeId` search params
+ * @returns {Promise<NextResponse>} Leave requests, newest start date first
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<LeaveRequestListResponse | ApiErrorResponse>> {
+  try {
+    const scope = await getEmployeeScope(await requireApiUser());
+    
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status');
+    const employeeId = searchParams.get('employeeId');
+    
+    if (employeeId !== null && !isValidObjectId(employeeId)) {
+      throw new RequestValidationError('employeeId must be a valid employee id', 'employeeId');
+    }
+    
+    if (employeeId !== null && !isInScope(scope, employeeId)) {
+      throw new PermissionDeniedError('You may only view employees in your scope');
+    }
+    
+    const leaveRequests = await prisma.leaveRequest.findMany({
+      where: {
+        status: statusParam ? parseLeaveRequestStatus(statusParam) : undefined,
+        employeeId: employeeId ?? toScopeFilter(scope),
+      },
+      include: { employee: true },
+      orderBy: [{ startDate: 'desc' }, { createdAt: 'desc' }],
+    });
+    
+    return NextResponse.json({
+      success: true,
+      leaveRequests: leaveRequests.map(toLeaveRequestSummary),
+    });
+  } catch (error) {
+    return handleApiError(error, 'LeaveRequests');
+  }
+}
+
+/**
+ * POST /api/leave-requests
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 401: Not signed in
+ * - 403: Employee is outside the caller's scope
+ * - 404: Employee does not exist
+ * - 409: Range overlaps a pending or approved request of the same employee
+ * 
+ * @param {NextRequest} request - Request with JSON leave request body
+ * @returns {Promise<NextResponse>} Created leave request (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<LeaveRequestResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser();
+    const input = parseLeaveRequestInput(await readJsonObject(request));
+    
+    if (!isInScope(await getEmployeeScope(user), input.employeeId)) {
+      throw new PermissionDeniedError('You may only request leave for employees in your scope');
+    }
+    
+    const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+    if (!employee) {
+      throw new RecordNotFoundError('Employee', input.employeeId);
+    }
+    
+    // Rejected requests may be resubmitted; open or approved ones may not overlap
+    const overlapping = await prisma.leaveRequest.findFirst({
+      where: {
+        employeeId: input.employeeId,
+        status: { in: ['PENDING', 'APPROVED'] },
+        startDate: { lte: input.endDate },
+        endDate: { gte: input.startDate },
+      },
+    });
+    
+    if (overlapping) {
+      throw new RecordConflictError(
+        `${employee.name} already has a ${overlapping.status.toLowerCase()} leave request overlapping these dates`
+      );
+    }
+    
+    const leaveRequest = await prisma.leaveRequest.create({
+      data: input,
+      include: { employee: true },
+    });
+    
+    console.log(`[LeaveRequests] "${user.email}" submitted ${leaveRequest.type} leave for "${employee.name}"`);
+    
+    return NextResponse.json(
+      { success: true, leaveRequest: toLeaveRequestSummary(leaveRequest) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'LeaveRequests');
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Roster Import API Route
+ * 
+ * POST /api/roster/import
+ * 
+ * Imports a roster sheet (.xlsx, .xls, .csv or .tsv, multipart FormData key
+ * "file") assigning employees to departments, teams and managers. The
+ * first worksheet is read; its header row names the columns:
+ * 
+ * | Employee Name | Department  | Team     | Manager    |
+ * |---------------|-------------|----------|------------|
+ * | John Doe      | Engineering | Platform | Jane Smith |
+ * 
+ * BEHAVIOUR:
+ * - Only Employee Name is required; a missing column leaves that field
+ *   unchanged, an empty cell clears it
+ * - Unknown departments, teams and employees are created
+ * - Managers must be existing employees or listed in the roster
+ * - Employees are matched by name, so a name shared by several employees
+ *   is rejected; merge or rename them first
+ * - Any invalid row rejects the whole file (nothing is written)
+ * - Re-importing the same roster is idempotent
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/roster/import/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import * as XLSX from 'xlsx';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, jsonError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { SPREADSHEET_EXTENSIONS, isSpreadsheetFile, readWorkbook } from '@/lib/spreadsheet-files';
+import { parseRosterSheet, ROSTER_COLUMNS, type RosterRowError } from '@/lib/org-chart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for successful imports
+ */
+interface RosterImportResponse {
+  success: true;
+  message: string;
+  details: {
+    /** Roster rows applied */
+    employeeCount: number;
+    
+    /** Employees created because they did not exist yet */
+    createdEmployeeCount: number;
+    
+    createdDepartmentCount: number;
+    createdTeamCount: number;
+  };
+}
+
+/**
+ * API response structure for rejected rosters
+ */
+interface RosterValidationErrorResponse extends ApiErrorResponse {
+  /** Validation issues (capped at MAX_REPORTED_ROW_ERRORS) */
+  rowErrors: RosterRowError[];
+
+  /** Total number of issues found */
+  rowErrorCount: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum accepted roster file size (5MB)
+ */
+const MAX_ROSTER_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Maximum number of row errors returned in a response
+ */
+const MAX_REPORTED_ROW_ERRORS = 1000;
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * POST /api/roster/import
+ * 
+ * ERROR HANDLING:
+ * - 400: Missing file, wrong type, too large, no Employee Name column,
+ *   invalid rows (with `rowErrors`) or an empty roster
+ * - 401: Not signed in
+ * - 403: Not an ADMIN or HR_MANAGER
+ * - 500: Database failures
+ * 
+ * @param {NextRequest} request - Request with FormData containing the roster file
+ * @returns {Promise<NextResponse>} Import statistics
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<RosterImportResponse | RosterValidationErrorResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    
+    if (!file) {
+      return jsonError(400, 'No file provided', 'Request must include a file in FormData with key "file"');
+    }
+    
+    if (!isSpreadsheetFile(file.name)) {
+      return jsonError(400, `Invalid file type. Expected ${SPREADSHEET_EXTENSIONS.join(', ')}, got: ${file.name}`);
+    }
+    
+    if (file.size > MAX_ROSTER_FILE_SIZE) {
+      return jsonError(400, 'File too large', 'Roster files must be at most 5MB');
+    }
+    
+    // ========================================================================
+    // STEP 1: PARSE AND VALIDATE ROWS
+    // ========================================================================
+    
+    const workbook = readWorkbook(await file.arrayBuffer(), file.name);
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = worksheet
+      ? XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: false, defval: '', blankrows: true })
+      : [];
+    
+    const { entries, errors } = parseRosterSheet(rows);
+    
+    const [employees, departments, teams] = await Promise.all([
+      prisma.employee.findMany({ select: { id: true, name: true, managerId: true, teamId: true } }),
+      prisma.department.findMany(),
+      prisma.team.findMany(),
+    ]);
+    
+    const employeeNameById = new Map(employees.map((employee) => [employee.id, employee.name]));
+    const rosterNames = new Set(entries.map((entry) => entry.employeeName));
+    const knownNames = new Set([...employeeNameById.values(), ...rosterNames]);
+    
+    // Names are not unique; the roster cannot tell namesakes apart
+    const sharedNames = new Set(
+      employees
+        .map((employee) => employee.name)
+        .filter((name, index, names) => names.indexOf(name) !== index)
+    );
+    for (const entry of entries) {
+      for (const [column, name] of [
+        [ROSTER_COLUMNS.employeeName, entry.employeeName],
+        [ROSTER_COLUMNS.managerName, entry.managerName],
+      ] as const) {
+        if (name && sharedNames.has(name)) {
+          errors.push({
+            row: entry.row,
+            column,
+            value: name,
+            reason: 'Several employees have this name; merge or rename them first',
+          });
+        }
+      }
+    }
+    
+    // Reporting lines after the import, by employee name
+    const managerByName = new Map<string, string | null>(
+      employees.map((employee) => [
+        employee.name,
+        employee.managerId ? employeeNameById.get(employee.managerId) ?? null : null,
+      ])
+    );
+    for (const entry of entries) {
+      if (entry.managerName !== undefined) {
+        managerByName.set(entry.employeeName, entry.managerName);
+      } else if (!managerByName.has(entry.employeeName)) {
+        managerByName.set(entry.employeeName, null);
+      }
+    }
+    
+    for (const entry of entries) {
+      if (!entry.managerName) {
+        continue;
+      }
+      
+      if (!knownNames.has(entry.managerName)) {
+        errors.push({
+          row: entry.row,
+          column: ROSTER_COLUMNS.managerName,
+          value: entry.managerName,
+          reason: 'Manager is neither an existing employee nor listed in the roster',
+        });
+        continue;
+      }
+      
+      // Walk up from the manager; reaching the employee means a cycle
+      const visited = new Set<string>();
+      let current: string | null | undefined = entry.managerName;
+      while (current && !visited.has(current)) {
+        if (current === entry.employeeName) {
+          errors.push({
+            row: entry.row,
+            column: ROSTER_COLUMNS.managerName,
+            value: entry.managerName,
+            reason: 'Reporting line would form a cycle',
+          });
+          break;
+        }
+        visited.add(current);
+        current = managerByName.get(current);
+      }
+    }
+    
+    console.log(
+      `[RosterImport] "${user.email}" uploaded "${file.name}": ${entries.length} rows, ${errors.length} errors`
+    );
+    
+    if (errors.length > 0) {
+      errors.sort((a, b) => a.row - b.row);
+      const invalidRowCount = new Set(errors.map((error) => error.row)).size;
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: `${invalidRowCount} row(s) contain ${errors.length} error(s). Fix them and import the roster again.`,
+          rowErrors: errors.slice(0, MAX_REPORTED_ROW_ERRORS),
+          rowErrorCount: errors.length,
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (entries.length === 0) {
+      return jsonError(400, 'No employees found', 'The roster has no rows below the header');
+    }
+    
+    // ========================================================================
+    // STEP 2: APPLY IN ONE TRANSACTION
+    // ========================================================================
+    
+    const result = await prisma.$transaction(async (tx) => {
+      // Departments by name, creating missing ones
+      const departmentIdByName = new Map(departments.map((department) => [department.name, department.id]));
+      let createdDepartmentCount = 0;
+      for (const entry of entries) {
+        if (entry.departmentName && !departmentIdByName.has(entry.departmentName)) {
+          const department = await tx.department.create({ data: { name: entry.departmentName } });
+          departmentIdByName.set(department.name, department.id);
+          createdDepartmentCount += 1;
+        }
+      }
+      
+      // Teams by "<departmentId>|<name>", creating missing ones
+      const teamIdByKey = new Map(teams.map((team) => [`${team.departmentId}|${team.name}`, team.id]));
+      let createdTeamCount = 0;
+      for (const entry of entries) {
+        if (!entry.teamName || !entry.departmentName) {
+          continue;
+        }
+        
+        const departmentId = departmentIdByName.get(entry.departmentName) as string;
+        const key = `${departmentId}|${entry.teamName}`;
+        if (!teamIdByKey.has(key)) {
+          const team = await tx.team.create({ data: { name: entry.teamName, departmentId } });
+          teamIdByKey.set(key, team.id);
+          createdTeamCount += 1;
+        }
+      }
+      
+      // Employees by name, creating roster employees that do not exist yet
+      const employeeByName = new Map(employees.map((employee) => [employee.name, employee]));
+      let createdEmployeeCount = 0;
+      for (const entry of entries) {
+        if (!employeeByName.has(entry.employeeName)) {
+          const employee = await tx.employee.create({
+            data: { name: entry.employeeName },
+            select: { id: true, name: true, managerId: true, teamId: true },
+          });
+          employeeByName.set(employee.name, employee);
+          createdEmployeeCount += 1;
+        }
+      }
+      
+      const teamDepartmentById = new Map(teams.map((team) => [team.id, team.departmentId]));
+      
+      for (const entry of entries) {
+        const employee = employeeByName.get(entry.employeeName) as { id: string; teamId: string | null };
+        const data: { departmentId?: string | null; teamId?: string | null; managerId?: string | null } = {};
+        
+        if (entry.departmentName !== undefined) {
+          data.departmentId = entry.departmentName ? departmentIdByName.get(entry.departmentName) ?? null : null;
+          
+          // Without a Team column, keep the team only if it is in the new department
+          if (
+            entry.teamName === undefined &&
+            employee.teamId &&
+            teamDepartmentById.get(employee.teamId) !== data.departmentId
+          ) {
+            data.teamId = null;
+          }
+        }
+        
+        if (entry.teamName !== undefined) {
+          data.teamId = entry.teamName && data.departmentId
+            ? teamIdByKey.get(`${data.departmentId}|${entry.teamName}`) ?? null
+            : null;
+        }
+        
+        if (entry.managerName !== undefined) {
+          data.managerId = entry.managerName ? employeeByName.get(entry.managerName)?.id ?? null : null;
+        }
+        
+        if (Object.keys(data).length > 0) {
+          await tx.employee.update({ where: { id: employee.id }, data });
+        }
+      }
+      
+      return { createdEmployeeCount, createdDepartmentCount, createdTeamCount };
+    });
+    
+    console.log(
+      `[RosterImport] Applied ${entries.length} rows: ${result.createdEmployeeCount} employees, ` +
+      `${result.createdDepartmentCount} departments, ${result.createdTeamCount} teams created`
+    );
+    
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${entries.length} employees from ${file.name}`,
+      details: {
+        employeeCount: entries.length,
+        ...result,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'RosterImport');
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Single Shift API Route
+ * 
+ * PATCH  /api/shifts/:id - Rename a shift or change its times
+ * DELETE /api/shifts/:id - Remove a shift
+ * 
+ * NOTE: Late and early minutes are written at upload time. Changes here
+ * apply to months uploaded (or days corrected) afterwards; already-imported
+ * months change when they are re-uploaded. Employees of a deleted shift
+ * keep their records and simply lose the shift.
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/shifts/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import { parseShiftInput, toShiftSummary, validateShiftTimes, type ShiftSummary } from '@/lib/shifts';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single shift
+ */
+interface ShiftResponse {
+  success: true;
+  shift: ShiftSummary;
+}
+
+/**
+ * API response structure for deletions
+ */
+interface ShiftDeleteResponse {
+  success: true;
+  id: string;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/shifts/:id
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body, or the resulting start equals the end
+ * - 404: Shift does not exist
+ * - 409: Another shift has that name
+ * 
+ * @param {NextRequest} request - Request with partial JSON shift body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated shift
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ShiftResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Shift', id);
+    }
+    
+    const input = parseShiftInput(await readJsonObject(request), true);
+    
+    const current = await prisma.shift.findUnique({ where: { id } });
+    if (!current) {
+      throw new RecordNotFoundError('Shift', id);
+    }
+    validateShiftTimes({ ...current, ...input });
+    
+    const shift = await prisma.shift.update({
+      where: { id },
+      data: input,
+      include: { _count: { select: { employees: true } } },
+    });
+    
+    console.log(`[Shifts] Updated shift ${id}`);
+    
+    return NextResponse.json({ success: true, shift: toShiftSummary(shift) });
+  } catch (error) {
+    return handleApiError(error, 'Shifts');
+  }
+}
+
+/**
+ * DELETE /api/shifts/:id
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Deleted shift id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ShiftDeleteResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Shift', id);
+    }
+    
+    await prisma.shift.delete({ where: { id } });
+    
+    console.log(`[Shifts] Deleted shift ${id}`);
+    
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return handleApiError(error, 'Shifts');
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Shift Collection API Route
+ * 
+ * GET  /api/shifts - List shifts with their employee counts
+ * POST /api/shifts - Create a shift
+ * 
+ * Employees assigned to a shift (PATCH /api/employees/:id with shiftId)
+ * have every uploaded day checked for late arrival and early departure.
+ * 
+ * REQUEST BODY (POST):
+ * { "name": "Morning", "startTime": "09:00", "endTime": "18:00", "graceMinutes": 10 }
+ * 
+ * ACCESS: Listing requires a signed-in user; changes require ADMIN or HR_MANAGER.
+ * 
+ * @module app/api/shifts/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { readJsonObject } from '@/lib/validation';
+import { parseShiftInput, toShiftSummary, type ShiftSummary } from '@/lib/shifts';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for shift listings
+ */
+interface ShiftListResponse {
+  success: true;
+  shifts: ShiftSummary[];
+}
+
+/**
+ * API response structure for a single shift
+ */
+interface ShiftResponse {
+  success: true;
+  shift: ShiftSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/shifts
+ * 
+ * @returns {Promise<NextResponse>} Shifts ordered by start time
+ */
+export async function GET(): Promise<NextResponse<ShiftListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser();
+    
+    const shifts = await prisma.shift.findMany({
+      include: { _count: { select: { employees: true } } },
+      orderBy: [{ startTime: 'asc' }, { name: 'asc' }],
+    });
+    
+    return NextResponse.json({ success: true, shifts: shifts.map(toShiftSummary) });
+  } catch (error) {
+    return handleApiError(error, 'Shifts');
+  }
+}
+
+/**
+ * POST /api/shifts
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body, or start equal to end
+ * - 409: A shift with that name already exists
+ * 
+ * @param {NextRequest} request - Request with JSON shift body
+ * @returns {Promise<NextResponse>} Created shift (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ShiftResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const input = parseShiftInput(await readJsonObject(request));
+    
+    const shift = await prisma.shift.create({ data: input });
+    
+    console.log(`[Shifts] Created shift "${shift.name}" (${shift.startTime}-${shift.endTime})`);
+    
+    return NextResponse.json(
+      { success: true, shift: toShiftSummary(shift) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Shifts');
+  }
+}
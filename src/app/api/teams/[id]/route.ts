@@ -0,0 +1,142 @@
+/**
+ * Single Team API Route
+ * 
+ * PATCH  /api/teams/:id - Rename a team or move it to another department
+ * DELETE /api/teams/:id - Remove a team
+ * 
+ * Moving a team moves its employees to the new department as well, so an
+ * employee's team always belongs to the employee's department. Deleting a
+ * team leaves its employees in the department without a team.
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/teams/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import { parseTeamInput, toTeamSummary, type TeamSummary } from '@/lib/org-chart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single team
+ */
+interface TeamResponse {
+  success: true;
+  team: TeamSummary;
+}
+
+/**
+ * API response structure for deletions
+ */
+interface TeamDeleteResponse {
+  success: true;
+  id: string;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/teams/:id
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 404: Team or department does not exist
+ * - 409: The department already has a team with that name
+ * 
+ * @param {NextRequest} request - Request with partial JSON team body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated team
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<TeamResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Team', id);
+    }
+    
+    const input = parseTeamInput(await readJsonObject(request), true);
+    
+    if (input.departmentId) {
+      const department = await prisma.department.findUnique({ where: { id: input.departmentId } });
+      if (!department) {
+        throw new RecordNotFoundError('Department', input.departmentId);
+      }
+    }
+    
+    const team = await prisma.$transaction(async (tx) => {
+      const updated = await tx.team.update({
+        where: { id },
+        data: input,
+        include: { department: true, _count: { select: { employees: true } } },
+      });
+      
+      if (input.departmentId) {
+        await tx.employee.updateMany({ where: { teamId: id }, data: { departmentId: input.departmentId } });
+      }
+      
+      return updated;
+    });
+    
+    console.log(`[Teams] Updated team ${id} ("${team.name}" in "${team.department.name}")`);
+    
+    return NextResponse.json({ success: true, team: toTeamSummary(team) });
+  } catch (error) {
+    return handleApiError(error, 'Teams');
+  }
+}
+
+/**
+ * DELETE /api/teams/:id
+ * 
+ * ERROR HANDLING:
+ * - 404: Team does not exist
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Deleted team id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<TeamDeleteResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Team', id);
+    }
+    
+    await prisma.team.delete({ where: { id } });
+    
+    console.log(`[Teams] Deleted team ${id}`);
+    
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return handleApiError(error, 'Teams');
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Team Collection API Route
+ * 
+ * GET  /api/teams?departmentId=... - List teams (optionally of one department)
+ * POST /api/teams                  - Create a team in a department
+ * 
+ * REQUEST BODY (POST):
+ * { "name": "Platform", "departmentId": "65f1d0..." }
+ * 
+ * ACCESS: Listing requires a signed-in user; changes require ADMIN or HR_MANAGER.
+ * 
+ * @module app/api/teams/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject, RequestValidationError } from '@/lib/validation';
+import { parseTeamInput, toTeamSummary, type TeamSummary } from '@/lib/org-chart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for team listings
+ */
+interface TeamListResponse {
+  success: true;
+  teams: TeamSummary[];
+}
+
+/**
+ * API response structure for a single team
+ */
+interface TeamResponse {
+  success: true;
+  team: TeamSummary;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Relations loaded for team summaries
+ */
+const TEAM_SUMMARY_INCLUDE = {
+  department: true,
+  _count: { select: { employees: true } },
+} as const;
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/teams
+ * 
+ * ERROR HANDLING:
+ * - 400: Malformed departmentId
+ * 
+ * @param {NextRequest} request - Request with optional `departmentId` search param
+ * @returns {Promise<NextResponse>} Teams ordered by department and name
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<TeamListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser();
+    
+    const departmentId = request.nextUrl.searchParams.get('departmentId');
+    if (departmentId !== null && !isValidObjectId(departmentId)) {
+      throw new RequestValidationError('departmentId must be a valid department id', 'departmentId');
+    }
+    
+    const teams = await prisma.team.findMany({
+      where: departmentId ? { departmentId } : undefined,
+      include: TEAM_SUMMARY_INCLUDE,
+      orderBy: [{ department: { name: 'asc' } }, { name: 'asc' }],
+    });
+    
+    return NextResponse.json({ success: true, teams: teams.map(toTeamSummary) });
+  } catch (error) {
+    return handleApiError(error, 'Teams');
+  }
+}
+
+/**
+ * POST /api/teams
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 404: Department does not exist
+ * - 409: The department already has a team with that name
+ * 
+ * @param {NextRequest} request - Request with JSON team body
+ * @returns {Promise<NextResponse>} Created team (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<TeamResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { name, departmentId } = parseTeamInput(await readJsonObject(request));
+    
+    const department = await prisma.department.findUnique({ where: { id: departmentId } });
+    if (!department) {
+      throw new RecordNotFoundError('Department', departmentId);
+    }
+    
+    const team = await prisma.team.create({
+      data: { name, departmentId },
+      include: TEAM_SUMMARY_INCLUDE,
+    });
+    
+    console.log(`[Teams] Created team "${team.name}" in "${department.name}"`);
+    
+    return NextResponse.json({ success: true, team: toTeamSummary(team) }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Teams');
+  }
+}
@@ -8,19 +8,50 @@
  * 
  * CRITICAL FEATURES:
  * - Excel parsing with date serial number handling
+ * - CSV/TSV parsing (encoding and delimiter detection) through the same
+ *   row normalization as Excel
  * - Gap filling for missing attendance days
+ * - Multi-month files: each calendar month is replaced and gap-filled separately
  * - Idempotent operations (delete-then-insert for re-uploads)
+ * - Preview mode (?mode=preview): full parse and gap fill without writing,
+ *   returning new employees, per-month counts and a diff of changed days
+ * - Row-level validation report: every malformed cell is reported with row,
+ *   column, raw value and reason. FormData field "errorMode" selects between
+ *   rejecting the whole file ("reject", default) and importing only the
+ *   valid rows ("skip")
+ * - Import profiles: FormData field "profileId" selects a saved profile
+ *   mapping source headers, worksheet and text date format onto the fields
+ * - Employee identity: an optional Employee Code column is preferred over
+ *   the name; rows without a code match by name, then by alias (see
+ *   lib/employees). Ambiguous names reject the upload.
+ * - Night shifts: rows of employees on an overnight shift are dated by the
+ *   shift's start date, so punches after midnight count towards the
+ *   previous day (see assignShiftDates in lib/calculations)
+ * - Attendance statuses: an optional Status column marks days worked from
+ *   home, on duty, half days, leave and absence (see ATTENDANCE_STATUS_RULES
+ *   in lib/calculations). Days with a status other than Present may omit times.
+ * - Anomaly detection: suspicious days (In equal to Out, over 16 hours,
+ *   night-time punches, ...) are stored for review on the anomaly page
+ *   (see lib/anomalies)
+ * - Import history: each confirmed upload is recorded as an import batch
+ *   (file name, SHA-256, uploader, months and employees). Records link to
+ *   their batch and source rows, and the records an upload replaces are
+ *   snapshotted so it can be rolled back (see lib/import-batches). A
+ *   preview warns when the same file was imported before.
  * - Batch processing for optimal database performance
  * - Comprehensive error handling with appropriate HTTP status codes
  * 
  * EXPECTED EXCEL FORMAT:
- * | Employee Name | Date       | In Time | Out Time |
- * |--------------|------------|---------|----------|
- * | John Doe     | 01/01/2024 | 09:00   | 17:30    |
- * | Jane Smith   | 01/01/2024 | 08:30   | 16:45    |
+ * | Employee Name | Employee Code | Date       | In Time | Out Time | Status |
+ * |--------------|---------------|------------|---------|----------|--------|
+ * | John Doe     | E1001         | 01/01/2024 | 09:00   | 17:30    |        |
+ * | Jane Smith   | E1002         | 01/01/2024 |         |          | Leave  |
+ * (Employee Code and Status are optional; an empty Status means Present)
  * 
  * SECURITY:
- * - File type validation (only .xlsx, .xls)
+ * - Only ADMIN and HR_MANAGER users may upload (401 when signed out,
+ *   403 for other roles), since an upload replaces whole months
+ * - File type validation (only .xlsx, .xls, .csv, .tsv)
  * - File size limits enforced by Next.js (default 4.5MB body limit)
  * - Input sanitization before database operations
  * - No arbitrary code execution from Excel content
@@ -35,12 +66,44 @@
  * @version 1.0.0
  */
 
+import { createHash } from 'node:crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import * as XLSX from 'xlsx';
+import { isValid, parse } from 'date-fns';
 import { prisma } from '@/lib/prisma';
+import { AuthenticationError, PermissionDeniedError } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { formatDateOnly, isValidObjectId } from '@/lib/validation';
 import {
+  EMPLOYEE_CODE_MAX_LENGTH,
+  formatEmployeeLabel,
+  getEmployeeIdentityKey,
+  resolveEmployeeIdentities,
+  type ResolvedEmployee,
+} from '@/lib/employees';
+import { SPREADSHEET_EXTENSIONS, isSpreadsheetFile, readWorkbook } from '@/lib/spreadsheet-files';
+import { detectAttendanceAnomalies, type DetectedAnomaly } from '@/lib/anomalies';
+import { storeMonthAnomalies, takeAnomalyDecisions } from '@/lib/anomaly-queries';
+import type { ImportBatchMonth } from '@/lib/import-batches';
+import { getMonthWindow } from '@/lib/months';
+import {
+  DEFAULT_IMPORT_SETTINGS,
+  IMPORT_FIELDS,
+  toImportProfileSummary,
+  type ImportField,
+  type ImportSettings,
+} from '@/lib/import-profiles';
+import {
+  assignShiftDates,
   processMonthlyAttendance,
+  ATTENDANCE_STATUS_RULES,
+  type AttendanceProcessingOptions,
+  type AttendanceStatus,
+  type EmploymentPeriod,
+  type ProcessedAttendanceRecord,
   type RawAttendanceInput,
+  type ShiftRule,
   InvalidTimeFormatError,
   InvalidDateError,
   CalculationError,
@@ -51,33 +114,134 @@ import {
 // ============================================================================
 
 /**
- * Excel row structure as parsed from the spreadsheet
+ * Excel row structure as parsed from the spreadsheet, keyed by header
  * 
  * NOTE: Excel column headers are case-sensitive and must match exactly.
- * Adjust these property names to match your actual Excel file headers.
+ * Which header feeds which field is decided by the import settings
+ * (default: Employee Name, Date, In Time, Out Time).
  */
-interface ExcelRow {
-  /** Employee full name (must match across rows for grouping) */
-  'Employee Name': string;
-  
-  /** Date in various formats (Excel serial number, string date, etc.) */
-  'Date': number | string | Date;
-  
-  /** Check-in time (24-hour format HH:MM or variations) */
-  'In Time': string | number;
-  
-  /** Check-out time (24-hour format HH:MM or variations) */
-  'Out Time': string | number;
-}
+type ExcelRow = Record<string, string | number | Date | undefined>;
 
 /**
  * Validated and normalized attendance record ready for processing
+ * 
+ * Each row is one punch pair. Several rows for the same employee and date
+ * are combined by the calculation engine; a row with only one of In/Out
+ * filled is kept as an unmatched punch.
  */
 interface NormalizedAttendanceRecord {
+  /** Spreadsheet row number (1-indexed, header is row 1) */
+  rowNumber: number;
+  
   employeeName: string;
+  employeeCode: string | null;
   date: Date;
-  inTime: string;
-  outTime: string;
+  inTime: string | null;
+  outTime: string | null;
+  status: AttendanceStatus | null;
+}
+
+/**
+ * Processed record with the spreadsheet rows it was built from
+ */
+type UploadedAttendanceRecord = ProcessedAttendanceRecord & {
+  /** Source row numbers (empty for gap-filled days) */
+  sourceRows: number[];
+};
+
+/**
+ * A single cell-level validation failure
+ */
+interface RowValidationIssue {
+  /** Spreadsheet row number (1-indexed, header is row 1) */
+  row: number;
+  
+  /** Column header the value was read from */
+  column: string;
+  
+  /** Raw cell value as text ('' for empty cells) */
+  value: string;
+  
+  /** Human-readable reason the value was rejected */
+  reason: string;
+}
+
+/**
+ * Result of parsing a spreadsheet: valid records plus every row error
+ */
+interface ParseResult {
+  /** Records from rows that passed validation */
+  records: NormalizedAttendanceRecord[];
+  
+  /** Validation issues (a row may have several) */
+  errors: RowValidationIssue[];
+  
+  /** Number of distinct rows with at least one issue */
+  invalidRowCount: number;
+}
+
+/**
+ * How rows with validation errors are handled
+ * - reject: fail the whole upload and report every error
+ * - skip: import valid rows only and report skipped rows
+ */
+type ErrorMode = 'reject' | 'skip';
+
+/**
+ * Row validation report included in responses
+ */
+interface RowErrorReport {
+  /** Validation issues (capped at MAX_REPORTED_ROW_ERRORS) */
+  rowErrors: RowValidationIssue[];
+  
+  /** Total number of issues found */
+  rowErrorCount: number;
+  
+  /** Number of rows excluded from the import */
+  skippedRowCount: number;
+}
+
+/**
+ * Parsed rows belonging to a single calendar month, grouped by employee
+ */
+interface MonthGroup {
+  /** Full year (e.g., 2024) */
+  year: number;
+  
+  /** Month (1-12) */
+  month: number;
+  
+  /** Records keyed by employee key (see resolveUploadEmployees) */
+  recordsByEmployee: Map<string, NormalizedAttendanceRecord[]>;
+}
+
+/**
+ * Per-month outcome of an upload
+ */
+interface MonthUploadSummary {
+  /** Full year (e.g., 2024) */
+  year: number;
+  
+  /** Month (1-12) */
+  month: number;
+  
+  /** Employees with rows in this month */
+  employeeCount: number;
+  
+  /** Records inserted for this month (after gap filling) */
+  recordCount: number;
+  
+  /** Existing records replaced for this month */
+  deletedCount: number;
+  
+  /** Punches without a matching In or Out (excluded from worked hours) */
+  unmatchedPunchCount: number;
+  
+  /** Pairs with Out before In outside a night shift (excluded from worked hours) */
+  invertedPunchCount: number;
+  
+  /** Anomalies stored for review (excluding carried-over decisions) */
+  anomalyCount: number;
 }
 
 /**
@@ -87,11 +251,110 @@ interface UploadSuccessResponse {
   success: true;
   count: number;
   message: string;
-  details: {
+  details: RowErrorReport & {
+    /** Import batch recorded for the upload (see the import history page) */
+    importBatchId: string;
+    
+    /** Distinct employees across all months */
+    employeeCount: number;
+    
+    /** Total records inserted across all months */
+    recordCount: number;
+    
+    /** Total existing records replaced across all months */
+    deletedCount: number;
+    
+    /** Breakdown per (year, month), in chronological order */
+    months: MonthUploadSummary[];
+  };
+}
+
+/**
+ * Attendance fields compared when diffing a day
+ */
+interface AttendanceDaySnapshot {
+  status: ProcessedAttendanceRecord['status'];
+  inTime: string | null;
+  outTime: string | null;
+  workedHours: number;
+}
+
+/**
+ * A single day whose stored attendance would change on upload
+ */
+interface AttendanceDayChange {
+  /** Stored employee name */
+  employeeName: string;
+  
+  /** Calendar date (YYYY-MM-DD) */
+  date: string;
+  
+  /** Currently stored values (null if no record exists for the day) */
+  before: AttendanceDaySnapshot | null;
+  
+  /** Values the upload would store */
+  after: AttendanceDaySnapshot;
+}
+
+/**
+ * Per-month outcome of a preview
+ */
+interface MonthPreviewSummary {
+  year: number;
+  month: number;
+  employeeCount: number;
+  
+  /** Records that would be inserted (after gap filling) */
+  recordCount: number;
+  
+  /** Existing records that would be replaced */
+  replacedCount: number;
+  
+  /** Days whose stored values would change for existing employees */
+  changedDayCount: number;
+  
+  /** Punches without a matching In or Out (excluded from worked hours) */
+  unmatchedPunchCount: number;
+  
+  /** Pairs with Out before In outside a night shift (excluded from worked hours) */
+  invertedPunchCount: number;
+}
+
+/**
+ * API response structure for preview (dry-run) uploads
+ */
+interface UploadPreviewResponse {
+  success: true;
+  preview: true;
+  message: string;
+  details: RowErrorReport & {
+    /** Employees that do not exist yet and would be created ("Name (CODE)") */
+    newEmployees: string[];
+    
+    /** Distinct employees across all months */
     employeeCount: number;
+    
+    /** Total records that would be inserted */
     recordCount: number;
-    month: number;
-    year: number;
+    
+    /** Total existing records that would be replaced */
+    replacedCount: number;
+    
+    /** Breakdown per (year, month), in chronological order */
+    months: MonthPreviewSummary[];
+    
+    /** Changed days for existing employees (capped at MAX_PREVIEW_CHANGES) */
+    changes: AttendanceDayChange[];
+    
+    /** True when more changes exist than were returned */
+    changesTruncated: boolean;
+    
+    /** Latest applied upload of the same file (matched by SHA-256), if any */
+    previousImport: {
+      filename: string;
+      uploaderName: string;
+      createdAt: string;
+    } | null;
   };
 }
 
@@ -102,8 +365,51 @@ interface UploadErrorResponse {
   success: false;
   error: string;
   details?: string;
+  
+  /** Present when the file was rejected because of row validation errors */
+  rowErrors?: RowValidationIssue[];
+  
+  /** Total number of row validation issues (may exceed rowErrors.length) */
+  rowErrorCount?: number;
 }
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum number of day-level changes returned by a preview
+ * Keeps the response small for full-company re-uploads.
+ */
+const MAX_PREVIEW_CHANGES = 500;
+
+/**
+ * Maximum number of row validation issues returned in a response
+ */
+const MAX_REPORTED_ROW_ERRORS = 1000;
+
+/**
+ * Fields of a replaced record kept in its ReplacedAttendanceRecord snapshot
+ */
+const REPLACED_RECORD_FIELDS = {
+  id: true,
+  employeeId: true,
+  importBatchId: true,
+  date: true,
+  inTime: true,
+  outTime: true,
+  workedHours: true,
+  punches: true,
+  breakDeductionHours: true,
+  unmatchedPunchCount: true,
+  invertedPunchCount: true,
+  lateMinutes: true,
+  earlyDepartureMinutes: true,
+  status: true,
+  sourceRows: true,
+  createdAt: true,
+} as const;
+
 // ============================================================================
 // CUSTOM ERROR CLASSES
 // ============================================================================
@@ -157,21 +463,17 @@ class DataValidationError extends Error {
 /**
  * Validate file extension
  * 
- * Ensures only Excel files are processed for security and compatibility.
+ * Ensures only Excel and delimited text files are processed for security
+ * and compatibility.
  * 
  * @param {string} filename - Original filename from upload
- * @returns {boolean} True if valid Excel file
+ * @returns {boolean} True if valid spreadsheet file
  * @throws {FileValidationError} If extension is invalid
  */
 function validateFileExtension(filename: string): boolean {
-  const validExtensions = ['.xlsx', '.xls'];
-  const lowerFilename = filename.toLowerCase();
-  
-  const isValid = validExtensions.some((ext) => lowerFilename.endsWith(ext));
-  
-  if (!isValid) {
+  if (!isSpreadsheetFile(filename)) {
     throw new FileValidationError(
-      `Invalid file type. Expected Excel file (.xlsx or .xls), got: ${filename}`
+      `Invalid file type. Expected ${SPREADSHEET_EXTENSIONS.join(', ')}, got: ${filename}`
     );
   }
   
@@ -200,7 +502,11 @@ function validateFileExtension(filename: string): boolean {
  * - Serial number 1 = January 1, 1900
  * - We use Dec 30, 1899 as epoch to account for this
  * 
+ * When a date format is supplied (from an import profile), text dates must
+ * match it exactly; numeric serials and Date objects are unaffected.
+ * 
  * @param {number | string | Date} excelDate - Date value from Excel
+ * @param {string | null} [dateFormat=null] - date-fns pattern for text dates
  * @returns {Date} JavaScript Date object (normalized to midnight)
  * @throws {DataValidationError} If date cannot be parsed
  * 
@@ -209,7 +515,7 @@ function validateFileExtension(filename: string): boolean {
  * parseExcelDate("01/15/2024") // Returns: Date object for 2024-01-15
  * parseExcelDate(new Date(2024, 0, 15)) // Returns: Same date (pass-through)
  */
-function parseExcelDate(excelDate: number | string | Date): Date {
+function parseExcelDate(excelDate: number | string | Date, dateFormat: string | null = null): Date {
   // Case 1: Already a Date object
   if (excelDate instanceof Date) {
     if (isNaN(excelDate.getTime())) {
@@ -237,6 +543,19 @@ function parseExcelDate(excelDate: number | string | Date): Date {
   
   // Case 3: String date (various formats)
   if (typeof excelDate === 'string') {
+    // Explicit format from the import profile
+    if (dateFormat) {
+      const date = parse(excelDate.trim(), dateFormat, new Date());
+      
+      if (!isValid(date)) {
+        throw new DataValidationError(
+          `Unable to parse date string: "${excelDate}". Expected format: ${dateFormat}.`
+        );
+      }
+      
+      return date;
+    }
+    
     // Try parsing as ISO date first (2024-01-15)
     let date = new Date(excelDate);
     
@@ -326,8 +645,13 @@ function normalizeTimeString(timeValue: string | number): string {
   
   // Case 2: Numeric (Excel time serial: fraction of a day)
   if (typeof timeValue === 'number') {
+    if (!Number.isFinite(timeValue) || timeValue < 0) {
+      throw new DataValidationError(`Invalid Excel time value: ${timeValue}`);
+    }
+    
     // Excel time: 0.5 = 12:00, 0.375 = 09:00
-    const totalMinutes = Math.round(timeValue * 24 * 60);
+    // Date-time serials (e.g., 45321.375) carry the time in the fractional part
+    const totalMinutes = Math.round((timeValue % 1) * 24 * 60) % (24 * 60);
     const hours = Math.floor(totalMinutes / 60);
     const minutes = totalMinutes % 60;
     
@@ -339,40 +663,173 @@ function normalizeTimeString(timeValue: string | number): string {
   );
 }
 
+/**
+ * Normalize an employee code cell
+ * 
+ * Numeric cells (e.g., 1042) are read as their text.
+ * 
+ * @param {string | number | Date} value - Raw cell value
+ * @returns {string} Trimmed code
+ * @throws {DataValidationError} If the code is too long
+ */
+function parseEmployeeCode(value: string | number | Date): string {
+  const code = String(value).trim();
+  
+  if (code.length > EMPLOYEE_CODE_MAX_LENGTH) {
+    throw new DataValidationError(`Employee code must be at most ${EMPLOYEE_CODE_MAX_LENGTH} characters`);
+  }
+  
+  return code;
+}
+
+/**
+ * Statuses accepted in the Status column, keyed by normalized cell text
+ * 
+ * Weekends and holidays are derived from the calendar, so they cannot be
+ * uploaded.
+ */
+const UPLOAD_STATUSES: Record<string, AttendanceStatus> = {
+  PRESENT: 'PRESENT',
+  WORK_FROM_HOME: 'WORK_FROM_HOME',
+  WFH: 'WORK_FROM_HOME',
+  ON_DUTY: 'ON_DUTY',
+  OD: 'ON_DUTY',
+  HALF_DAY: 'HALF_DAY',
+  LEAVE: 'LEAVE',
+  ABSENT: 'ABSENT',
+};
+
+/**
+ * Normalize a status cell
+ * 
+ * Case, spaces and hyphens are ignored ("Work from home", "work-from-home"
+ * and "WFH" are the same status).
+ * 
+ * @param {string | number | Date} value - Raw cell value
+ * @returns {AttendanceStatus} Status
+ * @throws {DataValidationError} If the text is not an uploadable status
+ */
+function parseStatusCell(value: string | number | Date): AttendanceStatus {
+  const key = String(value).trim().toUpperCase().replace(/[\s-]+/g, '_');
+  const status = UPLOAD_STATUSES[key];
+  
+  if (!status) {
+    throw new DataValidationError(
+      `Unknown status. Expected one of: ${Array.from(new Set(Object.values(UPLOAD_STATUSES)))
+        .map((known) => ATTENDANCE_STATUS_RULES[known].label)
+        .join(', ')}`
+    );
+  }
+  
+  return status;
+}
+
+/**
+ * Convert a raw cell value to display text for error reports
+ * 
+ * @param {unknown} value - Raw cell value
+ * @returns {string} Text representation ('' for empty cells)
+ */
+function cellToText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  }
+  
+  return String(value);
+}
+
+/**
+ * Check whether a cell is empty (missing or whitespace only)
+ * 
+ * @param {unknown} value - Raw cell value
+ * @returns {boolean} True if the cell holds no data
+ */
+function isEmptyCell(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
 /**
  * Parse Excel file buffer and extract attendance data
  * 
  * This is the core Excel parsing function that:
- * 1. Reads the Excel file buffer
+ * 1. Reads the Excel file buffer (CSV/TSV files are decoded into a
+ *    single-sheet workbook of text cells first)
  * 2. Extracts the first worksheet
  * 3. Converts to JSON with header row recognition
- * 4. Validates and normalizes each row
+ * 4. Validates and normalizes every row, collecting ALL cell errors
+ *    instead of stopping at the first malformed row
+ * 
+ * Rows with any invalid cell are excluded from `records` and reported in
+ * `errors`; the caller decides whether to reject the file or skip them.
+ * Completely empty rows are ignored silently. In Time or Out Time may be
+ * empty (unmatched punch) but not both, unless the row has a status other
+ * than Present (work from home, on duty and half days may omit times).
+ * Leave and absent rows must have no times.
+ * 
+ * The worksheet, column headers and text date format come from the import
+ * settings; a mapped header missing from the sheet fails the whole file.
  * 
  * PERFORMANCE: O(n) where n = number of rows
  * MEMORY: Loads entire sheet into memory (suitable for typical attendance files)
  * 
  * @param {Buffer} buffer - Excel file buffer
- * @returns {NormalizedAttendanceRecord[]} Array of normalized attendance records
- * @throws {ExcelParsingError} If file cannot be read
- * @throws {DataValidationError} If data is malformed
+ * @param {string} filename - Original filename (selects Excel or CSV/TSV reader)
+ * @param {ImportSettings} [settings=DEFAULT_IMPORT_SETTINGS] - Sheet, column and date format mapping
+ * @returns {ParseResult} Valid records and row-level validation issues
+ * @throws {ExcelParsingError} If file cannot be read, the sheet or a mapped column is missing, or it has no data rows
  */
-function parseExcelFile(buffer: Buffer): NormalizedAttendanceRecord[] {
+function parseExcelFile(
+  buffer: Buffer,
+  filename: string,
+  settings: ImportSettings = DEFAULT_IMPORT_SETTINGS
+): ParseResult {
   try {
-    // Read Excel file from buffer
-    const workbook = XLSX.read(buffer, {
-      type: 'buffer',
-      cellDates: false, // We'll handle date conversion manually for better control
-    });
+    // Read Excel or delimited text file from buffer
+    // (dates are converted manually for better control)
+    const workbook = readWorkbook(buffer, filename);
     
     // Validate workbook has sheets
     if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
       throw new ExcelParsingError('Excel file contains no worksheets');
     }
     
-    // Extract first sheet
-    const sheetName = workbook.SheetNames[0];
+    // Extract configured sheet (first sheet by default)
+    const sheetName = settings.sheetName ?? workbook.SheetNames[0];
     const worksheet = workbook.Sheets[sheetName];
     
+    if (!worksheet) {
+      throw new ExcelParsingError(
+        `Worksheet "${sheetName}" not found. Available sheets: ${workbook.SheetNames.join(', ')}`
+      );
+    }
+    
+    // Validate every required column exists in the header row; optional
+    // columns are read only when present
+    const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1 });
+    const headers = headerRow.map((header) => String(header ?? ''));
+    const missingColumns = IMPORT_FIELDS
+      .filter(({ required }) => required)
+      .map(({ field }) => settings.columns[field] as string)
+      .filter((column) => !headers.includes(column));
+    
+    const columns = new Map<ImportField, string>();
+    for (const { field } of IMPORT_FIELDS) {
+      const column = settings.columns[field];
+      if (column !== null && headers.includes(column)) {
+        columns.set(field, column);
+      }
+    }
+    
+    if (missingColumns.length > 0) {
+      throw new ExcelParsingError(
+        `Missing column(s): ${missingColumns.join(', ')}. Found: ${headers.filter(Boolean).join(', ') || 'none'}`
+      );
+    }
+    
     // Convert sheet to JSON (header row = column names)
     const rawData: ExcelRow[] = XLSX.utils.sheet_to_json(worksheet, {
       header: undefined, // Use first row as headers
@@ -385,61 +842,101 @@ function parseExcelFile(buffer: Buffer): NormalizedAttendanceRecord[] {
     }
     
     // Normalize and validate each row
-    const normalizedRecords: NormalizedAttendanceRecord[] = [];
+    const records: NormalizedAttendanceRecord[] = [];
+    const errors: RowValidationIssue[] = [];
+    let invalidRowCount = 0;
     
     for (let i = 0; i < rawData.length; i++) {
       const row = rawData[i];
-      const rowNumber = i + 2; // Excel row number (1-indexed, +1 for header)
       
-      try {
-        // Validate required fields exist
-        if (!row['Employee Name'] || !row['Date'] || !row['In Time'] || !row['Out Time']) {
-          // Skip empty rows (common at end of Excel files)
-          if (!row['Employee Name'] && !row['Date']) {
-            continue;
-          }
-          
-          throw new DataValidationError(
-            `Missing required fields (Employee Name, Date, In Time, or Out Time)`,
-            rowNumber
-          );
+      // sheet_to_json skips blank rows; __rowNum__ keeps the real sheet position
+      const sheetRowIndex = (row as { __rowNum__?: number }).__rowNum__;
+      const rowNumber = sheetRowIndex !== undefined ? sheetRowIndex + 1 : i + 2; // 1-indexed, header is row 1
+      
+      // Skip empty rows (common at end of Excel files)
+      if (Array.from(columns.values()).every((column) => isEmptyCell(row[column]))) {
+        continue;
+      }
+      
+      const rowErrors: RowValidationIssue[] = [];
+      
+      /**
+       * Validate one cell, recording an issue instead of throwing
+       */
+      const readCell = <T,>(
+        field: ImportField,
+        parseValue: (value: string | number | Date) => T,
+        required: boolean = true
+      ): T | null => {
+        const column = columns.get(field);
+        if (column === undefined) {
+          return null;
         }
         
-        // Parse and normalize each field
-        const employeeName = String(row['Employee Name']).trim();
-        if (employeeName.length === 0) {
-          throw new DataValidationError('Employee Name cannot be empty', rowNumber);
-        }
+        const value = row[column];
         
-        const date = parseExcelDate(row['Date']);
-        const inTime = normalizeTimeString(row['In Time']);
-        const outTime = normalizeTimeString(row['Out Time']);
+        if (value === undefined || isEmptyCell(value)) {
+          if (required) {
+            rowErrors.push({ row: rowNumber, column, value: '', reason: 'Required value is missing' });
+          }
+          return null;
+        }
         
-        normalizedRecords.push({
-          employeeName,
-          date,
-          inTime,
-          outTime,
-        });
-      } catch (error) {
-        if (error instanceof DataValidationError) {
-          // Add row context to validation errors
-          throw new DataValidationError(
-            `Row ${rowNumber}: ${error.message}`,
-            rowNumber
-          );
+        try {
+          return parseValue(value);
+        } catch (error) {
+          if (error instanceof DataValidationError) {
+            rowErrors.push({ row: rowNumber, column, value: cellToText(value), reason: error.message });
+            return null;
+          }
+          throw error;
         }
-        throw error;
+      };
+      
+      // Parse and normalize each field
+      const employeeName = readCell('employeeName', (value) => String(value).trim());
+      const employeeCode = readCell('employeeCode', (value) => parseEmployeeCode(value), false);
+      const date = readCell('date', (value) => parseExcelDate(value, settings.dateFormat));
+      const status = readCell('status', parseStatusCell, false);
+      
+      // One of In/Out may be missing (unmatched punch), but not both;
+      // days worked away from the office may omit times entirely
+      const hasPunch = [settings.columns.inTime, settings.columns.outTime].some(
+        (column) => !isEmptyCell(row[column])
+      );
+      const timesRequired = !hasPunch && (status === null || status === 'PRESENT');
+      const inTime = readCell('inTime', (value) => normalizeTimeString(value as string | number), timesRequired);
+      const outTime = readCell('outTime', (value) => normalizeTimeString(value as string | number), timesRequired);
+      
+      if (status !== null && hasPunch && !ATTENDANCE_STATUS_RULES[status].allowsTimes) {
+        rowErrors.push({
+          row: rowNumber,
+          column: columns.get('status') as string,
+          value: cellToText(row[columns.get('status') as string]),
+          reason: `Times cannot be recorded on a ${ATTENDANCE_STATUS_RULES[status].label.toLowerCase()} day`,
+        });
       }
+      
+      if (rowErrors.length > 0 || employeeName === null || date === null) {
+        errors.push(...rowErrors);
+        invalidRowCount++;
+        continue;
+      }
+      
+      records.push({
+        rowNumber,
+        employeeName,
+        employeeCode,
+        date,
+        inTime,
+        outTime,
+        status,
+      });
     }
     
-    if (normalizedRecords.length === 0) {
-      throw new ExcelParsingError('No valid attendance records found in Excel file');
-    }
-    
-    return normalizedRecords;
+    return { records, errors, invalidRowCount };
   } catch (error) {
-    if (error instanceof ExcelParsingError || error instanceof DataValidationError) {
+    if (error instanceof ExcelParsingError) {
       throw error;
     }
     
@@ -451,12 +948,460 @@ function parseExcelFile(buffer: Buffer): NormalizedAttendanceRecord[] {
   }
 }
 
+/**
+ * Read the error handling mode from the upload FormData
+ * 
+ * @param {FormDataEntryValue | null} value - Raw "errorMode" field
+ * @returns {ErrorMode} Validated mode (defaults to "reject")
+ * @throws {FileValidationError} If an unknown mode is supplied
+ */
+function parseErrorMode(value: FormDataEntryValue | null): ErrorMode {
+  if (value === null || value === '') {
+    return 'reject';
+  }
+  
+  if (value === 'reject' || value === 'skip') {
+    return value;
+  }
+  
+  throw new FileValidationError(`Invalid errorMode "${String(value)}". Expected "reject" or "skip".`);
+}
+
+/**
+ * Load the import settings selected in the upload FormData
+ * 
+ * @param {FormDataEntryValue | null} value - Raw "profileId" field
+ * @returns {Promise<ImportSettings>} Profile settings, or the defaults when none is selected
+ * @throws {FileValidationError} If the profile does not exist
+ */
+async function loadImportSettings(value: FormDataEntryValue | null): Promise<ImportSettings> {
+  if (value === null || value === '') {
+    return DEFAULT_IMPORT_SETTINGS;
+  }
+  
+  const profileId = String(value);
+  const profile = isValidObjectId(profileId)
+    ? await prisma.importProfile.findUnique({ where: { id: profileId } })
+    : null;
+  
+  if (!profile) {
+    throw new FileValidationError(`Import profile "${profileId}" not found`);
+  }
+  
+  console.log(`[Upload] Using import profile "${profile.name}"`);
+  
+  return toImportProfileSummary(profile);
+}
+
+/**
+ * Build the row error report for a response
+ * 
+ * @param {ParseResult} parsed - Parse result
+ * @returns {RowErrorReport} Capped error list with totals
+ */
+function buildRowErrorReport(parsed: ParseResult): RowErrorReport {
+  return {
+    rowErrors: parsed.errors.slice(0, MAX_REPORTED_ROW_ERRORS),
+    rowErrorCount: parsed.errors.length,
+    skippedRowCount: parsed.invalidRowCount,
+  };
+}
+
+// ============================================================================
+// RECORD GROUPING
+// ============================================================================
+
+/**
+ * Resolve the employees of an upload
+ * 
+ * Every row identity (code, or name when the row has no code) is resolved
+ * against stored employees and aliases. Rows resolving to the same
+ * existing employee share its id as employee key; each new employee is
+ * keyed by its identity key. Read-only: new employees and assigned codes
+ * are written in the upload transaction.
+ * 
+ * @param {NormalizedAttendanceRecord[]} records - Parsed attendance rows
+ * @returns {Promise<{ employees: Map<string, ResolvedEmployee>; getEmployeeKey: (record: NormalizedAttendanceRecord) => string }>}
+ *   Employees by employee key, and the employee key of a row
+ * @throws {DataValidationError} If a name matches several employees
+ */
+async function resolveUploadEmployees(records: NormalizedAttendanceRecord[]): Promise<{
+  employees: Map<string, ResolvedEmployee>;
+  getEmployeeKey: (record: NormalizedAttendanceRecord) => string;
+}> {
+  const [storedEmployees, aliases] = await Promise.all([
+    prisma.employee.findMany({ select: { id: true, name: true, employeeCode: true } }),
+    prisma.employeeAlias.findMany({ select: { alias: true, employeeId: true } }),
+  ]);
+  
+  const resolution = resolveEmployeeIdentities(records, storedEmployees, aliases);
+  
+  if (resolution.conflicts.length > 0) {
+    throw new DataValidationError(`Ambiguous employees: ${resolution.conflicts.join('; ')}`);
+  }
+  
+  const employees = new Map<string, ResolvedEmployee>();
+  for (const [identityKey, employee] of resolution.employees) {
+    employees.set(employee.id ?? identityKey, employee);
+  }
+  
+  const getEmployeeKey = (record: NormalizedAttendanceRecord): string => {
+    const identityKey = getEmployeeIdentityKey(record);
+    return resolution.employees.get(identityKey)?.id ?? identityKey;
+  };
+  
+  return { employees, getEmployeeKey };
+}
+
+/**
+ * Group normalized records by calendar month, then by employee
+ * 
+ * A single file may span several months (e.g., a quarterly export or a
+ * pay period crossing a month boundary). Each month is processed
+ * independently so its delete window and gap filling match its own rows.
+ * 
+ * @param {NormalizedAttendanceRecord[]} records - Parsed attendance rows
+ * @param {(record: NormalizedAttendanceRecord) => string} getEmployeeKey - Employee key of a row
+ * @returns {MonthGroup[]} Month groups in chronological order
+ */
+function groupRecordsByMonth(
+  records: NormalizedAttendanceRecord[],
+  getEmployeeKey: (record: NormalizedAttendanceRecord) => string
+): MonthGroup[] {
+  const groups = new Map<string, MonthGroup>();
+  
+  for (const record of records) {
+    const year = record.date.getFullYear();
+    const month = record.date.getMonth() + 1; // 1-12
+    const key = `${year}-${month.toString().padStart(2, '0')}`;
+    
+    let group = groups.get(key);
+    if (!group) {
+      group = { year, month, recordsByEmployee: new Map() };
+      groups.set(key, group);
+    }
+    
+    const employeeKey = getEmployeeKey(record);
+    const existing = group.recordsByEmployee.get(employeeKey) || [];
+    existing.push(record);
+    group.recordsByEmployee.set(employeeKey, existing);
+  }
+  
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, group]) => group);
+}
+
+/**
+ * Load the shifts of the existing employees of an upload
+ * 
+ * New employees have no shift yet, so their rows are processed as day work.
+ * 
+ * @param {Map<string, ResolvedEmployee>} employees - Resolved employees by employee key
+ * @returns {Promise<Map<string, ShiftRule>>} Shift by employee id (= employee key)
+ */
+async function loadEmployeeShifts(employees: Map<string, ResolvedEmployee>): Promise<Map<string, ShiftRule>> {
+  const existingIds = Array.from(employees.values())
+    .map((employee) => employee.id)
+    .filter((id): id is string => id !== null);
+  
+  const shiftedEmployees = await prisma.employee.findMany({
+    where: { id: { in: existingIds }, shiftId: { not: null } },
+    select: { id: true, shift: true },
+  });
+  
+  const shiftByEmployee = new Map<string, ShiftRule>();
+  for (const { id, shift } of shiftedEmployees) {
+    if (shift) {
+      shiftByEmployee.set(id, shift);
+    }
+  }
+  
+  return shiftByEmployee;
+}
+
+/**
+ * Load the employment periods of the existing employees of an upload
+ * 
+ * Days outside the period are not gap-filled as ABSENT, so a mid-month
+ * joiner or leaver is not charged leave for days they were not employed.
+ * New employees have no employment dates yet.
+ * 
+ * @param {Map<string, ResolvedEmployee>} employees - Resolved employees by employee key
+ * @returns {Promise<Map<string, EmploymentPeriod>>} Employment period by employee id (= employee key)
+ */
+async function loadEmploymentPeriods(
+  employees: Map<string, ResolvedEmployee>
+): Promise<Map<string, EmploymentPeriod>> {
+  const existingIds = Array.from(employees.values())
+    .map((employee) => employee.id)
+    .filter((id): id is string => id !== null);
+  
+  const employedEmployees = await prisma.employee.findMany({
+    where: {
+      id: { in: existingIds },
+      OR: [{ employmentStartDate: { not: null } }, { employmentEndDate: { not: null } }],
+    },
+    select: { id: true, employmentStartDate: true, employmentEndDate: true },
+  });
+  
+  return new Map(employedEmployees.map(({ id, ...employment }) => [id, employment]));
+}
+
+/**
+ * Date the rows of night-shift employees by their shift start date
+ * 
+ * A row is only moved into a month the file already covers for that
+ * employee: replacing a month holding a single after-midnight punch would
+ * wipe the stored rest of it. Such rows keep their calendar date.
+ * 
+ * @param {NormalizedAttendanceRecord[]} records - Parsed attendance rows
+ * @param {(record: NormalizedAttendanceRecord) => string} getEmployeeKey - Employee key of a row
+ * @param {Map<string, ShiftRule>} shiftByEmployee - Shift by employee key
+ * @returns {NormalizedAttendanceRecord[]} Rows dated by shift start date
+ */
+function assignUploadShiftDates(
+  records: NormalizedAttendanceRecord[],
+  getEmployeeKey: (record: NormalizedAttendanceRecord) => string,
+  shiftByEmployee: Map<string, ShiftRule>
+): NormalizedAttendanceRecord[] {
+  const getMonthKey = (record: NormalizedAttendanceRecord): string =>
+    `${getEmployeeKey(record)}|${record.date.getFullYear()}-${record.date.getMonth()}`;
+  const coveredMonths = new Set(records.map(getMonthKey));
+  
+  return records.map((record) => {
+    const [shifted] = assignShiftDates([record], shiftByEmployee.get(getEmployeeKey(record)) ?? null);
+    return coveredMonths.has(getMonthKey(shifted)) ? shifted : record;
+  });
+}
+
+/**
+ * Run the calculation engine for one employee's rows in one month
+ * 
+ * @param {number} year - Full year
+ * @param {number} month - Month (1-12)
+ * @param {string} employeeId - Employee ObjectId ('' when previewing a new employee)
+ * @param {NormalizedAttendanceRecord[]} records - The employee's rows for the month
+ * @param {AttendanceProcessingOptions} rules - Work schedules, holidays, the employee's shift and employment period
+ * @returns {UploadedAttendanceRecord[]} Complete, gap-filled month with the source rows of each day
+ */
+function processEmployeeMonth(
+  year: number,
+  month: number,
+  employeeId: string,
+  records: NormalizedAttendanceRecord[],
+  rules: AttendanceProcessingOptions
+): UploadedAttendanceRecord[] {
+  // Convert to RawAttendanceInput format
+  const rawRecords: RawAttendanceInput[] = records.map((record) => ({
+    employeeId,
+    date: record.date,
+    inTime: record.inTime,
+    outTime: record.outTime,
+    status: record.status,
+  }));
+  
+  // Rows are dated by their shift start date already, so they land on the day they build
+  const rowsByDay = new Map<string, number[]>();
+  for (const record of records) {
+    const day = formatDateOnly(record.date);
+    rowsByDay.set(day, [...(rowsByDay.get(day) ?? []), record.rowNumber]);
+  }
+  
+  // Apply calculation engine (gap filling + business logic)
+  return processMonthlyAttendance(year, month, rawRecords, rules).map((record) => ({
+    ...record,
+    sourceRows: rowsByDay.get(formatDateOnly(record.date)) ?? [],
+  }));
+}
+
+/**
+ * Count unmatched punches across processed records
+ * 
+ * @param {ProcessedAttendanceRecord[]} records - Processed records
+ * @returns {number} Total punches without a matching In or Out
+ */
+function sumUnmatchedPunches(records: ProcessedAttendanceRecord[]): number {
+  return records.reduce((sum, record) => sum + record.unmatchedPunchCount, 0);
+}
+
+/**
+ * Count inverted punch pairs across processed records
+ * 
+ * @param {ProcessedAttendanceRecord[]} records - Processed records
+ * @returns {number} Total pairs with Out before In outside a night shift
+ */
+function sumInvertedPunches(records: ProcessedAttendanceRecord[]): number {
+  return records.reduce((sum, record) => sum + record.invertedPunchCount, 0);
+}
+
+/**
+ * Extract the compared fields of an attendance record
+ * 
+ * @param {AttendanceDaySnapshot} record - Stored or processed record
+ * @returns {AttendanceDaySnapshot} Snapshot for diffing
+ */
+function toDaySnapshot(record: AttendanceDaySnapshot): AttendanceDaySnapshot {
+  return {
+    status: record.status,
+    inTime: record.inTime,
+    outTime: record.outTime,
+    workedHours: record.workedHours,
+  };
+}
+
+/**
+ * Check whether two day snapshots differ
+ * 
+ * @param {AttendanceDaySnapshot} a - First snapshot
+ * @param {AttendanceDaySnapshot} b - Second snapshot
+ * @returns {boolean} True if any compared field differs
+ */
+function isDayChanged(a: AttendanceDaySnapshot, b: AttendanceDaySnapshot): boolean {
+  return (
+    a.status !== b.status ||
+    a.inTime !== b.inTime ||
+    a.outTime !== b.outTime ||
+    Math.abs(a.workedHours - b.workedHours) > 0.001
+  );
+}
+
 // ============================================================================
 // DATABASE OPERATIONS
 // ============================================================================
-// Note: Database operations are performed inline within the transaction
+// Note: Write operations are performed inline within the transaction
 // for optimal performance and type safety
 
+/**
+ * Build a dry-run preview of an upload
+ * 
+ * Runs the same gap filling as a real upload against current database
+ * state, using read-only queries and no transaction. Nothing is written.
+ * 
+ * DIFF RULES:
+ * - Only existing employees are diffed (new employees are listed instead)
+ * - A day is reported when the stored record is missing or any of
+ *   status, inTime, outTime or workedHours would change
+ * 
+ * @param {MonthGroup[]} monthGroups - Parsed rows grouped by month
+ * @param {Map<string, ResolvedEmployee>} employees - Resolved employees by employee key
+ * @param {Map<string, ShiftRule>} shiftByEmployee - Shifts of existing employees by id
+ * @param {Map<string, EmploymentPeriod>} employmentByEmployee - Employment periods of existing employees by id
+ * @param {string} sha256 - SHA-256 of the file, matched against earlier uploads
+ * @returns {Promise<Omit<UploadPreviewResponse['details'], keyof RowErrorReport>>} Preview details
+ */
+async function buildUploadPreview(
+  monthGroups: MonthGroup[],
+  employees: Map<string, ResolvedEmployee>,
+  shiftByEmployee: Map<string, ShiftRule>,
+  employmentByEmployee: Map<string, EmploymentPeriod>,
+  sha256: string
+): Promise<Omit<UploadPreviewResponse['details'], keyof RowErrorReport>> {
+  const newEmployees = Array.from(employees.values())
+    .filter((employee) => employee.id === null)
+    .map(formatEmployeeLabel)
+    .sort();
+  
+  const schedules = await prisma.workSchedule.findMany({ orderBy: { effectiveFrom: 'asc' } });
+  
+  const months: MonthPreviewSummary[] = [];
+  const changes: AttendanceDayChange[] = [];
+  let totalChanges = 0;
+  
+  for (const { year, month, recordsByEmployee } of monthGroups) {
+    const { startDate, endDate } = getMonthWindow(year, month);
+    
+    const employeeIds = Array.from(recordsByEmployee.keys())
+      .map((key) => employees.get(key)?.id)
+      .filter((id): id is string => Boolean(id));
+    
+    const [holidays, existingRecords] = await Promise.all([
+      prisma.holiday.findMany({ where: { date: { gte: startDate, lte: endDate } } }),
+      prisma.attendanceRecord.findMany({
+        where: {
+          employeeId: { in: employeeIds },
+          date: { gte: startDate, lte: endDate },
+        },
+      }),
+    ]);
+    
+    // Index stored records by employee + calendar day
+    const existingByKey = new Map(
+      existingRecords.map((record) => [`${record.employeeId}|${formatDateOnly(record.date)}`, record])
+    );
+    
+    let recordCount = 0;
+    let changedDayCount = 0;
+    let unmatchedPunchCount = 0;
+    let invertedPunchCount = 0;
+    
+    for (const [employeeKey, records] of recordsByEmployee) {
+      const { id: employeeId, name: employeeName } = employees.get(employeeKey)!;
+      const processed = processEmployeeMonth(year, month, employeeId ?? '', records, {
+        schedules,
+        holidays,
+        shift: employeeId ? shiftByEmployee.get(employeeId) ?? null : null,
+        employment: employeeId ? employmentByEmployee.get(employeeId) : undefined,
+      });
+      recordCount += processed.length;
+      unmatchedPunchCount += sumUnmatchedPunches(processed);
+      invertedPunchCount += sumInvertedPunches(processed);
+      
+      if (!employeeId) {
+        continue;
+      }
+      
+      for (const record of processed) {
+        const date = formatDateOnly(record.date);
+        const existing = existingByKey.get(`${employeeId}|${date}`);
+        const after = toDaySnapshot(record);
+        const before = existing ? toDaySnapshot(existing) : null;
+        
+        if (before && !isDayChanged(before, after)) {
+          continue;
+        }
+        
+        changedDayCount++;
+        totalChanges++;
+        if (changes.length < MAX_PREVIEW_CHANGES) {
+          changes.push({ employeeName, date, before, after });
+        }
+      }
+    }
+    
+    months.push({
+      year,
+      month,
+      employeeCount: recordsByEmployee.size,
+      recordCount,
+      replacedCount: existingRecords.length,
+      changedDayCount,
+      unmatchedPunchCount,
+      invertedPunchCount,
+    });
+  }
+  
+  const previousImport = await prisma.importBatch.findFirst({
+    where: { sha256, status: 'APPLIED' },
+    orderBy: { createdAt: 'desc' },
+    select: { filename: true, uploaderName: true, createdAt: true },
+  });
+  
+  return {
+    newEmployees,
+    employeeCount: employees.size,
+    recordCount: months.reduce((sum, summary) => sum + summary.recordCount, 0),
+    replacedCount: months.reduce((sum, summary) => sum + summary.replacedCount, 0),
+    months,
+    changes,
+    changesTruncated: totalChanges > changes.length,
+    previousImport: previousImport && {
+      ...previousImport,
+      createdAt: previousImport.createdAt.toISOString(),
+    },
+  };
+}
+
 // ============================================================================
 // MAIN API ROUTE HANDLER
 // ============================================================================
@@ -469,26 +1414,40 @@ function parseExcelFile(buffer: Buffer): NormalizedAttendanceRecord[] {
  * WORKFLOW:
  * 1. Extract and validate file from FormData
  * 2. Parse Excel file and normalize data
- * 3. Group records by employee and detect month/year
- * 4. Upsert employees to get IDs
- * 5. Delete existing records for that month (idempotency)
- * 6. Process with gap filling (calculation engine)
- * 7. Batch insert all records
- * 8. Return success response with statistics
+ * 3. Resolve employees (code, name, alias), date night-shift rows by
+ *    shift start date, then group records by (year, month) and employee
+ * 4. Create new employees and assign new codes to get IDs
+ * 5. For each month in the file:
+ *    a. Delete existing records for that month's employees (idempotency)
+ *    b. Process with gap filling (calculation engine, using work schedules and holidays)
+ *    c. Batch insert the month's records
+ * 6. Record the upload as an import batch with snapshots of the replaced
+ *    records (see lib/import-batches)
+ * 7. Return success response with a per-month breakdown
+ * 
+ * PREVIEW MODE (?mode=preview):
+ * Steps 1-3 run as normal, then buildUploadPreview() reports what steps 4-5
+ * would do without opening a transaction or writing anything.
  * 
  * ERROR HANDLING:
  * - 400: Client errors (invalid file, bad data)
+ * - 401: Not signed in
+ * - 403: Signed in without an ADMIN or HR_MANAGER role
  * - 500: Server errors (database issues, unexpected failures)
  * 
  * @param {NextRequest} request - Next.js request object with FormData
  * @returns {Promise<NextResponse>} JSON response
  */
-export async function POST(request: NextRequest): Promise<NextResponse<UploadSuccessResponse | UploadErrorResponse>> {
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<UploadSuccessResponse | UploadPreviewResponse | UploadErrorResponse>> {
   try {
     // ========================================================================
     // STEP 1: EXTRACT AND VALIDATE FILE
     // ========================================================================
     
+    const uploader = await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     
@@ -503,167 +1462,305 @@ export async function POST(request: NextRequest): Promise<NextResponse<UploadSuc
       );
     }
     
-    // Validate file extension
+    // Validate file extension, error handling mode and import profile
     validateFileExtension(file.name);
+    const errorMode = parseErrorMode(formData.get('errorMode'));
+    const importSettings = await loadImportSettings(formData.get('profileId'));
     
     // Convert File to Buffer for xlsx processing
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
+    const sha256 = createHash('sha256').update(buffer).digest('hex');
     
     // ========================================================================
     // STEP 2: PARSE EXCEL FILE
     // ========================================================================
     
-    const normalizedRecords = parseExcelFile(buffer);
+    const parsed = parseExcelFile(buffer, file.name, importSettings);
+    const normalizedRecords = parsed.records;
+    const rowErrorReport = buildRowErrorReport(parsed);
+    
+    console.log(
+      `[Upload] "${uploader.email}" uploaded "${file.name}": parsed ${normalizedRecords.length} valid records, ` +
+      `${parsed.invalidRowCount} invalid rows (errorMode: ${errorMode})`
+    );
+    
+    // Reject mode: any invalid row fails the whole file with the full report
+    if (parsed.errors.length > 0 && errorMode === 'reject') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: `${parsed.invalidRowCount} row(s) contain ${parsed.errors.length} error(s). Fix them or import valid rows only.`,
+          rowErrors: rowErrorReport.rowErrors,
+          rowErrorCount: rowErrorReport.rowErrorCount,
+        },
+        { status: 400 }
+      );
+    }
     
-    console.log(`[Upload] Parsed ${normalizedRecords.length} records from Excel file`);
+    if (normalizedRecords.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No valid attendance records found in Excel file',
+          rowErrors: rowErrorReport.rowErrors,
+          rowErrorCount: rowErrorReport.rowErrorCount,
+        },
+        { status: 400 }
+      );
+    }
     
     // ========================================================================
-    // STEP 3: DETECT MONTH/YEAR & GROUP BY EMPLOYEE
+    // STEP 3: GROUP BY MONTH & EMPLOYEE
     // ========================================================================
     
-    // Extract month/year from first valid date record
-    const firstDate = normalizedRecords[0].date;
-    const targetYear = firstDate.getFullYear();
-    const targetMonth = firstDate.getMonth() + 1; // 1-12
+    const { employees, getEmployeeKey } = await resolveUploadEmployees(normalizedRecords);
+    const shiftByEmployee = await loadEmployeeShifts(employees);
+    const employmentByEmployee = await loadEmploymentPeriods(employees);
+    const monthGroups = groupRecordsByMonth(
+      assignUploadShiftDates(normalizedRecords, getEmployeeKey, shiftByEmployee),
+      getEmployeeKey
+    );
     
-    console.log(`[Upload] Processing attendance for ${targetYear}-${targetMonth.toString().padStart(2, '0')}`);
+    console.log(
+      `[Upload] Found ${employees.size} unique employees across ${monthGroups.length} month(s): ` +
+      monthGroups.map((group) => `${group.year}-${group.month.toString().padStart(2, '0')}`).join(', ')
+    );
     
-    // Group records by employee name
-    const recordsByEmployee = new Map<string, NormalizedAttendanceRecord[]>();
+    // ========================================================================
+    // PREVIEW MODE: REPORT CHANGES WITHOUT WRITING
+    // ========================================================================
     
-    for (const record of normalizedRecords) {
-      const existing = recordsByEmployee.get(record.employeeName) || [];
-      existing.push(record);
-      recordsByEmployee.set(record.employeeName, existing);
+    if (request.nextUrl.searchParams.get('mode') === 'preview') {
+      const preview = await buildUploadPreview(monthGroups, employees, shiftByEmployee, employmentByEmployee, sha256);
+      
+      console.log(
+        `[Upload] Preview: ${preview.recordCount} records, ${preview.replacedCount} replaced, ` +
+        `${preview.newEmployees.length} new employees`
+      );
+      
+      return NextResponse.json(
+        {
+          success: true,
+          preview: true,
+          message: `Upload would write ${preview.recordCount} records for ${preview.employeeCount} employees, replacing ${preview.replacedCount} existing records`,
+          details: { ...preview, ...rowErrorReport },
+        },
+        { status: 200 }
+      );
     }
     
-    console.log(`[Upload] Found ${recordsByEmployee.size} unique employees`);
-    
     // ========================================================================
     // STEP 4: PROCESS IN TRANSACTION FOR DATA CONSISTENCY
     // ========================================================================
+    // All months succeed or fail together
     
-    const result = await prisma.$transaction(async (tx) => {
+    const { importBatchId, monthSummaries } = await prisma.$transaction(async (tx) => {
       // ----------------------------------------------------------------------
-      // STEP 4A: UPSERT EMPLOYEES AND GET IDS
+      // STEP 4A: CREATE NEW EMPLOYEES AND GET IDS
       // ----------------------------------------------------------------------
       
-      const employeeMap = new Map<string, string>(); // name -> id
+      const employeeMap = new Map<string, string>(); // employee key -> id
+      let createdCount = 0;
       
-      for (const [employeeName] of recordsByEmployee) {
-        const employee = await tx.employee.upsert({
-          where: { name: employeeName },
-          update: {},
-          create: { name: employeeName },
+      for (const [employeeKey, employee] of employees) {
+        if (employee.id !== null) {
+          if (employee.assignCode) {
+            await tx.employee.update({
+              where: { id: employee.id },
+              data: { employeeCode: employee.employeeCode },
+            });
+          }
+          employeeMap.set(employeeKey, employee.id);
+          continue;
+        }
+        
+        // Reuse an employee created since the resolution (concurrent upload)
+        const existing = await tx.employee.findFirst({
+          where: employee.employeeCode !== null
+            ? { employeeCode: employee.employeeCode }
+            : { name: employee.name },
+          select: { id: true },
+        });
+        const created = existing ?? await tx.employee.create({
+          data: { name: employee.name, employeeCode: employee.employeeCode },
+          select: { id: true },
         });
-        employeeMap.set(employeeName, employee.id);
+        if (!existing) {
+          createdCount++;
+        }
+        employeeMap.set(employeeKey, created.id);
       }
       
-      console.log(`[Upload] Upserted ${employeeMap.size} employees`);
+      console.log(`[Upload] Resolved ${employeeMap.size} employees (${createdCount} created)`);
       
-      // ----------------------------------------------------------------------
-      // STEP 4B: DELETE EXISTING RECORDS FOR THIS MONTH
-      // ----------------------------------------------------------------------
-      // CRITICAL: This ensures idempotency - we can re-upload files without errors
+      // Work schedules apply across months; load the history once
+      const schedules = await tx.workSchedule.findMany({
+        orderBy: { effectiveFrom: 'asc' },
+      });
       
-      const employeeIds = Array.from(employeeMap.values());
-      const startDate = new Date(targetYear, targetMonth - 1, 1);
-      const endDate = new Date(targetYear, targetMonth, 0, 23, 59, 59, 999);
+      // Record the upload first: its records link to the batch
+      const batch = await tx.importBatch.create({
+        data: {
+          filename: file.name,
+          sha256,
+          uploaderId: uploader.id,
+          uploaderName: uploader.name,
+          employeeCount: employees.size,
+          recordCount: 0,
+          replacedCount: 0,
+        },
+        select: { id: true },
+      });
       
-      const deleteResult = await tx.attendanceRecord.deleteMany({
-        where: {
+      const summaries: MonthUploadSummary[] = [];
+      const batchMonths: ImportBatchMonth[] = [];
+      
+      for (const { year, month, recordsByEmployee } of monthGroups) {
+        const monthLabel = `${year}-${month.toString().padStart(2, '0')}`;
+        
+        // --------------------------------------------------------------------
+        // STEP 4B: DELETE EXISTING RECORDS FOR THIS MONTH
+        // --------------------------------------------------------------------
+        // CRITICAL: This ensures idempotency - we can re-upload files without errors.
+        // Only employees present in this month's rows are replaced.
+        // The replaced records are snapshotted first so the batch can be rolled back.
+        
+        const employeeIds = Array.from(recordsByEmployee.keys()).map((key) => employeeMap.get(key)!);
+        const { startDate, endDate } = getMonthWindow(year, month);
+        const monthWhere = {
           employeeId: { in: employeeIds },
           date: {
             gte: startDate,
             lte: endDate,
           },
-        },
-      });
-      
-      console.log(`[Upload] Deleted ${deleteResult.count} existing records for ${targetYear}-${targetMonth}`);
-      
-      // ----------------------------------------------------------------------
-      // STEP 4C: PROCESS EACH EMPLOYEE WITH GAP FILLING
-      // ----------------------------------------------------------------------
-      
-      interface PrismaAttendanceRecord {
-        employeeId: string;
-        date: Date;
-        inTime: string | null;
-        outTime: string | null;
-        workedHours: number;
-        status: 'PRESENT' | 'ABSENT' | 'WEEKEND' | 'HOLIDAY';
-      }
-      
-      const allProcessedRecords: PrismaAttendanceRecord[] = [];
-      
-      for (const [employeeName, records] of recordsByEmployee) {
-        const employeeId = employeeMap.get(employeeName)!;
+        };
+        const anomalyDecisions = await takeAnomalyDecisions(tx, employeeIds, { startDate, endDate });
+        
+        const replacedRecords = await tx.attendanceRecord.findMany({
+          where: monthWhere,
+          select: REPLACED_RECORD_FIELDS,
+        });
+        if (replacedRecords.length > 0) {
+          await tx.replacedAttendanceRecord.createMany({
+            data: replacedRecords.map(({ id, importBatchId, createdAt, ...record }) => ({
+              ...record,
+              importBatchId: batch.id,
+              recordId: id,
+              previousImportBatchId: importBatchId,
+              recordCreatedAt: createdAt,
+            })),
+          });
+        }
+        
+        const deleteResult = await tx.attendanceRecord.deleteMany({ where: monthWhere });
+        
+        console.log(`[Upload] Deleted ${deleteResult.count} existing records for ${monthLabel}`);
+        
+        // --------------------------------------------------------------------
+        // STEP 4C: PROCESS EACH EMPLOYEE WITH GAP FILLING
+        // --------------------------------------------------------------------
+        // Holidays, work schedules and employment periods decide which
+        // unrecorded days are HOLIDAY, WEEKEND or ABSENT
+        
+        const holidays = await tx.holiday.findMany({
+          where: { date: { gte: startDate, lte: endDate } },
+        });
         
-        // Convert to RawAttendanceInput format
-        const rawRecords: RawAttendanceInput[] = records.map((record) => ({
-          employeeId,
-          date: record.date,
-          inTime: record.inTime,
-          outTime: record.outTime,
-        }));
+        const monthRecords: UploadedAttendanceRecord[] = [];
+        const monthAnomalies: DetectedAnomaly[] = [];
         
-        // Apply calculation engine (gap filling + business logic)
-        const processedRecords = processMonthlyAttendance(
-          targetYear,
-          targetMonth,
-          rawRecords
+        for (const [employeeKey, records] of recordsByEmployee) {
+          const employeeId = employeeMap.get(employeeKey)!;
+          const shift = shiftByEmployee.get(employeeId) ?? null;
+          const processed = processEmployeeMonth(year, month, employeeId, records, {
+            schedules,
+            holidays,
+            shift,
+            employment: employmentByEmployee.get(employeeId),
+          });
+          
+          monthRecords.push(...processed);
+          monthAnomalies.push(...detectAttendanceAnomalies(processed, shift));
+        }
+        
+        // --------------------------------------------------------------------
+        // STEP 4D: BATCH INSERT THIS MONTH'S RECORDS
+        // --------------------------------------------------------------------
+        // PERFORMANCE: Single createMany per month instead of individual creates
+        
+        const insertResult = await tx.attendanceRecord.createMany({
+          data: monthRecords.map((record) => ({ ...record, importBatchId: batch.id })),
+          // We already deleted old records in this transaction, so no duplicates expected
+        });
+        
+        console.log(`[Upload] Inserted ${insertResult.count} attendance records for ${monthLabel}`);
+        
+        // --------------------------------------------------------------------
+        // STEP 4E: STORE ANOMALIES FOR REVIEW
+        // --------------------------------------------------------------------
+        
+        const anomalyCount = await storeMonthAnomalies(
+          tx,
+          employeeIds,
+          { startDate, endDate },
+          monthAnomalies,
+          anomalyDecisions
         );
         
-        // Transform to Prisma format
-        const prismaRecords = processedRecords.map((record) => ({
-          employeeId: record.employeeId,
-          date: record.date,
-          inTime: record.inTime,
-          outTime: record.outTime,
-          workedHours: record.workedHours,
-          status: record.status,
-        }));
+        console.log(`[Upload] Flagged ${anomalyCount} anomalies for ${monthLabel}`);
         
-        allProcessedRecords.push(...prismaRecords);
+        summaries.push({
+          year,
+          month,
+          employeeCount: recordsByEmployee.size,
+          recordCount: insertResult.count,
+          deletedCount: deleteResult.count,
+          unmatchedPunchCount: sumUnmatchedPunches(monthRecords),
+          invertedPunchCount: sumInvertedPunches(monthRecords),
+          anomalyCount,
+        });
+        batchMonths.push({
+          year,
+          month,
+          employeeIds,
+          recordCount: insertResult.count,
+          replacedCount: deleteResult.count,
+        });
       }
       
-      console.log(`[Upload] Processed ${allProcessedRecords.length} total records (with gap filling)`);
-      
-      // ----------------------------------------------------------------------
-      // STEP 4D: BATCH INSERT ALL RECORDS
-      // ----------------------------------------------------------------------
-      // PERFORMANCE: Single createMany is vastly faster than individual creates
-      
-      const insertResult = await tx.attendanceRecord.createMany({
-        data: allProcessedRecords,
-        // We already deleted old records in this transaction, so no duplicates expected
+      await tx.importBatch.update({
+        where: { id: batch.id },
+        data: {
+          months: batchMonths,
+          recordCount: summaries.reduce((sum, summary) => sum + summary.recordCount, 0),
+          replacedCount: summaries.reduce((sum, summary) => sum + summary.deletedCount, 0),
+        },
       });
       
-      console.log(`[Upload] Inserted ${insertResult.count} attendance records`);
-      
-      return {
-        employeeCount: employeeMap.size,
-        recordCount: insertResult.count,
-        deletedCount: deleteResult.count,
-      };
+      return { importBatchId: batch.id, monthSummaries: summaries };
     });
     
     // ========================================================================
     // STEP 5: RETURN SUCCESS RESPONSE
     // ========================================================================
     
+    const recordCount = monthSummaries.reduce((sum, summary) => sum + summary.recordCount, 0);
+    const deletedCount = monthSummaries.reduce((sum, summary) => sum + summary.deletedCount, 0);
+    
     return NextResponse.json(
       {
         success: true,
-        count: result.recordCount,
-        message: `Successfully processed ${result.recordCount} records for ${result.employeeCount} employees`,
+        count: recordCount,
+        message: `Successfully processed ${recordCount} records for ${employees.size} employees across ${monthSummaries.length} month(s)`,
         details: {
-          employeeCount: result.employeeCount,
-          recordCount: result.recordCount,
-          month: targetMonth,
-          year: targetYear,
+          importBatchId,
+          employeeCount: employees.size,
+          recordCount,
+          deletedCount,
+          months: monthSummaries,
+          ...rowErrorReport,
         },
       },
       { status: 200 }
@@ -675,6 +1772,18 @@ export async function POST(request: NextRequest): Promise<NextResponse<UploadSuc
     
     console.error('[Upload] Error processing file:', error);
     
+    // Authentication (401) and role (403) errors
+    if (error instanceof AuthenticationError || error instanceof PermissionDeniedError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof AuthenticationError ? 'Unauthorized' : 'Forbidden',
+          details: error.message,
+        },
+        { status: error instanceof AuthenticationError ? 401 : 403 }
+      );
+    }
+    
     // Client errors (400)
     if (
       error instanceof FileValidationError ||
@@ -0,0 +1,166 @@
+/**
+ * Single User API Route
+ * 
+ * PATCH  /api/users/:id - Update, reset the password of, or deactivate a user
+ * DELETE /api/users/:id - Delete a user
+ * 
+ * Admin only. Admins cannot demote, deactivate or delete their own account,
+ * so an installation always keeps at least one working admin.
+ * 
+ * REQUEST BODY (PATCH, all fields optional):
+ * { "name": "...", "email": "...", "password": "...", "role": "TEAM_LEAD", "employeeId": "65f1c2...", "active": false }
+ * 
+ * @module app/api/users/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  RecordConflictError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { hashPassword, requireApiUser } from '@/lib/auth';
+import { isValidObjectId, readJsonObject, RequestValidationError } from '@/lib/validation';
+import {
+  assertEmployeeLink,
+  parseUserUpdateInput,
+  toUserSummary,
+  USER_MANAGER_ROLES,
+  type UserSummary,
+} from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single user
+ */
+interface UserResponse {
+  success: true;
+  user: UserSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/users/:id
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body, missing employee link for the role, or an admin
+ *   demoting or deactivating themselves
+ * - 401/403: Not signed in as an admin
+ * - 404: User or linked employee does not exist
+ * - 409: E-mail in use, or the employee already has an account
+ * 
+ * @param {NextRequest} request - Request with JSON changes
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated user
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<UserResponse | ApiErrorResponse>> {
+  try {
+    const admin = await requireApiUser(USER_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('User', id);
+    }
+    
+    const input = parseUserUpdateInput(await readJsonObject(request));
+    
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) {
+      throw new RecordNotFoundError('User', id);
+    }
+    
+    if (id === admin.id && ((input.role && input.role !== 'ADMIN') || input.active === false)) {
+      throw new RequestValidationError('You cannot demote or deactivate your own account', 'role');
+    }
+    
+    const role = input.role ?? existing.role;
+    const employeeId = input.employeeId !== undefined ? input.employeeId : existing.employeeId;
+    assertEmployeeLink(role, employeeId);
+    
+    if (input.employeeId) {
+      const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+      if (!employee) {
+        throw new RecordNotFoundError('Employee', input.employeeId);
+      }
+      
+      const linked = await prisma.user.findFirst({ where: { employeeId: input.employeeId, id: { not: id } } });
+      if (linked) {
+        throw new RecordConflictError(`${employee.name} already has an account (${linked.email})`);
+      }
+    }
+    
+    const { password, ...changes } = input;
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        ...changes,
+        ...(password !== undefined ? { passwordHash: await hashPassword(password) } : {}),
+      },
+      include: { employee: true },
+    });
+    
+    console.log(`[Users] "${admin.email}" updated account "${user.email}"`);
+    
+    return NextResponse.json({ success: true, user: toUserSummary(user) });
+  } catch (error) {
+    return handleApiError(error, 'Users');
+  }
+}
+
+/**
+ * DELETE /api/users/:id
+ * 
+ * ERROR HANDLING:
+ * - 400: An admin deleting their own account
+ * - 401/403: Not signed in as an admin
+ * - 404: User does not exist
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Success flag
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<{ success: true } | ApiErrorResponse>> {
+  try {
+    const admin = await requireApiUser(USER_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('User', id);
+    }
+    
+    if (id === admin.id) {
+      throw new RequestValidationError('You cannot delete your own account');
+    }
+    
+    const user = await prisma.user.delete({ where: { id } });
+    
+    console.log(`[Users] "${admin.email}" deleted account "${user.email}"`);
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Users');
+  }
+}
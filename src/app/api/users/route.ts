@@ -0,0 +1,136 @@
+/**
+ * User Collection API Route
+ * 
+ * GET  /api/users - List login accounts
+ * POST /api/users - Create a login account
+ * 
+ * Admin only. Team lead and employee accounts must be linked to an
+ * employee; each employee has at most one account.
+ * 
+ * REQUEST BODY (POST):
+ * {
+ *   "email": "sam@example.com",
+ *   "name": "Sam Lee",
+ *   "password": "initial-password",
+ *   "role": "EMPLOYEE",
+ *   "employeeId": "65f1c2..."
+ * }
+ * 
+ * @module app/api/users/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  RecordConflictError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { hashPassword, requireApiUser } from '@/lib/auth';
+import { readJsonObject } from '@/lib/validation';
+import {
+  parseUserCreateInput,
+  toUserSummary,
+  USER_MANAGER_ROLES,
+  type UserSummary,
+} from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for user listings
+ */
+interface UserListResponse {
+  success: true;
+  users: UserSummary[];
+}
+
+/**
+ * API response structure for a single user
+ */
+interface UserResponse {
+  success: true;
+  user: UserSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/users
+ * 
+ * @returns {Promise<NextResponse>} All users, alphabetical by name
+ */
+export async function GET(): Promise<NextResponse<UserListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(USER_MANAGER_ROLES);
+    
+    const users = await prisma.user.findMany({
+      include: { employee: true },
+      orderBy: { name: 'asc' },
+    });
+    
+    return NextResponse.json({ success: true, users: users.map(toUserSummary) });
+  } catch (error) {
+    return handleApiError(error, 'Users');
+  }
+}
+
+/**
+ * POST /api/users
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 401/403: Not signed in as an admin
+ * - 404: Linked employee does not exist
+ * - 409: E-mail in use, or the employee already has an account
+ * 
+ * @param {NextRequest} request - Request with JSON user body
+ * @returns {Promise<NextResponse>} Created user (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<UserResponse | ApiErrorResponse>> {
+  try {
+    const admin = await requireApiUser(USER_MANAGER_ROLES);
+    const input = parseUserCreateInput(await readJsonObject(request));
+    
+    if (input.employeeId) {
+      const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+      if (!employee) {
+        throw new RecordNotFoundError('Employee', input.employeeId);
+      }
+      
+      const linked = await prisma.user.findFirst({ where: { employeeId: input.employeeId } });
+      if (linked) {
+        throw new RecordConflictError(`${employee.name} already has an account (${linked.email})`);
+      }
+    }
+    
+    const user = await prisma.user.create({
+      data: {
+        email: input.email,
+        name: input.name,
+        passwordHash: await hashPassword(input.password),
+        role: input.role,
+        employeeId: input.employeeId,
+      },
+      include: { employee: true },
+    });
+    
+    console.log(`[Users] "${admin.email}" created ${user.role} account "${user.email}"`);
+    
+    return NextResponse.json(
+      { success: true, user: toUserSummary(user) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'Users');
+  }
+}
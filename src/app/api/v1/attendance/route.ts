@@ -0,0 +1,86 @@
+/**
+ * Attendance Query API Route (v1)
+ * 
+ * GET /api/v1/attendance?status=ABSENT,HOLIDAY&from=YYYY-MM-DD&to=YYYY-MM-DD&page=1&pageSize=50
+ * 
+ * Attendance records of every employee the caller may see, ordered by date then employee name.
+ * `status` accepts one or more comma-separated statuses; a missing date
+ * bound defaults to the current month.
+ * 
+ * RESPONSE: AttendanceListResponse (lib/api-v1)
+ * 
+ * @module app/api/v1/attendance/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { endOfMonth, startOfMonth } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { getEmployeeScope, requireApiUser } from '@/lib/auth';
+import {
+  parseDateRange,
+  parseStatusFilter,
+  toApiAttendanceRecord,
+  type AttendanceListResponse,
+} from '@/lib/api-v1';
+import { parsePageRequest, toPaginationInfo, toSkipTake } from '@/lib/pagination';
+import { toScopeFilter } from '@/lib/users';
+import { formatDateOnly } from '@/lib/validation';
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/v1/attendance
+ * 
+ * ERROR HANDLING:
+ * - 400: Unknown status, malformed or reversed date range, page or pageSize
+ * - 401: Not signed in
+ * 
+ * @param {NextRequest} request - Request with `status`, `from`, `to`, `page` and `pageSize` search params
+ * @returns {Promise<NextResponse>} One page of attendance records
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<AttendanceListResponse | ApiErrorResponse>> {
+  try {
+    const scope = await getEmployeeScope(await requireApiUser());
+    
+    const searchParams = request.nextUrl.searchParams;
+    const statuses = parseStatusFilter(searchParams.get('status'));
+    const now = new Date();
+    const range = parseDateRange(searchParams.get('from'), searchParams.get('to'), {
+      from: startOfMonth(now),
+      to: endOfMonth(now),
+    });
+    const pageRequest = parsePageRequest(searchParams);
+    
+    const where = {
+      date: { gte: range.from, lte: range.to },
+      employeeId: toScopeFilter(scope),
+      ...(statuses && { status: { in: statuses } }),
+    };
+    const [totalItems, records] = await Promise.all([
+      prisma.attendanceRecord.count({ where }),
+      prisma.attendanceRecord.findMany({
+        where,
+        include: { employee: true },
+        orderBy: [{ date: 'asc' }, { employee: { name: 'asc' } }, { id: 'asc' }],
+        ...toSkipTake(pageRequest),
+      }),
+    ]);
+    
+    return NextResponse.json({
+      success: true,
+      from: formatDateOnly(range.from),
+      to: formatDateOnly(range.to),
+      records: records.map(toApiAttendanceRecord),
+      pagination: toPaginationInfo(pageRequest, totalItems),
+    });
+  } catch (error) {
+    return handleApiError(error, 'AttendanceV1');
+  }
+}
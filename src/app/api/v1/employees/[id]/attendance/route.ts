@@ -0,0 +1,113 @@
+/**
+ * Employee Attendance API Route (v1)
+ * 
+ * GET /api/v1/employees/:id/attendance?from=YYYY-MM-DD&to=YYYY-MM-DD&page=1&pageSize=50
+ * 
+ * Attendance records of one employee in an inclusive date range, oldest
+ * first. A missing bound defaults to the current month.
+ * 
+ * RESPONSE: AttendanceListResponse (lib/api-v1)
+ * 
+ * @module app/api/v1/employees/[id]/attendance/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { endOfMonth, startOfMonth } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import {
+  handleApiError,
+  PermissionDeniedError,
+  RecordNotFoundError,
+  type ApiErrorResponse,
+} from '@/lib/api';
+import { getEmployeeScope, requireApiUser } from '@/lib/auth';
+import {
+  parseDateRange,
+  toApiAttendanceRecord,
+  type AttendanceListResponse,
+} from '@/lib/api-v1';
+import { parsePageRequest, toPaginationInfo, toSkipTake } from '@/lib/pagination';
+import { isInScope } from '@/lib/users';
+import { formatDateOnly, isValidObjectId } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/v1/employees/:id/attendance
+ * 
+ * ERROR HANDLING:
+ * - 400: Malformed or reversed date range, page or pageSize
+ * - 401: Not signed in
+ * - 403: Employee is outside the caller's scope
+ * - 404: Employee does not exist
+ * 
+ * @param {NextRequest} request - Request with `from`, `to`, `page` and `pageSize` search params
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} One page of attendance records
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<AttendanceListResponse | ApiErrorResponse>> {
+  try {
+    const scope = await getEmployeeScope(await requireApiUser());
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Employee', id);
+    }
+    
+    if (!isInScope(scope, id)) {
+      throw new PermissionDeniedError('You may only view employees in your scope');
+    }
+    
+    const searchParams = request.nextUrl.searchParams;
+    const now = new Date();
+    const range = parseDateRange(searchParams.get('from'), searchParams.get('to'), {
+      from: startOfMonth(now),
+      to: endOfMonth(now),
+    });
+    const pageRequest = parsePageRequest(searchParams);
+    
+    const employee = await prisma.employee.findUnique({ where: { id } });
+    if (!employee) {
+      throw new RecordNotFoundError('Employee', id);
+    }
+    
+    const where = { employeeId: id, date: { gte: range.from, lte: range.to } };
+    const [totalItems, records] = await Promise.all([
+      prisma.attendanceRecord.count({ where }),
+      prisma.attendanceRecord.findMany({
+        where,
+        include: { employee: true },
+        orderBy: { date: 'asc' },
+        ...toSkipTake(pageRequest),
+      }),
+    ]);
+    
+    return NextResponse.json({
+      success: true,
+      from: formatDateOnly(range.from),
+      to: formatDateOnly(range.to),
+      records: records.map(toApiAttendanceRecord),
+      pagination: toPaginationInfo(pageRequest, totalItems),
+    });
+  } catch (error) {
+    return handleApiError(error, 'EmployeeAttendanceV1');
+  }
+}
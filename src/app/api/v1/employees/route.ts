@@ -0,0 +1,56 @@
+/**
+ * Employee List API Route (v1)
+ * 
+ * GET /api/v1/employees?page=1&pageSize=50 - Employees the caller may see, alphabetical
+ * 
+ * RESPONSE: EmployeeListResponse (lib/api-v1)
+ * 
+ * @module app/api/v1/employees/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { getEmployeeScope, requireApiUser } from '@/lib/auth';
+import { toApiEmployee, type EmployeeListResponse } from '@/lib/api-v1';
+import { parsePageRequest, toPaginationInfo, toSkipTake } from '@/lib/pagination';
+import { toScopeFilter } from '@/lib/users';
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/v1/employees
+ * 
+ * ERROR HANDLING:
+ * - 400: Malformed page or pageSize
+ * - 401: Not signed in
+ * 
+ * @param {NextRequest} request - Request with `page` and `pageSize` search params
+ * @returns {Promise<NextResponse>} One page of employees
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<EmployeeListResponse | ApiErrorResponse>> {
+  try {
+    const scope = await getEmployeeScope(await requireApiUser());
+    const pageRequest = parsePageRequest(request.nextUrl.searchParams);
+    const where = { id: toScopeFilter(scope) };
+    
+    const [totalItems, employees] = await Promise.all([
+      prisma.employee.count({ where }),
+      prisma.employee.findMany({ where, orderBy: [{ name: 'asc' }, { id: 'asc' }], ...toSkipTake(pageRequest) }),
+    ]);
+    
+    return NextResponse.json({
+      success: true,
+      employees: employees.map(toApiEmployee),
+      pagination: toPaginationInfo(pageRequest, totalItems),
+    });
+  } catch (error) {
+    return handleApiError(error, 'EmployeesV1');
+  }
+}
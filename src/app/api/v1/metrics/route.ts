@@ -0,0 +1,70 @@
+/**
+ * Monthly Metrics API Route (v1)
+ * 
+ * GET /api/v1/metrics?month=YYYY-MM&page=1&pageSize=50
+ *                    &departmentId=...&teamId=...&managerId=...
+ * 
+ * Company-wide and per-employee productivity metrics of one month, from
+ * the same aggregation as the dashboard (lib/monthly-report). The employee
+ * list is paginated; company metrics always cover every employee the caller
+ * may see. Without `month` the current month is reported.
+ * 
+ * The optional org filter (lib/org-chart) computes the company metrics for
+ * one part of the org chart: a department, a team and/or a manager with
+ * everyone below them in the reporting line.
+ * 
+ * RESPONSE: MetricsResponse (lib/api-v1)
+ * 
+ * @module app/api/v1/metrics/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { getEmployeeScope, requireApiUser } from '@/lib/auth';
+import type { MetricsResponse } from '@/lib/api-v1';
+import { formatMonthParam, parseMonthQuery } from '@/lib/months';
+import { getMonthlyReport } from '@/lib/monthly-report';
+import { parseOrgFilterQuery } from '@/lib/org-chart';
+import { resolveOrgScope } from '@/lib/org-chart-queries';
+import { paginateArray, parsePageRequest, toPaginationInfo } from '@/lib/pagination';
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/v1/metrics
+ * 
+ * ERROR HANDLING:
+ * - 400: Malformed month, page, pageSize or org filter id
+ * - 401: Not signed in
+ * 
+ * @param {NextRequest} request - Request with `month`, `page`, `pageSize` and org filter search params
+ * @returns {Promise<NextResponse>} Metrics of the month
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<MetricsResponse | ApiErrorResponse>> {
+  try {
+    const user = await requireApiUser();
+    
+    const searchParams = request.nextUrl.searchParams;
+    const { year, month } = parseMonthQuery(searchParams.get('month'));
+    const pageRequest = parsePageRequest(searchParams);
+    const scope = await resolveOrgScope(await getEmployeeScope(user), parseOrgFilterQuery(searchParams));
+    
+    const report = await getMonthlyReport(year, month, scope);
+    
+    return NextResponse.json({
+      success: true,
+      month: formatMonthParam(year, month),
+      company: report.companyMetrics,
+      employees: paginateArray(report.employeeMetrics, pageRequest),
+      pagination: toPaginationInfo(pageRequest, report.employeeMetrics.length),
+    });
+  } catch (error) {
+    return handleApiError(error, 'MetricsV1');
+  }
+}
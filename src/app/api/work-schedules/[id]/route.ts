@@ -0,0 +1,126 @@
+/**
+ * Single Work Schedule API Route
+ * 
+ * PATCH  /api/work-schedules/:id - Update fields of an existing schedule
+ * DELETE /api/work-schedules/:id - Remove a schedule version
+ * 
+ * NOTE: Stored attendance statuses are computed at upload time. Editing a
+ * schedule immediately changes expected hours and productivity on the
+ * dashboard, but ABSENT/WEEKEND classification of already-imported days
+ * only changes when the affected month is re-uploaded.
+ * 
+ * ACCESS: ADMIN or HR_MANAGER only.
+ * 
+ * @module app/api/work-schedules/[id]/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, RecordNotFoundError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { isValidObjectId, readJsonObject } from '@/lib/validation';
+import {
+  parseWorkScheduleInput,
+  toWorkScheduleSummary,
+  type WorkScheduleSummary,
+} from '@/lib/work-schedules';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dynamic route segment parameters
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * API response structure for a single schedule
+ */
+interface WorkScheduleResponse {
+  success: true;
+  schedule: WorkScheduleSummary;
+}
+
+/**
+ * API response structure for deletions
+ */
+interface WorkScheduleDeleteResponse {
+  success: true;
+  id: string;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * PATCH /api/work-schedules/:id
+ * 
+ * @param {NextRequest} request - Request with partial JSON schedule body
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Updated schedule
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<WorkScheduleResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Work schedule', id);
+    }
+    
+    const input = parseWorkScheduleInput(await readJsonObject(request), true);
+    
+    const schedule = await prisma.workSchedule.update({
+      where: { id },
+      data: input,
+    });
+    
+    console.log(`[WorkSchedules] Updated schedule ${id}`);
+    
+    return NextResponse.json({ success: true, schedule: toWorkScheduleSummary(schedule) });
+  } catch (error) {
+    return handleApiError(error, 'WorkSchedules');
+  }
+}
+
+/**
+ * DELETE /api/work-schedules/:id
+ * 
+ * Dates previously covered by the deleted schedule fall back to the
+ * preceding schedule version, or to the default rules if none exists.
+ * 
+ * @param {NextRequest} _request - Unused request object
+ * @param {RouteContext} context - Route parameters
+ * @returns {Promise<NextResponse>} Deleted schedule id
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<WorkScheduleDeleteResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const { id } = await params;
+    if (!isValidObjectId(id)) {
+      throw new RecordNotFoundError('Work schedule', id);
+    }
+    
+    await prisma.workSchedule.delete({ where: { id } });
+    
+    console.log(`[WorkSchedules] Deleted schedule ${id}`);
+    
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    return handleApiError(error, 'WorkSchedules');
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Work Schedule Collection API Route
+ * 
+ * GET  /api/work-schedules - List all schedules ordered by effective date
+ * POST /api/work-schedules - Create a new schedule version
+ * 
+ * Schedules are versioned by effectiveFrom. Creating a schedule with a later
+ * effectiveFrom changes expected hours from that date onward while keeping
+ * earlier months calculated under the rules that applied at the time.
+ * 
+ * REQUEST BODY (POST):
+ * {
+ *   "name": "Five day week",
+ *   "effectiveFrom": "2024-07-01",
+ *   "mondayHours": 8, ..., "saturdayHours": 0, "sundayHours": 0,
+ *   "overtimeMultiplier": 1.5, "sundayOvertimeMultiplier": 2, "holidayOvertimeMultiplier": 2
+ * }
+ * 
+ * The unpaid break rule and the overtime multipliers are optional.
+ * 
+ * ACCESS: Listing requires a signed-in user; changes require ADMIN or HR_MANAGER.
+ * 
+ * @module app/api/work-schedules/route
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { handleApiError, type ApiErrorResponse } from '@/lib/api';
+import { requireApiUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { readJsonObject } from '@/lib/validation';
+import {
+  parseWorkScheduleInput,
+  toWorkScheduleSummary,
+  type WorkScheduleSummary,
+} from '@/lib/work-schedules';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for schedule listings
+ */
+interface WorkScheduleListResponse {
+  success: true;
+  schedules: WorkScheduleSummary[];
+}
+
+/**
+ * API response structure for a single schedule
+ */
+interface WorkScheduleResponse {
+  success: true;
+  schedule: WorkScheduleSummary;
+}
+
+// ============================================================================
+// ROUTE HANDLERS
+// ============================================================================
+
+/**
+ * GET /api/work-schedules
+ * 
+ * @returns {Promise<NextResponse>} All schedules, oldest effective date first
+ */
+export async function GET(): Promise<NextResponse<WorkScheduleListResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser();
+    
+    const schedules = await prisma.workSchedule.findMany({
+      orderBy: { effectiveFrom: 'asc' },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      schedules: schedules.map(toWorkScheduleSummary),
+    });
+  } catch (error) {
+    return handleApiError(error, 'WorkSchedules');
+  }
+}
+
+/**
+ * POST /api/work-schedules
+ * 
+ * ERROR HANDLING:
+ * - 400: Invalid body
+ * - 409: A schedule with the same effectiveFrom already exists
+ * 
+ * @param {NextRequest} request - Request with JSON schedule body
+ * @returns {Promise<NextResponse>} Created schedule (201)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<WorkScheduleResponse | ApiErrorResponse>> {
+  try {
+    await requireApiUser(ATTENDANCE_MANAGER_ROLES);
+    
+    const input = parseWorkScheduleInput(await readJsonObject(request));
+    
+    const schedule = await prisma.workSchedule.create({ data: input });
+    
+    console.log(`[WorkSchedules] Created schedule "${schedule.name}" effective ${schedule.effectiveFrom.toISOString()}`);
+    
+    return NextResponse.json(
+      { success: true, schedule: toWorkScheduleSummary(schedule) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, 'WorkSchedules');
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * Employee Attendance Page
+ *
+ * Server Component drilling down from the dashboard into one employee's
+ * month: a calendar grid of every attendance record with in/out times,
+ * worked versus expected hours and the daily productivity, followed by
+ * inline correction of the records and their correction history.
+ *
+ * Month navigation uses the same `month=YYYY-MM` search param as the
+ * dashboard.
+ *
+ * ACCESS: Employees outside the signed-in user's scope are reported as not
+ * found. Only ADMIN and HR_MANAGER users can correct records, assign the
+ * employee's department, team and manager, and maintain the employee code,
+ * aliases and merges; others see them as text.
+ *
+ * @module app/employees/[id]/page
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { eachDayOfInterval, endOfMonth, format, startOfMonth } from 'date-fns';
+import { ArrowLeft, Calendar, User } from 'lucide-react';
+import { prisma } from '@/lib/prisma';
+import { getEmployeeScope, requirePageUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES, hasRole, isInScope } from '@/lib/users';
+import {
+  ATTENDANCE_STATUS_RULES,
+  calculateDailyOvertime,
+  calculateProductivity,
+  getExpectedHours,
+  getStatusExpectedHours,
+  isEmployedOn,
+  type EmploymentPeriod,
+} from '@/lib/calculations';
+import { indexApprovedLeave } from '@/lib/leave-requests';
+import { formatMonthParam, parseMonthParam } from '@/lib/months';
+import { formatDateOnly, isValidObjectId } from '@/lib/validation';
+import { toApiAttendanceRecord, type ApiAttendanceRecord } from '@/lib/api-v1';
+import { toAttendanceAuditSummary, type AttendanceAuditSummary } from '@/lib/attendance-corrections';
+import { toEmployeeAliasSummary } from '@/lib/employees';
+import { formatShiftTimes } from '@/lib/shifts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MonthSelector } from '@/components/dashboard/month-selector';
+import {
+  AttendanceCalendar,
+  type AttendanceCalendarDay,
+} from '@/components/employees/attendance-calendar';
+import { AttendanceRecordEditor } from '@/components/employees/attendance-record-editor';
+import { EmployeeIdentityManager } from '@/components/employees/employee-identity-manager';
+import { EmployeeManagerSelect } from '@/components/employees/employee-manager-select';
+import { EmployeeOrgSelect } from '@/components/employees/employee-org-select';
+import { EmployeeShiftSelect } from '@/components/employees/employee-shift-select';
+import { UserMenu } from '@/components/auth/user-menu';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Page props with route and search parameters
+ */
+interface EmployeePageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{
+    /** Month in format YYYY-MM (e.g., "2024-01") */
+    month?: string;
+  }>;
+}
+
+/**
+ * Month totals shown above the calendar
+ */
+interface EmployeeMonthSummary {
+  workedHours: number;
+  expectedHours: number;
+  productivityPercentage: number;
+  absentDays: number;
+  approvedLeaveDays: number;
+
+  /** Leave days recorded as LEAVE or HALF_DAY (half days count 0.5) */
+  recordedLeaveDays: number;
+
+  overtimeHours: number;
+
+  /** Days with a late arrival / an early departure */
+  lateMarks: number;
+  earlyDepartures: number;
+}
+
+/**
+ * Everything the page shows for one employee-month
+ */
+interface EmployeeMonthData {
+  days: AttendanceCalendarDay[];
+  summary: EmployeeMonthSummary;
+
+  /** Stored records, editable inline */
+  records: ApiAttendanceRecord[];
+
+  /** Corrections of the month, newest first */
+  audits: AttendanceAuditSummary[];
+}
+
+// ============================================================================
+// DATA FETCHING UTILITIES
+// ============================================================================
+
+/**
+ * Build the calendar days, month totals and correction log of one employee
+ *
+ * Every day of the month gets an entry, including days without a record,
+ * so gaps in the uploaded data stay visible. Expected hours follow the
+ * schedule and holiday calendar in effect on each date and the employment
+ * period, as on the dashboard; absences outside employment are not counted.
+ *
+ * @param {object} employee - Employee with employment period
+ * @param {number} year - Full year (e.g., 2024)
+ * @param {number} month - Month (1-12)
+ * @returns {Promise<EmployeeMonthData>} Calendar and correction data
+ */
+async function getEmployeeMonth(
+  employee: { id: string; name: string } & EmploymentPeriod,
+  year: number,
+  month: number
+): Promise<EmployeeMonthData> {
+  const employeeId = employee.id;
+  const startDate = startOfMonth(new Date(year, month - 1, 1));
+  const endDate = endOfMonth(startDate);
+
+  const [records, schedules, holidays, approvedLeave, audits] = await Promise.all([
+    prisma.attendanceRecord.findMany({
+      where: { employeeId, date: { gte: startDate, lte: endDate } },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.workSchedule.findMany({ orderBy: { effectiveFrom: 'asc' } }),
+    prisma.holiday.findMany({ where: { date: { gte: startDate, lte: endDate } } }),
+    prisma.leaveRequest.findMany({
+      where: { employeeId, status: 'APPROVED', startDate: { lte: endDate }, endDate: { gte: startDate } },
+    }),
+    prisma.attendanceAudit.findMany({
+      where: { employeeId, date: { gte: startDate, lte: endDate } },
+      include: { employee: true },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  const recordsByDate = new Map(records.map((record) => [formatDateOnly(record.date), record]));
+  const holidaysByDate = new Map(holidays.map((holiday) => [formatDateOnly(holiday.date), holiday.name]));
+  const leaveIndex = indexApprovedLeave(approvedLeave, { start: startDate, end: endDate });
+
+  const monthDates = eachDayOfInterval({ start: startDate, end: endDate });
+  const days = monthDates.map((date): AttendanceCalendarDay => {
+    const key = formatDateOnly(date);
+    const record = recordsByDate.get(key);
+    const rules = { schedules, holidays, employment: employee };
+    const expectedHours = record
+      ? getStatusExpectedHours(date, record.status, rules)
+      : getExpectedHours(date, rules);
+    const overtime = calculateDailyOvertime(date, record?.workedHours ?? 0, record?.status ?? null, {
+      schedules,
+      holidays,
+      employment: employee,
+    });
+
+    return {
+      date: key,
+      status: record?.status ?? null,
+      inTime: record?.inTime ?? null,
+      outTime: record?.outTime ?? null,
+      punchCount: record?.punches.length ?? 0,
+      workedHours: record?.workedHours ?? 0,
+      expectedHours,
+      productivityPercentage: record ? calculateProductivity(record.workedHours, expectedHours) : null,
+      overtimeHours: overtime.hours,
+      overtimeBucket: overtime.bucket,
+      invertedPunchCount: record?.invertedPunchCount ?? 0,
+      lateMinutes: record?.lateMinutes ?? 0,
+      earlyDepartureMinutes: record?.earlyDepartureMinutes ?? 0,
+      holidayName: holidaysByDate.get(key) ?? null,
+      approvedLeaveType: leaveIndex.get(`${employeeId}|${key}`) ?? null,
+    };
+  });
+
+  const workedHours = days.reduce((sum, day) => sum + day.workedHours, 0);
+  const expectedHours = days.reduce((sum, day) => sum + day.expectedHours, 0);
+  const overtimeHours = days.reduce((sum, day) => sum + day.overtimeHours, 0);
+  const absentDays = days.filter(
+    (day, index) => day.status === 'ABSENT' && isEmployedOn(monthDates[index], employee)
+  );
+  const recordedLeaveDays = days.reduce(
+    (sum, day, index) =>
+      day.status !== null && day.status !== 'ABSENT' && isEmployedOn(monthDates[index], employee)
+        ? sum + ATTENDANCE_STATUS_RULES[day.status].leaveDays
+        : sum,
+    0
+  );
+
+  return {
+    days,
+    summary: {
+      workedHours: Math.round(workedHours * 100) / 100,
+      expectedHours: Math.round(expectedHours * 100) / 100,
+      productivityPercentage: calculateProductivity(workedHours, expectedHours),
+      absentDays: absentDays.length,
+      approvedLeaveDays: absentDays.filter((day) => day.approvedLeaveType !== null).length,
+      recordedLeaveDays,
+      overtimeHours: Math.round(overtimeHours * 100) / 100,
+      lateMarks: days.filter((day) => day.lateMinutes > 0).length,
+      earlyDepartures: days.filter((day) => day.earlyDepartureMinutes > 0).length,
+    },
+    records: records.map((record) => toApiAttendanceRecord({ ...record, employee })),
+    audits: audits.map(toAttendanceAuditSummary),
+  };
+}
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+
+/**
+ * Employee Attendance Page
+ *
+ * @param {EmployeePageProps} props - Page props with route and search params
+ * @returns {Promise<React.JSX.Element>} Rendered employee page
+ */
+export default async function EmployeePage({
+  params,
+  searchParams,
+}: EmployeePageProps): Promise<React.JSX.Element> {
+  const { id } = await params;
+  const { year, month } = parseMonthParam((await searchParams).month);
+
+  const user = await requirePageUser();
+  const canManage = hasRole(user, ATTENDANCE_MANAGER_ROLES);
+
+  if (!isValidObjectId(id) || !isInScope(await getEmployeeScope(user), id)) {
+    notFound();
+  }
+
+  const employee = await prisma.employee.findUnique({
+    where: { id },
+    include: { department: true, team: true, manager: true, shift: true },
+  });
+  if (!employee) {
+    notFound();
+  }
+
+  const [{ days, summary, records, audits }, otherEmployees, departments, teams, shifts, aliases] = await Promise.all([
+    getEmployeeMonth(employee, year, month),
+    canManage
+      ? prisma.employee.findMany({
+          where: { id: { not: id } },
+          select: { id: true, name: true, employeeCode: true },
+          orderBy: { name: 'asc' },
+        })
+      : [],
+    canManage ? prisma.department.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } }) : [],
+    canManage
+      ? prisma.team.findMany({ select: { id: true, name: true, departmentId: true }, orderBy: { name: 'asc' } })
+      : [],
+    canManage
+      ? prisma.shift.findMany({ select: { id: true, name: true, startTime: true, endTime: true }, orderBy: { name: 'asc' } })
+      : [],
+    canManage ? prisma.employeeAlias.findMany({ where: { employeeId: id }, orderBy: { alias: 'asc' } }) : [],
+  ]);
+  const orgDescription = [
+    employee.department?.name,
+    employee.team?.name,
+    employee.manager ? `reports to ${employee.manager.name}` : undefined,
+    employee.shift ? `${employee.shift.name} shift (${formatShiftTimes(employee.shift)})` : undefined,
+  ].filter(Boolean).join(' · ');
+  const monthName = format(new Date(year, month - 1, 1), 'MMMM yyyy');
+  const employmentStartDate = employee.employmentStartDate && formatDateOnly(employee.employmentStartDate);
+  const employmentEndDate = employee.employmentEndDate && formatDateOnly(employee.employmentEndDate);
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <User className="h-7 w-7" />
+                {employee.name}
+                {employee.employeeCode && <Badge variant="outline">{employee.employeeCode}</Badge>}
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Daily attendance and productivity
+                {!canManage && orgDescription && ` · ${orgDescription}`}
+              </p>
+              {canManage && (
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  <EmployeeOrgSelect
+                    employeeId={employee.id}
+                    departmentId={employee.departmentId}
+                    teamId={employee.teamId}
+                    departments={departments}
+                    teams={teams}
+                  />
+                  <EmployeeManagerSelect
+                    employeeId={employee.id}
+                    managerId={employee.managerId}
+                    candidates={otherEmployees}
+                  />
+                  <EmployeeShiftSelect employeeId={employee.id} shiftId={employee.shiftId} shifts={shifts} />
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Calendar className="h-5 w-5 text-muted-foreground" />
+              <MonthSelector currentYear={year} currentMonth={month} />
+              <Button asChild variant="outline">
+                <Link href={`/?month=${formatMonthParam(year, month)}`}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Dashboard
+                </Link>
+              </Button>
+              <UserMenu user={user} />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>{monthName}</CardTitle>
+            <CardDescription>
+              {summary.workedHours.toFixed(2)} of {summary.expectedHours.toFixed(2)} expected hours
+              {' · '}
+              {summary.productivityPercentage.toFixed(1)}% productivity
+              {' · '}
+              {summary.absentDays} absent ({summary.approvedLeaveDays} approved leave)
+              {summary.recordedLeaveDays > 0 && ` · ${summary.recordedLeaveDays} leave days recorded`}
+              {summary.overtimeHours > 0 && ` · ${summary.overtimeHours.toFixed(2)} h overtime`}
+              {employee.shift && ` · ${summary.lateMarks} late, ${summary.earlyDepartures} left early (${employee.shift.name} shift)`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AttendanceCalendar year={year} month={month} days={days} />
+          </CardContent>
+        </Card>
+
+        <AttendanceRecordEditor records={records} audits={audits} canEdit={canManage} />
+
+        {canManage && (
+          <EmployeeIdentityManager
+            key={`${employee.name}|${employee.employeeCode ?? ''}|${employmentStartDate ?? ''}|${employmentEndDate ?? ''}`}
+            employee={{
+              id: employee.id,
+              name: employee.name,
+              employeeCode: employee.employeeCode,
+              employmentStartDate,
+              employmentEndDate,
+            }}
+            aliases={aliases.map(toEmployeeAliasSummary)}
+            mergeCandidates={otherEmployees}
+          />
+        )}
+      </div>
+    </main>
+  );
+}
+
+/**
+ * Always render with fresh data
+ */
+export const revalidate = 0;
@@ -0,0 +1,92 @@
+/**
+ * Import History Page
+ *
+ * Server Component listing every recorded attendance upload with its file,
+ * uploader and replaced months (see lib/import-batches), and a rollback
+ * action restoring the records an upload replaced.
+ *
+ * ACCESS: ADMIN or HR_MANAGER.
+ *
+ * @module app/imports/page
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import Link from 'next/link';
+import { ArrowLeft, History } from 'lucide-react';
+import { prisma } from '@/lib/prisma';
+import { requirePageUser } from '@/lib/auth';
+import { toImportBatchSummary } from '@/lib/import-batches';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { Button } from '@/components/ui/button';
+import { ImportHistory } from '@/components/imports/import-history';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Most uploads listed at once (newest first)
+ */
+const MAX_LISTED_IMPORT_BATCHES = 200;
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+
+/**
+ * Import History Page
+ *
+ * @returns {Promise<React.JSX.Element>} Rendered upload history
+ */
+export default async function ImportsPage(): Promise<React.JSX.Element> {
+  await requirePageUser(ATTENDANCE_MANAGER_ROLES);
+
+  const importBatches = await prisma.importBatch.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: MAX_LISTED_IMPORT_BATCHES,
+  });
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <History className="h-7 w-7" />
+                Import History
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Attendance uploads and the months they replaced
+              </p>
+            </div>
+
+            <Button asChild variant="outline">
+              <Link href="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 space-y-2">
+        <ImportHistory importBatches={importBatches.map(toImportBatchSummary)} />
+        {importBatches.length === MAX_LISTED_IMPORT_BATCHES && (
+          <p className="text-xs text-muted-foreground">
+            Showing the {MAX_LISTED_IMPORT_BATCHES} most recent uploads.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
+
+/**
+ * Always render with fresh data
+ */
+export const revalidate = 0;
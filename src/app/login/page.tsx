@@ -0,0 +1,53 @@
+/**
+ * Login Page
+ *
+ * Server Component showing the sign-in form. Signed-in users are sent to
+ * the dashboard; while no account exists, the form creates the first admin
+ * instead.
+ *
+ * @module app/login/page
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { redirect } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { LoginForm } from '@/components/auth/login-form';
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+
+/**
+ * Login Page
+ *
+ * @returns {Promise<React.JSX.Element>} Rendered login page
+ */
+export default async function LoginPage(): Promise<React.JSX.Element> {
+  if (await getCurrentUser()) {
+    redirect('/');
+  }
+
+  const userCount = await prisma.user.count();
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col items-center justify-center gap-6 px-4">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold tracking-tight">
+          Leave & Productivity Analyzer
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Monitor attendance, track leaves, and analyze team productivity
+        </p>
+      </div>
+
+      <LoginForm mode={userCount === 0 ? 'setup' : 'login'} />
+    </main>
+  );
+}
+
+/**
+ * Always render with fresh data
+ */
+export const revalidate = 0;
@@ -0,0 +1,224 @@
+/**
+ * Overtime Report Page
+ *
+ * Server Component listing the overtime of a month per employee: hours
+ * beyond the expected hours split into regular, Sunday and holiday
+ * overtime, the hours weighted by the overtime multipliers, and the total
+ * per week.
+ *
+ * Figures come from getMonthlyReport, so they match the dashboard and the
+ * export for the same month and filter.
+ *
+ * URL PARAMS:
+ * - month=YYYY-MM (default: current month)
+ * - departmentId, teamId, managerId: org filter, as on the dashboard
+ *
+ * ACCESS: Requires a signed-in user; figures cover the user's employee
+ * scope, like the dashboard.
+ *
+ * @module app/overtime/page
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeft, Calendar, Timer } from 'lucide-react';
+import { prisma } from '@/lib/prisma';
+import { getEmployeeScope, requirePageUser } from '@/lib/auth';
+import { toScopeFilter } from '@/lib/users';
+import { getMonthlyReport } from '@/lib/monthly-report';
+import { formatMonthParam, parseMonthParam } from '@/lib/months';
+import { EMPTY_ORG_FILTER, formatOrgFilterQuery, parseOrgFilterParams } from '@/lib/org-chart';
+import { resolveOrgScope } from '@/lib/org-chart-queries';
+import { OVERTIME_BUCKETS, createMonthWeeks } from '@/lib/overtime';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MonthSelector } from '@/components/dashboard/month-selector';
+import { OrgFilter } from '@/components/dashboard/org-filter';
+import { UserMenu } from '@/components/auth/user-menu';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Page props with search parameters
+ */
+interface OvertimePageProps {
+  searchParams: Promise<{
+    /** Month in format YYYY-MM (e.g., "2024-01") */
+    month?: string;
+
+    /** Org filter (lib/org-chart) */
+    departmentId?: string;
+    teamId?: string;
+    managerId?: string;
+  }>;
+}
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+
+/**
+ * Overtime Report Page
+ *
+ * @param {OvertimePageProps} props - Page props with search params
+ * @returns {Promise<React.JSX.Element>} Rendered overtime report
+ */
+export default async function OvertimePage({ searchParams }: OvertimePageProps): Promise<React.JSX.Element> {
+  const resolvedSearchParams = await searchParams;
+  const { year, month } = parseMonthParam(resolvedSearchParams.month);
+
+  // Same scope and org filter as the dashboard
+  const user = await requirePageUser();
+  const userScope = await getEmployeeScope(user);
+  const canFilter = userScope === null || userScope.length > 1;
+  const orgFilter = canFilter ? parseOrgFilterParams(resolvedSearchParams) : EMPTY_ORG_FILTER;
+  const scope = await resolveOrgScope(userScope, orgFilter);
+
+  const [report, departments, teams, managers] = await Promise.all([
+    getMonthlyReport(year, month, scope, { leaveBalances: false }),
+    canFilter ? prisma.department.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } }) : [],
+    canFilter
+      ? prisma.team.findMany({ select: { id: true, name: true, departmentId: true }, orderBy: { name: 'asc' } })
+      : [],
+    canFilter
+      ? prisma.employee.findMany({
+          where: { id: toScopeFilter(userScope), reports: { some: {} } },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        })
+      : [],
+  ]);
+
+  // Employees with overtime, most overtime first
+  const employees = report.employeeMetrics
+    .filter((employee) => employee.overtime.totalHours > 0)
+    .sort((a, b) => b.overtime.totalHours - a.overtime.totalHours);
+  const weeks = createMonthWeeks(year, month);
+  const totalWeightedHours = employees.reduce((sum, employee) => sum + employee.overtime.weightedHours, 0);
+
+  const monthParam = formatMonthParam(year, month);
+  const filterQuery = formatOrgFilterQuery(orgFilter);
+  const monthName = format(new Date(year, month - 1, 1), 'MMMM yyyy');
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <Timer className="h-7 w-7" />
+                Overtime
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Hours worked beyond the expected hours, by week and kind of day
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Calendar className="h-5 w-5 text-muted-foreground" />
+              <MonthSelector currentYear={year} currentMonth={month} />
+              <Button asChild variant="outline">
+                <Link href={`/?month=${monthParam}${filterQuery && `&${filterQuery}`}`}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Dashboard
+                </Link>
+              </Button>
+              <UserMenu user={user} />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {canFilter && (departments.length > 0 || managers.length > 0) && (
+          <OrgFilter filter={orgFilter} departments={departments} teams={teams} managers={managers} />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{monthName}</CardTitle>
+            <CardDescription>
+              {report.companyMetrics.totalOvertimeHours.toFixed(2)} overtime hours
+              {' · '}
+              {totalWeightedHours.toFixed(2)} weighted hours
+              {' · '}
+              {employees.length} of {report.companyMetrics.totalEmployees} employees.
+              Weighted hours apply the overtime multipliers of the work schedule in effect on each
+              day (Settings).
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {employees.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {report.hasData ? 'No overtime this month.' : 'No attendance records you can view exist for this month.'}
+              </p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee Name</TableHead>
+                      {OVERTIME_BUCKETS.map(({ bucket, label }) => (
+                        <TableHead key={bucket} className="text-right">{label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Weighted</TableHead>
+                      {weeks.map((week) => (
+                        <TableHead key={week.weekStart} className="text-right" title={`Week of ${week.weekStart}`}>
+                          Wk {format(new Date(`${week.weekStart}T00:00:00`), 'd MMM')}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {employees.map((employee) => (
+                      <TableRow key={employee.employeeId}>
+                        <TableCell className="font-medium">
+                          <Link
+                            href={`/employees/${employee.employeeId}?month=${monthParam}`}
+                            className="hover:underline underline-offset-4"
+                          >
+                            {employee.employeeName}
+                          </Link>
+                        </TableCell>
+                        {OVERTIME_BUCKETS.map(({ bucket, field }) => (
+                          <TableCell key={bucket} className="text-right font-mono">
+                            {employee.overtime[field] > 0 ? employee.overtime[field].toFixed(2) : '—'}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-mono font-semibold">
+                          {employee.overtime.totalHours.toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {employee.overtime.weightedHours.toFixed(2)}
+                        </TableCell>
+                        {employee.weeklyOvertime.map((week) => (
+                          <TableCell key={week.weekStart} className="text-right font-mono text-muted-foreground">
+                            {week.totalHours > 0 ? week.totalHours.toFixed(2) : '—'}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
+
+/**
+ * Always render with fresh data
+ */
+export const revalidate = 0;
@@ -14,8 +14,19 @@
  * - Monthly attendance overview with aggregated metrics
  * - Per-employee productivity breakdown
  * - Visual indicators for performance issues
- * - Excel file upload for data import
+ * - Excel file upload for data import (ADMIN and HR_MANAGER only)
  * - Month navigation controls
+ * - Department / team / manager filter; the overview metrics then cover
+ *   just that part of the org chart
+ * - Link to multi-month trends (app/trends) for the same month and filter
+ * - Overtime per employee, with a link to the overtime report (app/overtime)
+ * - Open anomalies per employee, linking to the review queue (app/anomalies)
+ * - Link to the import history (app/imports) for rolling uploads back
+ * 
+ * ACCESS:
+ * - Requires a signed-in user (redirects to /login otherwise)
+ * - Metrics cover the user's employee scope: everyone for ADMIN and
+ *   HR_MANAGER, the team for a TEAM_LEAD, their own row for an EMPLOYEE
  * 
  * PERFORMANCE:
  * - Server-side rendering (SSR)
@@ -28,18 +39,31 @@
  */
 
 import { Suspense } from 'react';
+import Link from 'next/link';
 import { redirect } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
-import { getExpectedHours, calculateProductivity } from '@/lib/calculations';
-import { getDaysInMonth, startOfMonth, endOfMonth, eachDayOfInterval, format } from 'date-fns';
+import { getDaysInMonth, format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { FileUpload } from '@/components/dashboard/file-upload';
 import { MonthSelector } from '@/components/dashboard/month-selector';
-import { AlertCircle, TrendingUp, Users, Calendar, FileSpreadsheet } from 'lucide-react';
+import { ReportExportButtons } from '@/components/dashboard/report-export-buttons';
+import { OrgFilter } from '@/components/dashboard/org-filter';
+import { UserMenu } from '@/components/auth/user-menu';
+import { AlertCircle, TrendingUp, Users, Calendar, CalendarCheck, FileSpreadsheet, History, LineChart, Settings, ShieldAlert, Timer, UserCog } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { toImportProfileSummary } from '@/lib/import-profiles';
+import { LEAVE_TYPES } from '@/lib/leave-requests';
+import type { LeaveBalance } from '@/lib/leave-balances';
+import { getMonthlyReport, type EmployeeMetrics } from '@/lib/monthly-report';
+import { formatMonthParam, parseMonthParam } from '@/lib/months';
+import { getEmployeeScope, requirePageUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES, hasRole, toScopeFilter, USER_MANAGER_ROLES } from '@/lib/users';
+import { EMPTY_ORG_FILTER, formatOrgFilterQuery, hasOrgFilter, parseOrgFilterParams } from '@/lib/org-chart';
+import { resolveOrgScope } from '@/lib/org-chart-queries';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -52,269 +76,31 @@ interface HomePageProps {
   searchParams: {
     /** Month in format YYYY-MM (e.g., "2024-01") */
     month?: string;
+    
+    /** Org filter (lib/org-chart) */
+    departmentId?: string;
+    teamId?: string;
+    managerId?: string;
   };
 }
 
-/**
- * Employee productivity metrics
- */
-interface EmployeeMetrics {
-  /** Employee unique identifier */
-  employeeId: string;
-  
-  /** Employee name */
-  employeeName: string;
-  
-  /** Total hours worked in the period */
-  workedHours: number;
-  
-  /** Total hours expected based on business rules */
-  expectedHours: number;
-  
-  /** Number of absent days (leaves taken) */
-  leavesTaken: number;
-  
-  /** Productivity percentage */
-  productivityPercentage: number;
-}
-
-/**
- * Company-wide aggregated metrics
- */
-interface CompanyMetrics {
-  /** Total number of employees */
-  totalEmployees: number;
-  
-  /** Average productivity across all employees */
-  averageProductivity: number;
-  
-  /** Total leaves taken company-wide */
-  totalLeavesTaken: number;
-  
-  /** Total hours worked company-wide */
-  totalWorkedHours: number;
-  
-  /** Total expected hours company-wide */
-  totalExpectedHours: number;
-}
-
-/**
- * Complete dashboard data structure
- */
-interface DashboardData {
-  /** Year being displayed */
-  year: number;
-  
-  /** Month being displayed (1-12) */
-  month: number;
-  
-  /** Company-wide aggregated metrics */
-  companyMetrics: CompanyMetrics;
-  
-  /** Individual employee metrics */
-  employeeMetrics: EmployeeMetrics[];
-  
-  /** Whether any data exists for this period */
-  hasData: boolean;
-}
-
 // ============================================================================
-// DATA FETCHING UTILITIES
+// HELPER FUNCTIONS
 // ============================================================================
 
 /**
- * Calculate total expected hours for entire month
- * 
- * Applies business rules to every day in the month:
- * - Monday-Friday: 8.5 hours
- * - Saturday: 4.0 hours
- * - Sunday: 0 hours
- * 
- * This is the TRUE denominator for productivity calculations,
- * not just the sum of records (which would miss absent days).
- * 
- * @param {number} year - Full year (e.g., 2024)
- * @param {number} month - Month (1-12)
- * @returns {number} Total expected hours for the month
- */
-function calculateMonthlyExpectedHours(year: number, month: number): number {
-  // Generate all dates in the month
-  const firstDay = new Date(year, month - 1, 1);
-  const lastDay = new Date(year, month, 0);
-  
-  const allDays = eachDayOfInterval({
-    start: firstDay,
-    end: lastDay,
-  });
-  
-  // Sum expected hours for each day
-  let totalExpected = 0;
-  for (const day of allDays) {
-    totalExpected += getExpectedHours(day);
-  }
-  
-  return totalExpected;
-}
-
-/**
- * Fetch and aggregate dashboard data for specified month
- * 
- * ALGORITHM:
- * 1. Query all attendance records for the month
- * 2. Group records by employee
- * 3. Calculate per-employee metrics (worked hours, leaves, productivity)
- * 4. Aggregate company-wide metrics
- * 5. Return structured dashboard data
- * 
- * PERFORMANCE:
- * - Single database query with filtering
- * - In-memory aggregation (efficient for typical dataset sizes)
- * - Optimized for Next.js server-side rendering
- * 
- * @param {number} year - Full year (e.g., 2024)
- * @param {number} month - Month (1-12)
- * @returns {Promise<DashboardData>} Aggregated dashboard data
- */
-async function getData(year: number, month: number): Promise<DashboardData> {
-  // Create date range for the month
-  const startDate = startOfMonth(new Date(year, month - 1, 1));
-  const endDate = endOfMonth(new Date(year, month - 1, 1));
-  
-  // Query all attendance records for this month (with employee data)
-  const records = await prisma.attendanceRecord.findMany({
-    where: {
-      date: {
-        gte: startDate,
-        lte: endDate,
-      },
-    },
-    include: {
-      employee: true,
-    },
-    orderBy: [
-      { employee: { name: 'asc' } },
-      { date: 'asc' },
-    ],
-  });
-  
-  // Early return if no data
-  if (records.length === 0) {
-    return {
-      year,
-      month,
-      companyMetrics: {
-        totalEmployees: 0,
-        averageProductivity: 0,
-        totalLeavesTaken: 0,
-        totalWorkedHours: 0,
-        totalExpectedHours: 0,
-      },
-      employeeMetrics: [],
-      hasData: false,
-    };
-  }
-  
-  // Calculate total expected hours for the month (applies to ALL employees)
-  const monthlyExpectedHours = calculateMonthlyExpectedHours(year, month);
-  
-  // Group records by employee and calculate metrics
-  const employeeMap = new Map<string, {
-    id: string;
-    name: string;
-    workedHours: number;
-    leavesTaken: number;
-  }>();
-  
-  for (const record of records) {
-    const existing = employeeMap.get(record.employeeId);
-    
-    if (existing) {
-      // Accumulate data
-      existing.workedHours += record.workedHours;
-      if (record.status === 'ABSENT') {
-        existing.leavesTaken += 1;
-      }
-    } else {
-      // First record for this employee
-      employeeMap.set(record.employeeId, {
-        id: record.employeeId,
-        name: record.employee.name,
-        workedHours: record.workedHours,
-        leavesTaken: record.status === 'ABSENT' ? 1 : 0,
-      });
-    }
-  }
-  
-  // Convert to array and calculate productivity for each employee
-  const employeeMetrics: EmployeeMetrics[] = Array.from(employeeMap.values()).map((emp) => {
-    const productivity = calculateProductivity(emp.workedHours, monthlyExpectedHours);
-    
-    return {
-      employeeId: emp.id,
-      employeeName: emp.name,
-      workedHours: Math.round(emp.workedHours * 100) / 100, // Round to 2 decimals
-      expectedHours: monthlyExpectedHours,
-      leavesTaken: emp.leavesTaken,
-      productivityPercentage: productivity,
-    };
-  });
-  
-  // Calculate company-wide metrics
-  const totalWorkedHours = employeeMetrics.reduce((sum, emp) => sum + emp.workedHours, 0);
-  const totalLeavesTaken = employeeMetrics.reduce((sum, emp) => sum + emp.leavesTaken, 0);
-  const totalExpectedHours = monthlyExpectedHours * employeeMetrics.length;
-  const averageProductivity = employeeMetrics.length > 0
-    ? employeeMetrics.reduce((sum, emp) => sum + emp.productivityPercentage, 0) / employeeMetrics.length
-    : 0;
-  
-  return {
-    year,
-    month,
-    companyMetrics: {
-      totalEmployees: employeeMetrics.length,
-      averageProductivity: Math.round(averageProductivity * 10) / 10,
-      totalLeavesTaken,
-      totalWorkedHours: Math.round(totalWorkedHours * 100) / 100,
-      totalExpectedHours: Math.round(totalExpectedHours * 100) / 100,
-    },
-    employeeMetrics,
-    hasData: true,
-  };
-}
-
-/**
- * Parse and validate month parameter from search params
- * 
- * Expected format: "YYYY-MM" (e.g., "2024-01")
- * Falls back to current month if invalid or missing.
+ * Describe per-type leave balances, e.g. "Casual: 4 left · Sick: 6 left"
  * 
- * @param {string | undefined} monthParam - Month parameter from URL
- * @returns {{ year: number; month: number }} Parsed year and month
+ * @param {LeaveBalance[]} balances - Balances of one employee
+ * @returns {string} Human-readable breakdown
  */
-function parseMonthParam(monthParam: string | undefined): { year: number; month: number } {
-  const now = new Date();
-  const defaultYear = now.getFullYear();
-  const defaultMonth = now.getMonth() + 1;
-  
-  if (!monthParam) {
-    return { year: defaultYear, month: defaultMonth };
-  }
-  
-  // Validate format: YYYY-MM
-  const match = monthParam.match(/^(\d{4})-(\d{2})$/);
-  if (!match) {
-    return { year: defaultYear, month: defaultMonth };
-  }
-  
-  const year = parseInt(match[1], 10);
-  const month = parseInt(match[2], 10);
-  
-  // Validate ranges
-  if (year < 2000 || year > 2100 || month < 1 || month > 12) {
-    return { year: defaultYear, month: defaultMonth };
-  }
-  
-  return { year, month };
+function formatLeaveBalances(balances: LeaveBalance[]): string {
+  return balances
+    .map((balance) => {
+      const label = LEAVE_TYPES.find((option) => option.type === balance.type)?.label ?? balance.type;
+      return `${label}: ${balance.remaining} left (${balance.used} used)`;
+    })
+    .join(' · ');
 }
 
 // ============================================================================
@@ -367,15 +153,17 @@ function MetricCard({
 /**
  * Empty state component when no data exists
  */
-function EmptyState(): React.JSX.Element {
+function EmptyState({ canUpload }: { canUpload: boolean }): React.JSX.Element {
   return (
     <div className="flex flex-col items-center justify-center py-16 space-y-4">
       <FileSpreadsheet className="h-16 w-16 text-muted-foreground/50" />
       <div className="text-center space-y-2">
         <h3 className="text-lg font-semibold">No Data Found</h3>
         <p className="text-sm text-muted-foreground max-w-md">
-          No attendance records exist for this month. Please upload an Excel file
-          containing employee attendance data to get started.
+          {canUpload
+            ? `No attendance records exist for this month. Please upload an Excel file
+          containing employee attendance data to get started.`
+            : 'No attendance records you can view exist for this month.'}
         </p>
       </div>
     </div>
@@ -384,8 +172,21 @@ function EmptyState(): React.JSX.Element {
 
 /**
  * Employee metrics table component
+ * 
+ * Employee names link to the daily attendance calendar for the same month;
+ * anomaly counts link to the employee's review queue for reviewers.
  */
-function EmployeeTable({ employees }: { employees: EmployeeMetrics[] }): React.JSX.Element {
+function EmployeeTable({
+  employees,
+  monthParam,
+  openAnomalies,
+  canReview,
+}: {
+  employees: EmployeeMetrics[];
+  monthParam: string;
+  openAnomalies: Map<string, number>;
+  canReview: boolean;
+}): React.JSX.Element {
   return (
     <Card>
       <CardHeader>
@@ -402,22 +203,41 @@ function EmployeeTable({ employees }: { employees: EmployeeMetrics[] }): React.J
                 <TableHead>Employee Name</TableHead>
                 <TableHead className="text-right">Worked Hours</TableHead>
                 <TableHead className="text-right">Expected Hours</TableHead>
-                <TableHead className="text-right">Leaves Taken</TableHead>
+                <TableHead className="text-right">Leaves Taken / Balance</TableHead>
+                <TableHead className="text-right">Late / Early</TableHead>
+                <TableHead className="text-right">Open Anomalies</TableHead>
                 <TableHead className="text-right">Productivity</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {employees.map((employee) => {
                 const isLowProductivity = employee.productivityPercentage < 50;
-                const isHighLeaves = employee.leavesTaken > 2;
+                const isHighLeaves = employee.unexplainedAbsences > 2;
+                const isOftenLate = employee.lateMarks > 2;
+                const anomalyCount = openAnomalies.get(employee.employeeId) ?? 0;
                 
                 return (
                   <TableRow key={employee.employeeId}>
                     <TableCell className="font-medium">
-                      {employee.employeeName}
+                      <Link
+                        href={`/employees/${employee.employeeId}?month=${monthParam}`}
+                        className="hover:underline underline-offset-4"
+                      >
+                        {employee.employeeName}
+                      </Link>
+                      {employee.departmentName && (
+                        <p className="text-xs font-normal text-muted-foreground">
+                          {[employee.departmentName, employee.teamName].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell className="text-right font-mono">
                       {employee.workedHours.toFixed(2)}
+                      {employee.overtime.totalHours > 0 && (
+                        <p className="text-xs text-violet-700 dark:text-violet-300">
+                          +{employee.overtime.totalHours.toFixed(2)} overtime
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell className="text-right font-mono">
                       {employee.expectedHours.toFixed(2)}
@@ -431,6 +251,48 @@ function EmployeeTable({ employees }: { employees: EmployeeMetrics[] }): React.J
                       >
                         {employee.leavesTaken}
                       </Badge>
+                      {employee.leaveBalances.length > 0 && (
+                        <span
+                          className="ml-2 font-mono text-xs text-muted-foreground"
+                          title={formatLeaveBalances(employee.leaveBalances)}
+                        >
+                          {employee.leaveBalances
+                            .reduce((sum, balance) => sum + balance.remaining, 0)
+                            .toFixed(1)}{' '}
+                          left
+                        </span>
+                      )}
+                      {employee.approvedLeaveDays > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {employee.approvedLeaveDays} approved
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className="text-right font-mono"
+                      title={`${employee.lateMinutes} min late, ${employee.earlyDepartureMinutes} min early in total`}
+                    >
+                      {employee.lateMarks === 0 && employee.earlyDepartures === 0 ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : (
+                        <span className={cn(isOftenLate && 'font-semibold text-orange-700 dark:text-orange-300')}>
+                          {employee.lateMarks} / {employee.earlyDepartures}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {anomalyCount === 0 ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : canReview ? (
+                        <Link
+                          href={`/anomalies?employeeId=${employee.employeeId}`}
+                          className="font-semibold text-orange-700 dark:text-orange-300 hover:underline underline-offset-4"
+                        >
+                          {anomalyCount}
+                        </Link>
+                      ) : (
+                        <span className="font-semibold text-orange-700 dark:text-orange-300">{anomalyCount}</span>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <span
@@ -477,8 +339,49 @@ export default async function Home({ searchParams }: HomePageProps): Promise<Rea
   // Parse month from search params
   const { year, month } = parseMonthParam(resolvedSearchParams.month);
   
-  // Fetch dashboard data
-  const data = await getData(year, month);
+  // Signed-in user decides which employees are shown and what can be changed
+  const user = await requirePageUser();
+  const userScope = await getEmployeeScope(user);
+  const canManage = hasRole(user, ATTENDANCE_MANAGER_ROLES);
+  const canFilter = userScope === null || userScope.length > 1;
+  
+  // The org filter narrows the user's scope to one department, team or reporting subtree
+  const orgFilter = canFilter ? parseOrgFilterParams(resolvedSearchParams) : EMPTY_ORG_FILTER;
+  const scope = await resolveOrgScope(userScope, orgFilter);
+  
+  // Fetch dashboard data, open anomalies, filter options and saved import profiles for the uploader
+  const [data, anomalyCounts, importProfiles, departments, teams, managers] = await Promise.all([
+    getMonthlyReport(year, month, scope),
+    prisma.attendanceAnomaly.groupBy({
+      by: ['employeeId'],
+      where: { status: 'OPEN', employeeId: toScopeFilter(scope) },
+      _count: { _all: true },
+    }),
+    canManage ? prisma.importProfile.findMany({ orderBy: { name: 'asc' } }) : [],
+    canFilter ? prisma.department.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } }) : [],
+    canFilter
+      ? prisma.team.findMany({ select: { id: true, name: true, departmentId: true }, orderBy: { name: 'asc' } })
+      : [],
+    canFilter
+      ? prisma.employee.findMany({
+          where: { id: toScopeFilter(userScope), reports: { some: {} } },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        })
+      : [],
+  ]);
+  
+  // Label of the reported population, e.g. "Engineering · Platform" or "Team"
+  const orgLabel = [
+    departments.find((department) => department.id === orgFilter.departmentId)?.name,
+    teams.find((team) => team.id === orgFilter.teamId)?.name,
+    managers.find((manager) => manager.id === orgFilter.managerId)?.name,
+  ].filter(Boolean).join(' · ');
+  const metricsScope = hasOrgFilter(orgFilter)
+    ? orgLabel || 'Filtered'
+    : userScope === null ? 'Company-wide' : user.role === 'TEAM_LEAD' ? 'Team' : 'Your';
+  
+  const filterQuery = formatOrgFilterQuery(orgFilter);
   
   // Format month for display
   const monthName = format(new Date(year, month - 1, 1), 'MMMM yyyy');
@@ -502,6 +405,54 @@ export default async function Home({ searchParams }: HomePageProps): Promise<Rea
             <div className="flex items-center gap-2">
               <Calendar className="h-5 w-5 text-muted-foreground" />
               <MonthSelector currentYear={year} currentMonth={month} />
+              <ReportExportButtons
+                monthParam={formatMonthParam(year, month)}
+                filterQuery={filterQuery}
+              />
+              <Button asChild variant="outline" size="icon" aria-label="Trends">
+                <Link href={`/trends?month=${formatMonthParam(year, month)}${filterQuery && `&${filterQuery}`}`}>
+                  <LineChart className="h-4 w-4" />
+                </Link>
+              </Button>
+              <Button asChild variant="outline" size="icon" aria-label="Overtime">
+                <Link href={`/overtime?month=${formatMonthParam(year, month)}${filterQuery && `&${filterQuery}`}`}>
+                  <Timer className="h-4 w-4" />
+                </Link>
+              </Button>
+              {canManage && (
+                <Button asChild variant="outline" size="icon" aria-label="Anomalies">
+                  <Link href="/anomalies">
+                    <ShieldAlert className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+              {canManage && (
+                <Button asChild variant="outline" size="icon" aria-label="Import History">
+                  <Link href="/imports">
+                    <History className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+              <Button asChild variant="outline" size="icon" aria-label="Leave Requests">
+                <Link href="/leave">
+                  <CalendarCheck className="h-4 w-4" />
+                </Link>
+              </Button>
+              {canManage && (
+                <Button asChild variant="outline" size="icon" aria-label="Settings">
+                  <Link href="/settings">
+                    <Settings className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+              {hasRole(user, USER_MANAGER_ROLES) && (
+                <Button asChild variant="outline" size="icon" aria-label="Users">
+                  <Link href="/users">
+                    <UserCog className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+              <UserMenu user={user} />
             </div>
           </div>
         </div>
@@ -510,9 +461,18 @@ export default async function Home({ searchParams }: HomePageProps): Promise<Rea
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8 space-y-8">
         {/* Upload Section */}
-        <section>
-          <FileUpload />
-        </section>
+        {canManage && (
+          <section>
+            <FileUpload importProfiles={importProfiles.map(toImportProfileSummary)} />
+          </section>
+        )}
+        
+        {/* Org Filter */}
+        {canFilter && (departments.length > 0 || managers.length > 0) && (
+          <section>
+            <OrgFilter filter={orgFilter} departments={departments} teams={teams} managers={managers} />
+          </section>
+        )}
         
         {data.hasData ? (
           <>
@@ -531,7 +491,7 @@ export default async function Home({ searchParams }: HomePageProps): Promise<Rea
                   icon={TrendingUp}
                   title="Average Productivity"
                   value={`${data.companyMetrics.averageProductivity.toFixed(1)}%`}
-                  description="Company-wide average"
+                  description={`${metricsScope} average · ${data.companyMetrics.weightedProductivity.toFixed(1)}% of all expected hours`}
                   variant={
                     data.companyMetrics.averageProductivity >= 90
                       ? 'success'
@@ -545,7 +505,7 @@ export default async function Home({ searchParams }: HomePageProps): Promise<Rea
                   icon={AlertCircle}
                   title="Total Leaves Taken"
                   value={data.companyMetrics.totalLeavesTaken}
-                  description={`${(data.companyMetrics.totalLeavesTaken / data.companyMetrics.totalEmployees).toFixed(1)} leaves per employee`}
+                  description={`${(data.companyMetrics.totalLeavesTaken / data.companyMetrics.totalEmployees).toFixed(1)} per employee, ${data.companyMetrics.totalUnexplainedAbsences} unexplained`}
                   variant={
                     data.companyMetrics.totalLeavesTaken / data.companyMetrics.totalEmployees > 5
                       ? 'warning'
@@ -568,7 +528,7 @@ export default async function Home({ searchParams }: HomePageProps): Promise<Rea
                 <AlertCircle className="h-4 w-4" />
                 <AlertTitle>Low Productivity Alert</AlertTitle>
                 <AlertDescription>
-                  Company-wide productivity is below 70%. Review individual employee
+                  {metricsScope} productivity is below 70%. Review individual employee
                   performance and consider addressing attendance issues.
                 </AlertDescription>
               </Alert>
@@ -576,11 +536,16 @@ export default async function Home({ searchParams }: HomePageProps): Promise<Rea
             
             {/* Employee Table */}
             <section>
-              <EmployeeTable employees={data.employeeMetrics} />
+              <EmployeeTable
+                employees={data.employeeMetrics}
+                monthParam={formatMonthParam(year, month)}
+                openAnomalies={new Map(anomalyCounts.map((group) => [group.employeeId, group._count._all]))}
+                canReview={canManage}
+              />
             </section>
           </>
         ) : (
-          <EmptyState />
+          <EmptyState canUpload={canManage} />
         )}
       </div>
     </main>
@@ -0,0 +1,146 @@
+/**
+ * Settings Page
+ *
+ * Server Component for configuring the business rules used by the
+ * calculation engine.
+ *
+ * SECTIONS:
+ * - Work schedules: per-weekday expected hours with effective-from history
+ * - Holiday calendar: zero-hour dates recorded as HOLIDAY during gap filling
+ * - Shifts: start and end times checked for late arrival and early departure
+ * - Leave entitlements: yearly/monthly accrual and carry-forward per leave type
+ * - Organization: departments, teams and the roster import
+ *
+ * Restricted to ADMIN and HR_MANAGER.
+ *
+ * @module app/settings/page
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import Link from 'next/link';
+import { ArrowLeft, Settings } from 'lucide-react';
+import { prisma } from '@/lib/prisma';
+import { requirePageUser } from '@/lib/auth';
+import { ATTENDANCE_MANAGER_ROLES } from '@/lib/users';
+import { resolveWorkSchedule } from '@/lib/calculations';
+import { toWorkScheduleSummary } from '@/lib/work-schedules';
+import { toHolidaySummary } from '@/lib/holidays';
+import { toShiftSummary } from '@/lib/shifts';
+import { toLeaveEntitlementSummary } from '@/lib/leave-balances';
+import { toDepartmentSummary, toTeamSummary } from '@/lib/org-chart';
+import { Button } from '@/components/ui/button';
+import { WorkScheduleManager } from '@/components/settings/work-schedule-manager';
+import { HolidayManager } from '@/components/settings/holiday-manager';
+import { ShiftManager } from '@/components/settings/shift-manager';
+import { LeaveEntitlementManager } from '@/components/settings/leave-entitlement-manager';
+import { OrgStructureManager } from '@/components/settings/org-structure-manager';
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+
+/**
+ * Settings Page
+ *
+ * @returns {Promise<React.JSX.Element>} Rendered settings page
+ */
+export default async function SettingsPage(): Promise<React.JSX.Element> {
+  await requirePageUser(ATTENDANCE_MANAGER_ROLES);
+
+  const [schedules, holidays, shifts, entitlements, employees, departments, teams] = await Promise.all([
+    prisma.workSchedule.findMany({ orderBy: { effectiveFrom: 'asc' } }),
+    prisma.holiday.findMany({ orderBy: { date: 'asc' } }),
+    prisma.shift.findMany({
+      include: { _count: { select: { employees: true } } },
+      orderBy: [{ startTime: 'asc' }, { name: 'asc' }],
+    }),
+    prisma.leaveEntitlement.findMany({
+      include: { employee: true },
+      orderBy: [{ employeeId: 'asc' }, { type: 'asc' }],
+    }),
+    prisma.employee.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } }),
+    prisma.department.findMany({
+      include: { _count: { select: { employees: true } } },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.team.findMany({
+      include: { department: true, _count: { select: { employees: true } } },
+      orderBy: [{ department: { name: 'asc' } }, { name: 'asc' }],
+    }),
+  ]);
+
+  // Id of the schedule in effect today, if any
+  const activeSchedule = resolveWorkSchedule(new Date(), schedules);
+  const activeScheduleId = schedules.find((schedule) => schedule === activeSchedule)?.id ?? null;
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <Settings className="h-7 w-7" />
+                Settings
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Configure the business rules behind expected hours and productivity
+              </p>
+            </div>
+
+            <Button asChild variant="outline">
+              <Link href="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        <section>
+          <h2 className="text-2xl font-bold mb-4">Work Schedules</h2>
+          <WorkScheduleManager
+            schedules={schedules.map(toWorkScheduleSummary)}
+            activeScheduleId={activeScheduleId}
+          />
+        </section>
+
+        <section>
+          <h2 className="text-2xl font-bold mb-4">Holidays</h2>
+          <HolidayManager holidays={holidays.map(toHolidaySummary)} />
+        </section>
+
+        <section>
+          <h2 className="text-2xl font-bold mb-4">Shifts</h2>
+          <ShiftManager shifts={shifts.map(toShiftSummary)} />
+        </section>
+
+        <section>
+          <h2 className="text-2xl font-bold mb-4">Leave Entitlements</h2>
+          <LeaveEntitlementManager
+            entitlements={entitlements.map(toLeaveEntitlementSummary)}
+            employees={employees}
+          />
+        </section>
+
+        <section>
+          <h2 className="text-2xl font-bold mb-4">Organization</h2>
+          <OrgStructureManager
+            departments={departments.map(toDepartmentSummary)}
+            teams={teams.map(toTeamSummary)}
+          />
+        </section>
+      </div>
+    </main>
+  );
+}
+
+/**
+ * Always render with fresh data
+ */
+export const revalidate = 0;
@@ -0,0 +1,362 @@
+/**
+ * Trends Page
+ *
+ * Server Component charting attendance across a range of months: the
+ * average productivity and total leaves per month, one productivity line
+ * per employee, and the month-over-month change of each figure.
+ *
+ * Every month is computed by getMonthlyReport, the same calculation the
+ * dashboard shows for a single month, so a month on this page always
+ * matches the dashboard for that month and filter.
+ *
+ * URL PARAMS:
+ * - month=YYYY-MM: last month of the range (default: current month)
+ * - months=3|6|12|24: number of months (default: 12)
+ * - departmentId, teamId, managerId: org filter, as on the dashboard
+ *
+ * ACCESS: Requires a signed-in user; figures cover the user's employee
+ * scope, like the dashboard.
+ *
+ * @module app/trends/page
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import Link from 'next/link';
+import { ArrowLeft, Calendar, LineChart as LineChartIcon } from 'lucide-react';
+import { prisma } from '@/lib/prisma';
+import { getEmployeeScope, requirePageUser } from '@/lib/auth';
+import { toScopeFilter } from '@/lib/users';
+import { getMonthlyReports } from '@/lib/monthly-report';
+import { formatMonthParam } from '@/lib/months';
+import { EMPTY_ORG_FILTER, formatOrgFilterQuery, parseOrgFilterParams } from '@/lib/org-chart';
+import { resolveOrgScope } from '@/lib/org-chart-queries';
+import { buildTrendReport, listTrendMonths, parseTrendRangeParams } from '@/lib/trends';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MonthSelector } from '@/components/dashboard/month-selector';
+import { OrgFilter } from '@/components/dashboard/org-filter';
+import { BarChart, LineChart, seriesColor } from '@/components/trends/trend-charts';
+import { TrendRangeSelect } from '@/components/trends/trend-range-select';
+import { UserMenu } from '@/components/auth/user-menu';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Page props with search parameters
+ */
+interface TrendsPageProps {
+  searchParams: Promise<{
+    /** Last month of the range, YYYY-MM */
+    month?: string;
+
+    /** Number of months (lib/trends TREND_MONTH_COUNTS) */
+    months?: string;
+
+    /** Org filter (lib/org-chart) */
+    departmentId?: string;
+    teamId?: string;
+    managerId?: string;
+  }>;
+}
+
+// ============================================================================
+// UI COMPONENTS
+// ============================================================================
+
+/**
+ * Month-over-month change, coloured by whether a rise is good
+ */
+function Delta({
+  value,
+  unit = '',
+  higherIsBetter = true,
+}: {
+  value: number | null;
+  unit?: string;
+  higherIsBetter?: boolean;
+}): React.JSX.Element {
+  if (value === null) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  const isBetter = higherIsBetter ? value > 0 : value < 0;
+
+  return (
+    <span
+      className={cn(
+        'font-mono text-xs',
+        value === 0
+          ? 'text-muted-foreground'
+          : isBetter
+          ? 'text-green-600 dark:text-green-400'
+          : 'text-red-600 dark:text-red-400'
+      )}
+    >
+      {value > 0 ? '+' : ''}{value.toFixed(1)}{unit}
+    </span>
+  );
+}
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+
+/**
+ * Trends Page
+ *
+ * @param {TrendsPageProps} props - Page props with search params
+ * @returns {Promise<React.JSX.Element>} Rendered trends page
+ */
+export default async function TrendsPage({ searchParams }: TrendsPageProps): Promise<React.JSX.Element> {
+  const resolvedSearchParams = await searchParams;
+  const range = parseTrendRangeParams(resolvedSearchParams);
+
+  // Same scope and org filter as the dashboard
+  const user = await requirePageUser();
+  const userScope = await getEmployeeScope(user);
+  const canFilter = userScope === null || userScope.length > 1;
+  const orgFilter = canFilter ? parseOrgFilterParams(resolvedSearchParams) : EMPTY_ORG_FILTER;
+  const scope = await resolveOrgScope(userScope, orgFilter);
+
+  const [reports, departments, teams, managers] = await Promise.all([
+    getMonthlyReports(listTrendMonths(range), scope),
+    canFilter ? prisma.department.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } }) : [],
+    canFilter
+      ? prisma.team.findMany({ select: { id: true, name: true, departmentId: true }, orderBy: { name: 'asc' } })
+      : [],
+    canFilter
+      ? prisma.employee.findMany({
+          where: { id: toScopeFilter(userScope), reports: { some: {} } },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        })
+      : [],
+  ]);
+
+  const trends = buildTrendReport(reports);
+  const labels = trends.months.map((month) => month.label);
+  const monthParam = formatMonthParam(range.end.year, range.end.month);
+  const filterQuery = formatOrgFilterQuery(orgFilter);
+  const lastIndex = trends.months.length - 1;
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <LineChartIcon className="h-7 w-7" />
+                Trends
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                {labels[0]} – {labels[lastIndex]}: productivity and leaves month over month
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Calendar className="h-5 w-5 text-muted-foreground" />
+              <MonthSelector currentYear={range.end.year} currentMonth={range.end.month} />
+              <TrendRangeSelect count={range.count} />
+              <Button asChild variant="outline">
+                <Link href={`/?month=${monthParam}${filterQuery && `&${filterQuery}`}`}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Dashboard
+                </Link>
+              </Button>
+              <UserMenu user={user} />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {canFilter && (departments.length > 0 || managers.length > 0) && (
+          <OrgFilter filter={orgFilter} departments={departments} teams={teams} managers={managers} />
+        )}
+
+        {!trends.hasData ? (
+          <Card>
+            <CardContent className="py-16 text-center text-sm text-muted-foreground">
+              No attendance records you can view exist for these months.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Average Productivity</CardTitle>
+                  <CardDescription>Mean of the employee percentages and productivity of all hours, per month</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <LineChart
+                    labels={labels}
+                    series={[
+                      {
+                        name: 'Average productivity',
+                        values: trends.months.map((month) => (month.hasData ? month.averageProductivity : null)),
+                        color: 'var(--chart-2)',
+                      },
+                      {
+                        name: 'Weighted by hours',
+                        values: trends.months.map((month) => (month.hasData ? month.weightedProductivity : null)),
+                        color: 'var(--chart-4)',
+                      },
+                    ]}
+                    unit="%"
+                    minMax={100}
+                    showLegend
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Total Leaves</CardTitle>
+                  <CardDescription>Absent days per month</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BarChart
+                    labels={labels}
+                    values={trends.months.map((month) => (month.hasData ? month.totalLeavesTaken : null))}
+                    color="var(--chart-1)"
+                    unit=" days"
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Month Table */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Month over Month</CardTitle>
+                <CardDescription>Changes against the previous month, in percentage points and days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Month</TableHead>
+                        <TableHead className="text-right">Employees</TableHead>
+                        <TableHead className="text-right">Avg. Productivity</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                        <TableHead className="text-right">Weighted</TableHead>
+                        <TableHead className="text-right">Leaves</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                        <TableHead className="text-right">Unexplained</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trends.months.map((month) => (
+                        <TableRow key={month.label}>
+                          <TableCell className="font-medium">
+                            <Link
+                              href={`/?month=${formatMonthParam(month.year, month.month)}${filterQuery && `&${filterQuery}`}`}
+                              className="hover:underline underline-offset-4"
+                            >
+                              {month.label}
+                            </Link>
+                          </TableCell>
+                          {month.hasData ? (
+                            <>
+                              <TableCell className="text-right font-mono">{month.totalEmployees}</TableCell>
+                              <TableCell className="text-right font-mono">{month.averageProductivity.toFixed(1)}%</TableCell>
+                              <TableCell className="text-right"><Delta value={month.productivityDelta} unit=" pp" /></TableCell>
+                              <TableCell className="text-right font-mono">{month.weightedProductivity.toFixed(1)}%</TableCell>
+                              <TableCell className="text-right font-mono">{month.totalLeavesTaken}</TableCell>
+                              <TableCell className="text-right">
+                                <Delta value={month.leavesDelta} higherIsBetter={false} />
+                              </TableCell>
+                              <TableCell className="text-right font-mono">{month.totalUnexplainedAbsences}</TableCell>
+                            </>
+                          ) : (
+                            <TableCell colSpan={7} className="text-right text-muted-foreground">No data</TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Employees */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Employee Productivity</CardTitle>
+                <CardDescription>One line per employee; gaps are months without attendance</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <LineChart
+                  labels={labels}
+                  series={trends.employees.map((employee, index) => ({
+                    name: employee.employeeName,
+                    values: employee.productivity,
+                    color: seriesColor(index),
+                  }))}
+                  unit="%"
+                  minMax={100}
+                  showLegend
+                />
+
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee Name</TableHead>
+                        <TableHead className="text-right">Range Average</TableHead>
+                        <TableHead className="text-right">{labels[lastIndex]}</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trends.employees.map((employee) => {
+                        const values = employee.productivity.filter((value): value is number => value !== null);
+                        const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+                        const latest = employee.productivity[lastIndex];
+
+                        return (
+                          <TableRow key={employee.employeeId}>
+                            <TableCell className="font-medium">
+                              <Link
+                                href={`/employees/${employee.employeeId}?month=${monthParam}`}
+                                className="hover:underline underline-offset-4"
+                              >
+                                {employee.employeeName}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="text-right font-mono">{average.toFixed(1)}%</TableCell>
+                            <TableCell className="text-right font-mono">
+                              {latest === null ? '—' : `${latest.toFixed(1)}%`}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Delta value={employee.deltas[lastIndex]} unit=" pp" />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+/**
+ * Always render with fresh data
+ */
+export const revalidate = 0;
@@ -0,0 +1,82 @@
+/**
+ * User Administration Page
+ *
+ * Server Component listing login accounts with creation, role changes,
+ * password resets and deactivation. Restricted to ADMIN.
+ *
+ * @module app/users/page
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import Link from 'next/link';
+import { ArrowLeft, UserCog } from 'lucide-react';
+import { prisma } from '@/lib/prisma';
+import { requirePageUser } from '@/lib/auth';
+import { toUserSummary, USER_MANAGER_ROLES } from '@/lib/users';
+import { Button } from '@/components/ui/button';
+import { UserManager } from '@/components/users/user-manager';
+import { UserMenu } from '@/components/auth/user-menu';
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+
+/**
+ * User Administration Page
+ *
+ * @returns {Promise<React.JSX.Element>} Rendered users page
+ */
+export default async function UsersPage(): Promise<React.JSX.Element> {
+  const user = await requirePageUser(USER_MANAGER_ROLES);
+
+  const [users, employees] = await Promise.all([
+    prisma.user.findMany({ include: { employee: true }, orderBy: { name: 'asc' } }),
+    prisma.employee.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } }),
+  ]);
+
+  return (
+    <main className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <UserCog className="h-7 w-7" />
+                Users
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Manage login accounts and their access roles
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button asChild variant="outline">
+                <Link href="/">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Dashboard
+                </Link>
+              </Button>
+              <UserMenu user={user} />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8">
+        <UserManager
+          users={users.map(toUserSummary)}
+          employees={employees}
+          currentUserId={user.id}
+        />
+      </div>
+    </main>
+  );
+}
+
+/**
+ * Always render with fresh data
+ */
+export const revalidate = 0;
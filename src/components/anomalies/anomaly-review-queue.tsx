@@ -0,0 +1,435 @@
+/**
+ * Anomaly Review Queue Component
+ *
+ * Client-side review of the suspicious attendance days found by the
+ * anomaly detector on upload. Each anomaly is accepted (the day is
+ * genuine), corrected (PATCH /api/attendance/:id, which resolves the
+ * anomalies the correction fixes) or dismissed (false alarm).
+ *
+ * FEATURES:
+ * - Status filter (kept in the URL, so the server lists only that status)
+ * - Accept / dismiss with an optional note; the signed-in user is
+ *   recorded as the reviewer
+ * - Inline correction of the flagged record with a required reason
+ *
+ * @module components/anomalies/anomaly-review-queue
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Check, Loader2, Pencil, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AttendanceStatusBadge } from '@/components/employees/attendance-status-badge';
+import { requestJson } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+import { ATTENDANCE_STATUSES, ATTENDANCE_STATUS_RULES, type AttendanceStatus } from '@/lib/calculations';
+import {
+  ANOMALY_STATUSES,
+  getAnomalyRuleLabel,
+  type AnomalyStatus,
+  type AnomalySummary,
+} from '@/lib/anomalies';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface AnomalyReviewQueueProps {
+  /** Anomalies matching the filter, newest day first */
+  anomalies: AnomalySummary[];
+
+  /** Status filter in effect (null = every status) */
+  status: AnomalyStatus | null;
+}
+
+/**
+ * Review actions and their API route segment
+ */
+type AnomalyDecision = 'accept' | 'dismiss';
+
+/**
+ * Values of the record being corrected
+ */
+interface CorrectionDraft {
+  inTime: string;
+  outTime: string;
+  status: AttendanceStatus;
+  reason: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Badge styling per review state
+ */
+const STATUS_STYLES: Record<AnomalyStatus, string> = {
+  OPEN: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  ACCEPTED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  CORRECTED: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  DISMISSED: '',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * AnomalyReviewQueue Component
+ *
+ * USAGE:
+ * ```tsx
+ * <AnomalyReviewQueue anomalies={anomalies} status="OPEN" />
+ * ```
+ */
+export function AnomalyReviewQueue({ anomalies, status }: AnomalyReviewQueueProps): React.JSX.Element {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const [note, setNote] = useState<string>('');
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [correctingId, setCorrectingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CorrectionDraft | null>(null);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Show another status (server-side filter)
+   */
+  const handleStatusChange = useCallback(
+    (value: string): void => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set('status', value === SELECT_NONE ? 'all' : value);
+      router.push(`${pathname}?${params.toString()}`);
+    },
+    [pathname, router, searchParams]
+  );
+
+  /**
+   * Accept or dismiss an open anomaly
+   */
+  const handleDecision = useCallback(
+    async (anomaly: AnomalySummary, decision: AnomalyDecision): Promise<void> => {
+      setReviewingId(anomaly.id);
+
+      try {
+        await requestJson(`/api/anomalies/${anomaly.id}/${decision}`, {
+          method: 'POST',
+          json: { note },
+        });
+
+        toast.success(decision === 'accept' ? 'Anomaly Accepted' : 'Anomaly Dismissed', {
+          description: `${anomaly.employeeName}, ${anomaly.date}: ${getAnomalyRuleLabel(anomaly.rule)}`,
+        });
+
+        setNote('');
+        router.refresh();
+      } catch (error) {
+        console.error('[AnomalyReviewQueue] Decision error:', error);
+        toast.error('Could Not Update Anomaly', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setReviewingId(null);
+      }
+    },
+    [note, router]
+  );
+
+  /**
+   * Start correcting the record of an anomaly with its current values
+   */
+  const handleEdit = useCallback((anomaly: AnomalySummary): void => {
+    setCorrectingId(anomaly.id);
+    setDraft({
+      inTime: anomaly.record.inTime?.slice(0, 5) ?? '',
+      outTime: anomaly.record.outTime?.slice(0, 5) ?? '',
+      status: anomaly.record.status,
+      reason: '',
+    });
+  }, []);
+
+  /**
+   * Discard the current correction
+   */
+  const handleCancel = useCallback((): void => {
+    setCorrectingId(null);
+    setDraft(null);
+  }, []);
+
+  /**
+   * Save the correction of the flagged record
+   */
+  const handleSave = useCallback(
+    async (anomaly: AnomalySummary): Promise<void> => {
+      if (!draft) {
+        return;
+      }
+
+      setReviewingId(anomaly.id);
+
+      try {
+        const times = ATTENDANCE_STATUS_RULES[draft.status].allowsTimes
+          ? { inTime: draft.inTime || null, outTime: draft.outTime || null }
+          : {};
+
+        await requestJson(`/api/attendance/${anomaly.attendanceRecordId}`, {
+          method: 'PATCH',
+          json: { ...times, status: draft.status, reason: draft.reason },
+        });
+
+        toast.success('Attendance Corrected', {
+          description: `${anomaly.employeeName}, ${anomaly.date}. Anomalies the correction fixed are closed.`,
+        });
+
+        setCorrectingId(null);
+        setDraft(null);
+        router.refresh();
+      } catch (error) {
+        console.error('[AnomalyReviewQueue] Correction error:', error);
+        toast.error('Could Not Correct Attendance', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setReviewingId(null);
+      }
+    },
+    [draft, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Anomalies</CardTitle>
+          <CardDescription>
+            Accept a day that is genuine, correct the record, or dismiss a false alarm. Decisions
+            are kept when the month is uploaded again.
+          </CardDescription>
+        </div>
+        <Select value={status ?? SELECT_NONE} onValueChange={handleStatusChange}>
+          <SelectTrigger className="w-[140px]" aria-label="Status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SELECT_NONE}>All</SelectItem>
+            {ANOMALY_STATUSES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option.charAt(0) + option.slice(1).toLowerCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 md:w-1/2">
+          <Label htmlFor="anomaly-note">Review Note</Label>
+          <Input
+            id="anomaly-note"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Optional"
+          />
+        </div>
+
+        {anomalies.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No anomalies to show.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Anomaly</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {anomalies.map((anomaly) => {
+                  const isBusy = reviewingId === anomaly.id;
+                  const isCorrecting = correctingId === anomaly.id && draft !== null;
+
+                  return (
+                    <React.Fragment key={anomaly.id}>
+                      <TableRow className={cn(isCorrecting && 'bg-muted/50')}>
+                        <TableCell className="font-medium">
+                          <Link
+                            href={`/employees/${anomaly.employeeId}?month=${anomaly.date.slice(0, 7)}`}
+                            className="hover:underline underline-offset-4"
+                          >
+                            {anomaly.employeeName}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{anomaly.date}</TableCell>
+                        <TableCell>
+                          {getAnomalyRuleLabel(anomaly.rule)}
+                          <p className="text-xs text-muted-foreground">{anomaly.detail}</p>
+                        </TableCell>
+                        <TableCell>
+                          <AttendanceStatusBadge status={anomaly.record.status} />
+                          <p className="font-mono text-xs text-muted-foreground mt-1">
+                            {anomaly.record.inTime ?? '--:--'}–{anomaly.record.outTime ?? '--:--'}
+                            {' · '}
+                            {anomaly.record.workedHours.toFixed(2)} h
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={cn(STATUS_STYLES[anomaly.status])}>
+                            {anomaly.status}
+                          </Badge>
+                          {anomaly.reviewer && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              by {anomaly.reviewer}
+                              {anomaly.reviewNote && `: ${anomaly.reviewNote}`}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {anomaly.status === 'OPEN' && (
+                            <span className="flex justify-end gap-1">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => handleDecision(anomaly, 'accept')}
+                                disabled={isBusy || correctingId !== null}
+                                aria-label={`Accept anomaly of ${anomaly.employeeName} on ${anomaly.date}`}
+                              >
+                                {isBusy ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Check className="h-4 w-4 text-green-600" />
+                                )}
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => handleEdit(anomaly)}
+                                disabled={isBusy || correctingId !== null}
+                                aria-label={`Correct attendance of ${anomaly.employeeName} on ${anomaly.date}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => handleDecision(anomaly, 'dismiss')}
+                                disabled={isBusy || correctingId !== null}
+                                aria-label={`Dismiss anomaly of ${anomaly.employeeName} on ${anomaly.date}`}
+                              >
+                                <X className="h-4 w-4 text-red-600" />
+                              </Button>
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isCorrecting && (
+                        <TableRow className="bg-muted/50">
+                          <TableCell colSpan={6}>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Select
+                                value={draft.status}
+                                onValueChange={(value) => setDraft({ ...draft, status: value as AttendanceStatus })}
+                              >
+                                <SelectTrigger className="w-[150px]" size="sm" aria-label="Attendance status">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {ATTENDANCE_STATUSES.map((option) => (
+                                    <SelectItem key={option} value={option}>
+                                      {ATTENDANCE_STATUS_RULES[option].label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Input
+                                type="time"
+                                className="w-[120px]"
+                                value={draft.inTime}
+                                onChange={(event) => setDraft({ ...draft, inTime: event.target.value })}
+                                disabled={!ATTENDANCE_STATUS_RULES[draft.status].allowsTimes}
+                                aria-label="In time"
+                              />
+                              <Input
+                                type="time"
+                                className="w-[120px]"
+                                value={draft.outTime}
+                                onChange={(event) => setDraft({ ...draft, outTime: event.target.value })}
+                                disabled={!ATTENDANCE_STATUS_RULES[draft.status].allowsTimes}
+                                aria-label="Out time"
+                              />
+                              <Input
+                                className="flex-1 min-w-[200px]"
+                                value={draft.reason}
+                                onChange={(event) => setDraft({ ...draft, reason: event.target.value })}
+                                placeholder="Reason for the correction (required)"
+                                aria-label="Reason"
+                              />
+                              <Button
+                                type="button"
+                                size="sm"
+                                onClick={() => handleSave(anomaly)}
+                                disabled={!draft.reason.trim() || isBusy}
+                              >
+                                {isBusy ? (
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Save className="mr-2 h-4 w-4" />
+                                )}
+                                Save
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={handleCancel}
+                                disabled={isBusy}
+                              >
+                                <X className="mr-2 h-4 w-4" />
+                                Cancel
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Login Form Component
+ *
+ * Client-side sign-in with e-mail and password (POST /api/auth/login).
+ * On a fresh installation without users it instead creates the first admin
+ * account (POST /api/auth/setup). Either way the session cookie is set by
+ * the route and the user lands on the dashboard.
+ *
+ * @module components/auth/login-form
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, Loader2, LogIn, UserPlus } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { requestJson } from '@/lib/api-client';
+import { MIN_PASSWORD_LENGTH } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface LoginFormProps {
+  /** "setup" creates the first admin instead of signing in */
+  mode: 'login' | 'setup';
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * LoginForm Component
+ *
+ * USAGE:
+ * ```tsx
+ * <LoginForm mode={userCount === 0 ? 'setup' : 'login'} />
+ * ```
+ */
+export function LoginForm({ mode }: LoginFormProps): React.JSX.Element {
+  const router = useRouter();
+  const isSetup = mode === 'setup';
+
+  const [name, setName] = useState<string>('');
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Sign in, or create the first admin
+   */
+  const handleSubmit = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      setIsSubmitting(true);
+      setError(null);
+
+      try {
+        await requestJson(isSetup ? '/api/auth/setup' : '/api/auth/login', {
+          method: 'POST',
+          json: isSetup ? { name, email, password } : { email, password },
+        });
+
+        router.push('/');
+        router.refresh();
+      } catch (submitError) {
+        console.error('[LoginForm] Submit error:', submitError);
+        setError(submitError instanceof Error ? submitError.message : 'Unexpected error');
+        setIsSubmitting(false);
+      }
+    },
+    [email, isSetup, name, password, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>{isSetup ? 'Create Admin Account' : 'Sign In'}</CardTitle>
+        <CardDescription>
+          {isSetup
+            ? 'No accounts exist yet. The first account gets full admin access.'
+            : 'Sign in with your work e-mail address.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {isSetup && (
+            <div className="space-y-2">
+              <Label htmlFor="login-name">Name</Label>
+              <Input
+                id="login-name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                autoComplete="name"
+                required
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="login-email">E-mail</Label>
+            <Input
+              id="login-email"
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              autoComplete="email"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="login-password">Password</Label>
+            <Input
+              id="login-password"
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              autoComplete={isSetup ? 'new-password' : 'current-password'}
+              minLength={isSetup ? MIN_PASSWORD_LENGTH : undefined}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : isSetup ? (
+              <UserPlus className="mr-2 h-4 w-4" />
+            ) : (
+              <LogIn className="mr-2 h-4 w-4" />
+            )}
+            {isSetup ? 'Create Account' : 'Sign In'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
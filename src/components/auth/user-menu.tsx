@@ -0,0 +1,91 @@
+/**
+ * User Menu Component
+ *
+ * Shows the signed-in user's name and role in page headers, with a sign-out
+ * button (POST /api/auth/logout).
+ *
+ * @module components/auth/user-menu
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { requestJson } from '@/lib/api-client';
+import { getRoleLabel, type SessionUser } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface UserMenuProps {
+  /** Signed-in user */
+  user: SessionUser;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * UserMenu Component
+ *
+ * USAGE:
+ * ```tsx
+ * <UserMenu user={user} />
+ * ```
+ */
+export function UserMenu({ user }: UserMenuProps): React.JSX.Element {
+  const router = useRouter();
+  const [isSigningOut, setIsSigningOut] = useState<boolean>(false);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * End the session and return to the login page
+   */
+  const handleSignOut = useCallback(async (): Promise<void> => {
+    setIsSigningOut(true);
+
+    try {
+      await requestJson('/api/auth/logout', { method: 'POST' });
+      router.push('/login');
+      router.refresh();
+    } catch (error) {
+      console.error('[UserMenu] Sign-out error:', error);
+      setIsSigningOut(false);
+    }
+  }, [router]);
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="text-right leading-tight">
+        <p className="text-sm font-medium">{user.name}</p>
+        <p className="text-xs text-muted-foreground">{getRoleLabel(user.role)}</p>
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={handleSignOut}
+        disabled={isSigningOut}
+        aria-label="Sign out"
+      >
+        {isSigningOut ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
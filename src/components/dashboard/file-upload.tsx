@@ -1,12 +1,18 @@
 /**
- * File Upload Component for Excel Attendance Data
+ * File Upload Component for Excel and CSV Attendance Data
  * 
  * This component provides a professional, accessible interface for uploading
  * Excel files containing employee attendance records. It handles file validation,
  * upload progress tracking, and comprehensive error handling.
  * 
  * FEATURES:
- * - File type validation (.xlsx, .xls only)
+ * - File type validation (.xlsx, .xls, .csv, .tsv only)
+ * - Preview step showing new employees, replaced rows and changed days
+ * - Confirm step before existing records are replaced
+ * - Row-level error report with annotated error sheet download and the
+ *   option to import only the valid rows
+ * - Import profile picker, and a profile builder for files whose headers
+ *   differ from the default layout
  * - Real-time upload progress indication
  * - Toast notifications for success/error states
  * - Accessible keyboard navigation
@@ -30,13 +36,21 @@
 'use client';
 
 import React, { useState, useRef, useCallback } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { UploadCloud, FileSpreadsheet, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { UploadCloud, FileSpreadsheet, CheckCircle2, XCircle, Loader2, Eye, ClipboardCheck, AlertTriangle } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { UploadPreview, type UploadPreviewDetails } from '@/components/dashboard/upload-preview';
+import { RowErrorReport, type RowValidationIssue } from '@/components/dashboard/row-error-report';
+import { ImportProfileEditor } from '@/components/dashboard/import-profile-editor';
+import { Label } from '@/components/ui/label';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ImportProfileSummary } from '@/lib/import-profiles';
 import { cn } from '@/lib/utils';
 
 // ============================================================================
@@ -63,6 +77,35 @@ export interface FileUploadProps {
    * @default 10485760 (10MB)
    */
   maxFileSizeBytes?: number;
+  
+  /**
+   * Saved import profiles offered in the profile picker
+   * @default []
+   */
+  importProfiles?: ImportProfileSummary[];
+}
+
+/**
+ * Per-month outcome of an upload
+ */
+interface MonthUploadSummary {
+  year: number;
+  month: number;
+  employeeCount: number;
+  recordCount: number;
+  deletedCount: number;
+  unmatchedPunchCount: number;
+  invertedPunchCount: number;
+  anomalyCount: number;
+}
+
+/**
+ * Row validation report included in successful responses
+ */
+interface RowErrorReportDetails {
+  rowErrors: RowValidationIssue[];
+  rowErrorCount: number;
+  skippedRowCount: number;
 }
 
 /**
@@ -72,14 +115,24 @@ interface UploadSuccessResponse {
   success: true;
   count: number;
   message: string;
-  details: {
+  details: RowErrorReportDetails & {
     employeeCount: number;
     recordCount: number;
-    month: number;
-    year: number;
+    deletedCount: number;
+    months: MonthUploadSummary[];
   };
 }
 
+/**
+ * API response for preview (dry-run) requests
+ */
+interface UploadPreviewResponse {
+  success: true;
+  preview: true;
+  message: string;
+  details: UploadPreviewDetails & RowErrorReportDetails;
+}
+
 /**
  * API response for upload errors
  */
@@ -87,21 +140,28 @@ interface UploadErrorResponse {
   success: false;
   error: string;
   details?: string;
+  rowErrors?: RowValidationIssue[];
+  rowErrorCount?: number;
 }
 
+/**
+ * How the server handles rows with validation errors
+ */
+type ErrorMode = 'reject' | 'skip';
+
 /**
  * Upload state enumeration for better type safety
  */
-type UploadState = 'idle' | 'uploading' | 'success' | 'error';
+type UploadState = 'idle' | 'previewing' | 'preview' | 'uploading' | 'success' | 'error';
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
 /**
- * Allowed file extensions for Excel files
+ * Allowed file extensions (Excel workbooks and delimited text exports)
  */
-const ALLOWED_EXTENSIONS = ['.xlsx', '.xls'] as const;
+const ALLOWED_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv'] as const;
 
 /**
  * Default maximum file size (10MB)
@@ -134,6 +194,17 @@ function isValidFileSize(fileSize: number, maxSize: number): boolean {
   return fileSize > 0 && fileSize <= maxSize;
 }
 
+/**
+ * Format a year/month pair for display
+ * 
+ * @param {number} year - Full year
+ * @param {number} month - Month (1-12)
+ * @returns {string} Label such as "Jan 2024"
+ */
+function formatMonthLabel(year: number, month: number): string {
+  return format(new Date(year, month - 1, 1), 'MMM yyyy');
+}
+
 /**
  * Format file size for human-readable display
  * 
@@ -180,6 +251,7 @@ export function FileUpload({
   onUploadSuccess,
   className,
   maxFileSizeBytes = DEFAULT_MAX_FILE_SIZE,
+  importProfiles = [],
 }: FileUploadProps): React.JSX.Element {
   // ==========================================================================
   // STATE MANAGEMENT
@@ -192,6 +264,12 @@ export function FileUpload({
   const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [uploadDetails, setUploadDetails] = useState<UploadSuccessResponse['details'] | null>(null);
+  const [previewDetails, setPreviewDetails] = useState<UploadPreviewResponse['details'] | null>(null);
+  const [errorMode, setErrorMode] = useState<ErrorMode>('reject');
+  const [rowErrors, setRowErrors] = useState<RowValidationIssue[]>([]);
+  const [rowErrorCount, setRowErrorCount] = useState<number>(0);
+  const [profileId, setProfileId] = useState<string>(SELECT_NONE);
+  const [isEditingProfile, setIsEditingProfile] = useState<boolean>(false);
   const [isDragging, setIsDragging] = useState<boolean>(false);
   
   // File input ref for programmatic triggering
@@ -201,10 +279,18 @@ export function FileUpload({
   // COMPUTED VALUES
   // ==========================================================================
   
-  const isUploading = uploadState === 'uploading';
+  const isPreviewing = uploadState === 'previewing';
+  const isPreview = uploadState === 'preview';
+  const isUploading = uploadState === 'uploading' || isPreviewing;
   const isSuccess = uploadState === 'success';
   const isError = uploadState === 'error';
   const isIdle = uploadState === 'idle';
+  const unmatchedPunchCount =
+    uploadDetails?.months.reduce((sum, summary) => sum + summary.unmatchedPunchCount, 0) ?? 0;
+  const invertedPunchCount =
+    uploadDetails?.months.reduce((sum, summary) => sum + summary.invertedPunchCount, 0) ?? 0;
+  const anomalyCount =
+    uploadDetails?.months.reduce((sum, summary) => sum + summary.anomalyCount, 0) ?? 0;
   
   // ==========================================================================
   // EVENT HANDLERS
@@ -220,10 +306,14 @@ export function FileUpload({
       setUploadState('idle');
       setUploadProgress(0);
       setUploadDetails(null);
+      setPreviewDetails(null);
+      setErrorMode('reject');
+      setRowErrors([]);
+      setRowErrorCount(0);
       
       // Validate file extension
       if (!isValidFileExtension(file.name)) {
-        const error = `Invalid file type. Please select an Excel file (${ALLOWED_EXTENSIONS.join(', ')})`;
+        const error = `Invalid file type. Please select an Excel or CSV file (${ALLOWED_EXTENSIONS.join(', ')})`;
         setErrorMessage(error);
         setUploadState('error');
         toast.error('Invalid File Type', {
@@ -248,7 +338,7 @@ export function FileUpload({
       // File is valid
       setSelectedFile(file);
       toast.success('File Selected', {
-        description: `${file.name} is ready to upload`,
+        description: `${file.name} is ready to preview`,
       });
     },
     [maxFileSizeBytes]
@@ -315,6 +405,89 @@ export function FileUpload({
   );
   
   
+  /**
+   * Request a dry-run preview of the selected file
+   * 
+   * Sends the file to /api/upload?mode=preview, which parses and gap-fills
+   * it without writing, then shows the result for confirmation. Row
+   * validation errors are kept in state so they can be listed and exported.
+   * 
+   * @async
+   * @param {ErrorMode} mode - How the server should treat invalid rows
+   * @returns {Promise<void>}
+   */
+  const handlePreview = useCallback(async (mode: ErrorMode): Promise<void> => {
+    if (!selectedFile) {
+      toast.error('No File Selected', {
+        description: 'Please select an attendance file to upload',
+      });
+      return;
+    }
+    
+    setErrorMessage('');
+    setUploadState('previewing');
+    setPreviewDetails(null);
+    setErrorMode(mode);
+    setRowErrors([]);
+    setRowErrorCount(0);
+    
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFile);
+      formData.append('errorMode', mode);
+      if (profileId !== SELECT_NONE) {
+        formData.append('profileId', profileId);
+      }
+      
+      const response = await fetch('/api/upload?mode=preview', {
+        method: 'POST',
+        body: formData,
+      });
+      
+      const data: UploadPreviewResponse | UploadErrorResponse = await response.json();
+      
+      if (!response.ok) {
+        const errorData = data as UploadErrorResponse;
+        setRowErrors(errorData.rowErrors ?? []);
+        setRowErrorCount(errorData.rowErrorCount ?? 0);
+        throw new Error(
+          errorData.details ? `${errorData.error}: ${errorData.details}` : errorData.error
+        );
+      }
+      
+      const previewData = data as UploadPreviewResponse;
+      setPreviewDetails(previewData.details);
+      setRowErrors(previewData.details.rowErrors);
+      setRowErrorCount(previewData.details.rowErrorCount);
+      setUploadState('preview');
+    } catch (error) {
+      const errorMsg = error instanceof Error
+        ? error.message
+        : 'An unexpected error occurred while previewing';
+      
+      console.error('[FileUpload] Preview error:', error);
+      
+      setUploadState('error');
+      setErrorMessage(errorMsg);
+      
+      toast.error('Preview Failed', {
+        description: errorMsg,
+        duration: 7000,
+      });
+    }
+  }, [selectedFile, profileId]);
+  
+  /**
+   * Return from the preview to the file selection step without uploading
+   */
+  const handleCancelPreview = useCallback((): void => {
+    setPreviewDetails(null);
+    setErrorMode('reject');
+    setRowErrors([]);
+    setRowErrorCount(0);
+    setUploadState('idle');
+  }, []);
+  
   /**
    * Handle file upload to server
    * 
@@ -336,7 +509,7 @@ export function FileUpload({
   const handleUpload = useCallback(async (): Promise<void> => {
     if (!selectedFile) {
       toast.error('No File Selected', {
-        description: 'Please select an Excel file to upload',
+        description: 'Please select an attendance file to upload',
       });
       return;
     }
@@ -350,6 +523,10 @@ export function FileUpload({
       // Create FormData for file upload
       const formData = new FormData();
       formData.append('file', selectedFile);
+      formData.append('errorMode', errorMode);
+      if (profileId !== SELECT_NONE) {
+        formData.append('profileId', profileId);
+      }
       
       // Simulate progress (real progress requires server-side streaming)
       const progressInterval = setInterval(() => {
@@ -389,6 +566,7 @@ export function FileUpload({
       // Success response
       const successData = data as UploadSuccessResponse;
       
+      setPreviewDetails(null);
       setUploadState('success');
       setUploadDetails(successData.details);
       
@@ -422,7 +600,26 @@ export function FileUpload({
         duration: 7000,
       });
     }
-  }, [selectedFile, onUploadSuccess, router]);
+  }, [selectedFile, errorMode, profileId, onUploadSuccess, router]);
+  
+  /**
+   * Select a newly saved profile and refresh the server-provided list
+   */
+  const handleProfileSaved = useCallback(
+    (profile: ImportProfileSummary): void => {
+      setProfileId(profile.id);
+      setIsEditingProfile(false);
+      router.refresh();
+    },
+    [router]
+  );
+  
+  /**
+   * Close the profile builder without saving
+   */
+  const handleProfileEditorCancel = useCallback((): void => {
+    setIsEditingProfile(false);
+  }, []);
   
   /**
    * Trigger file input click programmatically
@@ -442,6 +639,10 @@ export function FileUpload({
     setUploadProgress(0);
     setErrorMessage('');
     setUploadDetails(null);
+    setPreviewDetails(null);
+    setErrorMode('reject');
+    setRowErrors([]);
+    setRowErrorCount(0);
     
     // Reset file input
     if (fileInputRef.current) {
@@ -454,15 +655,16 @@ export function FileUpload({
   // ==========================================================================
   
   return (
-    <Card className={cn('w-full max-w-2xl', className)}>
+    <Card className={cn('w-full', isPreview || isEditingProfile || rowErrors.length > 0 ? 'max-w-4xl' : 'max-w-2xl', className)}>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <FileSpreadsheet className="h-5 w-5" />
           Upload Attendance Data
         </CardTitle>
         <CardDescription>
-          Upload an Excel file (.xlsx or .xls) containing employee attendance records.
-          The file should include columns: Employee Name, Date, In Time, Out Time.
+          Upload an Excel (.xlsx, .xls) or CSV/TSV file containing employee attendance records.
+          The file should include columns: Employee Name, Date, In Time, Out Time
+          (plus an optional Employee Code), or select an import profile that maps your own headers.
         </CardDescription>
       </CardHeader>
       
@@ -474,7 +676,7 @@ export function FileUpload({
           accept={ALLOWED_EXTENSIONS.join(',')}
           onChange={handleFileChange}
           className="hidden"
-          aria-label="Select Excel file"
+          aria-label="Select attendance file"
           disabled={isUploading}
         />
         
@@ -483,7 +685,7 @@ export function FileUpload({
           className={cn(
             'relative border-2 border-dashed rounded-lg p-8 transition-colors',
             isIdle && 'border-muted-foreground/25 hover:border-muted-foreground/50 cursor-pointer',
-            isUploading && 'border-primary/50 bg-primary/5',
+            (isUploading || isPreview) && 'border-primary/50 bg-primary/5',
             isSuccess && 'border-green-500/50 bg-green-50 dark:bg-green-950',
             isError && 'border-destructive/50 bg-destructive/5',
             isDragging && 'border-primary bg-primary/10'
@@ -512,7 +714,7 @@ export function FileUpload({
                     Click to select or drag and drop
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Excel files only (.xlsx, .xls) • Max {formatFileSize(maxFileSizeBytes)}
+                    Excel or CSV files (.xlsx, .xls, .csv, .tsv) • Max {formatFileSize(maxFileSizeBytes)}
                   </p>
                 </div>
               </>
@@ -530,7 +732,32 @@ export function FileUpload({
               </>
             )}
             
-            {isUploading && (
+            {isPreviewing && (
+              <>
+                <Loader2 className="h-12 w-12 text-primary animate-spin" />
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Analyzing {selectedFile?.name}...</p>
+                  <p className="text-xs text-muted-foreground">
+                    Nothing is saved until you confirm
+                  </p>
+                </div>
+              </>
+            )}
+            
+            {isPreview && previewDetails && (
+              <>
+                <ClipboardCheck className="h-12 w-12 text-primary" />
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Review changes for {selectedFile?.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {previewDetails.recordCount} records for {previewDetails.employeeCount} employees
+                    across {previewDetails.months.length} month(s)
+                  </p>
+                </div>
+              </>
+            )}
+            
+            {uploadState === 'uploading' && (
               <>
                 <Loader2 className="h-12 w-12 text-primary animate-spin" />
                 <div className="space-y-2">
@@ -552,7 +779,8 @@ export function FileUpload({
                   {uploadDetails && (
                     <p className="text-xs text-muted-foreground">
                       Processed {uploadDetails.recordCount} records for{' '}
-                      {uploadDetails.employeeCount} employees ({uploadDetails.month}/{uploadDetails.year})
+                      {uploadDetails.employeeCount} employees across{' '}
+                      {uploadDetails.months.length} month(s)
                     </p>
                   )}
                 </div>
@@ -571,8 +799,63 @@ export function FileUpload({
           </div>
         </div>
         
+        {/* Import Profile */}
+        {(isIdle || isError) && selectedFile && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-2 flex-1 min-w-48">
+                <Label>Import Profile</Label>
+                <Select value={profileId} onValueChange={setProfileId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SELECT_NONE}>Default layout</SelectItem>
+                    {importProfiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!isEditingProfile && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsEditingProfile(true)}
+                >
+                  New Profile from File
+                </Button>
+              )}
+            </div>
+            
+            {isEditingProfile && (
+              <ImportProfileEditor
+                file={selectedFile}
+                onSaved={handleProfileSaved}
+                onCancel={handleProfileEditorCancel}
+              />
+            )}
+          </div>
+        )}
+        
+        {/* Preview Details */}
+        {isPreview && previewDetails && (
+          <>
+            {previewDetails.skippedRowCount > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Invalid rows will be skipped</AlertTitle>
+                <AlertDescription className="text-sm">
+                  {previewDetails.skippedRowCount} row(s) with errors are excluded from this import.
+                </AlertDescription>
+              </Alert>
+            )}
+            <UploadPreview preview={previewDetails} />
+          </>
+        )}
+        
         {/* Progress Bar */}
-        {isUploading && (
+        {uploadState === 'uploading' && (
           <div className="space-y-2">
             <Progress value={uploadProgress} className="h-2" />
             <p className="text-xs text-center text-muted-foreground">
@@ -592,6 +875,26 @@ export function FileUpload({
           </Alert>
         )}
         
+        {/* Row Validation Errors */}
+        {(isError || isPreview) && selectedFile && rowErrors.length > 0 && (
+          <RowErrorReport
+            file={selectedFile}
+            errors={rowErrors}
+            totalCount={rowErrorCount}
+            action={
+              isError && errorMode === 'reject' && (
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => handlePreview('skip')}
+                >
+                  Import Valid Rows Only
+                </Button>
+              )
+            }
+          />
+        )}
+        
         {/* Success Alert */}
         {isSuccess && uploadDetails && (
           <Alert className="border-green-500 bg-green-50 dark:bg-green-950">
@@ -600,10 +903,43 @@ export function FileUpload({
               Processing Complete
             </AlertTitle>
             <AlertDescription className="text-sm text-green-600 dark:text-green-400">
-              Successfully uploaded and processed attendance data for{' '}
-              <strong>{uploadDetails.month}/{uploadDetails.year}</strong>.
-              Created {uploadDetails.recordCount} records for{' '}
-              {uploadDetails.employeeCount} employees.
+              <p>
+                Successfully uploaded and processed attendance data for{' '}
+                <strong>
+                  {uploadDetails.months
+                    .map((summary) => formatMonthLabel(summary.year, summary.month))
+                    .join(', ')}
+                </strong>.
+                Created {uploadDetails.recordCount} records for{' '}
+                {uploadDetails.employeeCount} employees.
+                {uploadDetails.skippedRowCount > 0 && (
+                  <> Skipped {uploadDetails.skippedRowCount} invalid row(s).</>
+                )}
+                {unmatchedPunchCount > 0 && (
+                  <> {unmatchedPunchCount} unmatched punch(es) were not counted as worked time.</>
+                )}
+                {invertedPunchCount > 0 && (
+                  <> {invertedPunchCount} punch(es) with Out Time before In Time were flagged and not counted.</>
+                )}
+                {anomalyCount > 0 && (
+                  <>
+                    {' '}{anomalyCount} suspicious day(s) are waiting in the{' '}
+                    <Link href="/anomalies" className="underline underline-offset-4">anomaly review queue</Link>.
+                  </>
+                )}
+                {' '}The upload can be rolled back from the{' '}
+                <Link href="/imports" className="underline underline-offset-4">import history</Link>.
+              </p>
+              {uploadDetails.months.length > 1 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {uploadDetails.months.map((summary) => (
+                    <li key={`${summary.year}-${summary.month}`}>
+                      {formatMonthLabel(summary.year, summary.month)}: {summary.recordCount} records,{' '}
+                      {summary.employeeCount} employees ({summary.deletedCount} replaced)
+                    </li>
+                  ))}
+                </ul>
+              )}
             </AlertDescription>
           </Alert>
         )}
@@ -624,12 +960,12 @@ export function FileUpload({
                   </Button>
                   <Button
                     type="button"
-                    onClick={handleUpload}
+                    onClick={() => handlePreview('reject')}
                     disabled={isUploading}
                     className="min-w-32"
                   >
-                    <UploadCloud className="mr-2 h-4 w-4" />
-                    Upload
+                    <Eye className="mr-2 h-4 w-4" />
+                    Preview
                   </Button>
                 </>
               )}
@@ -646,6 +982,26 @@ export function FileUpload({
             </>
           )}
           
+          {isPreview && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCancelPreview}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleUpload}
+                className="min-w-32"
+              >
+                <UploadCloud className="mr-2 h-4 w-4" />
+                Confirm Upload
+              </Button>
+            </>
+          )}
+          
           {isSuccess && (
             <Button
               type="button"
@@ -0,0 +1,304 @@
+/**
+ * Import Profile Editor Component
+ *
+ * Builds an import profile from the layout of the file the user selected:
+ * the workbook is read in the browser, its worksheets and header row are
+ * listed, and each attendance field is mapped to one of the detected
+ * headers. The saved profile is then applied by POST /api/upload.
+ *
+ * FEATURES:
+ * - Worksheet picker (headers are re-detected per sheet)
+ * - Header dropdown per field, pre-selected when a header matches the default name
+ * - Optional fields (employee code) can be left unmapped
+ * - Optional fixed date format for text dates
+ *
+ * @module components/dashboard/import-profile-editor
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { requestJson } from '@/lib/api-client';
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_FIELDS,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportProfileSummary,
+} from '@/lib/import-profiles';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface ImportProfileEditorProps {
+  /** File whose layout the profile is built from */
+  file: File;
+
+  /** Invoked with the created profile */
+  onSaved: (profile: ImportProfileSummary) => void;
+
+  /** Invoked when the user closes the editor without saving */
+  onCancel: () => void;
+}
+
+/**
+ * Worksheet names and header rows detected in the file
+ */
+type WorkbookLayout = Record<string, string[]>;
+
+// ============================================================================
+// LAYOUT DETECTION
+// ============================================================================
+
+/**
+ * Read worksheet names and header rows from a spreadsheet in the browser
+ *
+ * @param {File} file - Selected spreadsheet
+ * @returns {Promise<WorkbookLayout>} Header row per worksheet, in workbook order
+ */
+async function readWorkbookLayout(file: File): Promise<WorkbookLayout> {
+  // Loaded on demand to keep xlsx out of the dashboard bundle
+  const [XLSX, { readWorkbook }] = await Promise.all([
+    import('xlsx'),
+    import('@/lib/spreadsheet-files'),
+  ]);
+
+  const workbook = readWorkbook(await file.arrayBuffer(), file.name, { sheetRows: 1 });
+  const layout: WorkbookLayout = {};
+
+  for (const sheetName of workbook.SheetNames) {
+    const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+      header: 1,
+    });
+    layout[sheetName] = headerRow.map((header) => String(header ?? '')).filter(Boolean);
+  }
+
+  return layout;
+}
+
+/**
+ * Guess a mapping by matching headers to default field names (case-insensitive)
+ *
+ * @param {string[]} headers - Detected headers
+ * @returns {Partial<ImportColumnMapping>} Fields with a matching header
+ */
+function guessColumnMapping(headers: string[]): Partial<ImportColumnMapping> {
+  const mapping: Partial<ImportColumnMapping> = {};
+
+  for (const { field, defaultHeader } of IMPORT_FIELDS) {
+    const match = headers.find((header) => header.trim().toLowerCase() === defaultHeader.toLowerCase());
+    if (match) {
+      mapping[field] = match;
+    }
+  }
+
+  return mapping;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * ImportProfileEditor Component
+ *
+ * USAGE:
+ * ```tsx
+ * <ImportProfileEditor file={file} onSaved={selectProfile} onCancel={close} />
+ * ```
+ */
+export function ImportProfileEditor({
+  file,
+  onSaved,
+  onCancel,
+}: ImportProfileEditorProps): React.JSX.Element {
+  const [layout, setLayout] = useState<WorkbookLayout | null>(null);
+  const [sheetName, setSheetName] = useState<string>('');
+  const [columns, setColumns] = useState<Partial<ImportColumnMapping>>({});
+  const [dateFormat, setDateFormat] = useState<string>(SELECT_NONE);
+  const [name, setName] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const headers = layout?.[sheetName] ?? [];
+  const isComplete = name.trim() !== '' && IMPORT_FIELDS.every(({ field, required }) => !required || columns[field]);
+
+  // Detect the file layout whenever the file changes
+  useEffect(() => {
+    let cancelled = false;
+
+    readWorkbookLayout(file)
+      .then((detected) => {
+        if (cancelled) {
+          return;
+        }
+
+        const firstSheet = Object.keys(detected)[0] ?? '';
+        setLayout(detected);
+        setSheetName(firstSheet);
+        setColumns(guessColumnMapping(detected[firstSheet] ?? []));
+      })
+      .catch((error) => {
+        console.error('[ImportProfileEditor] Layout detection error:', error);
+        toast.error('Could Not Read File', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+        onCancel();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, onCancel]);
+
+  /**
+   * Switch worksheet and re-guess the mapping for its headers
+   */
+  const handleSheetChange = useCallback(
+    (value: string): void => {
+      setSheetName(value);
+      setColumns(guessColumnMapping(layout?.[value] ?? []));
+    },
+    [layout]
+  );
+
+  /**
+   * Map one field to a header
+   */
+  const handleColumnChange = useCallback((field: ImportField, header: string | null): void => {
+    setColumns((prev) => ({ ...prev, [field]: header }));
+  }, []);
+
+  /**
+   * Save the profile
+   */
+  const handleSave = useCallback(async (): Promise<void> => {
+    setIsSaving(true);
+
+    try {
+      const { profile } = await requestJson<{ profile: ImportProfileSummary }>('/api/import-profiles', {
+        method: 'POST',
+        json: {
+          name,
+          // Store the sheet only when the file has several; single-sheet exports often rename it
+          sheetName: layout && Object.keys(layout).length > 1 ? sheetName : null,
+          dateFormat: dateFormat === SELECT_NONE ? null : dateFormat,
+          columns,
+        },
+      });
+
+      toast.success('Import Profile Saved', { description: profile.name });
+      onSaved(profile);
+    } catch (error) {
+      console.error('[ImportProfileEditor] Save error:', error);
+      toast.error('Could Not Save Profile', {
+        description: error instanceof Error ? error.message : 'Unexpected error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [columns, dateFormat, layout, name, onSaved, sheetName]);
+
+  if (!layout) {
+    return (
+      <div className="flex items-center justify-center gap-2 rounded-md border p-6 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Detecting columns in {file.name}...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="import-profile-name">Profile Name</Label>
+          <Input
+            id="import-profile-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="e.g., Biometric export"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Worksheet</Label>
+          <Select value={sheetName} onValueChange={handleSheetChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select worksheet" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(layout).map((sheet) => (
+                <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {IMPORT_FIELDS.map(({ field, label, required }) => (
+          <div key={field} className="space-y-2">
+            <Label>{label} Column{!required && ' (optional)'}</Label>
+            <Select
+              value={columns[field] ?? (required ? '' : SELECT_NONE)}
+              onValueChange={(value) => handleColumnChange(field, value === SELECT_NONE ? null : value)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select column" />
+              </SelectTrigger>
+              <SelectContent>
+                {!required && <SelectItem value={SELECT_NONE}>Not mapped</SelectItem>}
+                {headers.map((header) => (
+                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label>Date Format</Label>
+          <Select value={dateFormat} onValueChange={setDateFormat}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SELECT_NONE}>Detect automatically</SelectItem>
+              {IMPORT_DATE_FORMATS.map((option) => (
+                <SelectItem key={option.format} value={option.format}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {headers.length === 0 && (
+        <p className="text-xs text-destructive">No header row found in this worksheet.</p>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={!isComplete || isSaving}>
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save Profile
+        </Button>
+      </div>
+    </div>
+  );
+}
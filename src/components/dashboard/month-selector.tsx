@@ -1,8 +1,10 @@
 /**
  * Month Selector Component
  * 
- * Client-side component for navigating between months in the dashboard.
- * Uses Next.js router for URL-based state management.
+ * Client-side component for navigating between months in the dashboard
+ * and the employee drill-down. Uses Next.js router for URL-based state
+ * management and stays on the current route, keeping other search params
+ * (e.g., the dashboard org filter).
  * 
  * FEATURES:
  * - Previous/Next month navigation
@@ -18,7 +20,7 @@
 'use client';
 
 import React, { useCallback, useMemo } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { format, addMonths, subMonths } from 'date-fns';
@@ -67,6 +69,8 @@ export function MonthSelector({
   className,
 }: MonthSelectorProps): React.JSX.Element {
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   
   // Create current date from year/month (memoized to prevent recreation)
   const currentDate = useMemo(
@@ -78,35 +82,38 @@ export function MonthSelector({
   // EVENT HANDLERS
   // ==========================================================================
   
+  /**
+   * Navigate to the month of a date, keeping other search params
+   */
+  const navigateToMonth = useCallback((date: Date): void => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('month', format(date, 'yyyy-MM'));
+    router.push(`${pathname}?${params.toString()}`);
+  }, [pathname, router, searchParams]);
+  
   /**
    * Navigate to previous month
    * Updates URL search params and triggers server-side data fetch
    */
   const handlePreviousMonth = useCallback((): void => {
-    const previousMonth = subMonths(currentDate, 1);
-    const monthParam = format(previousMonth, 'yyyy-MM');
-    router.push(`/?month=${monthParam}`);
-  }, [currentDate, router]);
+    navigateToMonth(subMonths(currentDate, 1));
+  }, [currentDate, navigateToMonth]);
   
   /**
    * Navigate to next month
    * Updates URL search params and triggers server-side data fetch
    */
   const handleNextMonth = useCallback((): void => {
-    const nextMonth = addMonths(currentDate, 1);
-    const monthParam = format(nextMonth, 'yyyy-MM');
-    router.push(`/?month=${monthParam}`);
-  }, [currentDate, router]);
+    navigateToMonth(addMonths(currentDate, 1));
+  }, [currentDate, navigateToMonth]);
   
   /**
    * Navigate to current month (today)
    * Resets to current calendar month
    */
   const handleToday = useCallback((): void => {
-    const today = new Date();
-    const monthParam = format(today, 'yyyy-MM');
-    router.push(`/?month=${monthParam}`);
-  }, [router]);
+    navigateToMonth(new Date());
+  }, [navigateToMonth]);
   
   // ==========================================================================
   // COMPUTED VALUES
@@ -0,0 +1,183 @@
+/**
+ * Org Filter Component
+ *
+ * Client-side department, team and manager pickers that narrow the
+ * dashboard to one part of the org chart. The selection lives in the URL
+ * (`departmentId`, `teamId`, `managerId`) next to `month`, like the month
+ * selector.
+ *
+ * @module components/dashboard/org-filter
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Filter, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { hasOrgFilter, type OrgFilter as OrgFilterValue } from '@/lib/org-chart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface OrgFilterProps {
+  /** Applied filter */
+  filter: OrgFilterValue;
+
+  /** All departments, alphabetical */
+  departments: Array<{ id: string; name: string }>;
+
+  /** All teams, alphabetical */
+  teams: Array<{ id: string; name: string; departmentId: string }>;
+
+  /** Employees with reports that the user may see, alphabetical */
+  managers: Array<{ id: string; name: string }>;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * OrgFilter Component
+ *
+ * USAGE:
+ * ```tsx
+ * <OrgFilter filter={orgFilter} departments={departments} teams={teams} managers={managers} />
+ * ```
+ */
+export function OrgFilter({ filter, departments, teams, managers }: OrgFilterProps): React.JSX.Element {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // ==========================================================================
+  // COMPUTED VALUES
+  // ==========================================================================
+
+  /**
+   * Teams offered: those of the selected department, or every team
+   */
+  const teamOptions = useMemo(
+    () => (filter.departmentId ? teams.filter((team) => team.departmentId === filter.departmentId) : teams),
+    [filter.departmentId, teams]
+  );
+
+  const departmentNames = useMemo(
+    () => new Map(departments.map((department) => [department.id, department.name])),
+    [departments]
+  );
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Apply filter changes, keeping the month and other params
+   */
+  const applyFilter = useCallback(
+    (changes: Partial<OrgFilterValue>): void => {
+      const params = new URLSearchParams(searchParams.toString());
+
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      }
+
+      const query = params.toString();
+      router.push(query ? `${pathname}?${query}` : pathname);
+    },
+    [pathname, router, searchParams]
+  );
+
+  /**
+   * Select a department; a team of another department is dropped
+   */
+  const handleDepartmentChange = useCallback(
+    (value: string): void => {
+      const departmentId = value === SELECT_NONE ? null : value;
+      const team = teams.find((candidate) => candidate.id === filter.teamId);
+
+      applyFilter({
+        departmentId,
+        teamId: team && departmentId && team.departmentId !== departmentId ? null : filter.teamId,
+      });
+    },
+    [applyFilter, filter.teamId, teams]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Filter className="h-4 w-4 text-muted-foreground" />
+
+      <Select value={filter.departmentId ?? SELECT_NONE} onValueChange={handleDepartmentChange}>
+        <SelectTrigger className="w-[180px]" size="sm" aria-label="Department">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={SELECT_NONE}>All departments</SelectItem>
+          {departments.map((department) => (
+            <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filter.teamId ?? SELECT_NONE}
+        onValueChange={(value) => applyFilter({ teamId: value === SELECT_NONE ? null : value })}
+      >
+        <SelectTrigger className="w-[200px]" size="sm" aria-label="Team">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={SELECT_NONE}>All teams</SelectItem>
+          {teamOptions.map((team) => (
+            <SelectItem key={team.id} value={team.id}>
+              {filter.departmentId ? team.name : `${departmentNames.get(team.departmentId) ?? ''} / ${team.name}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filter.managerId ?? SELECT_NONE}
+        onValueChange={(value) => applyFilter({ managerId: value === SELECT_NONE ? null : value })}
+      >
+        <SelectTrigger className="w-[200px]" size="sm" aria-label="Reporting to">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={SELECT_NONE}>Any manager</SelectItem>
+          {managers.map((manager) => (
+            <SelectItem key={manager.id} value={manager.id}>Reporting to {manager.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {hasOrgFilter(filter) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => applyFilter({ departmentId: null, teamId: null, managerId: null })}
+        >
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Report Export Buttons Component
+ *
+ * Download links for the monthly report shown on the dashboard, served by
+ * GET /api/export. Plain links, so the browser handles the download and no
+ * client-side JavaScript is needed.
+ *
+ * @module components/dashboard/report-export-buttons
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { FileDown, FileSpreadsheet, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ReportFormat } from '@/lib/report-export';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface ReportExportButtonsProps {
+  /** Exported month in format YYYY-MM */
+  monthParam: string;
+
+  /** Org filter query string (lib/org-chart formatOrgFilterQuery), '' for none */
+  filterQuery?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * One button per export format
+ */
+const EXPORT_OPTIONS: Array<{
+  format: ReportFormat;
+  label: string;
+  description: string;
+  icon: React.ComponentType<{ className?: string }>;
+}> = [
+  {
+    format: 'xlsx',
+    label: 'Excel',
+    description: 'Workbook with summary, employee and daily sheets',
+    icon: FileSpreadsheet,
+  },
+  { format: 'csv', label: 'CSV', description: 'Per-employee metrics', icon: FileText },
+  { format: 'pdf', label: 'PDF', description: 'Printable report', icon: FileDown },
+];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * ReportExportButtons Component
+ *
+ * USAGE:
+ * ```tsx
+ * <ReportExportButtons monthParam="2024-01" />
+ * ```
+ */
+export function ReportExportButtons({ monthParam, filterQuery = '' }: ReportExportButtonsProps): React.JSX.Element {
+  return (
+    <div className="flex items-center gap-1">
+      {EXPORT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+        <Button key={format} asChild variant="outline" size="sm" title={description}>
+          <a href={`/api/export?month=${monthParam}&format=${format}${filterQuery && `&${filterQuery}`}`} download>
+            <Icon className="mr-1 h-4 w-4" />
+            {label}
+          </a>
+        </Button>
+      ))}
+    </div>
+  );
+}
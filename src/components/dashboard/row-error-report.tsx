@@ -0,0 +1,213 @@
+/**
+ * Row Error Report Component
+ *
+ * Lists the row-level validation errors returned by POST /api/upload and lets
+ * the user download the original spreadsheet annotated with those errors so
+ * the file can be fixed and uploaded again.
+ *
+ * DISPLAYS:
+ * - Error count summary and skipped row count
+ * - Table of row number, column, raw value and reason
+ * - "Download Error Sheet" action (generated client-side, nothing is uploaded)
+ *
+ * @module components/dashboard/row-error-report
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A single cell-level validation failure reported by the upload API
+ */
+export interface RowValidationIssue {
+  /** Spreadsheet row number (1-indexed, header is row 1) */
+  row: number;
+  column: string;
+  value: string;
+  reason: string;
+}
+
+/**
+ * Component props interface
+ */
+export interface RowErrorReportProps {
+  /** Uploaded file the errors refer to (used for the annotated download) */
+  file: File;
+
+  /** Reported issues (may be capped by the server) */
+  errors: RowValidationIssue[];
+
+  /** Total number of issues found by the server */
+  totalCount: number;
+
+  /** Optional action rendered next to the download button */
+  action?: React.ReactNode;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Header of the column appended to the annotated error sheet
+ */
+const ERROR_COLUMN_HEADER = 'Import Errors';
+
+// ============================================================================
+// ERROR SHEET GENERATION
+// ============================================================================
+
+/**
+ * Build and download a copy of the workbook with an error column
+ *
+ * The first worksheet is annotated in place so original values and
+ * formatting are preserved; each invalid row receives its error messages
+ * in a new column after the last used one. CSV/TSV input is saved as .xlsx.
+ *
+ * @param {File} file - Original spreadsheet
+ * @param {RowValidationIssue[]} errors - Issues to annotate
+ * @returns {Promise<void>}
+ */
+async function downloadErrorSheet(file: File, errors: RowValidationIssue[]): Promise<void> {
+  // Loaded on demand to keep xlsx out of the dashboard bundle
+  const [XLSX, { readWorkbook }] = await Promise.all([
+    import('xlsx'),
+    import('@/lib/spreadsheet-files'),
+  ]);
+
+  const workbook = readWorkbook(await file.arrayBuffer(), file.name);
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const range = XLSX.utils.decode_range(worksheet['!ref'] ?? 'A1');
+  const errorColumn = range.e.c + 1;
+
+  // Group messages by row
+  const messagesByRow = new Map<number, string[]>();
+  for (const issue of errors) {
+    const messages = messagesByRow.get(issue.row) ?? [];
+    messages.push(`${issue.column}: ${issue.reason}`);
+    messagesByRow.set(issue.row, messages);
+  }
+
+  XLSX.utils.sheet_add_aoa(worksheet, [[ERROR_COLUMN_HEADER]], {
+    origin: { r: range.s.r, c: errorColumn },
+  });
+
+  for (const [row, messages] of messagesByRow) {
+    XLSX.utils.sheet_add_aoa(worksheet, [[messages.join('; ')]], {
+      origin: { r: row - 1, c: errorColumn },
+    });
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  XLSX.writeFile(workbook, `${baseName}-errors.xlsx`);
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * RowErrorReport Component
+ *
+ * USAGE:
+ * ```tsx
+ * <RowErrorReport file={file} errors={rowErrors} totalCount={rowErrorCount} />
+ * ```
+ */
+export function RowErrorReport({
+  file,
+  errors,
+  totalCount,
+  action,
+}: RowErrorReportProps): React.JSX.Element {
+  const [isDownloading, setIsDownloading] = useState<boolean>(false);
+
+  const rowCount = new Set(errors.map((issue) => issue.row)).size;
+
+  /**
+   * Generate the annotated sheet
+   */
+  const handleDownload = useCallback(async (): Promise<void> => {
+    setIsDownloading(true);
+
+    try {
+      await downloadErrorSheet(file, errors);
+    } catch (error) {
+      console.error('[RowErrorReport] Download error:', error);
+      toast.error('Could Not Create Error Sheet', {
+        description: error instanceof Error ? error.message : 'Unexpected error',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [errors, file]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium">
+          {totalCount} error(s) in {rowCount} row(s)
+        </p>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleDownload}
+            disabled={isDownloading}
+          >
+            {isDownloading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Download Error Sheet
+          </Button>
+          {action}
+        </div>
+      </div>
+
+      <div className="rounded-md border max-h-72 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16 text-right">Row</TableHead>
+              <TableHead>Column</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead>Reason</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {errors.map((issue, index) => (
+              <TableRow key={`${issue.row}|${issue.column}|${index}`}>
+                <TableCell className="text-right font-mono">{issue.row}</TableCell>
+                <TableCell className="font-medium">{issue.column}</TableCell>
+                <TableCell className="font-mono text-xs text-muted-foreground">
+                  {issue.value || '(empty)'}
+                </TableCell>
+                <TableCell className="text-xs">{issue.reason}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalCount > errors.length && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {errors.length} errors.
+        </p>
+      )}
+    </div>
+  );
+}
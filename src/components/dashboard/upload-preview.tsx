@@ -0,0 +1,274 @@
+/**
+ * Upload Preview Component
+ *
+ * Presents the dry-run result of an attendance upload so the user can review
+ * what will be replaced before confirming. Rendered by FileUpload between
+ * the preview request and the committing upload.
+ *
+ * DISPLAYS:
+ * - Warning when the same file was imported before
+ * - Employees that would be created
+ * - Per-month record counts and how many existing rows would be replaced
+ * - Day-level diff of stored values that would change
+ *
+ * @module components/dashboard/upload-preview
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, UserPlus } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AttendanceStatusBadge } from '@/components/employees/attendance-status-badge';
+import type { AttendanceStatus } from '@/lib/calculations';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Attendance fields compared when diffing a day
+ */
+export interface AttendanceDaySnapshot {
+  status: AttendanceStatus;
+  inTime: string | null;
+  outTime: string | null;
+  workedHours: number;
+}
+
+/**
+ * Preview details returned by POST /api/upload?mode=preview
+ */
+export interface UploadPreviewDetails {
+  newEmployees: string[];
+  employeeCount: number;
+  recordCount: number;
+  replacedCount: number;
+  months: Array<{
+    year: number;
+    month: number;
+    employeeCount: number;
+    recordCount: number;
+    replacedCount: number;
+    changedDayCount: number;
+    unmatchedPunchCount: number;
+    invertedPunchCount: number;
+  }>;
+  changes: Array<{
+    employeeName: string;
+    date: string;
+    before: AttendanceDaySnapshot | null;
+    after: AttendanceDaySnapshot;
+  }>;
+  changesTruncated: boolean;
+  previousImport: {
+    filename: string;
+    uploaderName: string;
+    createdAt: string;
+  } | null;
+}
+
+/**
+ * Component props interface
+ */
+export interface UploadPreviewProps {
+  /** Preview details from the API */
+  preview: UploadPreviewDetails;
+}
+
+// ============================================================================
+// FORMATTING UTILITIES
+// ============================================================================
+
+/**
+ * Format the times and hours of a day snapshot
+ *
+ * @param {AttendanceDaySnapshot} snapshot - Snapshot to format
+ * @returns {string} Summary such as "09:00-17:30 (8.50h)", or "" without times or hours
+ */
+function formatSnapshotTimes(snapshot: AttendanceDaySnapshot): string {
+  if (snapshot.inTime && snapshot.outTime) {
+    return `${snapshot.inTime}-${snapshot.outTime} (${snapshot.workedHours.toFixed(2)}h)`;
+  }
+
+  return snapshot.workedHours > 0 ? `(${snapshot.workedHours.toFixed(2)}h)` : '';
+}
+
+/**
+ * Status badge followed by the times of a day snapshot
+ */
+function DaySnapshot({ snapshot }: { snapshot: AttendanceDaySnapshot | null }): React.JSX.Element {
+  if (!snapshot) {
+    return <>—</>;
+  }
+
+  return (
+    <span className="flex items-center gap-2">
+      <AttendanceStatusBadge status={snapshot.status} />
+      {formatSnapshotTimes(snapshot)}
+    </span>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * UploadPreview Component
+ *
+ * USAGE:
+ * ```tsx
+ * <UploadPreview preview={previewDetails} />
+ * ```
+ */
+export function UploadPreview({ preview }: UploadPreviewProps): React.JSX.Element {
+  const unmatchedPunchCount = preview.months.reduce(
+    (sum, summary) => sum + summary.unmatchedPunchCount,
+    0
+  );
+  const invertedPunchCount = preview.months.reduce(
+    (sum, summary) => sum + summary.invertedPunchCount,
+    0
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Repeated File */}
+      {preview.previousImport && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>This file was imported before</AlertTitle>
+          <AlertDescription className="text-sm">
+            The same file was uploaded as {preview.previousImport.filename} by{' '}
+            {preview.previousImport.uploaderName} on{' '}
+            {format(new Date(preview.previousImport.createdAt), 'MMM d, yyyy HH:mm')}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Replacement Warning */}
+      {preview.replacedCount > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Existing data will be replaced</AlertTitle>
+          <AlertDescription className="text-sm">
+            {preview.replacedCount} stored records will be deleted and replaced by{' '}
+            {preview.recordCount} records from this file.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Unmatched Punches */}
+      {unmatchedPunchCount > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Unmatched punches</AlertTitle>
+          <AlertDescription className="text-sm">
+            {unmatchedPunchCount} row(s) have an In Time without an Out Time or vice versa.
+            They are stored but not counted as worked time.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Inverted Punches */}
+      {invertedPunchCount > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Out Time before In Time</AlertTitle>
+          <AlertDescription className="text-sm">
+            {invertedPunchCount} row(s) of employees without a night shift check out before they
+            check in, likely swapped times. They are flagged and not counted as worked time; assign
+            a night shift to employees working across midnight.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* New Employees */}
+      {preview.newEmployees.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <UserPlus className="h-4 w-4" />
+            {preview.newEmployees.length} new employee(s) will be created
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {preview.newEmployees.map((name) => (
+              <Badge key={name} variant="secondary">{name}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Per-Month Summary */}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Month</TableHead>
+              <TableHead className="text-right">Employees</TableHead>
+              <TableHead className="text-right">Records</TableHead>
+              <TableHead className="text-right">Replaced</TableHead>
+              <TableHead className="text-right">Changed Days</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.months.map((summary) => (
+              <TableRow key={`${summary.year}-${summary.month}`}>
+                <TableCell className="font-medium">
+                  {format(new Date(summary.year, summary.month - 1, 1), 'MMMM yyyy')}
+                </TableCell>
+                <TableCell className="text-right font-mono">{summary.employeeCount}</TableCell>
+                <TableCell className="text-right font-mono">{summary.recordCount}</TableCell>
+                <TableCell className="text-right font-mono">{summary.replacedCount}</TableCell>
+                <TableCell className="text-right font-mono">{summary.changedDayCount}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Day-Level Diff */}
+      {preview.changes.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Changed days for existing employees</p>
+          <div className="rounded-md border max-h-72 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>After Upload</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.changes.map((change) => (
+                  <TableRow key={`${change.employeeName}|${change.date}`}>
+                    <TableCell className="font-medium">{change.employeeName}</TableCell>
+                    <TableCell className="font-mono">{change.date}</TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">
+                      <DaySnapshot snapshot={change.before} />
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <DaySnapshot snapshot={change.after} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {preview.changesTruncated && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {preview.changes.length} changes.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
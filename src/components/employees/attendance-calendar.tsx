@@ -0,0 +1,325 @@
+/**
+ * Attendance Calendar Component
+ *
+ * Month grid with one cell per calendar day for a single employee. Each
+ * cell shows the recorded status as a colour, the first check-in and last
+ * check-out, worked versus expected hours and the daily productivity.
+ *
+ * FEATURES:
+ * - Monday-first weeks with leading and trailing blank cells
+ * - Status colours with a legend (approved leave distinguished from
+ *   unexplained absences); work from home, on duty, half day and leave
+ *   days are also labelled with a badge
+ * - Holiday names and days without any record called out
+ * - Overtime beyond the expected hours, with the Sunday or holiday bucket
+ * - Late arrival and early departure against the employee's shift
+ *
+ * Renders on the server; the data is prepared by the employee page.
+ *
+ * @module components/employees/attendance-calendar
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { getDaysInMonth } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { LEAVE_TYPES, type LeaveType } from '@/lib/leave-requests';
+import type { AttendanceStatus, OvertimeBucket, ProcessedAttendanceRecord } from '@/lib/calculations';
+import { OVERTIME_BUCKETS } from '@/lib/overtime';
+import { AttendanceStatusBadge } from '@/components/employees/attendance-status-badge';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One calendar day of an employee
+ */
+export interface AttendanceCalendarDay {
+  /** Calendar date (YYYY-MM-DD) */
+  date: string;
+
+  /** Recorded status, or null when no record exists for the day */
+  status: ProcessedAttendanceRecord['status'] | null;
+
+  /** First check-in of the day */
+  inTime: string | null;
+
+  /** Last check-out of the day */
+  outTime: string | null;
+
+  /** Number of punch pairs recorded for the day */
+  punchCount: number;
+
+  /** Hours worked (after break deduction) */
+  workedHours: number;
+
+  /** Hours expected under the schedule and holiday calendar */
+  expectedHours: number;
+
+  /** Daily productivity percentage, or null when no record exists */
+  productivityPercentage: number | null;
+
+  /** Hours worked beyond the expected hours */
+  overtimeHours: number;
+
+  /** Kind of day the overtime falls on */
+  overtimeBucket: OvertimeBucket;
+
+  /** Pairs with OUT before IN outside a night shift (flagged, no hours) */
+  invertedPunchCount: number;
+
+  /** Minutes the check-in was after the shift start (0 = not late) */
+  lateMinutes: number;
+
+  /** Minutes the check-out was before the shift end (0 = not early) */
+  earlyDepartureMinutes: number;
+
+  /** Company holiday name, if the date is a holiday */
+  holidayName: string | null;
+
+  /** Approved leave type covering the day, if any */
+  approvedLeaveType: LeaveType | null;
+}
+
+/**
+ * Component props interface
+ */
+export interface AttendanceCalendarProps {
+  /** Full year (e.g., 2024) */
+  year: number;
+
+  /** Month (1-12) */
+  month: number;
+
+  /** One entry per day of the month, in date order */
+  days: AttendanceCalendarDay[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Column headings, Monday first
+ */
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Cell colour and legend label per day kind
+ */
+const DAY_STYLES = {
+  PRESENT: {
+    label: 'Present',
+    className: 'border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950',
+  },
+  WORK_FROM_HOME: {
+    label: 'Work from home',
+    className: 'border-teal-200 bg-teal-50 dark:border-teal-900 dark:bg-teal-950',
+  },
+  ON_DUTY: {
+    label: 'On duty',
+    className: 'border-violet-200 bg-violet-50 dark:border-violet-900 dark:bg-violet-950',
+  },
+  HALF_DAY: {
+    label: 'Half day',
+    className: 'border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950',
+  },
+  LEAVE: {
+    label: 'Leave',
+    className: 'border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950',
+  },
+  ABSENT: {
+    label: 'Absent',
+    className: 'border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950',
+  },
+  APPROVED_LEAVE: {
+    label: 'Approved leave',
+    className: 'border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950',
+  },
+  HOLIDAY: {
+    label: 'Holiday',
+    className: 'border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950',
+  },
+  WEEKEND: {
+    label: 'Weekend',
+    className: 'bg-muted',
+  },
+  NO_RECORD: {
+    label: 'No record',
+    className: 'border-dashed',
+  },
+} as const;
+
+type DayStyle = keyof typeof DAY_STYLES;
+
+/**
+ * Statuses named by a badge in their cell, besides their colour
+ */
+const BADGED_STATUSES: ReadonlySet<AttendanceStatus> = new Set(['WORK_FROM_HOME', 'ON_DUTY', 'HALF_DAY', 'LEAVE']);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Pick the colour for a day; ABSENT days covered by approved leave get
+ * their own colour
+ *
+ * @param {AttendanceCalendarDay} day - Calendar day
+ * @returns {DayStyle} Style key
+ */
+function getDayStyle(day: AttendanceCalendarDay): DayStyle {
+  if (day.status === null) {
+    return 'NO_RECORD';
+  }
+
+  if (day.status === 'ABSENT' && day.approvedLeaveType) {
+    return 'APPROVED_LEAVE';
+  }
+
+  return day.status;
+}
+
+/**
+ * Strip seconds from a stored "HH:mm:ss" time for compact display
+ *
+ * @param {string | null} time - Stored time
+ * @returns {string} "HH:mm", or "--:--" when missing
+ */
+function formatTime(time: string | null): string {
+  return time ? time.slice(0, 5) : '--:--';
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * AttendanceCalendar Component
+ *
+ * USAGE:
+ * ```tsx
+ * <AttendanceCalendar year={2024} month={1} days={days} />
+ * ```
+ */
+export function AttendanceCalendar({ year, month, days }: AttendanceCalendarProps): React.JSX.Element {
+  // Blank cells before the 1st so columns line up with weekdays (Monday = 0)
+  const leadingBlanks = (new Date(year, month - 1, 1).getDay() + 6) % 7;
+  const trailingBlanks = (7 - ((leadingBlanks + getDaysInMonth(new Date(year, month - 1, 1))) % 7)) % 7;
+
+  return (
+    <div className="space-y-4">
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {Object.values(DAY_STYLES).map((style) => (
+          <span key={style.label} className="flex items-center gap-1.5">
+            <span className={cn('h-3 w-3 rounded-sm border', style.className)} />
+            {style.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-2">
+        {WEEKDAY_LABELS.map((label) => (
+          <div key={label} className="text-center text-xs font-medium text-muted-foreground">
+            {label}
+          </div>
+        ))}
+
+        {Array.from({ length: leadingBlanks }, (_, index) => (
+          <div key={`leading-${index}`} />
+        ))}
+
+        {days.map((day) => {
+          const style = getDayStyle(day);
+          const leaveLabel = day.approvedLeaveType
+            ? LEAVE_TYPES.find((option) => option.type === day.approvedLeaveType)?.label
+            : null;
+
+          return (
+            <div
+              key={day.date}
+              className={cn('min-h-28 rounded-md border p-2 text-xs space-y-1', DAY_STYLES[style].className)}
+              title={DAY_STYLES[style].label}
+            >
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-1">
+                  <span className="text-sm font-semibold">{Number(day.date.slice(8))}</span>
+                  {day.status !== null && BADGED_STATUSES.has(day.status) && (
+                    <AttendanceStatusBadge status={day.status} className="px-1.5 py-0 text-[10px]" />
+                  )}
+                </span>
+                {day.productivityPercentage !== null && day.expectedHours > 0 && (
+                  <span
+                    className={cn(
+                      'font-semibold',
+                      day.productivityPercentage < 50
+                        ? 'text-red-600 dark:text-red-400'
+                        : day.productivityPercentage >= 90
+                        ? 'text-green-600 dark:text-green-400'
+                        : 'text-foreground'
+                    )}
+                  >
+                    {day.productivityPercentage.toFixed(0)}%
+                  </span>
+                )}
+              </div>
+
+              {day.holidayName && (
+                <p className="truncate font-medium text-blue-700 dark:text-blue-300">{day.holidayName}</p>
+              )}
+
+              {leaveLabel && (
+                <p className="truncate font-medium text-amber-700 dark:text-amber-300">{leaveLabel}</p>
+              )}
+
+              {(day.inTime || day.outTime) && (
+                <p className="font-mono">
+                  {formatTime(day.inTime)}–{formatTime(day.outTime)}
+                  {day.punchCount > 1 && (
+                    <span className="text-muted-foreground"> ({day.punchCount} pairs)</span>
+                  )}
+                </p>
+              )}
+
+              {(day.status !== null || day.expectedHours > 0) && (
+                <p className="font-mono text-muted-foreground">
+                  {day.workedHours.toFixed(2)} / {day.expectedHours.toFixed(2)} h
+                </p>
+              )}
+
+              {day.overtimeHours > 0 && (
+                <p className="font-mono font-medium text-violet-700 dark:text-violet-300">
+                  +{day.overtimeHours.toFixed(2)} h overtime
+                  {day.overtimeBucket !== 'REGULAR' &&
+                    ` (${OVERTIME_BUCKETS.find((entry) => entry.bucket === day.overtimeBucket)?.label})`}
+                </p>
+              )}
+
+              {(day.lateMinutes > 0 || day.earlyDepartureMinutes > 0) && (
+                <p className="font-medium text-orange-700 dark:text-orange-300">
+                  {[
+                    day.lateMinutes > 0 && `${day.lateMinutes} min late`,
+                    day.earlyDepartureMinutes > 0 && `left ${day.earlyDepartureMinutes} min early`,
+                  ].filter(Boolean).join(' · ')}
+                </p>
+              )}
+
+              {day.invertedPunchCount > 0 && (
+                <p className="font-medium text-red-700 dark:text-red-300">
+                  {day.invertedPunchCount} punch(es) out before in
+                </p>
+              )}
+            </div>
+          );
+        })}
+
+        {Array.from({ length: trailingBlanks }, (_, index) => (
+          <div key={`trailing-${index}`} />
+        ))}
+      </div>
+    </div>
+  );
+}
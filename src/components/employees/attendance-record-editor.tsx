@@ -0,0 +1,392 @@
+/**
+ * Attendance Record Editor Component
+ *
+ * Client-side inline correction of an employee's daily attendance records,
+ * with the correction history of the month. Each save calls
+ * PATCH /api/attendance/:id, which recomputes worked hours and writes an
+ * audit entry with the reason and the signed-in user as editor.
+ *
+ * FEATURES:
+ * - One table row per record; Edit turns the row into inputs
+ * - Times are only editable on statuses that allow them (PRESENT,
+ *   WORK_FROM_HOME, ON_DUTY, HALF_DAY); other statuses clear them
+ * - Required reason per correction
+ * - Read-only for users who may not correct attendance
+ * - Correction history with before/after values
+ *
+ * @module components/employees/attendance-record-editor
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Loader2, Pencil, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AttendanceStatusBadge } from '@/components/employees/attendance-status-badge';
+import { requestJson } from '@/lib/api-client';
+import { ATTENDANCE_STATUSES, ATTENDANCE_STATUS_RULES, type AttendanceStatus } from '@/lib/calculations';
+import { parseDateOnly } from '@/lib/validation';
+import type { ApiAttendanceRecord } from '@/lib/api-v1';
+import type { AttendanceAuditSummary, AttendanceSnapshot } from '@/lib/attendance-corrections';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface AttendanceRecordEditorProps {
+  /** The month's records, in date order */
+  records: ApiAttendanceRecord[];
+
+  /** Corrections of the month, newest first */
+  audits: AttendanceAuditSummary[];
+
+  /** Whether the signed-in user may correct records (ADMIN, HR_MANAGER) */
+  canEdit: boolean;
+}
+
+/**
+ * Values of the row being edited
+ */
+interface CorrectionDraft {
+  inTime: string;
+  outTime: string;
+  status: AttendanceStatus;
+  reason: string;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Format a record date with its weekday, e.g. "Mon 01"
+ *
+ * @param {string} date - Calendar date (YYYY-MM-DD)
+ * @returns {string} Short label
+ */
+function formatDay(date: string): string {
+  return format(parseDateOnly(date, 'date'), 'EEE dd');
+}
+
+/**
+ * Describe a snapshot, e.g. "PRESENT 09:00–17:30 (8.00 h)"
+ *
+ * @param {AttendanceSnapshot} snapshot - Record values
+ * @returns {string} Human-readable values
+ */
+function formatSnapshot(snapshot: AttendanceSnapshot): string {
+  const times = snapshot.inTime || snapshot.outTime
+    ? ` ${snapshot.inTime ?? '--:--'}–${snapshot.outTime ?? '--:--'}`
+    : '';
+  return `${ATTENDANCE_STATUS_RULES[snapshot.status].label}${times} (${snapshot.workedHours.toFixed(2)} h)`;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * AttendanceRecordEditor Component
+ *
+ * USAGE:
+ * ```tsx
+ * <AttendanceRecordEditor records={records} audits={audits} canEdit={canEdit} />
+ * ```
+ */
+export function AttendanceRecordEditor({
+  records,
+  audits,
+  canEdit,
+}: AttendanceRecordEditorProps): React.JSX.Element {
+  const router = useRouter();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CorrectionDraft | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Start editing a record with its current values
+   */
+  const handleEdit = useCallback((record: ApiAttendanceRecord): void => {
+    setEditingId(record.id);
+    setDraft({
+      inTime: record.inTime?.slice(0, 5) ?? '',
+      outTime: record.outTime?.slice(0, 5) ?? '',
+      status: record.status,
+      reason: '',
+    });
+  }, []);
+
+  /**
+   * Discard the current edit
+   */
+  const handleCancel = useCallback((): void => {
+    setEditingId(null);
+    setDraft(null);
+  }, []);
+
+  /**
+   * Save the correction of the record being edited
+   */
+  const handleSave = useCallback(
+    async (record: ApiAttendanceRecord): Promise<void> => {
+      if (!draft) {
+        return;
+      }
+
+      setIsSaving(true);
+
+      try {
+        const times = ATTENDANCE_STATUS_RULES[draft.status].allowsTimes
+          ? { inTime: draft.inTime || null, outTime: draft.outTime || null }
+          : {};
+
+        const { record: corrected } = await requestJson<{ record: ApiAttendanceRecord }>(
+          `/api/attendance/${record.id}`,
+          {
+            method: 'PATCH',
+            json: { ...times, status: draft.status, reason: draft.reason },
+          }
+        );
+
+        toast.success('Attendance Corrected', {
+          description: `${formatDay(corrected.date)}: ${ATTENDANCE_STATUS_RULES[corrected.status].label}, ${corrected.workedHours.toFixed(2)} h worked`,
+        });
+
+        setEditingId(null);
+        setDraft(null);
+        router.refresh();
+      } catch (error) {
+        console.error('[AttendanceRecordEditor] Save error:', error);
+        toast.error('Could Not Correct Attendance', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [draft, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <div className="space-y-6">
+      {/* Daily Records */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Daily Records</CardTitle>
+          <CardDescription>
+            {canEdit
+              ? 'Correct a wrong punch or status. Worked hours are recalculated and every change is logged.'
+              : 'Recorded punches and statuses of the month.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {records.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              No attendance records for this month.
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>In</TableHead>
+                    <TableHead>Out</TableHead>
+                    <TableHead className="text-right">Worked Hours</TableHead>
+                    {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {records.map((record) => {
+                    const isEditing = editingId === record.id && draft !== null;
+
+                    if (!isEditing) {
+                      return (
+                        <TableRow key={record.id}>
+                          <TableCell className="font-mono text-xs">{formatDay(record.date)}</TableCell>
+                          <TableCell>
+                            <AttendanceStatusBadge status={record.status} />
+                          </TableCell>
+                          <TableCell className="font-mono">{record.inTime ?? '—'}</TableCell>
+                          <TableCell className="font-mono">{record.outTime ?? '—'}</TableCell>
+                          <TableCell className="text-right font-mono">{record.workedHours.toFixed(2)}</TableCell>
+                          {canEdit && (
+                            <TableCell className="text-right">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => handleEdit(record)}
+                                disabled={editingId !== null}
+                                aria-label={`Edit ${record.date}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    }
+
+                    return (
+                      <React.Fragment key={record.id}>
+                        <TableRow className="bg-muted/50">
+                          <TableCell className="font-mono text-xs">{formatDay(record.date)}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={draft.status}
+                              onValueChange={(value) => setDraft({ ...draft, status: value as AttendanceStatus })}
+                            >
+                              <SelectTrigger className="w-[150px]" size="sm">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ATTENDANCE_STATUSES.map((status) => (
+                                  <SelectItem key={status} value={status}>
+                                    {ATTENDANCE_STATUS_RULES[status].label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="time"
+                              className="w-[120px]"
+                              value={draft.inTime}
+                              onChange={(event) => setDraft({ ...draft, inTime: event.target.value })}
+                              disabled={!ATTENDANCE_STATUS_RULES[draft.status].allowsTimes}
+                              aria-label="In time"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="time"
+                              className="w-[120px]"
+                              value={draft.outTime}
+                              onChange={(event) => setDraft({ ...draft, outTime: event.target.value })}
+                              disabled={!ATTENDANCE_STATUS_RULES[draft.status].allowsTimes}
+                              aria-label="Out time"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-muted-foreground">
+                            {record.workedHours.toFixed(2)}
+                          </TableCell>
+                          <TableCell />
+                        </TableRow>
+                        <TableRow className="bg-muted/50">
+                          <TableCell colSpan={6}>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                value={draft.reason}
+                                onChange={(event) => setDraft({ ...draft, reason: event.target.value })}
+                                placeholder="Reason for the correction (required)"
+                                aria-label="Reason"
+                              />
+                              <Button
+                                type="button"
+                                size="sm"
+                                onClick={() => handleSave(record)}
+                                disabled={!draft.reason.trim() || isSaving}
+                              >
+                                {isSaving ? (
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Save className="mr-2 h-4 w-4" />
+                                )}
+                                Save
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={handleCancel}
+                                disabled={isSaving}
+                              >
+                                <X className="mr-2 h-4 w-4" />
+                                Cancel
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      </React.Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Correction History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Correction History</CardTitle>
+          <CardDescription>Manual corrections made to this month, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {audits.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              No corrections this month.
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Editor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {audits.map((audit) => (
+                    <TableRow key={audit.id}>
+                      <TableCell className="font-mono text-xs">{formatDay(audit.date)}</TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {formatSnapshot(audit.before)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{formatSnapshot(audit.after)}</TableCell>
+                      <TableCell className="text-sm">{audit.reason}</TableCell>
+                      <TableCell className="text-sm">
+                        {audit.editor}
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(audit.createdAt), 'yyyy-MM-dd HH:mm')}
+                        </p>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
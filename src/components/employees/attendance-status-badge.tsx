@@ -0,0 +1,71 @@
+/**
+ * Attendance Status Badge Component
+ *
+ * Coloured badge with the label of an attendance status (see
+ * ATTENDANCE_STATUS_RULES in lib/calculations). Shared by the record
+ * editor, the attendance calendar and the upload preview.
+ *
+ * Has no client-side state, so it renders on the server or the client.
+ *
+ * @module components/employees/attendance-status-badge
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { ATTENDANCE_STATUS_RULES, type AttendanceStatus } from '@/lib/calculations';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface AttendanceStatusBadgeProps {
+  /** Status to show */
+  status: AttendanceStatus;
+
+  /** Extra classes (e.g., spacing) */
+  className?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Badge styling per status
+ */
+const STATUS_STYLES: Record<AttendanceStatus, string> = {
+  PRESENT: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  WORK_FROM_HOME: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+  ON_DUTY: 'bg-violet-100 text-violet-800 dark:bg-violet-900 dark:text-violet-200',
+  HALF_DAY: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  LEAVE: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  ABSENT: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  WEEKEND: '',
+  HOLIDAY: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * AttendanceStatusBadge Component
+ *
+ * USAGE:
+ * ```tsx
+ * <AttendanceStatusBadge status={record.status} />
+ * ```
+ */
+export function AttendanceStatusBadge({ status, className }: AttendanceStatusBadgeProps): React.JSX.Element {
+  return (
+    <Badge variant="secondary" className={cn(STATUS_STYLES[status], className)}>
+      {ATTENDANCE_STATUS_RULES[status].label}
+    </Badge>
+  );
+}
@@ -0,0 +1,337 @@
+/**
+ * Employee Identity Manager Component
+ *
+ * Client-side card maintaining who an employee is: the name, employee code
+ * and employment dates (PATCH /api/employees/:id), other spellings of the
+ * name (/api/employee-aliases) and merging duplicate employees into this
+ * one (POST /api/employees/:id/merge).
+ *
+ * @module components/employees/employee-identity-manager
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { GitMerge, Loader2, Plus, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { requestJson } from '@/lib/api-client';
+import { formatEmployeeLabel, type EmployeeAliasSummary } from '@/lib/employees';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface EmployeeIdentityManagerProps {
+  /** Employee being edited; employment dates as YYYY-MM-DD */
+  employee: {
+    id: string;
+    name: string;
+    employeeCode: string | null;
+    employmentStartDate: string | null;
+    employmentEndDate: string | null;
+  };
+
+  /** Aliases of the employee, alphabetical */
+  aliases: EmployeeAliasSummary[];
+
+  /** Other employees that can be merged into this one, ordered by name */
+  mergeCandidates: Array<{ id: string; name: string; employeeCode: string | null }>;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * EmployeeIdentityManager Component
+ *
+ * USAGE:
+ * ```tsx
+ * <EmployeeIdentityManager employee={employee} aliases={aliases} mergeCandidates={employees} />
+ * ```
+ */
+export function EmployeeIdentityManager({
+  employee,
+  aliases,
+  mergeCandidates,
+}: EmployeeIdentityManagerProps): React.JSX.Element {
+  const router = useRouter();
+
+  // Form state
+  const [name, setName] = useState<string>(employee.name);
+  const [employeeCode, setEmployeeCode] = useState<string>(employee.employeeCode ?? '');
+  const [employmentStartDate, setEmploymentStartDate] = useState<string>(employee.employmentStartDate ?? '');
+  const [employmentEndDate, setEmploymentEndDate] = useState<string>(employee.employmentEndDate ?? '');
+  const [alias, setAlias] = useState<string>('');
+  const [duplicateId, setDuplicateId] = useState<string>('');
+
+  // Request state
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [isAddingAlias, setIsAddingAlias] = useState<boolean>(false);
+  const [removingAliasId, setRemovingAliasId] = useState<string | null>(null);
+  const [isMerging, setIsMerging] = useState<boolean>(false);
+
+  const isIdentityChanged =
+    name.trim() !== employee.name ||
+    employeeCode.trim() !== (employee.employeeCode ?? '') ||
+    employmentStartDate !== (employee.employmentStartDate ?? '') ||
+    employmentEndDate !== (employee.employmentEndDate ?? '');
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Save the name, employee code and employment dates
+   */
+  const handleSaveIdentity = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      setIsSaving(true);
+
+      try {
+        await requestJson(`/api/employees/${employee.id}`, {
+          method: 'PATCH',
+          json: {
+            name,
+            employeeCode: employeeCode.trim() || null,
+            employmentStartDate: employmentStartDate || null,
+            employmentEndDate: employmentEndDate || null,
+          },
+        });
+
+        toast.success('Employee Updated', { description: name });
+        router.refresh();
+      } catch (error) {
+        console.error('[EmployeeIdentityManager] Save error:', error);
+        toast.error('Could Not Update Employee', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [employee.id, employeeCode, employmentEndDate, employmentStartDate, name, router]
+  );
+
+  /**
+   * Add another spelling of the name
+   */
+  const handleAddAlias = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      setIsAddingAlias(true);
+
+      try {
+        await requestJson('/api/employee-aliases', {
+          method: 'POST',
+          json: { employeeId: employee.id, alias },
+        });
+
+        toast.success('Alias Added', { description: alias });
+        setAlias('');
+        router.refresh();
+      } catch (error) {
+        console.error('[EmployeeIdentityManager] Alias error:', error);
+        toast.error('Could Not Add Alias', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsAddingAlias(false);
+      }
+    },
+    [alias, employee.id, router]
+  );
+
+  /**
+   * Remove an alias
+   */
+  const handleRemoveAlias = useCallback(
+    async (aliasId: string): Promise<void> => {
+      setRemovingAliasId(aliasId);
+
+      try {
+        await requestJson(`/api/employee-aliases/${aliasId}`, { method: 'DELETE' });
+
+        toast.success('Alias Removed');
+        router.refresh();
+      } catch (error) {
+        console.error('[EmployeeIdentityManager] Alias removal error:', error);
+        toast.error('Could Not Remove Alias', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setRemovingAliasId(null);
+      }
+    },
+    [router]
+  );
+
+  /**
+   * Merge the selected duplicate into this employee
+   */
+  const handleMerge = useCallback(async (): Promise<void> => {
+    const duplicate = mergeCandidates.find((candidate) => candidate.id === duplicateId);
+    if (!duplicate) {
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `Merge ${formatEmployeeLabel(duplicate)} into ${formatEmployeeLabel(employee)}? ` +
+      `The attendance, leave and accounts of ${duplicate.name} move here and ${duplicate.name} is deleted.`
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    setIsMerging(true);
+
+    try {
+      const { message } = await requestJson<{ message: string }>(`/api/employees/${employee.id}/merge`, {
+        method: 'POST',
+        json: { duplicateIds: [duplicate.id] },
+      });
+
+      toast.success('Employees Merged', { description: message });
+      setDuplicateId('');
+      router.refresh();
+    } catch (error) {
+      console.error('[EmployeeIdentityManager] Merge error:', error);
+      toast.error('Could Not Merge Employees', {
+        description: error instanceof Error ? error.message : 'Unexpected error',
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  }, [duplicateId, employee, mergeCandidates, router]);
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Identity</CardTitle>
+        <CardDescription>
+          Uploads match this employee by employee code, otherwise by name or one of the aliases.
+          Hours are only expected between the employment dates.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-3">
+        {/* Name, Code & Employment */}
+        <form onSubmit={handleSaveIdentity} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="employee-name">Name</Label>
+            <Input id="employee-name" value={name} onChange={(event) => setName(event.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employee-code">Employee Code</Label>
+            <Input
+              id="employee-code"
+              value={employeeCode}
+              onChange={(event) => setEmployeeCode(event.target.value)}
+              placeholder="e.g., E1042"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="employment-start">Employed From</Label>
+              <Input
+                id="employment-start"
+                type="date"
+                value={employmentStartDate}
+                onChange={(event) => setEmploymentStartDate(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="employment-end">Employed Until</Label>
+              <Input
+                id="employment-end"
+                type="date"
+                value={employmentEndDate}
+                min={employmentStartDate || undefined}
+                onChange={(event) => setEmploymentEndDate(event.target.value)}
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={!isIdentityChanged || isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+        </form>
+
+        {/* Aliases */}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Aliases</Label>
+            <div className="flex flex-wrap gap-2">
+              {aliases.length === 0 && <p className="text-sm text-muted-foreground">No aliases</p>}
+              {aliases.map((entry) => (
+                <Badge key={entry.id} variant="secondary" className="gap-1">
+                  {entry.alias}
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveAlias(entry.id)}
+                    disabled={removingAliasId === entry.id}
+                    aria-label={`Remove alias ${entry.alias}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <form onSubmit={handleAddAlias} className="flex gap-2">
+            <Input
+              value={alias}
+              onChange={(event) => setAlias(event.target.value)}
+              placeholder="e.g., Jon Smith"
+              aria-label="New alias"
+              required
+            />
+            <Button type="submit" variant="outline" disabled={isAddingAlias}>
+              {isAddingAlias ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </form>
+        </div>
+
+        {/* Merge */}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Merge Duplicate</Label>
+            <Select value={duplicateId} onValueChange={setDuplicateId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select an employee" />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeCandidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>{formatEmployeeLabel(candidate)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Moves the duplicate&apos;s attendance history here and keeps its name as an alias.
+            </p>
+          </div>
+          <Button type="button" variant="outline" onClick={handleMerge} disabled={!duplicateId || isMerging}>
+            {isMerging ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitMerge className="mr-2 h-4 w-4" />}
+            Merge into {employee.name}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
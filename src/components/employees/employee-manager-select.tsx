@@ -0,0 +1,107 @@
+/**
+ * Employee Manager Select Component
+ *
+ * Client-side picker assigning the manager an employee reports to
+ * (PATCH /api/employees/:id). The manager's team lead account then sees
+ * the employee on the dashboard and can decide their leave.
+ *
+ * @module components/employees/employee-manager-select
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { requestJson } from '@/lib/api-client';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface EmployeeManagerSelectProps {
+  /** Employee being edited */
+  employeeId: string;
+
+  /** Current manager, if any */
+  managerId: string | null;
+
+  /** Employees that can be chosen as manager, ordered by name */
+  candidates: Array<{ id: string; name: string }>;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * EmployeeManagerSelect Component
+ *
+ * USAGE:
+ * ```tsx
+ * <EmployeeManagerSelect employeeId={employee.id} managerId={employee.managerId} candidates={employees} />
+ * ```
+ */
+export function EmployeeManagerSelect({
+  employeeId,
+  managerId,
+  candidates,
+}: EmployeeManagerSelectProps): React.JSX.Element {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Save the chosen manager
+   */
+  const handleChange = useCallback(
+    async (value: string): Promise<void> => {
+      setIsSaving(true);
+
+      try {
+        await requestJson(`/api/employees/${employeeId}`, {
+          method: 'PATCH',
+          json: { managerId: value === SELECT_NONE ? null : value },
+        });
+
+        toast.success('Manager Updated');
+        router.refresh();
+      } catch (error) {
+        console.error('[EmployeeManagerSelect] Save error:', error);
+        toast.error('Could Not Update Manager', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [employeeId, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <Select value={managerId ?? SELECT_NONE} onValueChange={handleChange} disabled={isSaving}>
+      <SelectTrigger className="w-[200px]" aria-label="Manager">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={SELECT_NONE}>No manager</SelectItem>
+        {candidates.map((candidate) => (
+          <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * Employee Org Select Component
+ *
+ * Client-side pickers assigning the department and team an employee
+ * belongs to (PATCH /api/employees/:id). Only teams of the selected
+ * department are offered; choosing another department drops a team of the
+ * old one.
+ *
+ * @module components/employees/employee-org-select
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { requestJson } from '@/lib/api-client';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface EmployeeOrgSelectProps {
+  /** Employee being edited */
+  employeeId: string;
+
+  /** Current department, if any */
+  departmentId: string | null;
+
+  /** Current team, if any */
+  teamId: string | null;
+
+  /** All departments, alphabetical */
+  departments: Array<{ id: string; name: string }>;
+
+  /** All teams, alphabetical */
+  teams: Array<{ id: string; name: string; departmentId: string }>;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * EmployeeOrgSelect Component
+ *
+ * USAGE:
+ * ```tsx
+ * <EmployeeOrgSelect employeeId={employee.id} departmentId={employee.departmentId}
+ *   teamId={employee.teamId} departments={departments} teams={teams} />
+ * ```
+ */
+export function EmployeeOrgSelect({
+  employeeId,
+  departmentId,
+  teamId,
+  departments,
+  teams,
+}: EmployeeOrgSelectProps): React.JSX.Element {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // ==========================================================================
+  // COMPUTED VALUES
+  // ==========================================================================
+
+  /**
+   * Teams of the current department
+   */
+  const departmentTeams = useMemo(
+    () => teams.filter((team) => team.departmentId === departmentId),
+    [departmentId, teams]
+  );
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Save a department or team change
+   */
+  const save = useCallback(
+    async (changes: { departmentId: string | null } | { teamId: string | null }): Promise<void> => {
+      setIsSaving(true);
+
+      try {
+        await requestJson(`/api/employees/${employeeId}`, { method: 'PATCH', json: changes });
+
+        toast.success('departmentId' in changes ? 'Department Updated' : 'Team Updated');
+        router.refresh();
+      } catch (error) {
+        console.error('[EmployeeOrgSelect] Save error:', error);
+        toast.error('Could Not Update Employee', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [employeeId, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <>
+      <Select
+        value={departmentId ?? SELECT_NONE}
+        onValueChange={(value) => save({ departmentId: value === SELECT_NONE ? null : value })}
+        disabled={isSaving}
+      >
+        <SelectTrigger className="w-[180px]" aria-label="Department">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={SELECT_NONE}>No department</SelectItem>
+          {departments.map((department) => (
+            <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={teamId ?? SELECT_NONE}
+        onValueChange={(value) => save({ teamId: value === SELECT_NONE ? null : value })}
+        disabled={isSaving || departmentId === null}
+      >
+        <SelectTrigger className="w-[180px]" aria-label="Team">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={SELECT_NONE}>No team</SelectItem>
+          {departmentTeams.map((team) => (
+            <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
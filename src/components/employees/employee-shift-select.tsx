@@ -0,0 +1,112 @@
+/**
+ * Employee Shift Select Component
+ *
+ * Client-side picker assigning the shift an employee works
+ * (PATCH /api/employees/:id). Uploaded days are then checked against the
+ * shift for late arrival and early departure.
+ *
+ * @module components/employees/employee-shift-select
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { requestJson } from '@/lib/api-client';
+import { formatShiftTimes, type ShiftInput } from '@/lib/shifts';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface EmployeeShiftSelectProps {
+  /** Employee being edited */
+  employeeId: string;
+
+  /** Current shift, if any */
+  shiftId: string | null;
+
+  /** Shifts that can be chosen, ordered by name */
+  shifts: Array<{ id: string } & Pick<ShiftInput, 'name' | 'startTime' | 'endTime'>>;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * EmployeeShiftSelect Component
+ *
+ * USAGE:
+ * ```tsx
+ * <EmployeeShiftSelect employeeId={employee.id} shiftId={employee.shiftId} shifts={shifts} />
+ * ```
+ */
+export function EmployeeShiftSelect({
+  employeeId,
+  shiftId,
+  shifts,
+}: EmployeeShiftSelectProps): React.JSX.Element {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Save the chosen shift
+   */
+  const handleChange = useCallback(
+    async (value: string): Promise<void> => {
+      setIsSaving(true);
+
+      try {
+        await requestJson(`/api/employees/${employeeId}`, {
+          method: 'PATCH',
+          json: { shiftId: value === SELECT_NONE ? null : value },
+        });
+
+        toast.success('Shift Updated', {
+          description: 'Applies to months uploaded from now on.',
+        });
+        router.refresh();
+      } catch (error) {
+        console.error('[EmployeeShiftSelect] Save error:', error);
+        toast.error('Could Not Update Shift', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [employeeId, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <Select value={shiftId ?? SELECT_NONE} onValueChange={handleChange} disabled={isSaving}>
+      <SelectTrigger className="w-[220px]" aria-label="Shift">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={SELECT_NONE}>No shift</SelectItem>
+        {shifts.map((shift) => (
+          <SelectItem key={shift.id} value={shift.id}>
+            {shift.name} ({formatShiftTimes(shift)})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * Import History Component
+ *
+ * Client-side list of recorded uploads (see lib/import-batches) with a
+ * rollback action that restores the records an upload replaced.
+ *
+ * FEATURES:
+ * - File name, SHA-256, uploader, months and record counts of every upload
+ * - One-click rollback (after confirmation) of uploads still applied
+ * - Who rolled back an upload and when
+ *
+ * @module components/imports/import-history
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Loader2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { requestJson } from '@/lib/api-client';
+import { formatImportMonths, type ImportBatchSummary } from '@/lib/import-batches';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface ImportHistoryProps {
+  /** Recorded uploads, newest first */
+  importBatches: ImportBatchSummary[];
+}
+
+/**
+ * Response of POST /api/import-batches/:id/rollback
+ */
+interface RollbackResponse {
+  importBatch: ImportBatchSummary;
+  restoredCount: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Characters of the SHA-256 shown in the table (the full hash is the tooltip)
+ */
+const SHORT_HASH_LENGTH = 12;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * ImportHistory Component
+ *
+ * USAGE:
+ * ```tsx
+ * <ImportHistory importBatches={batches} />
+ * ```
+ */
+export function ImportHistory({ importBatches }: ImportHistoryProps): React.JSX.Element {
+  const router = useRouter();
+
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Roll an upload back after confirmation
+   */
+  const handleRollback = useCallback(
+    async (batch: ImportBatchSummary): Promise<void> => {
+      if (
+        !window.confirm(
+          `Roll back "${batch.filename}"? Its ${batch.recordCount} record(s) for ` +
+          `${formatImportMonths(batch.months)} are deleted and the ${batch.replacedCount} record(s) ` +
+          'it replaced are restored. Corrections made since the upload are lost.'
+        )
+      ) {
+        return;
+      }
+
+      setRollingBackId(batch.id);
+
+      try {
+        const { restoredCount } = await requestJson<RollbackResponse>(
+          `/api/import-batches/${batch.id}/rollback`,
+          { method: 'POST' }
+        );
+        toast.success('Upload Rolled Back', {
+          description: `${batch.filename}: ${restoredCount} record(s) restored`,
+        });
+        router.refresh();
+      } catch (error) {
+        console.error('[ImportHistory] Rollback error:', error);
+        toast.error('Could Not Roll Back Upload', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setRollingBackId(null);
+      }
+    },
+    [router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Uploads</CardTitle>
+        <CardDescription>
+          Rolling an upload back restores the records it replaced. Roll back later uploads of the
+          same months first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {importBatches.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No uploads recorded yet.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Uploader</TableHead>
+                  <TableHead>Months</TableHead>
+                  <TableHead className="text-right">Employees</TableHead>
+                  <TableHead className="text-right">Records</TableHead>
+                  <TableHead className="text-right">Replaced</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[120px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {importBatches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(batch.createdAt), 'MMM d, yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell>
+                      <span className="font-medium">{batch.filename}</span>
+                      <span className="block font-mono text-xs text-muted-foreground" title={batch.sha256}>
+                        {batch.sha256.slice(0, SHORT_HASH_LENGTH)}
+                      </span>
+                    </TableCell>
+                    <TableCell>{batch.uploaderName}</TableCell>
+                    <TableCell className="font-mono">{formatImportMonths(batch.months)}</TableCell>
+                    <TableCell className="text-right">{batch.employeeCount}</TableCell>
+                    <TableCell className="text-right">{batch.recordCount}</TableCell>
+                    <TableCell className="text-right">{batch.replacedCount}</TableCell>
+                    <TableCell>
+                      {batch.status === 'APPLIED' ? (
+                        <Badge variant="secondary">Applied</Badge>
+                      ) : (
+                        <>
+                          <Badge variant="outline">Rolled back</Badge>
+                          {batch.rolledBackAt && (
+                            <span className="block text-xs text-muted-foreground mt-1">
+                              {batch.rolledBackBy}, {format(new Date(batch.rolledBackAt), 'MMM d, yyyy HH:mm')}
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {batch.status === 'APPLIED' && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRollback(batch)}
+                          disabled={rollingBackId !== null}
+                        >
+                          {rollingBackId === batch.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Undo2 className="mr-2 h-4 w-4" />
+                          )}
+                          Roll Back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,412 @@
+/**
+ * Leave Request Manager Component
+ *
+ * Client-side workflow for leave requests: submit a request for an employee
+ * and approve or reject pending ones. Approved leave turns the covered
+ * ABSENT days into approved leave on the dashboard.
+ *
+ * FEATURES:
+ * - Submission form (employee, leave type, date range, reason)
+ * - Status filter over the request list
+ * - Approve / reject with an optional note, for approvers only; the
+ *   signed-in user is recorded as the approver and cannot decide their
+ *   own requests
+ *
+ * @module components/leave/leave-request-manager
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Check, Loader2, Send, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { requestJson } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+import {
+  LEAVE_REQUEST_STATUSES,
+  LEAVE_TYPES,
+  type LeaveRequestStatus,
+  type LeaveRequestSummary,
+  type LeaveType,
+} from '@/lib/leave-requests';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface LeaveRequestManagerProps {
+  /** Employees that leave can be requested for, ordered by name */
+  employees: Array<{ id: string; name: string }>;
+
+  /** Leave requests visible to the signed-in user, newest first */
+  leaveRequests: LeaveRequestSummary[];
+
+  /** Whether the signed-in user may approve and reject requests */
+  canDecide: boolean;
+
+  /** Employee of the signed-in user, whose own requests they cannot decide */
+  currentEmployeeId: string | null;
+}
+
+/**
+ * Decision actions and their API route segment
+ */
+type LeaveDecision = 'approve' | 'reject';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Badge styling per status
+ */
+const STATUS_STYLES: Record<LeaveRequestStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  APPROVED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  REJECTED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * LeaveRequestManager Component
+ *
+ * USAGE:
+ * ```tsx
+ * <LeaveRequestManager
+ *   employees={employees}
+ *   leaveRequests={leaveRequests}
+ *   canDecide={canDecide}
+ *   currentEmployeeId={user.employeeId}
+ * />
+ * ```
+ */
+export function LeaveRequestManager({
+  employees,
+  leaveRequests,
+  canDecide,
+  currentEmployeeId,
+}: LeaveRequestManagerProps): React.JSX.Element {
+  const router = useRouter();
+
+  // Employees can only request leave for themselves
+  const [employeeId, setEmployeeId] = useState<string>(employees.length === 1 ? employees[0].id : '');
+  const [type, setType] = useState<LeaveType>('CASUAL');
+  const [startDate, setStartDate] = useState<string>('');
+  const [endDate, setEndDate] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const [statusFilter, setStatusFilter] = useState<string>('PENDING');
+  const [note, setNote] = useState<string>('');
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  // ==========================================================================
+  // COMPUTED VALUES
+  // ==========================================================================
+
+  /**
+   * Requests matching the status filter
+   */
+  const visibleRequests = useMemo(
+    () =>
+      statusFilter === SELECT_NONE
+        ? leaveRequests
+        : leaveRequests.filter((request) => request.status === statusFilter),
+    [leaveRequests, statusFilter]
+  );
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Submit a new leave request
+   */
+  const handleSubmit = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      setIsSubmitting(true);
+
+      try {
+        const { leaveRequest } = await requestJson<{ leaveRequest: LeaveRequestSummary }>(
+          '/api/leave-requests',
+          {
+            method: 'POST',
+            json: { employeeId, type, startDate, endDate: endDate || startDate, reason },
+          }
+        );
+
+        toast.success('Leave Request Submitted', {
+          description: `${leaveRequest.employeeName}: ${leaveRequest.startDate} to ${leaveRequest.endDate}`,
+        });
+
+        setStartDate('');
+        setEndDate('');
+        setReason('');
+        router.refresh();
+      } catch (error) {
+        console.error('[LeaveRequestManager] Submit error:', error);
+        toast.error('Could Not Submit Leave Request', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [employeeId, endDate, reason, router, startDate, type]
+  );
+
+  /**
+   * Approve or reject a pending request
+   */
+  const handleDecision = useCallback(
+    async (request: LeaveRequestSummary, decision: LeaveDecision): Promise<void> => {
+      setDecidingId(request.id);
+
+      try {
+        await requestJson(`/api/leave-requests/${request.id}/${decision}`, {
+          method: 'POST',
+          json: { note },
+        });
+
+        toast.success(decision === 'approve' ? 'Leave Approved' : 'Leave Rejected', {
+          description: `${request.employeeName}: ${request.startDate} to ${request.endDate}`,
+        });
+
+        setNote('');
+        router.refresh();
+      } catch (error) {
+        console.error('[LeaveRequestManager] Decision error:', error);
+        toast.error('Could Not Update Leave Request', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setDecidingId(null);
+      }
+    },
+    [note, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      {/* Request List */}
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Leave Requests</CardTitle>
+            <CardDescription>
+              Absent days covered by approved leave are not counted as unexplained absences.
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SELECT_NONE}>All</SelectItem>
+              {LEAVE_REQUEST_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {status.charAt(0) + status.slice(1).toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canDecide && (
+            <div className="space-y-2 md:w-1/2">
+              <Label htmlFor="leave-note">Decision Note</Label>
+              <Input
+                id="leave-note"
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          )}
+
+          {visibleRequests.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              No leave requests to show.
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRequests.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell className="font-medium">
+                        {request.employeeName}
+                        {request.reason && (
+                          <p className="text-xs font-normal text-muted-foreground">{request.reason}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {LEAVE_TYPES.find((option) => option.type === request.type)?.label ?? request.type}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {request.startDate === request.endDate
+                          ? request.startDate
+                          : `${request.startDate} – ${request.endDate}`}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{request.dayCount}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={cn(STATUS_STYLES[request.status])}>
+                          {request.status}
+                        </Badge>
+                        {request.approver && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            by {request.approver}
+                            {request.decisionNote && `: ${request.decisionNote}`}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canDecide && request.status === 'PENDING' && request.employeeId !== currentEmployeeId && (
+                          <span className="flex justify-end gap-1">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon-sm"
+                              onClick={() => handleDecision(request, 'approve')}
+                              disabled={decidingId === request.id}
+                              aria-label={`Approve leave for ${request.employeeName}`}
+                            >
+                              {decidingId === request.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Check className="h-4 w-4 text-green-600" />
+                              )}
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon-sm"
+                              onClick={() => handleDecision(request, 'reject')}
+                              disabled={decidingId === request.id}
+                              aria-label={`Reject leave for ${request.employeeName}`}
+                            >
+                              <X className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Submission Form */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Request Leave</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Employee</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select employee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>{employee.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Leave Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as LeaveType)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAVE_TYPES.map((option) => (
+                    <SelectItem key={option.type} value={option.type}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="leave-start">From</Label>
+                <Input
+                  id="leave-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(event) => setStartDate(event.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-end">To</Label>
+                <Input
+                  id="leave-end"
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(event) => setEndDate(event.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-reason">Reason</Label>
+              <Input
+                id="leave-reason"
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!employeeId || isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="mr-2 h-4 w-4" />
+                )}
+                Submit Request
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
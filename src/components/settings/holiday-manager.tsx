@@ -0,0 +1,408 @@
+/**
+ * Holiday Calendar Manager Component
+ *
+ * Client-side editor for the company holiday calendar. Holidays have zero
+ * expected hours and are recorded as HOLIDAY (not ABSENT) when attendance
+ * for their month is uploaded.
+ *
+ * FEATURES:
+ * - Year navigation with holidays grouped by month
+ * - Add, rename/move and delete individual holidays
+ * - Bulk import from an iCalendar (.ics) file
+ *
+ * @module components/settings/holiday-manager
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { CalendarPlus, ChevronLeft, ChevronRight, Loader2, Pencil, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { requestJson } from '@/lib/api-client';
+import type { HolidaySummary } from '@/lib/holidays';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface HolidayManagerProps {
+  /** All holidays, ordered by date */
+  holidays: HolidaySummary[];
+}
+
+/**
+ * Import API success response
+ */
+interface HolidayImportResponse {
+  success: true;
+  message: string;
+  details: {
+    parsedCount: number;
+    createdCount: number;
+    updatedCount: number;
+  };
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * HolidayManager Component
+ *
+ * USAGE:
+ * ```tsx
+ * <HolidayManager holidays={holidays} />
+ * ```
+ */
+export function HolidayManager({ holidays }: HolidayManagerProps): React.JSX.Element {
+  const router = useRouter();
+
+  const [year, setYear] = useState<number>(() => new Date().getFullYear());
+  const [name, setName] = useState<string>('');
+  const [date, setDate] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // File input ref for programmatic triggering
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // ==========================================================================
+  // COMPUTED VALUES
+  // ==========================================================================
+
+  /**
+   * Holidays of the selected year grouped by month label
+   */
+  const holidaysByMonth = useMemo(() => {
+    const groups = new Map<string, HolidaySummary[]>();
+
+    for (const holiday of holidays) {
+      if (!holiday.date.startsWith(`${year}-`)) {
+        continue;
+      }
+
+      const label = format(new Date(`${holiday.date}T00:00:00`), 'MMMM');
+      groups.set(label, [...(groups.get(label) ?? []), holiday]);
+    }
+
+    return Array.from(groups.entries());
+  }, [holidays, year]);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Reset the add/edit form
+   */
+  const resetForm = useCallback((): void => {
+    setEditingId(null);
+    setName('');
+    setDate('');
+  }, []);
+
+  /**
+   * Load a holiday into the form for editing
+   */
+  const handleEdit = useCallback((holiday: HolidaySummary): void => {
+    setEditingId(holiday.id);
+    setName(holiday.name);
+    setDate(holiday.date);
+  }, []);
+
+  /**
+   * Create or update a holiday
+   */
+  const handleSubmit = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      setIsSubmitting(true);
+
+      try {
+        await requestJson(editingId ? `/api/holidays/${editingId}` : '/api/holidays', {
+          method: editingId ? 'PATCH' : 'POST',
+          json: { name, date },
+        });
+
+        toast.success(editingId ? 'Holiday Updated' : 'Holiday Added', {
+          description: `${name} on ${date}`,
+        });
+
+        resetForm();
+        router.refresh();
+      } catch (error) {
+        console.error('[HolidayManager] Save error:', error);
+        toast.error('Could Not Save Holiday', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [date, editingId, name, resetForm, router]
+  );
+
+  /**
+   * Delete a holiday
+   */
+  const handleDelete = useCallback(
+    async (holiday: HolidaySummary): Promise<void> => {
+      setDeletingId(holiday.id);
+
+      try {
+        await requestJson(`/api/holidays/${holiday.id}`, { method: 'DELETE' });
+        toast.success('Holiday Deleted', { description: `${holiday.name} on ${holiday.date}` });
+
+        if (editingId === holiday.id) {
+          resetForm();
+        }
+        router.refresh();
+      } catch (error) {
+        console.error('[HolidayManager] Delete error:', error);
+        toast.error('Could Not Delete Holiday', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setDeletingId(null);
+      }
+    },
+    [editingId, resetForm, router]
+  );
+
+  /**
+   * Upload a selected .ics file to the import endpoint
+   */
+  const handleImportFile = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+      const file = event.target.files?.[0];
+      if (!file) {
+        return;
+      }
+
+      setIsImporting(true);
+
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await fetch('/api/holidays/import', {
+          method: 'POST',
+          body: formData,
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.details ? `${data.error}: ${data.details}` : data.error);
+        }
+
+        const result = data as HolidayImportResponse;
+        toast.success('Holidays Imported', {
+          description: `${result.details.createdCount} added, ${result.details.updatedCount} updated`,
+        });
+        router.refresh();
+      } catch (error) {
+        console.error('[HolidayManager] Import error:', error);
+        toast.error('Import Failed', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsImporting(false);
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+        }
+      }
+    },
+    [router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      {/* Calendar */}
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Holiday Calendar</CardTitle>
+            <CardDescription>
+              Holidays count as zero expected hours and are never treated as leave.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setYear((prev) => prev - 1)}
+              aria-label="Previous year"
+              className="h-9 w-9"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium min-w-[48px] text-center">{year}</span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setYear((prev) => prev + 1)}
+              aria-label="Next year"
+              className="h-9 w-9"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {holidaysByMonth.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              No holidays configured for {year}.
+            </p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {holidaysByMonth.map(([monthLabel, monthHolidays]) => (
+                <div key={monthLabel} className="rounded-md border p-3 space-y-2">
+                  <h4 className="text-sm font-semibold">{monthLabel}</h4>
+                  <ul className="space-y-1">
+                    {monthHolidays.map((holiday) => (
+                      <li key={holiday.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span>
+                          <span className="font-mono text-muted-foreground mr-2">
+                            {format(new Date(`${holiday.date}T00:00:00`), 'EEE dd')}
+                          </span>
+                          {holiday.name}
+                        </span>
+                        <span className="flex gap-1">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => handleEdit(holiday)}
+                            aria-label={`Edit ${holiday.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => handleDelete(holiday)}
+                            disabled={deletingId === holiday.id}
+                            aria-label={`Delete ${holiday.name}`}
+                          >
+                            {deletingId === holiday.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        {/* Add / Edit Form */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Holiday' : 'Add Holiday'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="holiday-name">Name</Label>
+                <Input
+                  id="holiday-name"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                  placeholder="e.g., New Year's Day"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="holiday-date">Date</Label>
+                <Input
+                  id="holiday-date"
+                  type="date"
+                  value={date}
+                  onChange={(event) => setDate(event.target.value)}
+                  required
+                />
+              </div>
+              <div className="flex gap-2 justify-end">
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm} disabled={isSubmitting}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CalendarPlus className="mr-2 h-4 w-4" />
+                  )}
+                  {editingId ? 'Save Changes' : 'Add Holiday'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* iCalendar Import */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Calendar</CardTitle>
+            <CardDescription>
+              Import holidays from an iCalendar (.ics) file. Existing holidays on the same
+              date are renamed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleImportFile}
+              className="hidden"
+              aria-label="Select iCalendar file"
+              disabled={isImporting}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              {isImporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              {isImporting ? 'Importing...' : 'Select .ics File'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+/**
+ * Shift Manager Component
+ *
+ * Client-side editor for shifts: the start and end time assigned employees
+ * are expected to keep, and the grace period before a late arrival or
+ * early departure is flagged. Employees are assigned a shift on their
+ * employee page.
+ *
+ * FEATURES:
+ * - List of shifts with their hours, grace period and employee count
+ * - Add, edit and delete shifts (overnight shifts end before they start)
+ *
+ * @module components/settings/shift-manager
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Clock, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { requestJson } from '@/lib/api-client';
+import { MAX_GRACE_MINUTES, formatShiftTimes, type ShiftSummary } from '@/lib/shifts';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface ShiftManagerProps {
+  /** All shifts, ordered by start time */
+  shifts: ShiftSummary[];
+}
+
+/**
+ * Form field values (inputs hold strings)
+ */
+interface ShiftFormValues {
+  name: string;
+  startTime: string;
+  endTime: string;
+  graceMinutes: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Values of an empty form
+ */
+const EMPTY_FORM: ShiftFormValues = {
+  name: '',
+  startTime: '09:00',
+  endTime: '18:00',
+  graceMinutes: '0',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * ShiftManager Component
+ *
+ * USAGE:
+ * ```tsx
+ * <ShiftManager shifts={shifts} />
+ * ```
+ */
+export function ShiftManager({ shifts }: ShiftManagerProps): React.JSX.Element {
+  const router = useRouter();
+
+  const [values, setValues] = useState<ShiftFormValues>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Update one form field
+   */
+  const handleFieldChange = useCallback(
+    (field: keyof ShiftFormValues) =>
+      (event: React.ChangeEvent<HTMLInputElement>): void => {
+        const { value } = event.target;
+        setValues((prev) => ({ ...prev, [field]: value }));
+      },
+    []
+  );
+
+  /**
+   * Reset the add/edit form
+   */
+  const resetForm = useCallback((): void => {
+    setEditingId(null);
+    setValues(EMPTY_FORM);
+  }, []);
+
+  /**
+   * Load a shift into the form for editing
+   */
+  const handleEdit = useCallback((shift: ShiftSummary): void => {
+    setEditingId(shift.id);
+    setValues({
+      name: shift.name,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      graceMinutes: String(shift.graceMinutes),
+    });
+  }, []);
+
+  /**
+   * Create or update a shift
+   */
+  const handleSubmit = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      setIsSubmitting(true);
+
+      try {
+        await requestJson(editingId ? `/api/shifts/${editingId}` : '/api/shifts', {
+          method: editingId ? 'PATCH' : 'POST',
+          json: { ...values, graceMinutes: Number(values.graceMinutes) },
+        });
+
+        toast.success(editingId ? 'Shift Updated' : 'Shift Added', {
+          description: `${values.name}: ${formatShiftTimes(values)}`,
+        });
+
+        resetForm();
+        router.refresh();
+      } catch (error) {
+        console.error('[ShiftManager] Save error:', error);
+        toast.error('Could Not Save Shift', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [editingId, resetForm, router, values]
+  );
+
+  /**
+   * Delete a shift after confirmation
+   */
+  const handleDelete = useCallback(
+    async (shift: ShiftSummary): Promise<void> => {
+      if (
+        shift.employeeCount > 0 &&
+        !window.confirm(`${shift.employeeCount} employee(s) work the ${shift.name} shift and will have no shift. Delete it?`)
+      ) {
+        return;
+      }
+
+      setDeletingId(shift.id);
+
+      try {
+        await requestJson(`/api/shifts/${shift.id}`, { method: 'DELETE' });
+        toast.success('Shift Deleted', { description: shift.name });
+
+        if (editingId === shift.id) {
+          resetForm();
+        }
+        router.refresh();
+      } catch (error) {
+        console.error('[ShiftManager] Delete error:', error);
+        toast.error('Could Not Delete Shift', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setDeletingId(null);
+      }
+    },
+    [editingId, resetForm, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      {/* Shift List */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Shifts</CardTitle>
+          <CardDescription>
+            Days of employees on a shift are flagged when they check in after the start or check out
+            before the end by more than the grace period. Shorter days (e.g., Saturdays) end earlier.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shifts.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              No shifts configured. Without a shift no day is flagged as late.
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead className="text-right">Grace</TableHead>
+                    <TableHead className="text-right">Employees</TableHead>
+                    <TableHead className="w-[90px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shifts.map((shift) => (
+                    <TableRow key={shift.id}>
+                      <TableCell className="font-medium">{shift.name}</TableCell>
+                      <TableCell className="font-mono">{formatShiftTimes(shift)}</TableCell>
+                      <TableCell className="text-right font-mono">{shift.graceMinutes} min</TableCell>
+                      <TableCell className="text-right">{shift.employeeCount}</TableCell>
+                      <TableCell>
+                        <span className="flex justify-end gap-1">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => handleEdit(shift)}
+                            aria-label={`Edit ${shift.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => handleDelete(shift)}
+                            disabled={deletingId === shift.id}
+                            aria-label={`Delete ${shift.name}`}
+                          >
+                            {deletingId === shift.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Form */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Shift' : 'Add Shift'}</CardTitle>
+          <CardDescription>
+            Changes apply to months uploaded afterwards.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shift-name">Name</Label>
+              <Input
+                id="shift-name"
+                value={values.name}
+                onChange={handleFieldChange('name')}
+                placeholder="e.g., Morning"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="shift-start">Start</Label>
+                <Input
+                  id="shift-start"
+                  type="time"
+                  value={values.startTime}
+                  onChange={handleFieldChange('startTime')}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shift-end">End</Label>
+                <Input
+                  id="shift-end"
+                  type="time"
+                  value={values.endTime}
+                  onChange={handleFieldChange('endTime')}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shift-grace">Grace (minutes)</Label>
+              <Input
+                id="shift-grace"
+                type="number"
+                min={0}
+                max={MAX_GRACE_MINUTES}
+                step={1}
+                value={values.graceMinutes}
+                onChange={handleFieldChange('graceMinutes')}
+                required
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Clock className="mr-2 h-4 w-4" />
+                )}
+                {editingId ? 'Save Changes' : 'Add Shift'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,479 @@
+/**
+ * Work Schedule Manager Component
+ *
+ * Client-side editor for the versioned work schedules that drive expected
+ * hours. Lists the schedule history and provides a form to create a new
+ * schedule version or edit an existing one.
+ *
+ * FEATURES:
+ * - Per-weekday expected hours inputs
+ * - Effective-from date for schedule history
+ * - Optional unpaid break deduction rule per schedule version
+ * - Overtime pay multipliers (regular, Sunday, holiday) per schedule version
+ * - Inline edit and delete of existing versions
+ * - Highlights the schedule currently in effect
+ *
+ * @module components/settings/work-schedule-manager
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { requestJson } from '@/lib/api-client';
+import { CONSTANTS } from '@/lib/calculations';
+import {
+  OVERTIME_MULTIPLIER_FIELDS,
+  WORK_SCHEDULE_DAYS,
+  type OvertimeMultiplierField,
+  type WorkScheduleDayField,
+  type WorkScheduleSummary,
+} from '@/lib/work-schedules';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface WorkScheduleManagerProps {
+  /** Existing schedule versions, oldest first */
+  schedules: WorkScheduleSummary[];
+
+  /** Id of the schedule in effect today (null when defaults apply) */
+  activeScheduleId: string | null;
+}
+
+/**
+ * Form state (inputs are kept as strings until submission)
+ */
+type ScheduleFormState = Record<WorkScheduleDayField | OvertimeMultiplierField, string> & {
+  name: string;
+  effectiveFrom: string;
+  unpaidBreakMinutes: string;
+  unpaidBreakAfterHours: string;
+};
+
+// ============================================================================
+// FORM UTILITIES
+// ============================================================================
+
+/**
+ * Build an empty form prefilled with the default business rules
+ *
+ * @returns {ScheduleFormState} Initial form state
+ */
+function createDefaultFormState(): ScheduleFormState {
+  const defaults = CONSTANTS.DEFAULT_WORK_SCHEDULE;
+
+  return {
+    name: '',
+    effectiveFrom: '',
+    mondayHours: String(defaults.mondayHours),
+    tuesdayHours: String(defaults.tuesdayHours),
+    wednesdayHours: String(defaults.wednesdayHours),
+    thursdayHours: String(defaults.thursdayHours),
+    fridayHours: String(defaults.fridayHours),
+    saturdayHours: String(defaults.saturdayHours),
+    sundayHours: String(defaults.sundayHours),
+    unpaidBreakMinutes: '0',
+    unpaidBreakAfterHours: '6',
+    overtimeMultiplier: String(CONSTANTS.OVERTIME_MULTIPLIERS.REGULAR),
+    sundayOvertimeMultiplier: String(CONSTANTS.OVERTIME_MULTIPLIERS.SUNDAY),
+    holidayOvertimeMultiplier: String(CONSTANTS.OVERTIME_MULTIPLIERS.HOLIDAY),
+  };
+}
+
+/**
+ * Build form state from an existing schedule
+ *
+ * @param {WorkScheduleSummary} schedule - Schedule being edited
+ * @returns {ScheduleFormState} Form state
+ */
+function toFormState(schedule: WorkScheduleSummary): ScheduleFormState {
+  const state = { ...createDefaultFormState(), name: schedule.name, effectiveFrom: schedule.effectiveFrom };
+
+  for (const { field } of WORK_SCHEDULE_DAYS) {
+    state[field] = String(schedule[field]);
+  }
+
+  state.unpaidBreakMinutes = String(schedule.unpaidBreakMinutes);
+  state.unpaidBreakAfterHours = String(schedule.unpaidBreakAfterHours);
+
+  for (const { field } of OVERTIME_MULTIPLIER_FIELDS) {
+    state[field] = String(schedule[field]);
+  }
+
+  return state;
+}
+
+/**
+ * Total weekly hours for a schedule
+ *
+ * @param {Record<WorkScheduleDayField, number>} schedule - Schedule hours
+ * @returns {number} Sum of all weekday hours
+ */
+function weeklyHours(schedule: Record<WorkScheduleDayField, number>): number {
+  return WORK_SCHEDULE_DAYS.reduce((sum, { field }) => sum + schedule[field], 0);
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * WorkScheduleManager Component
+ *
+ * USAGE:
+ * ```tsx
+ * <WorkScheduleManager schedules={schedules} activeScheduleId={activeId} />
+ * ```
+ */
+export function WorkScheduleManager({
+  schedules,
+  activeScheduleId,
+}: WorkScheduleManagerProps): React.JSX.Element {
+  const router = useRouter();
+
+  const [form, setForm] = useState<ScheduleFormState>(createDefaultFormState);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Update a single form field
+   */
+  const handleFieldChange = useCallback(
+    (field: keyof ScheduleFormState) =>
+      (event: React.ChangeEvent<HTMLInputElement>): void => {
+        const value = event.target.value;
+        setForm((prev) => ({ ...prev, [field]: value }));
+      },
+    []
+  );
+
+  /**
+   * Load an existing schedule into the form for editing
+   */
+  const handleEdit = useCallback((schedule: WorkScheduleSummary): void => {
+    setEditingId(schedule.id);
+    setForm(toFormState(schedule));
+  }, []);
+
+  /**
+   * Discard edits and reset the form
+   */
+  const handleCancel = useCallback((): void => {
+    setEditingId(null);
+    setForm(createDefaultFormState());
+  }, []);
+
+  /**
+   * Create or update a schedule
+   */
+  const handleSubmit = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      setIsSubmitting(true);
+
+      try {
+        await requestJson(editingId ? `/api/work-schedules/${editingId}` : '/api/work-schedules', {
+          method: editingId ? 'PATCH' : 'POST',
+          json: form,
+        });
+
+        toast.success(editingId ? 'Schedule Updated' : 'Schedule Created', {
+          description: `${form.name} effective from ${form.effectiveFrom}`,
+        });
+
+        setEditingId(null);
+        setForm(createDefaultFormState());
+        router.refresh();
+      } catch (error) {
+        console.error('[WorkScheduleManager] Save error:', error);
+        toast.error('Could Not Save Schedule', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [editingId, form, router]
+  );
+
+  /**
+   * Delete a schedule version
+   */
+  const handleDelete = useCallback(
+    async (schedule: WorkScheduleSummary): Promise<void> => {
+      if (!window.confirm(`Delete schedule "${schedule.name}" (effective ${schedule.effectiveFrom})?`)) {
+        return;
+      }
+
+      setDeletingId(schedule.id);
+
+      try {
+        await requestJson(`/api/work-schedules/${schedule.id}`, { method: 'DELETE' });
+        toast.success('Schedule Deleted', { description: schedule.name });
+
+        if (editingId === schedule.id) {
+          handleCancel();
+        }
+        router.refresh();
+      } catch (error) {
+        console.error('[WorkScheduleManager] Delete error:', error);
+        toast.error('Could Not Delete Schedule', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setDeletingId(null);
+      }
+    },
+    [editingId, handleCancel, router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <div className="space-y-6">
+      {/* Schedule History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedule History</CardTitle>
+          <CardDescription>
+            Each schedule applies from its effective date until the next one starts.
+            {schedules.length === 0 &&
+              ' No schedules configured yet: the default rules (8.5h Monday-Friday, 4h Saturday) apply.'}
+          </CardDescription>
+        </CardHeader>
+        {schedules.length > 0 && (
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Effective From</TableHead>
+                    {WORK_SCHEDULE_DAYS.map(({ field, label }) => (
+                      <TableHead key={field} className="text-right">
+                        {label.slice(0, 3)}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Weekly</TableHead>
+                    <TableHead className="text-right">Unpaid Break</TableHead>
+                    <TableHead className="text-right">Overtime ×</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.map((schedule) => (
+                    <TableRow key={schedule.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {schedule.name}
+                          {schedule.id === activeScheduleId && <Badge>Current</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono">{schedule.effectiveFrom}</TableCell>
+                      {WORK_SCHEDULE_DAYS.map(({ field }) => (
+                        <TableCell key={field} className="text-right font-mono">
+                          {schedule[field].toFixed(1)}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-mono">
+                        {weeklyHours(schedule).toFixed(1)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {schedule.unpaidBreakMinutes > 0
+                          ? `${schedule.unpaidBreakMinutes}m after ${schedule.unpaidBreakAfterHours}h`
+                          : '—'}
+                      </TableCell>
+                      <TableCell
+                        className="text-right font-mono text-xs"
+                        title="Regular / Sunday / holiday overtime multiplier"
+                      >
+                        {OVERTIME_MULTIPLIER_FIELDS.map(({ field }) => schedule[field]).join(' / ')}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => handleEdit(schedule)}
+                            aria-label={`Edit ${schedule.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => handleDelete(schedule)}
+                            disabled={deletingId === schedule.id}
+                            aria-label={`Delete ${schedule.name}`}
+                          >
+                            {deletingId === schedule.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Create / Edit Form */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? 'Edit Schedule' : 'New Schedule Version'}</CardTitle>
+          <CardDescription>
+            Expected hours per weekday. Days with 0 hours are treated as weekends when
+            filling gaps in uploaded attendance.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-name">Name</Label>
+                <Input
+                  id="schedule-name"
+                  value={form.name}
+                  onChange={handleFieldChange('name')}
+                  placeholder="e.g., Five day week"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-effective-from">Effective From</Label>
+                <Input
+                  id="schedule-effective-from"
+                  type="date"
+                  value={form.effectiveFrom}
+                  onChange={handleFieldChange('effectiveFrom')}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
+              {WORK_SCHEDULE_DAYS.map(({ field, label }) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`schedule-${field}`}>{label}</Label>
+                  <Input
+                    id={`schedule-${field}`}
+                    type="number"
+                    min={0}
+                    max={24}
+                    step={0.25}
+                    value={form[field]}
+                    onChange={handleFieldChange(field)}
+                    required
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-unpaid-break">Unpaid Break (minutes)</Label>
+                <Input
+                  id="schedule-unpaid-break"
+                  type="number"
+                  min={0}
+                  max={240}
+                  step={5}
+                  value={form.unpaidBreakMinutes}
+                  onChange={handleFieldChange('unpaidBreakMinutes')}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Deducted from days reaching the hours on the right; breaks already
+                  punched out count towards it. 0 disables the rule.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-unpaid-break-after">Applies From (worked hours)</Label>
+                <Input
+                  id="schedule-unpaid-break-after"
+                  type="number"
+                  min={0}
+                  max={24}
+                  step={0.25}
+                  value={form.unpaidBreakAfterHours}
+                  onChange={handleFieldChange('unpaidBreakAfterHours')}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid gap-4 md:grid-cols-3">
+                {OVERTIME_MULTIPLIER_FIELDS.map(({ field, label }) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`schedule-${field}`}>{label} Multiplier</Label>
+                    <Input
+                      id={`schedule-${field}`}
+                      type="number"
+                      min={1}
+                      max={5}
+                      step={0.05}
+                      value={form[field]}
+                      onChange={handleFieldChange(field)}
+                      required
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Hours worked beyond the expected hours are overtime; on Sundays and holidays
+                the Sunday and holiday multipliers apply instead.
+              </p>
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={handleCancel} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={isSubmitting} className="min-w-32">
+                {isSubmitting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  !editingId && <Plus className="mr-2 h-4 w-4" />
+                )}
+                {editingId ? 'Save Changes' : 'Add Schedule'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+/**
+ * Trend Chart Components
+ *
+ * Dependency-free SVG line and bar charts for the trends page. They render
+ * on the server; hovering a point or bar shows its value through the SVG
+ * <title> tooltip.
+ *
+ * @module components/trends/trend-charts
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import React from 'react';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One line of a line chart
+ */
+export interface ChartSeries {
+  /** Legend and tooltip name */
+  name: string;
+
+  /** Value per label; null leaves a gap */
+  values: Array<number | null>;
+
+  /** CSS colour */
+  color: string;
+}
+
+/**
+ * LineChart component props
+ */
+export interface LineChartProps {
+  /** X axis labels (one per month) */
+  labels: string[];
+
+  /** Lines to draw */
+  series: ChartSeries[];
+
+  /** Suffix for axis and tooltip values (e.g., "%") */
+  unit?: string;
+
+  /** Lowest upper bound of the Y axis (e.g., 100 for percentages) */
+  minMax?: number;
+
+  /** Show a legend below the chart */
+  showLegend?: boolean;
+}
+
+/**
+ * BarChart component props
+ */
+export interface BarChartProps {
+  /** X axis labels (one per month) */
+  labels: string[];
+
+  /** Value per label; null draws no bar */
+  values: Array<number | null>;
+
+  /** CSS colour of the bars */
+  color: string;
+
+  /** Suffix for tooltip values (e.g., " days") */
+  unit?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * SVG coordinate system (scaled to the container width)
+ */
+const LAYOUT = {
+  WIDTH: 720,
+  HEIGHT: 240,
+  PADDING_LEFT: 44,
+  PADDING_RIGHT: 12,
+  PADDING_TOP: 12,
+  PADDING_BOTTOM: 28,
+  GRID_LINES: 4,
+} as const;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Round an axis maximum up to a multiple of the grid step
+ *
+ * @param {number} max - Largest value
+ * @param {number} minMax - Lowest allowed maximum
+ * @returns {number} Axis maximum divisible into GRID_LINES steps
+ */
+function niceMax(max: number, minMax: number): number {
+  const target = Math.max(max, minMax, 1);
+  const step = Math.pow(10, Math.floor(Math.log10(target / LAYOUT.GRID_LINES)));
+  const gridStep = Math.ceil(target / LAYOUT.GRID_LINES / step) * step;
+  return gridStep * LAYOUT.GRID_LINES;
+}
+
+/**
+ * Colour of the n-th employee line (golden-angle hue steps)
+ *
+ * @param {number} index - Series index
+ * @returns {string} CSS colour
+ */
+export function seriesColor(index: number): string {
+  return `oklch(0.6 0.15 ${(index * 137.5) % 360})`;
+}
+
+/**
+ * Shared plot geometry for a number of labels and an axis maximum
+ */
+function getPlot(labelCount: number, max: number) {
+  const plotWidth = LAYOUT.WIDTH - LAYOUT.PADDING_LEFT - LAYOUT.PADDING_RIGHT;
+  const plotHeight = LAYOUT.HEIGHT - LAYOUT.PADDING_TOP - LAYOUT.PADDING_BOTTOM;
+  const slot = plotWidth / Math.max(labelCount, 1);
+
+  return {
+    slot,
+    x: (index: number): number => LAYOUT.PADDING_LEFT + slot * (index + 0.5),
+    y: (value: number): number => LAYOUT.PADDING_TOP + plotHeight * (1 - value / max),
+  };
+}
+
+/**
+ * Horizontal grid lines with Y values, and X labels
+ */
+function Axes({
+  labels,
+  max,
+  unit,
+}: {
+  labels: string[];
+  max: number;
+  unit: string;
+}): React.JSX.Element {
+  const plot = getPlot(labels.length, max);
+  // Thin out X labels so they do not overlap
+  const labelEvery = Math.ceil(labels.length / 12);
+
+  return (
+    <g className="text-muted-foreground">
+      {Array.from({ length: LAYOUT.GRID_LINES + 1 }, (_, step) => {
+        const value = (max / LAYOUT.GRID_LINES) * step;
+        const y = plot.y(value);
+        return (
+          <g key={step}>
+            <line
+              x1={LAYOUT.PADDING_LEFT}
+              x2={LAYOUT.WIDTH - LAYOUT.PADDING_RIGHT}
+              y1={y}
+              y2={y}
+              stroke="currentColor"
+              strokeOpacity={0.15}
+            />
+            <text x={LAYOUT.PADDING_LEFT - 6} y={y + 4} textAnchor="end" fontSize={11} fill="currentColor">
+              {Number(value.toFixed(1))}{unit}
+            </text>
+          </g>
+        );
+      })}
+      {labels.map((label, index) =>
+        index % labelEvery === 0 ? (
+          <text
+            key={label}
+            x={plot.x(index)}
+            y={LAYOUT.HEIGHT - 8}
+            textAnchor="middle"
+            fontSize={11}
+            fill="currentColor"
+          >
+            {label}
+          </text>
+        ) : null
+      )}
+    </g>
+  );
+}
+
+// ============================================================================
+// CHART COMPONENTS
+// ============================================================================
+
+/**
+ * LineChart Component
+ *
+ * USAGE:
+ * ```tsx
+ * <LineChart labels={['Jan 2024', 'Feb 2024']} series={[{ name: 'Average', values: [82, 85], color: 'var(--chart-2)' }]} unit="%" />
+ * ```
+ */
+export function LineChart({
+  labels,
+  series,
+  unit = '',
+  minMax = 0,
+  showLegend = false,
+}: LineChartProps): React.JSX.Element {
+  const values = series.flatMap((line) => line.values.filter((value): value is number => value !== null));
+  const max = niceMax(Math.max(0, ...values), minMax);
+  const plot = getPlot(labels.length, max);
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${LAYOUT.WIDTH} ${LAYOUT.HEIGHT}`} className="h-auto w-full" role="img">
+        <Axes labels={labels} max={max} unit={unit} />
+
+        {series.map((line) => {
+          // Break the path at months without a value
+          const path = line.values
+            .map((value, index) => {
+              if (value === null) {
+                return '';
+              }
+              const command = index > 0 && line.values[index - 1] !== null ? 'L' : 'M';
+              return `${command}${plot.x(index).toFixed(1)},${plot.y(value).toFixed(1)}`;
+            })
+            .join(' ');
+
+          return (
+            <g key={line.name}>
+              <path d={path} fill="none" stroke={line.color} strokeWidth={2} />
+              {line.values.map((value, index) =>
+                value === null ? null : (
+                  <circle key={index} cx={plot.x(index)} cy={plot.y(value)} r={3} fill={line.color}>
+                    <title>{`${line.name} · ${labels[index]}: ${value.toFixed(1)}${unit}`}</title>
+                  </circle>
+                )
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {showLegend && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {series.map((line) => (
+            <span key={line.name} className="flex items-center gap-1">
+              <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: line.color }} />
+              {line.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * BarChart Component
+ *
+ * USAGE:
+ * ```tsx
+ * <BarChart labels={['Jan 2024', 'Feb 2024']} values={[12, 9]} color="var(--chart-1)" unit=" days" />
+ * ```
+ */
+export function BarChart({ labels, values, color, unit = '' }: BarChartProps): React.JSX.Element {
+  const max = niceMax(Math.max(0, ...values.filter((value): value is number => value !== null)), 0);
+  const plot = getPlot(labels.length, max);
+  const barWidth = plot.slot * 0.6;
+
+  return (
+    <svg viewBox={`0 0 ${LAYOUT.WIDTH} ${LAYOUT.HEIGHT}`} className="h-auto w-full" role="img">
+      <Axes labels={labels} max={max} unit="" />
+
+      {values.map((value, index) =>
+        value === null ? null : (
+          <rect
+            key={index}
+            x={plot.x(index) - barWidth / 2}
+            y={plot.y(value)}
+            width={barWidth}
+            height={plot.y(0) - plot.y(value)}
+            fill={color}
+            rx={2}
+          >
+            <title>{`${labels[index]}: ${value}${unit}`}</title>
+          </rect>
+        )
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Trend Range Select Component
+ *
+ * Client-side picker for the number of months shown on the trends page.
+ * The selection lives in the URL (`months`) next to `month` and the org
+ * filter, like the month selector.
+ *
+ * @module components/trends/trend-range-select
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TREND_MONTH_COUNTS, type TrendMonthCount } from '@/lib/trends';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface TrendRangeSelectProps {
+  /** Selected number of months */
+  count: TrendMonthCount;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * TrendRangeSelect Component
+ *
+ * USAGE:
+ * ```tsx
+ * <TrendRangeSelect count={12} />
+ * ```
+ */
+export function TrendRangeSelect({ count }: TrendRangeSelectProps): React.JSX.Element {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Select a range length, keeping the month and other params
+   */
+  const handleChange = useCallback(
+    (value: string): void => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set('months', value);
+      router.push(`${pathname}?${params.toString()}`);
+    },
+    [pathname, router, searchParams]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <Select value={String(count)} onValueChange={handleChange}>
+      <SelectTrigger className="w-[150px]" aria-label="Range">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TREND_MONTH_COUNTS.map((option) => (
+          <SelectItem key={option} value={String(option)}>Last {option} months</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -6,6 +6,10 @@ import { CheckIcon, ChevronDownIcon, ChevronUpIcon } from "lucide-react"
 
 import { cn } from "@/lib/utils"
 
+// Radix Select does not allow an empty item value, so the option standing for
+// "no selection" (no manager, all statuses, default layout, ...) uses this one
+const SELECT_NONE = "none"
+
 function Select({
   ...props
 }: React.ComponentProps<typeof SelectPrimitive.Root>) {
@@ -177,6 +181,7 @@ function SelectScrollDownButton({
 }
 
 export {
+  SELECT_NONE,
   Select,
   SelectContent,
   SelectGroup,
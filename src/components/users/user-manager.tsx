@@ -0,0 +1,423 @@
+/**
+ * User Manager Component
+ *
+ * Client-side administration of login accounts: create accounts, change
+ * roles and employee links, reset passwords, deactivate and delete.
+ *
+ * FEATURES:
+ * - Account table with inline role and employee selects
+ * - Password reset row per account
+ * - Activate / deactivate and delete
+ * - Creation form; team lead and employee accounts need an employee
+ * - The signed-in admin cannot demote, deactivate or delete themselves
+ *
+ * @module components/users/user-manager
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { KeyRound, Loader2, Plus, Power, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SELECT_NONE, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { requestJson } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+import {
+  MIN_PASSWORD_LENGTH,
+  USER_ROLES,
+  type UserRole,
+  type UserSummary,
+  type UserUpdateInput,
+} from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Component props interface
+ */
+export interface UserManagerProps {
+  /** All accounts, ordered by name */
+  users: UserSummary[];
+
+  /** Employees accounts can be linked to, ordered by name */
+  employees: Array<{ id: string; name: string }>;
+
+  /** Signed-in admin */
+  currentUserId: string;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * UserManager Component
+ *
+ * USAGE:
+ * ```tsx
+ * <UserManager users={users} employees={employees} currentUserId={user.id} />
+ * ```
+ */
+export function UserManager({ users, employees, currentUserId }: UserManagerProps): React.JSX.Element {
+  const router = useRouter();
+
+  const [name, setName] = useState<string>('');
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [role, setRole] = useState<UserRole>('EMPLOYEE');
+  const [employeeId, setEmployeeId] = useState<string>(SELECT_NONE);
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [resettingId, setResettingId] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState<string>('');
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+
+  /**
+   * Create an account
+   */
+  const handleCreate = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      setIsCreating(true);
+
+      try {
+        const { user } = await requestJson<{ user: UserSummary }>('/api/users', {
+          method: 'POST',
+          json: { name, email, password, role, employeeId: employeeId === SELECT_NONE ? null : employeeId },
+        });
+
+        toast.success('Account Created', { description: `${user.name} (${user.email})` });
+
+        setName('');
+        setEmail('');
+        setPassword('');
+        setEmployeeId(SELECT_NONE);
+        router.refresh();
+      } catch (error) {
+        console.error('[UserManager] Create error:', error);
+        toast.error('Could Not Create Account', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [email, employeeId, name, password, role, router]
+  );
+
+  /**
+   * Apply changes to an account
+   */
+  const handleUpdate = useCallback(
+    async (user: UserSummary, changes: Omit<UserUpdateInput, 'password'> | { password: string }): Promise<void> => {
+      setBusyId(user.id);
+
+      try {
+        await requestJson(`/api/users/${user.id}`, { method: 'PATCH', json: changes });
+
+        toast.success('Account Updated', { description: user.email });
+
+        setResettingId(null);
+        setNewPassword('');
+        router.refresh();
+      } catch (error) {
+        console.error('[UserManager] Update error:', error);
+        toast.error('Could Not Update Account', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [router]
+  );
+
+  /**
+   * Delete an account after confirmation
+   */
+  const handleDelete = useCallback(
+    async (user: UserSummary): Promise<void> => {
+      if (!window.confirm(`Delete the account of ${user.name} (${user.email})?`)) {
+        return;
+      }
+
+      setBusyId(user.id);
+
+      try {
+        await requestJson(`/api/users/${user.id}`, { method: 'DELETE' });
+
+        toast.success('Account Deleted', { description: user.email });
+        router.refresh();
+      } catch (error) {
+        console.error('[UserManager] Delete error:', error);
+        toast.error('Could Not Delete Account', {
+          description: error instanceof Error ? error.message : 'Unexpected error',
+        });
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [router]
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      {/* Account List */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+          <CardDescription>
+            Team leads see everyone reporting to them; employees see only themselves.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {users.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No accounts yet.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Last Login</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUserId;
+                    const isBusy = busyId === user.id;
+
+                    return (
+                      <React.Fragment key={user.id}>
+                        <TableRow className={cn(!user.active && 'text-muted-foreground')}>
+                          <TableCell className="font-medium">
+                            {user.name}
+                            {!user.active && (
+                              <Badge variant="secondary" className="ml-2">Inactive</Badge>
+                            )}
+                            <p className="text-xs font-normal text-muted-foreground">{user.email}</p>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={user.role}
+                              onValueChange={(value) => handleUpdate(user, { role: value as UserRole })}
+                              disabled={isSelf || isBusy}
+                            >
+                              <SelectTrigger className="w-[130px]" size="sm">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {USER_ROLES.map((option) => (
+                                  <SelectItem key={option.role} value={option.role}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={user.employeeId ?? SELECT_NONE}
+                              onValueChange={(value) =>
+                                handleUpdate(user, { employeeId: value === SELECT_NONE ? null : value })
+                              }
+                              disabled={isBusy}
+                            >
+                              <SelectTrigger className="w-[160px]" size="sm">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={SELECT_NONE}>Not linked</SelectItem>
+                                {employees.map((employee) => (
+                                  <SelectItem key={employee.id} value={employee.id}>{employee.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {user.lastLoginAt ? format(new Date(user.lastLoginAt), 'yyyy-MM-dd HH:mm') : '—'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <span className="flex justify-end gap-1">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => {
+                                  setResettingId(user.id);
+                                  setNewPassword('');
+                                }}
+                                disabled={isBusy}
+                                aria-label={`Reset password of ${user.name}`}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => handleUpdate(user, { active: !user.active })}
+                                disabled={isSelf || isBusy}
+                                aria-label={`${user.active ? 'Deactivate' : 'Activate'} ${user.name}`}
+                              >
+                                {isBusy ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Power className={cn('h-4 w-4', user.active ? 'text-green-600' : 'text-muted-foreground')} />
+                                )}
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => handleDelete(user)}
+                                disabled={isSelf || isBusy}
+                                aria-label={`Delete ${user.name}`}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-600" />
+                              </Button>
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                        {resettingId === user.id && (
+                          <TableRow className="bg-muted/50">
+                            <TableCell colSpan={5}>
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  type="password"
+                                  value={newPassword}
+                                  onChange={(event) => setNewPassword(event.target.value)}
+                                  placeholder={`New password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+                                  autoComplete="new-password"
+                                  aria-label="New password"
+                                />
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  onClick={() => handleUpdate(user, { password: newPassword })}
+                                  disabled={newPassword.length < MIN_PASSWORD_LENGTH || isBusy}
+                                >
+                                  <Save className="mr-2 h-4 w-4" />
+                                  Save
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setResettingId(null)}
+                                  disabled={isBusy}
+                                >
+                                  <X className="mr-2 h-4 w-4" />
+                                  Cancel
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Creation Form */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Account</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="user-name">Name</Label>
+              <Input id="user-name" value={name} onChange={(event) => setName(event.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-email">E-mail</Label>
+              <Input
+                id="user-email"
+                type="email"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-password">Initial Password</Label>
+              <Input
+                id="user-password"
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((option) => (
+                    <SelectItem key={option.role} value={option.role}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Employee</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SELECT_NONE}>Not linked</SelectItem>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>{employee.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Create Account
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
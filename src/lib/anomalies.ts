@@ -0,0 +1,373 @@
+/**
+ * Attendance Anomaly Rules, Detection & Review
+ *
+ * Rule-based detector for suspicious attendance days, run on the records
+ * produced by processMonthlyAttendance when a month is uploaded. Flagged
+ * days are stored as anomalies and reviewed by HR on the anomaly page.
+ *
+ * RULES:
+ * - IDENTICAL_PUNCH: a pair with the same In and Out time
+ * - LONG_DAY: more than 16 hours of punched time in one day
+ * - UNUSUAL_HOUR: a punch between 00:00 and 05:00 (not checked for
+ *   employees on a night shift)
+ * - SHORT_DAY: a PRESENT day with less than 15 minutes worked
+ * - INVERTED_PUNCH: a pair with Out before In outside a night shift
+ * - UNMATCHED_PUNCH: an In without an Out or the other way round
+ *
+ * REVIEW:
+ * - Anomalies start OPEN
+ * - ACCEPTED: the day is genuine and stays as recorded
+ * - CORRECTED: a correction of the record (PATCH /api/attendance/:id)
+ *   fixed it
+ * - DISMISSED: false alarm
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/anomalies
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import {
+  isOvernightShift,
+  parseTime,
+  type AttendanceStatus,
+  type ProcessedAttendanceRecord,
+  type ShiftRule,
+} from '@/lib/calculations';
+import { RequestValidationError, formatDateOnly, requireString } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Detector rule (mirrors the Prisma AnomalyRule enum)
+ */
+export type AnomalyRule =
+  | 'IDENTICAL_PUNCH'
+  | 'LONG_DAY'
+  | 'UNUSUAL_HOUR'
+  | 'SHORT_DAY'
+  | 'INVERTED_PUNCH'
+  | 'UNMATCHED_PUNCH';
+
+/**
+ * Review state (mirrors the Prisma AnomalyStatus enum)
+ */
+export type AnomalyStatus = 'OPEN' | 'ACCEPTED' | 'CORRECTED' | 'DISMISSED';
+
+/**
+ * Record fields the rules look at
+ */
+export type AnomalyCheckInput = Pick<
+  ProcessedAttendanceRecord,
+  'status' | 'workedHours' | 'breakDeductionHours' | 'punches' | 'unmatchedPunchCount' | 'invertedPunchCount'
+>;
+
+/**
+ * One rule that fired on a record
+ */
+export interface AnomalyFinding {
+  /** Rule that fired */
+  rule: AnomalyRule;
+
+  /** What was found, e.g. "Punch at 03:10" */
+  detail: string;
+}
+
+/**
+ * A finding on one employee's day, ready to be stored
+ */
+export interface DetectedAnomaly extends AnomalyFinding {
+  /** Employee ObjectId */
+  employeeId: string;
+
+  /** Day of the record (midnight) */
+  date: Date;
+}
+
+/**
+ * Validated accept/dismiss payload
+ */
+export interface AnomalyReviewInput {
+  /** Name of the person reviewing the anomaly */
+  reviewer: string;
+
+  /** Optional note recorded with the decision */
+  reviewNote: string | null;
+}
+
+/**
+ * Serializable anomaly representation for JSON responses and client components
+ */
+export interface AnomalySummary {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Flagged attendance record */
+  attendanceRecordId: string;
+
+  /** Employee ObjectId */
+  employeeId: string;
+
+  /** Employee name */
+  employeeName: string;
+
+  /** Day of the record (YYYY-MM-DD) */
+  date: string;
+
+  /** Rule that fired */
+  rule: AnomalyRule;
+
+  /** What was found */
+  detail: string;
+
+  /** Review state */
+  status: AnomalyStatus;
+
+  /** Person who accepted, corrected or dismissed the anomaly */
+  reviewer: string | null;
+
+  /** Note recorded with the review (the correction reason when corrected) */
+  reviewNote: string | null;
+
+  /** Review timestamp (ISO 8601) */
+  reviewedAt: string | null;
+
+  /** Current values of the flagged record */
+  record: {
+    status: AttendanceStatus;
+    inTime: string | null;
+    outTime: string | null;
+    workedHours: number;
+  };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Punched hours in one day above which the day is flagged
+ */
+export const MAX_PUNCHED_HOURS = 16;
+
+/**
+ * Worked minutes on a PRESENT day below which the day is flagged
+ */
+export const MIN_WORKED_MINUTES = 15;
+
+/**
+ * Hours of the night (from inclusive, to exclusive) in which a punch is
+ * flagged for employees not on a night shift
+ */
+export const UNUSUAL_PUNCH_HOURS = { from: 0, to: 5 } as const;
+
+/**
+ * Rules in display order with labels
+ */
+export const ANOMALY_RULES: ReadonlyArray<{ rule: AnomalyRule; label: string }> = [
+  { rule: 'IDENTICAL_PUNCH', label: 'In equals Out' },
+  { rule: 'LONG_DAY', label: `Over ${MAX_PUNCHED_HOURS} hours` },
+  { rule: 'UNUSUAL_HOUR', label: 'Night-time punch' },
+  { rule: 'SHORT_DAY', label: `Under ${MIN_WORKED_MINUTES} minutes` },
+  { rule: 'INVERTED_PUNCH', label: 'Out before In' },
+  { rule: 'UNMATCHED_PUNCH', label: 'Unmatched punch' },
+];
+
+/**
+ * Review states accepted as list filters
+ */
+export const ANOMALY_STATUSES: ReadonlyArray<AnomalyStatus> = ['OPEN', 'ACCEPTED', 'CORRECTED', 'DISMISSED'];
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Check whether a time falls in the flagged night hours
+ *
+ * @param {string} time - Time (HH:MM)
+ * @returns {boolean} True between 00:00 and 05:00
+ */
+function isUnusualHour(time: string): boolean {
+  const hours = parseTime(time);
+  return hours >= UNUSUAL_PUNCH_HOURS.from && hours < UNUSUAL_PUNCH_HOURS.to;
+}
+
+/**
+ * Run every rule on one attendance record
+ *
+ * @param {AnomalyCheckInput} record - Processed or corrected record values
+ * @param {ShiftRule | null} [shift=null] - Employee's shift (night shifts skip UNUSUAL_HOUR)
+ * @returns {AnomalyFinding[]} Rules that fired, at most one per rule
+ *
+ * @example
+ * detectRecordAnomalies({ status: 'PRESENT', workedHours: 0.03, ... })
+ * // Returns: [{ rule: 'SHORT_DAY', detail: '2 minutes worked' }]
+ */
+export function detectRecordAnomalies(
+  record: AnomalyCheckInput,
+  shift: ShiftRule | null = null
+): AnomalyFinding[] {
+  const findings: AnomalyFinding[] = [];
+
+  const identical = record.punches.find((punch) => punch.inTime !== null && punch.inTime === punch.outTime);
+  if (identical) {
+    findings.push({ rule: 'IDENTICAL_PUNCH', detail: `In and Out both at ${identical.inTime}` });
+  }
+
+  // Break deductions are added back: the rule is about time on the clock
+  const punchedHours = record.workedHours + record.breakDeductionHours;
+  if (punchedHours > MAX_PUNCHED_HOURS) {
+    findings.push({ rule: 'LONG_DAY', detail: `${punchedHours.toFixed(2)} hours punched` });
+  }
+
+  if (!shift || !isOvernightShift(shift)) {
+    const unusual = record.punches
+      .flatMap((punch) => [punch.inTime, punch.outTime])
+      .find((time): time is string => time !== null && isUnusualHour(time));
+    if (unusual) {
+      findings.push({ rule: 'UNUSUAL_HOUR', detail: `Punch at ${unusual}` });
+    }
+  }
+
+  const workedMinutes = Math.round(record.workedHours * 60);
+  if (
+    record.status === 'PRESENT' &&
+    record.workedHours > 0 &&
+    workedMinutes < MIN_WORKED_MINUTES
+  ) {
+    findings.push({ rule: 'SHORT_DAY', detail: `${workedMinutes} minute(s) worked` });
+  }
+
+  if (record.invertedPunchCount > 0) {
+    findings.push({ rule: 'INVERTED_PUNCH', detail: `${record.invertedPunchCount} pair(s) with Out before In` });
+  }
+
+  if (record.unmatchedPunchCount > 0) {
+    findings.push({ rule: 'UNMATCHED_PUNCH', detail: `${record.unmatchedPunchCount} punch(es) without a pair` });
+  }
+
+  return findings;
+}
+
+/**
+ * Run every rule on a processed month of one employee
+ *
+ * Intended to run on the output of processMonthlyAttendance before it is
+ * stored.
+ *
+ * @param {ProcessedAttendanceRecord[]} records - Processed records
+ * @param {ShiftRule | null} [shift=null] - Employee's shift
+ * @returns {DetectedAnomaly[]} Findings in record order
+ */
+export function detectAttendanceAnomalies(
+  records: ProcessedAttendanceRecord[],
+  shift: ShiftRule | null = null
+): DetectedAnomaly[] {
+  return records.flatMap((record) =>
+    detectRecordAnomalies(record, shift).map((finding) => ({
+      employeeId: record.employeeId,
+      date: record.date,
+      ...finding,
+    }))
+  );
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate an anomaly status filter
+ *
+ * @param {unknown} value - Raw value
+ * @returns {AnomalyStatus} Status
+ * @throws {RequestValidationError} If the value is not a known status
+ */
+export function parseAnomalyStatus(value: unknown): AnomalyStatus {
+  const match = ANOMALY_STATUSES.find((status) => status === value);
+  if (!match) {
+    throw new RequestValidationError(`status must be one of: ${ANOMALY_STATUSES.join(', ')}`, 'status');
+  }
+
+  return match;
+}
+
+/**
+ * Validate an accept/dismiss body
+ *
+ * Body shape: { note? }. The reviewer is the signed-in user, never taken
+ * from the body.
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {string} reviewer - Name of the signed-in user
+ * @returns {AnomalyReviewInput} Validated review
+ * @throws {RequestValidationError} If the note is invalid
+ */
+export function parseAnomalyReviewInput(body: Record<string, unknown>, reviewer: string): AnomalyReviewInput {
+  const note = body.note;
+
+  return {
+    reviewer,
+    reviewNote: note === undefined || note === null || note === '' ? null : requireString(note, 'note', 500),
+  };
+}
+
+// ============================================================================
+// FORMATTING & SERIALIZATION
+// ============================================================================
+
+/**
+ * Label of a rule for display
+ *
+ * @param {AnomalyRule} rule - Rule
+ * @returns {string} e.g. "Night-time punch"
+ */
+export function getAnomalyRuleLabel(rule: AnomalyRule): string {
+  return ANOMALY_RULES.find((option) => option.rule === rule)?.label ?? rule;
+}
+
+/**
+ * Convert a persisted anomaly into its serializable summary
+ *
+ * @param {object} anomaly - Prisma AttendanceAnomaly record with its employee and record
+ * @returns {AnomalySummary} JSON-safe summary
+ */
+export function toAnomalySummary(anomaly: {
+  id: string;
+  attendanceRecordId: string;
+  employeeId: string;
+  date: Date;
+  rule: AnomalyRule;
+  detail: string;
+  status: AnomalyStatus;
+  reviewer: string | null;
+  reviewNote: string | null;
+  reviewedAt: Date | null;
+  employee: { name: string };
+  attendanceRecord: AnomalySummary['record'];
+}): AnomalySummary {
+  return {
+    id: anomaly.id,
+    attendanceRecordId: anomaly.attendanceRecordId,
+    employeeId: anomaly.employeeId,
+    employeeName: anomaly.employee.name,
+    date: formatDateOnly(anomaly.date),
+    rule: anomaly.rule,
+    detail: anomaly.detail,
+    status: anomaly.status,
+    reviewer: anomaly.reviewer,
+    reviewNote: anomaly.reviewNote,
+    reviewedAt: anomaly.reviewedAt ? anomaly.reviewedAt.toISOString() : null,
+    record: {
+      status: anomaly.attendanceRecord.status,
+      inTime: anomaly.attendanceRecord.inTime,
+      outTime: anomaly.attendanceRecord.outTime,
+      workedHours: anomaly.attendanceRecord.workedHours,
+    },
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Anomaly Queries
+ *
+ * Replaces the stored anomalies of the months an upload or a rollback
+ * rewrites, carrying review decisions over to the new records. Shared by
+ * POST /api/upload and POST /api/import-batches/:id/rollback.
+ *
+ * SERVER ONLY: runs inside a Prisma transaction.
+ *
+ * @module lib/anomaly-queries
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import type { Prisma } from '@prisma/client';
+import { formatDateOnly } from '@/lib/validation';
+import type { DetectedAnomaly } from '@/lib/anomalies';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Review decisions keyed by "employeeId|YYYY-MM-DD|rule"
+ */
+export type AnomalyDecisions = Map<
+  string,
+  Pick<Prisma.AttendanceAnomalyCreateManyInput, 'status' | 'reviewer' | 'reviewNote' | 'reviewedAt'>
+>;
+
+/**
+ * Inclusive date range of a month (see getMonthWindow in lib/months)
+ */
+interface MonthWindow {
+  startDate: Date;
+  endDate: Date;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Remove the stored anomalies of a month, keeping their review decisions
+ *
+ * Must run before the month's records are deleted, since deleting a record
+ * cascades to its anomalies. Only accepted and dismissed decisions are
+ * kept; corrections are not, as the corrected record is being replaced.
+ *
+ * @param {Prisma.TransactionClient} tx - Open transaction
+ * @param {string[]} employeeIds - Employees whose month is replaced
+ * @param {MonthWindow} window - Month window
+ * @returns {Promise<AnomalyDecisions>} Decisions of the removed anomalies
+ */
+export async function takeAnomalyDecisions(
+  tx: Prisma.TransactionClient,
+  employeeIds: string[],
+  { startDate, endDate }: MonthWindow
+): Promise<AnomalyDecisions> {
+  const where = { employeeId: { in: employeeIds }, date: { gte: startDate, lte: endDate } };
+
+  const decided = await tx.attendanceAnomaly.findMany({
+    where: { ...where, status: { in: ['ACCEPTED', 'DISMISSED'] } },
+    select: { employeeId: true, date: true, rule: true, status: true, reviewer: true, reviewNote: true, reviewedAt: true },
+  });
+  await tx.attendanceAnomaly.deleteMany({ where });
+
+  return new Map(
+    decided.map(({ employeeId, date, rule, ...decision }) => [`${employeeId}|${formatDateOnly(date)}|${rule}`, decision])
+  );
+}
+
+/**
+ * Store the anomalies of a replaced month
+ *
+ * Must run after the month's records were inserted, since anomalies link
+ * to the new records. A decision carries over when the same rule fires on
+ * the same employee day again.
+ *
+ * @param {Prisma.TransactionClient} tx - Open transaction
+ * @param {string[]} employeeIds - Employees whose month was replaced
+ * @param {MonthWindow} window - Month window
+ * @param {DetectedAnomaly[]} detected - Findings of the month's records
+ * @param {AnomalyDecisions} decisions - Decisions taken before the records were replaced
+ * @returns {Promise<number>} Anomalies stored as OPEN
+ */
+export async function storeMonthAnomalies(
+  tx: Prisma.TransactionClient,
+  employeeIds: string[],
+  { startDate, endDate }: MonthWindow,
+  detected: DetectedAnomaly[],
+  decisions: AnomalyDecisions
+): Promise<number> {
+  const records = await tx.attendanceRecord.findMany({
+    where: { employeeId: { in: employeeIds }, date: { gte: startDate, lte: endDate } },
+    select: { id: true, employeeId: true, date: true },
+  });
+  const recordIdByDay = new Map(
+    records.map((record) => [`${record.employeeId}|${formatDateOnly(record.date)}`, record.id])
+  );
+
+  const data = detected.map((anomaly) => {
+    const day = `${anomaly.employeeId}|${formatDateOnly(anomaly.date)}`;
+    return {
+      ...anomaly,
+      attendanceRecordId: recordIdByDay.get(day)!,
+      ...decisions.get(`${day}|${anomaly.rule}`),
+    };
+  });
+
+  if (data.length > 0) {
+    await tx.attendanceAnomaly.createMany({ data });
+  }
+
+  return data.filter((anomaly) => anomaly.status === undefined).length;
+}
@@ -0,0 +1,60 @@
+/**
+ * Client-Side API Request Helper
+ *
+ * Thin wrapper around fetch for client components calling the JSON API
+ * routes. Unwraps the `{ success, error, details }` envelope and turns
+ * error responses into thrown Errors with a readable message, matching the
+ * error handling in FileUpload.
+ *
+ * @module lib/api-client
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+/**
+ * Error envelope returned by API routes
+ */
+interface ApiErrorBody {
+  success: false;
+  error: string;
+  details?: string;
+}
+
+/**
+ * Send a JSON request to an API route and return the parsed success body
+ *
+ * @template T - Expected success response shape
+ * @param {string} url - API route URL
+ * @param {Omit<RequestInit, 'body'> & { json?: unknown }} [init] - Fetch options; `json` is serialized as the body
+ * @returns {Promise<T>} Parsed success response
+ * @throws {Error} With "error: details" message when the response is not OK
+ *
+ * @example
+ * const { schedule } = await requestJson<{ schedule: WorkScheduleSummary }>(
+ *   '/api/work-schedules',
+ *   { method: 'POST', json: payload }
+ * );
+ */
+export async function requestJson<T>(
+  url: string,
+  init: Omit<RequestInit, 'body'> & { json?: unknown } = {}
+): Promise<T> {
+  const { json, headers, ...rest } = init;
+
+  const response = await fetch(url, {
+    ...rest,
+    headers: json !== undefined ? { 'Content-Type': 'application/json', ...headers } : headers,
+    body: json !== undefined ? JSON.stringify(json) : undefined,
+  });
+
+  const data = (await response.json()) as T | ApiErrorBody;
+
+  if (!response.ok) {
+    const errorData = data as ApiErrorBody;
+    throw new Error(
+      errorData.details ? `${errorData.error}: ${errorData.details}` : errorData.error
+    );
+  }
+
+  return data as T;
+}
@@ -0,0 +1,304 @@
+/**
+ * Read API Schema (v1)
+ *
+ * Response types, query parsing and serializers of the versioned read
+ * routes under /api/v1. The response interfaces are the contract for
+ * external consumers (e.g., payroll scripts): fields are only ever added
+ * within a version, never renamed or removed.
+ *
+ * CONVENTIONS:
+ * - Calendar dates are "YYYY-MM-DD" strings, timestamps ISO 8601
+ * - List responses carry a `pagination` block (see lib/pagination)
+ * - Errors use the shared `{ success: false, error, details }` envelope
+ * - Every route requires a session (401 otherwise) and only returns the
+ *   employees the caller may see (lib/users employee scope)
+ *
+ * @module lib/api-v1
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { endOfDay } from 'date-fns';
+import { formatDateOnly, parseDateOnly, RequestValidationError } from '@/lib/validation';
+import { ATTENDANCE_STATUSES, type AttendanceStatus } from '@/lib/calculations';
+import type { PaginationInfo } from '@/lib/pagination';
+import type { CompanyMetrics, EmployeeMetrics } from '@/lib/monthly-report';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type { AttendanceStatus };
+
+/**
+ * Employee resource
+ */
+export interface ApiEmployee {
+  id: string;
+  name: string;
+
+  /** Employee code from the HR system (null when not set) */
+  employeeCode: string | null;
+
+  /** Department, team and manager ObjectIds (null when unassigned) */
+  departmentId: string | null;
+  teamId: string | null;
+  managerId: string | null;
+
+  /** Shift ObjectId (null when the employee has no shift) */
+  shiftId: string | null;
+
+  /** First and last day of employment, YYYY-MM-DD (null when open) */
+  employmentStartDate: string | null;
+  employmentEndDate: string | null;
+
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/**
+ * One IN/OUT punch pair of an attendance record
+ */
+export interface ApiPunch {
+  /** Check-in time, or null if the OUT has no matching IN */
+  inTime: string | null;
+
+  /** Check-out time, or null if the IN has no matching OUT */
+  outTime: string | null;
+
+  /** Hours covered by the pair (0 for unmatched punches) */
+  hours: number;
+}
+
+/**
+ * Attendance record resource
+ */
+export interface ApiAttendanceRecord {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+
+  /** Calendar date (YYYY-MM-DD) */
+  date: string;
+
+  status: AttendanceStatus;
+
+  /** First check-in of the day */
+  inTime: string | null;
+
+  /** Last check-out of the day */
+  outTime: string | null;
+
+  punches: ApiPunch[];
+
+  /** Worked hours after the unpaid break deduction */
+  workedHours: number;
+
+  breakDeductionHours: number;
+  unmatchedPunchCount: number;
+
+  /** Pairs with OUT before IN outside a night shift (flagged, no hours) */
+  invertedPunchCount: number;
+
+  /** Minutes late against the employee's shift (0 = on time or no shift) */
+  lateMinutes: number;
+
+  /** Minutes left before the shift end (0 = on time or no shift) */
+  earlyDepartureMinutes: number;
+}
+
+/**
+ * GET /api/v1/metrics
+ */
+export interface MetricsResponse {
+  success: true;
+
+  /** Reported month (YYYY-MM) */
+  month: string;
+
+  /** Metrics over every employee the caller may see within the org filter (not just this page) */
+  company: CompanyMetrics;
+
+  /** Per-employee metrics, alphabetical */
+  employees: EmployeeMetrics[];
+
+  pagination: PaginationInfo;
+}
+
+/**
+ * GET /api/v1/employees
+ */
+export interface EmployeeListResponse {
+  success: true;
+  employees: ApiEmployee[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * GET /api/v1/attendance and GET /api/v1/employees/:id/attendance
+ */
+export interface AttendanceListResponse {
+  success: true;
+
+  /** Applied date range (inclusive, YYYY-MM-DD) */
+  from: string;
+  to: string;
+
+  records: ApiAttendanceRecord[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * Inclusive date range of an attendance query
+ */
+export interface DateRange {
+  /** Start of the first day */
+  from: Date;
+
+  /** End of the last day */
+  to: Date;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Longest accepted date range for attendance queries (days)
+ */
+export const MAX_ATTENDANCE_RANGE_DAYS = 366;
+
+// ============================================================================
+// QUERY PARSING
+// ============================================================================
+
+/**
+ * Validate a comma-separated status filter (e.g., "ABSENT,HOLIDAY")
+ *
+ * @param {string | null} value - Raw search param value
+ * @returns {AttendanceStatus[] | undefined} Statuses, or undefined when not filtering
+ * @throws {RequestValidationError} If any status is unknown
+ */
+export function parseStatusFilter(value: string | null): AttendanceStatus[] | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+
+  return value.split(',').map((entry) => {
+    const match = ATTENDANCE_STATUSES.find((status) => status === entry.trim().toUpperCase());
+    if (!match) {
+      throw new RequestValidationError(
+        `status must be one or more of: ${ATTENDANCE_STATUSES.join(', ')}`,
+        'status'
+      );
+    }
+
+    return match;
+  });
+}
+
+/**
+ * Validate the `from` / `to` search params of an attendance query
+ *
+ * Both dates are inclusive. A missing bound falls back to the default
+ * range, so `?from=2024-01-01` alone runs to the default end.
+ *
+ * @param {string | null} from - Raw `from` value (YYYY-MM-DD)
+ * @param {string | null} to - Raw `to` value (YYYY-MM-DD)
+ * @param {DateRange} defaults - Range used for missing bounds
+ * @returns {DateRange} Validated range, `to` at the end of its day
+ * @throws {RequestValidationError} If a date is malformed, reversed or the range too long
+ */
+export function parseDateRange(from: string | null, to: string | null, defaults: DateRange): DateRange {
+  const start = from ? parseDateOnly(from, 'from') : defaults.from;
+  const end = to ? endOfDay(parseDateOnly(to, 'to')) : defaults.to;
+
+  if (end < start) {
+    throw new RequestValidationError('to must be on or after from', 'to');
+  }
+
+  if (end.getTime() - start.getTime() > MAX_ATTENDANCE_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new RequestValidationError(
+      `Date range must not exceed ${MAX_ATTENDANCE_RANGE_DAYS} days`,
+      'to'
+    );
+  }
+
+  return { from: start, to: end };
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted employee into its API resource
+ *
+ * @param {object} employee - Prisma Employee record
+ * @returns {ApiEmployee} JSON-safe resource
+ */
+export function toApiEmployee(employee: {
+  id: string;
+  name: string;
+  employeeCode: string | null;
+  departmentId: string | null;
+  teamId: string | null;
+  managerId: string | null;
+  shiftId: string | null;
+  employmentStartDate: Date | null;
+  employmentEndDate: Date | null;
+  createdAt: Date;
+}): ApiEmployee {
+  return {
+    id: employee.id,
+    name: employee.name,
+    employeeCode: employee.employeeCode,
+    departmentId: employee.departmentId,
+    teamId: employee.teamId,
+    managerId: employee.managerId,
+    shiftId: employee.shiftId,
+    employmentStartDate: employee.employmentStartDate && formatDateOnly(employee.employmentStartDate),
+    employmentEndDate: employee.employmentEndDate && formatDateOnly(employee.employmentEndDate),
+    createdAt: employee.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a persisted attendance record into its API resource
+ *
+ * @param {object} record - Prisma AttendanceRecord with its employee
+ * @returns {ApiAttendanceRecord} JSON-safe resource
+ */
+export function toApiAttendanceRecord(record: {
+  id: string;
+  employeeId: string;
+  date: Date;
+  status: AttendanceStatus;
+  inTime: string | null;
+  outTime: string | null;
+  punches: ApiPunch[];
+  workedHours: number;
+  breakDeductionHours: number;
+  unmatchedPunchCount: number;
+  invertedPunchCount: number;
+  lateMinutes: number;
+  earlyDepartureMinutes: number;
+  employee: { name: string };
+}): ApiAttendanceRecord {
+  return {
+    id: record.id,
+    employeeId: record.employeeId,
+    employeeName: record.employee.name,
+    date: formatDateOnly(record.date),
+    status: record.status,
+    inTime: record.inTime,
+    outTime: record.outTime,
+    punches: record.punches.map(({ inTime, outTime, hours }) => ({ inTime, outTime, hours })),
+    workedHours: record.workedHours,
+    breakDeductionHours: record.breakDeductionHours,
+    unmatchedPunchCount: record.unmatchedPunchCount,
+    invertedPunchCount: record.invertedPunchCount,
+    lateMinutes: record.lateMinutes,
+    earlyDepartureMinutes: record.earlyDepartureMinutes,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * API Route Response Helpers
+ *
+ * Shared response shapes and error-to-status mapping for the JSON API routes.
+ * Keeps every endpoint consistent with the `{ success, error, details }`
+ * envelope established by POST /api/upload.
+ *
+ * STATUS MAPPING:
+ * - RequestValidationError → 400
+ * - AuthenticationError (no valid session) → 401
+ * - PermissionDeniedError (role or employee scope) → 403
+ * - RecordNotFoundError / Prisma P2025 (record to update not found) → 404
+ * - RecordConflictError / Prisma P2002 (unique constraint violation) → 409
+ * - Anything else → 500
+ *
+ * @module lib/api
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { RequestValidationError } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * API response structure for errors
+ */
+export interface ApiErrorResponse {
+  success: false;
+  error: string;
+  details?: string;
+}
+
+// ============================================================================
+// CUSTOM ERROR CLASSES
+// ============================================================================
+
+/**
+ * Error thrown when a requested record does not exist
+ */
+export class RecordNotFoundError extends Error {
+  /**
+   * @param {string} entity - Human-readable entity name (e.g., "Work schedule")
+   * @param {string} id - Identifier that was looked up
+   */
+  constructor(entity: string, public readonly id: string) {
+    super(`${entity} not found: ${id}`);
+    this.name = 'RecordNotFoundError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RecordNotFoundError);
+    }
+  }
+}
+
+/**
+ * Error thrown when a request conflicts with the current state of a record
+ * (e.g., deciding a leave request that was already decided)
+ */
+export class RecordConflictError extends Error {
+  /**
+   * @param {string} message - Error description
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordConflictError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RecordConflictError);
+    }
+  }
+}
+
+/**
+ * Error thrown when a request has no valid session
+ */
+export class AuthenticationError extends Error {
+  /**
+   * @param {string} [message] - Error description
+   */
+  constructor(message = 'Sign in to continue') {
+    super(message);
+    this.name = 'AuthenticationError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, AuthenticationError);
+    }
+  }
+}
+
+/**
+ * Error thrown when the signed-in user's role or employee scope does not
+ * allow the request
+ */
+export class PermissionDeniedError extends Error {
+  /**
+   * @param {string} [message] - Error description
+   */
+  constructor(message = 'You do not have permission to perform this action') {
+    super(message);
+    this.name = 'PermissionDeniedError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, PermissionDeniedError);
+    }
+  }
+}
+
+// ============================================================================
+// RESPONSE HELPERS
+// ============================================================================
+
+/**
+ * Build a JSON error response
+ *
+ * @param {number} status - HTTP status code
+ * @param {string} error - Short error summary
+ * @param {string} [details] - Additional context for the client
+ * @returns {NextResponse<ApiErrorResponse>} JSON error response
+ */
+export function jsonError(
+  status: number,
+  error: string,
+  details?: string
+): NextResponse<ApiErrorResponse> {
+  return NextResponse.json({ success: false, error, details }, { status });
+}
+
+/**
+ * Map a thrown error to an appropriate JSON error response
+ *
+ * Logs the error with the given scope prefix, then converts known error
+ * types to client errors. Unknown errors become 500 responses.
+ *
+ * @param {unknown} error - Caught error
+ * @param {string} scope - Log prefix identifying the route (e.g., "WorkSchedules")
+ * @returns {NextResponse<ApiErrorResponse>} JSON error response
+ */
+export function handleApiError(error: unknown, scope: string): NextResponse<ApiErrorResponse> {
+  console.error(`[${scope}] Request failed:`, error);
+
+  if (error instanceof RequestValidationError) {
+    return jsonError(400, 'Validation error', error.message);
+  }
+
+  if (error instanceof AuthenticationError) {
+    return jsonError(401, 'Unauthorized', error.message);
+  }
+
+  if (error instanceof PermissionDeniedError) {
+    return jsonError(403, 'Forbidden', error.message);
+  }
+
+  if (error instanceof RecordNotFoundError) {
+    return jsonError(404, 'Not found', error.message);
+  }
+
+  if (error instanceof RecordConflictError) {
+    return jsonError(409, 'Conflict', error.message);
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2002') {
+      return jsonError(409, 'Conflict', 'A record with the same unique value already exists');
+    }
+
+    if (error.code === 'P2025') {
+      return jsonError(404, 'Not found', 'The requested record does not exist');
+    }
+  }
+
+  return jsonError(
+    500,
+    'Internal server error',
+    error instanceof Error ? error.message : 'Unknown error occurred'
+  );
+}
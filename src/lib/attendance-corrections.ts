@@ -0,0 +1,381 @@
+/**
+ * Attendance Corrections
+ *
+ * Validation and recalculation for manual corrections of a single
+ * attendance record, plus serialization of the audit log kept for every
+ * correction. Shared by PATCH /api/attendance/:id and the employee page.
+ *
+ * CORRECTION RULES:
+ * - inTime, outTime and status can be corrected; a reason is required and
+ *   the signed-in user is recorded as the editor
+ * - Setting a time without a status makes the day PRESENT
+ * - A PRESENT day needs both times; a corrected inTime replaces the first
+ *   IN and a corrected outTime the last OUT of the stored punches, the other
+ *   punches and their breaks are kept, and worked hours are recomputed from
+ *   them (calculatePunchHours) with the unpaid break rule of the schedule in
+ *   effect on that date
+ * - WORK_FROM_HOME, ON_DUTY and HALF_DAY days take both times or none;
+ *   without times WORK_FROM_HOME and ON_DUTY are credited the day's
+ *   expected hours (see ATTENDANCE_STATUS_RULES)
+ * - outTime may only precede inTime for an employee on a night shift;
+ *   otherwise the times are rejected as inverted
+ * - Late arrival and early departure are recomputed against the employee's
+ *   shift (calculateShiftPunctuality) on PRESENT days
+ * - Any other status (LEAVE, ABSENT, WEEKEND, HOLIDAY) clears the times
+ *   and worked hours
+ *
+ * @module lib/attendance-corrections
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import {
+  ATTENDANCE_STATUSES,
+  ATTENDANCE_STATUS_RULES,
+  calculatePunchHours,
+  calculateShiftPunctuality,
+  getExpectedHours,
+  resolveWorkSchedule,
+  type AttendanceProcessingOptions,
+  type AttendanceStatus,
+  type ProcessedPunch,
+  type PunchInput,
+} from '@/lib/calculations';
+import { formatDateOnly, requireString, RequestValidationError } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Validated correction body
+ *
+ * Omitted fields keep their current value; null clears a time.
+ */
+export interface AttendanceCorrectionInput {
+  inTime?: string | null;
+  outTime?: string | null;
+  status?: AttendanceStatus;
+
+  /** Why the record is corrected */
+  reason: string;
+
+  /** Name of the signed-in user making the correction */
+  editor: string;
+}
+
+/**
+ * Editable values of a record at one point in time
+ *
+ * Structurally compatible with the Prisma AttendanceSnapshot composite type.
+ */
+export interface AttendanceSnapshot {
+  inTime: string | null;
+  outTime: string | null;
+  status: AttendanceStatus;
+  workedHours: number;
+  punches: ProcessedPunch[];
+}
+
+/**
+ * Stored fields of a record that a correction rewrites
+ */
+export interface CorrectedAttendanceFields extends AttendanceSnapshot {
+  breakDeductionHours: number;
+  unmatchedPunchCount: number;
+  invertedPunchCount: number;
+  lateMinutes: number;
+  earlyDepartureMinutes: number;
+}
+
+/**
+ * Serializable audit log entry
+ */
+export interface AttendanceAuditSummary {
+  id: string;
+
+  /** Corrected record, or null once it was replaced by a re-upload */
+  attendanceRecordId: string | null;
+
+  employeeId: string;
+  employeeName: string;
+
+  /** Date of the corrected record (YYYY-MM-DD) */
+  date: string;
+
+  before: AttendanceSnapshot;
+  after: AttendanceSnapshot;
+  reason: string;
+  editor: string;
+
+  /** ISO timestamp of the correction */
+  createdAt: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Corrected times must be 24-hour "HH:MM" (the format of <input type="time">)
+ */
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Longest accepted correction reason
+ */
+const MAX_REASON_LENGTH = 500;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Validate an optional, nullable "HH:MM" time
+ *
+ * @param {unknown} value - Raw value
+ * @param {string} field - Field name used in error messages
+ * @returns {string | null | undefined} Time, null to clear, undefined when omitted
+ * @throws {RequestValidationError} If the value is not a valid time
+ */
+function parseOptionalTime(value: unknown, field: string): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value === null || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'string' || !TIME_PATTERN.test(value.trim())) {
+    throw new RequestValidationError(`${field} must be a time in HH:MM format`, field);
+  }
+
+  return value.trim();
+}
+
+/**
+ * Validate a correction request body
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON body
+ * @param {string} editor - Name of the signed-in user making the correction
+ * @returns {AttendanceCorrectionInput} Validated correction
+ * @throws {RequestValidationError} If a field is invalid, the reason is
+ *   missing or nothing is corrected
+ */
+export function parseAttendanceCorrectionInput(
+  body: Record<string, unknown>,
+  editor: string
+): AttendanceCorrectionInput {
+  const input: AttendanceCorrectionInput = {
+    inTime: parseOptionalTime(body.inTime, 'inTime'),
+    outTime: parseOptionalTime(body.outTime, 'outTime'),
+    reason: requireString(body.reason, 'reason', MAX_REASON_LENGTH),
+    editor,
+  };
+
+  if (body.status !== undefined) {
+    const status = ATTENDANCE_STATUSES.find((candidate) => candidate === body.status);
+    if (!status) {
+      throw new RequestValidationError(`status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`, 'status');
+    }
+    input.status = status;
+  }
+
+  if (input.inTime === undefined && input.outTime === undefined && input.status === undefined) {
+    throw new RequestValidationError('Provide inTime, outTime or status to correct');
+  }
+
+  return input;
+}
+
+// ============================================================================
+// RECALCULATION
+// ============================================================================
+
+/**
+ * Capture the editable values of a record
+ *
+ * @param {AttendanceSnapshot} record - Record (extra fields are ignored)
+ * @returns {AttendanceSnapshot} Snapshot
+ */
+export function toAttendanceSnapshot(record: AttendanceSnapshot): AttendanceSnapshot {
+  return {
+    inTime: record.inTime,
+    outTime: record.outTime,
+    status: record.status,
+    workedHours: record.workedHours,
+    punches: record.punches.map(({ inTime, outTime, hours }) => ({ inTime, outTime, hours })),
+  };
+}
+
+/**
+ * Punch pairs of a corrected day
+ *
+ * The corrected times replace the first IN and the last OUT of the stored
+ * punches, so the pairs in between (and the breaks they record) survive a
+ * correction. A day without stored times gets a single pair.
+ *
+ * @param {AttendanceSnapshot} record - Current record values
+ * @param {string} inTime - Corrected first check-in
+ * @param {string} outTime - Corrected last check-out
+ * @returns {PunchInput[]} Punch pairs to recompute worked time from
+ */
+function correctPunches(record: AttendanceSnapshot, inTime: string, outTime: string): PunchInput[] {
+  const punches: PunchInput[] = record.punches.map((punch) => ({ inTime: punch.inTime, outTime: punch.outTime }));
+  const firstIn = punches.findIndex((punch) => punch.inTime !== null && punch.inTime === record.inTime);
+  let lastOut = -1;
+  punches.forEach((punch, index) => {
+    if (punch.outTime !== null && punch.outTime === record.outTime) {
+      lastOut = index;
+    }
+  });
+
+  if (firstIn === -1 || lastOut === -1) {
+    return [{ inTime, outTime }];
+  }
+
+  punches[firstIn].inTime = inTime;
+  punches[lastOut].outTime = outTime;
+  return punches;
+}
+
+/**
+ * Apply a correction to a record and recompute its worked time
+ *
+ * A status-only edit keeps the stored punches as they are.
+ *
+ * @param {AttendanceSnapshot & { date: Date }} record - Current record values
+ * @param {AttendanceCorrectionInput} input - Validated correction
+ * @param {AttendanceProcessingOptions} rules - Schedule history, holidays, employment and shift of the employee
+ * @returns {CorrectedAttendanceFields} New stored values
+ * @throws {RequestValidationError} If the result is inconsistent or unchanged
+ */
+export function applyAttendanceCorrection(
+  record: AttendanceSnapshot & { date: Date },
+  input: AttendanceCorrectionInput,
+  rules: AttendanceProcessingOptions
+): CorrectedAttendanceFields {
+  const givesTime = Boolean(input.inTime || input.outTime);
+  const status = input.status ?? (givesTime ? 'PRESENT' : record.status);
+  const rule = ATTENDANCE_STATUS_RULES[status];
+  const inTime = input.inTime !== undefined ? input.inTime : record.inTime;
+  const outTime = input.outTime !== undefined ? input.outTime : record.outTime;
+
+  let corrected: CorrectedAttendanceFields;
+
+  if (rule.allowsTimes && status !== 'PRESENT' && !inTime && !outTime) {
+    corrected = {
+      inTime: null,
+      outTime: null,
+      status,
+      workedHours: rule.creditsExpectedHours ? getExpectedHours(record.date, rules) : 0,
+      punches: [],
+      breakDeductionHours: 0,
+      unmatchedPunchCount: 0,
+      invertedPunchCount: 0,
+      lateMinutes: 0,
+      earlyDepartureMinutes: 0,
+    };
+  } else if (rule.allowsTimes) {
+    if (!inTime || !outTime) {
+      throw new RequestValidationError(
+        `inTime and outTime are both required for a ${status} day with times`,
+        inTime ? 'outTime' : 'inTime'
+      );
+    }
+
+    const summary = calculatePunchHours(
+      correctPunches(record, inTime, outTime),
+      resolveWorkSchedule(record.date, rules.schedules ?? []),
+      rules.shift ?? null
+    );
+    if (summary.invertedPunchCount > 0) {
+      throw new RequestValidationError(
+        'outTime must be after inTime unless the employee works a night shift',
+        'outTime'
+      );
+    }
+
+    const punctuality = calculateShiftPunctuality(
+      record.date,
+      inTime,
+      outTime,
+      status === 'PRESENT' ? rules.shift ?? null : null,
+      rules
+    );
+    corrected = {
+      inTime,
+      outTime,
+      status,
+      workedHours: summary.workedHours,
+      punches: summary.punches,
+      breakDeductionHours: summary.breakDeductionHours,
+      unmatchedPunchCount: summary.unmatchedPunchCount,
+      invertedPunchCount: 0,
+      lateMinutes: punctuality.lateMinutes,
+      earlyDepartureMinutes: punctuality.earlyDepartureMinutes,
+    };
+  } else {
+    if (givesTime) {
+      throw new RequestValidationError(`Times cannot be set on a ${status} day`, 'status');
+    }
+
+    corrected = {
+      inTime: null,
+      outTime: null,
+      status,
+      workedHours: 0,
+      punches: [],
+      breakDeductionHours: 0,
+      unmatchedPunchCount: 0,
+      invertedPunchCount: 0,
+      lateMinutes: 0,
+      earlyDepartureMinutes: 0,
+    };
+  }
+
+  const before = toAttendanceSnapshot(record);
+  const after = toAttendanceSnapshot(corrected);
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    throw new RequestValidationError('The correction does not change the record');
+  }
+
+  return corrected;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted audit entry into its serializable summary
+ *
+ * @param {object} audit - Prisma AttendanceAudit record with its employee
+ * @returns {AttendanceAuditSummary} JSON-safe summary
+ */
+export function toAttendanceAuditSummary(audit: {
+  id: string;
+  attendanceRecordId: string | null;
+  employeeId: string;
+  date: Date;
+  before: AttendanceSnapshot;
+  after: AttendanceSnapshot;
+  reason: string;
+  editor: string;
+  createdAt: Date;
+  employee: { name: string };
+}): AttendanceAuditSummary {
+  return {
+    id: audit.id,
+    attendanceRecordId: audit.attendanceRecordId,
+    employeeId: audit.employeeId,
+    employeeName: audit.employee.name,
+    date: formatDateOnly(audit.date),
+    before: toAttendanceSnapshot(audit.before),
+    after: toAttendanceSnapshot(audit.after),
+    reason: audit.reason,
+    editor: audit.editor,
+    createdAt: audit.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * Authentication & Authorization
+ *
+ * Local credential login with a signed session cookie, plus the guards that
+ * route handlers and server components use to enforce roles and employee
+ * scope.
+ *
+ * SESSIONS:
+ * - Passwords are hashed with scrypt and a random salt per user
+ * - The session cookie holds the user id and an expiry, signed with
+ *   HMAC-SHA256 using the AUTH_SECRET environment variable
+ * - The user is reloaded on every request, so role changes and
+ *   deactivation take effect immediately
+ *
+ * SERVER ONLY: imports the Prisma client and node:crypto.
+ *
+ * @module lib/auth
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { AuthenticationError, PermissionDeniedError } from '@/lib/api';
+import { hasRole, type EmployeeScope, type SessionUser, type UserRole } from '@/lib/users';
+import { collectReportingTree } from '@/lib/org-chart';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Name of the session cookie
+ */
+export const SESSION_COOKIE_NAME = 'lpa_session';
+
+/**
+ * Session lifetime (seconds)
+ */
+const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+
+/**
+ * scrypt derived key length (bytes)
+ */
+const KEY_LENGTH = 64;
+
+/**
+ * Shortest accepted AUTH_SECRET
+ */
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Hash compared against when the e-mail is unknown, so a failed login takes
+ * as long whether or not the account exists
+ */
+const DUMMY_PASSWORD_HASH = `scrypt$${'0'.repeat(32)}$${'0'.repeat(KEY_LENGTH * 2)}`;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+// ============================================================================
+// PASSWORD HASHING
+// ============================================================================
+
+/**
+ * Hash a password for storage
+ *
+ * @param {string} password - Plain-text password
+ * @returns {Promise<string>} "scrypt$<salt>$<hash>" (hex encoded)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash
+ *
+ * @param {string} password - Plain-text password
+ * @param {string} storedHash - Hash produced by hashPassword
+ * @returns {Promise<boolean>} True if the password matches
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+
+  return timingSafeEqual(actual, expected);
+}
+
+// ============================================================================
+// SESSION TOKENS
+// ============================================================================
+
+/**
+ * Read the signing secret from the environment
+ *
+ * @returns {string} AUTH_SECRET
+ * @throws {Error} If AUTH_SECRET is missing or too short
+ */
+function getSessionSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`AUTH_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters`);
+  }
+
+  return secret;
+}
+
+/**
+ * Sign a token payload
+ *
+ * @param {string} payload - "<userId>.<expiresAt>"
+ * @returns {string} Base64url HMAC-SHA256 signature
+ */
+function signPayload(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Create a session token for a user
+ *
+ * @param {string} userId - User ObjectId
+ * @param {Date} [now=new Date()] - Issue time
+ * @returns {string} "<userId>.<expiresAt>.<signature>"
+ */
+export function createSessionToken(userId: string, now: Date = new Date()): string {
+  const expiresAt = Math.floor(now.getTime() / 1000) + SESSION_MAX_AGE_SECONDS;
+  const payload = `${userId}.${expiresAt}`;
+
+  return `${payload}.${signPayload(payload)}`;
+}
+
+/**
+ * Verify a session token
+ *
+ * @param {string} token - Cookie value
+ * @param {Date} [now=new Date()] - Current time
+ * @returns {string | null} User ObjectId, or null if forged, malformed or expired
+ */
+export function readSessionToken(token: string, now: Date = new Date()): string | null {
+  const [userId, expiresAt, signature] = token.split('.');
+  if (!userId || !expiresAt || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(signPayload(`${userId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  if (Number(expiresAt) * 1000 <= now.getTime()) {
+    return null;
+  }
+
+  return userId;
+}
+
+// ============================================================================
+// LOGIN & LOGOUT
+// ============================================================================
+
+/**
+ * Check credentials and start a session
+ *
+ * Must be called from a route handler (sets a cookie).
+ *
+ * @param {string} email - Lowercase e-mail address
+ * @param {string} password - Plain-text password
+ * @returns {Promise<SessionUser>} Signed-in user
+ * @throws {AuthenticationError} If the credentials are wrong or the account is inactive
+ */
+export async function logIn(email: string, password: string): Promise<SessionUser> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  const matches = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+
+  if (!user || !matches || !user.active) {
+    throw new AuthenticationError('Invalid e-mail or password');
+  }
+
+  await startSession(user.id);
+  await prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+
+  return toSessionUser(user);
+}
+
+/**
+ * Set the session cookie for a user
+ *
+ * Must be called from a route handler.
+ *
+ * @param {string} userId - User ObjectId
+ * @returns {Promise<void>}
+ */
+export async function startSession(userId: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, createSessionToken(userId), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+/**
+ * Clear the session cookie
+ *
+ * Must be called from a route handler.
+ *
+ * @returns {Promise<void>}
+ */
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+// ============================================================================
+// CURRENT USER
+// ============================================================================
+
+/**
+ * Reduce a persisted user to the session shape
+ *
+ * @param {SessionUser} user - Prisma User record (extra fields are ignored)
+ * @returns {SessionUser} Session user
+ */
+function toSessionUser(user: SessionUser): SessionUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    employeeId: user.employeeId,
+  };
+}
+
+/**
+ * Load the signed-in user of the current request
+ *
+ * Cached per request, so a page and its helpers share one lookup.
+ *
+ * @returns {Promise<SessionUser | null>} Active user, or null when signed out
+ */
+export const getCurrentUser = cache(async (): Promise<SessionUser | null> => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const userId = token ? readSessionToken(token) : null;
+
+  if (!userId) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  return user && user.active ? toSessionUser(user) : null;
+});
+
+/**
+ * Require a signed-in user in a route handler
+ *
+ * @param {readonly UserRole[]} [roles] - Allowed roles; any role when omitted
+ * @returns {Promise<SessionUser>} Signed-in user
+ * @throws {AuthenticationError} If nobody is signed in (401)
+ * @throws {PermissionDeniedError} If the user's role is not allowed (403)
+ */
+export async function requireApiUser(roles?: readonly UserRole[]): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new AuthenticationError();
+  }
+
+  if (roles && !hasRole(user, roles)) {
+    throw new PermissionDeniedError();
+  }
+
+  return user;
+}
+
+/**
+ * Require a signed-in user in a server component
+ *
+ * Redirects to the login page when signed out, and to the dashboard when
+ * the user's role is not allowed.
+ *
+ * @param {readonly UserRole[]} [roles] - Allowed roles; any role when omitted
+ * @returns {Promise<SessionUser>} Signed-in user
+ */
+export async function requirePageUser(roles?: readonly UserRole[]): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  if (roles && !hasRole(user, roles)) {
+    redirect('/');
+  }
+
+  return user;
+}
+
+// ============================================================================
+// EMPLOYEE SCOPE
+// ============================================================================
+
+/**
+ * Resolve the employees a user may see
+ *
+ * - ADMIN, HR_MANAGER: everyone (null)
+ * - TEAM_LEAD: their own employee and everyone below it in the reporting line
+ * - EMPLOYEE: their own employee
+ *
+ * Users without a linked employee outside the first group see nobody.
+ *
+ * @param {SessionUser} user - Signed-in user
+ * @returns {Promise<EmployeeScope>} Visible employee ids, or null for everyone
+ */
+export async function getEmployeeScope(user: SessionUser): Promise<EmployeeScope> {
+  if (user.role === 'ADMIN' || user.role === 'HR_MANAGER') {
+    return null;
+  }
+
+  if (!user.employeeId) {
+    return [];
+  }
+
+  if (user.role === 'EMPLOYEE') {
+    return [user.employeeId];
+  }
+
+  const employees = await prisma.employee.findMany({ select: { id: true, managerId: true } });
+  return collectReportingTree(employees, user.employeeId);
+}
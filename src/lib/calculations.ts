@@ -5,9 +5,23 @@
  * and productivity analytics for the Leave & Productivity Analyzer system.
  * 
  * CRITICAL BUSINESS RULES:
- * - Monday-Friday: 8.5 hours expected
- * - Saturday: 4.0 hours expected
- * - Sunday: 0 hours (weekend)
+ * - Expected hours come from the WorkSchedule in effect on each date
+ * - Default schedule (no WorkSchedule configured):
+ *   - Monday-Friday: 8.5 hours expected
+ *   - Saturday: 4.0 hours expected
+ *   - Sunday: 0 hours (weekend)
+ * - Holidays: 0 hours, recorded as HOLIDAY when no attendance exists
+ * - Statuses beyond PRESENT/ABSENT (work from home, on duty, half day,
+ *   leave) scale expected hours and leave days per ATTENDANCE_STATUS_RULES
+ * - Several IN/OUT punch pairs per day: worked hours are the sum of the
+ *   (overlap-merged) intervals; punches missing IN or OUT are flagged as
+ *   unmatched; an optional unpaid break is deducted per work schedule
+ * - Overtime: hours worked beyond the day's expected hours, bucketed as
+ *   regular, Sunday or holiday overtime with the multipliers of the
+ *   schedule in effect
+ * - Night shifts: punches belong to the shift's start date and may cross
+ *   midnight; outside a night shift an OUT before IN is flagged as
+ *   inverted and adds no hours
  * - All dates normalized to midnight (00:00:00) to prevent time-based matching issues
  * 
  * DEPENDENCIES:
@@ -24,34 +38,129 @@
 
 import {
   getDaysInMonth,
-  isSunday,
-  isSaturday,
   startOfDay,
   format,
   setDate,
   startOfMonth,
+  subDays,
 } from 'date-fns';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+/**
+ * Attendance status of a day
+ * Mirrors the Prisma AttendanceStatus enum.
+ */
+export type AttendanceStatus =
+  | 'PRESENT'
+  | 'WORK_FROM_HOME'
+  | 'ON_DUTY'
+  | 'HALF_DAY'
+  | 'LEAVE'
+  | 'ABSENT'
+  | 'WEEKEND'
+  | 'HOLIDAY';
+
+/**
+ * Every attendance status, in display order
+ */
+export const ATTENDANCE_STATUSES: readonly AttendanceStatus[] = [
+  'PRESENT',
+  'WORK_FROM_HOME',
+  'ON_DUTY',
+  'HALF_DAY',
+  'LEAVE',
+  'ABSENT',
+  'WEEKEND',
+  'HOLIDAY',
+];
+
+/**
+ * How a status counts towards expected hours, worked hours and leave
+ */
+export interface AttendanceStatusRule {
+  /** Display label (e.g., "Work from home") */
+  label: string;
+  
+  /** Share of the day's scheduled hours the employee owes (1 = full day) */
+  expectedHoursFactor: number;
+  
+  /** Leave days the status uses (0.5 = half day) */
+  leaveDays: number;
+  
+  /** Whether a day without punches is credited its expected hours as worked */
+  creditsExpectedHours: boolean;
+  
+  /** Whether punch times may be recorded on a day with this status */
+  allowsTimes: boolean;
+}
+
+/**
+ * A single IN/OUT punch pair
+ * A null side marks an unmatched punch (e.g., IN without a matching OUT).
+ */
+export interface PunchInput {
+  /** Check-in time in 24-hour format (HH:MM) or null if missing */
+  inTime: string | null;
+  
+  /** Check-out time in 24-hour format (HH:MM) or null if missing */
+  outTime: string | null;
+}
+
 /**
  * Raw attendance input from Excel or external data source
- * Represents a single day's check-in/check-out record
+ * Represents one punch pair; several inputs may share the same date
  */
-export interface RawAttendanceInput {
+export interface RawAttendanceInput extends PunchInput {
   /** MongoDB ObjectId of the employee */
   employeeId: string;
   
   /** Date of attendance (will be normalized to midnight) */
   date: Date;
   
-  /** Check-in time in 24-hour format (HH:MM) */
-  inTime: string;
+  /** Status given by the source (omitted = PRESENT) */
+  status?: AttendanceStatus | null;
+}
+
+/**
+ * Punch pair as stored beneath an attendance record
+ * 
+ * Structurally compatible with the Prisma AttendancePunch composite type.
+ */
+export interface ProcessedPunch extends PunchInput {
+  /** Hours covered by this pair (0 for unmatched punches) */
+  hours: number;
+}
+
+/**
+ * Worked time for one day derived from its punch pairs
+ */
+export interface DailyPunchSummary {
+  /** Earliest check-in of the day (null if no IN punch) */
+  firstIn: string | null;
   
-  /** Check-out time in 24-hour format (HH:MM) */
-  outTime: string;
+  /** Latest check-out of the day (null if no OUT punch) */
+  lastOut: string | null;
+  
+  /** Worked hours after merging overlaps and deducting unpaid breaks */
+  workedHours: number;
+  
+  /** Gaps between punched intervals (breaks already taken off the clock) */
+  recordedBreakHours: number;
+  
+  /** Unpaid break deducted by the work schedule rule */
+  breakDeductionHours: number;
+  
+  /** Number of punches missing IN or OUT */
+  unmatchedPunchCount: number;
+  
+  /** Number of pairs with OUT before IN that cannot cross midnight */
+  invertedPunchCount: number;
+  
+  /** Punch pairs in chronological order */
+  punches: ProcessedPunch[];
 }
 
 /**
@@ -65,17 +174,180 @@ export interface ProcessedAttendanceRecord {
   /** Normalized date (midnight UTC) */
   date: Date;
   
-  /** Check-in time string (HH:MM format) or null for absent/weekend */
+  /** First check-in of the day (HH:MM format) or null for absent/weekend */
   inTime: string | null;
   
-  /** Check-out time string (HH:MM format) or null for absent/weekend */
+  /** Last check-out of the day (HH:MM format) or null for absent/weekend */
   outTime: string | null;
   
   /** Calculated worked hours (decimal format) */
   workedHours: number;
   
+  /** Every punch pair recorded for the day (empty for gap-filled days) */
+  punches: ProcessedPunch[];
+  
+  /** Unpaid break hours deducted from workedHours */
+  breakDeductionHours: number;
+  
+  /** Number of punches missing IN or OUT */
+  unmatchedPunchCount: number;
+  
+  /** Number of pairs with OUT before IN outside a night shift (flagged, no hours) */
+  invertedPunchCount: number;
+  
+  /** Minutes the first check-in was after the shift start (0 = not late) */
+  lateMinutes: number;
+  
+  /** Minutes the last check-out was before the shift end (0 = not early) */
+  earlyDepartureMinutes: number;
+  
   /** Attendance status */
-  status: 'PRESENT' | 'ABSENT' | 'WEEKEND' | 'HOLIDAY';
+  status: AttendanceStatus;
+}
+
+/**
+ * Work schedule rule defining expected hours per weekday
+ * 
+ * Structurally compatible with the Prisma WorkSchedule model, so persisted
+ * schedules can be passed straight into the calculation engine.
+ */
+export interface WorkScheduleRule {
+  /** First date (normalized to midnight) on which this schedule applies */
+  effectiveFrom: Date;
+  
+  /** Expected hours on Mondays */
+  mondayHours: number;
+  
+  /** Expected hours on Tuesdays */
+  tuesdayHours: number;
+  
+  /** Expected hours on Wednesdays */
+  wednesdayHours: number;
+  
+  /** Expected hours on Thursdays */
+  thursdayHours: number;
+  
+  /** Expected hours on Fridays */
+  fridayHours: number;
+  
+  /** Expected hours on Saturdays */
+  saturdayHours: number;
+  
+  /** Expected hours on Sundays */
+  sundayHours: number;
+  
+  /** Unpaid break deducted on long days, in minutes (0 or omitted = no deduction) */
+  unpaidBreakMinutes?: number;
+  
+  /** Worked hours from which the unpaid break applies */
+  unpaidBreakAfterHours?: number;
+  
+  /** Pay multiplier for overtime on other days (omitted = default 1.5) */
+  overtimeMultiplier?: number;
+  
+  /** Pay multiplier for hours worked beyond expected on Sundays (omitted = default 2) */
+  sundayOvertimeMultiplier?: number;
+  
+  /** Pay multiplier for hours worked on holidays (omitted = default 2) */
+  holidayOvertimeMultiplier?: number;
+}
+
+/**
+ * Holiday rule marking a date with zero expected hours
+ * 
+ * Structurally compatible with the Prisma Holiday model.
+ */
+export interface HolidayRule {
+  /** Holiday date (time component ignored) */
+  date: Date;
+}
+
+/**
+ * Days an employee is employed
+ * 
+ * Structurally compatible with the employment fields of the Prisma
+ * Employee model.
+ */
+export interface EmploymentPeriod {
+  /** First day of employment (time component ignored); null = no start */
+  employmentStartDate: Date | null;
+  
+  /** Last day of employment (time component ignored); null = still employed */
+  employmentEndDate: Date | null;
+}
+
+/**
+ * Optional business context applied when computing expected hours
+ * 
+ * Omitted fields fall back to the default business rules.
+ */
+export interface ExpectedHoursOptions {
+  /** Work schedule history (any order). Latest effectiveFrom on or before a date wins. */
+  schedules?: readonly WorkScheduleRule[];
+  
+  /** Company holidays. Holidays override the schedule with 0 expected hours. */
+  holidays?: readonly HolidayRule[];
+  
+  /** Employment of the employee. Days outside it have 0 expected hours. */
+  employment?: EmploymentPeriod;
+}
+
+/**
+ * Shift an employee is expected to work
+ * 
+ * Structurally compatible with the Prisma Shift model.
+ */
+export interface ShiftRule {
+  /** Start of the shift (HH:MM) */
+  startTime: string;
+  
+  /** End of the shift (HH:MM); before startTime for overnight shifts */
+  endTime: string;
+  
+  /** Minutes of lateness or early departure that are not flagged */
+  graceMinutes: number;
+}
+
+/**
+ * Business context applied when processing a month of attendance
+ */
+export interface AttendanceProcessingOptions extends ExpectedHoursOptions {
+  /** Shift of the employee; null or omitted = no punctuality checks */
+  shift?: ShiftRule | null;
+}
+
+/**
+ * Late arrival and early departure of one day
+ */
+export interface ShiftPunctuality {
+  /** Minutes the first check-in was after the shift start (0 = not late) */
+  lateMinutes: number;
+  
+  /** Minutes the last check-out was before the shift end (0 = not early) */
+  earlyDepartureMinutes: number;
+}
+
+/**
+ * Kind of day overtime was worked on
+ * Holidays take precedence over Sundays.
+ */
+export type OvertimeBucket = 'REGULAR' | 'SUNDAY' | 'HOLIDAY';
+
+/**
+ * Overtime of one day
+ */
+export interface DailyOvertime {
+  /** Kind of day */
+  bucket: OvertimeBucket;
+  
+  /** Hours worked beyond the day's expected hours (0 when none) */
+  hours: number;
+  
+  /** Pay multiplier of the bucket under the schedule in effect */
+  multiplier: number;
+  
+  /** hours × multiplier */
+  weightedHours: number;
 }
 
 /**
@@ -274,22 +546,26 @@ export function parseTime(timeStr: string): number {
  * Uses parseTime() for conversion with full error handling.
  * 
  * BUSINESS LOGIC:
- * - If outTime < inTime, assumes overnight shift (adds 24 hours)
+ * - If outTime < inTime and overnight pairs are allowed, assumes an
+ *   overnight shift (adds 24 hours)
+ * - Otherwise an outTime before inTime is an error (e.g., swapped columns)
  * - Validates both time formats before calculation
  * - Returns precise decimal hours
  * 
  * @param {string} inTime - Check-in time (HH:MM)
  * @param {string} outTime - Check-out time (HH:MM)
+ * @param {boolean} [allowOvernight=true] - Whether the pair may cross midnight (night shifts)
  * @returns {number} Worked hours (decimal)
  * @throws {InvalidTimeFormatError} If either time is invalid
- * @throws {CalculationError} If calculation produces invalid result
+ * @throws {CalculationError} If calculation produces invalid result, or
+ *   outTime is before inTime when overnight pairs are not allowed
  * 
  * @example
  * calculateWorkedHours("09:00", "17:30") // Returns: 8.5
  * calculateWorkedHours("23:00", "01:00") // Returns: 2.0 (overnight)
- * calculateWorkedHours("08:15", "16:45") // Returns: 8.5
+ * calculateWorkedHours("17:00", "09:00", false) // Throws: CalculationError
  */
-export function calculateWorkedHours(inTime: string, outTime: string): number {
+export function calculateWorkedHours(inTime: string, outTime: string, allowOvernight = true): number {
   // Parse both times (will throw InvalidTimeFormatError if invalid)
   const inHours = parseTime(inTime);
   const outHours = parseTime(outTime);
@@ -300,6 +576,11 @@ export function calculateWorkedHours(inTime: string, outTime: string): number {
   if (outHours >= inHours) {
     // Normal same-day shift
     workedHours = outHours - inHours;
+  } else if (!allowOvernight) {
+    throw new CalculationError(
+      'outTime is before inTime outside a night shift.',
+      `inTime: ${inTime}, outTime: ${outTime}`
+    );
   } else {
     // Overnight shift: add 24 hours to outTime
     workedHours = 24 - inHours + outHours;
@@ -317,12 +598,184 @@ export function calculateWorkedHours(inTime: string, outTime: string): number {
   return Math.round(workedHours * 100) / 100;
 }
 
+/**
+ * Pair lone IN and OUT punches of a night shift
+ * 
+ * Punch clocks often log a night shift as an IN row on the start date and
+ * an OUT row on the next date. Once both are attributed to the shift's
+ * start date, each lone IN is paired with the next lone OUT after it.
+ * 
+ * @param {PunchInput[]} punches - Punch pairs of one shift date
+ * @param {(time: string) => number} toShiftMinutes - Minutes since the shift day start
+ * @returns {PunchInput[]} Punches with matching lone punches combined
+ */
+function pairSplitPunches(punches: PunchInput[], toShiftMinutes: (time: string) => number): PunchInput[] {
+  const complete = punches.filter((punch) => punch.inTime !== null && punch.outTime !== null);
+  const ins = punches
+    .filter((punch) => punch.inTime !== null && punch.outTime === null)
+    .sort((a, b) => toShiftMinutes(a.inTime as string) - toShiftMinutes(b.inTime as string));
+  const outs = punches
+    .filter((punch) => punch.inTime === null && punch.outTime !== null)
+    .sort((a, b) => toShiftMinutes(a.outTime as string) - toShiftMinutes(b.outTime as string));
+  
+  const paired: PunchInput[] = [];
+  for (const punch of ins) {
+    const outIndex = outs.findIndex(
+      (out) => toShiftMinutes(out.outTime as string) >= toShiftMinutes(punch.inTime as string)
+    );
+    if (outIndex === -1) {
+      paired.push(punch);
+    } else {
+      paired.push({ inTime: punch.inTime, outTime: outs[outIndex].outTime });
+      outs.splice(outIndex, 1);
+    }
+  }
+  
+  return [...complete, ...paired, ...outs];
+}
+
+/**
+ * Calculate worked hours for a day with several punch pairs
+ * 
+ * ALGORITHM:
+ * 1. Validate every time; punches missing IN or OUT are counted as
+ *    unmatched and contribute no hours
+ * 2. Convert complete pairs to minute intervals. On a night shift, times
+ *    before the shift day start (see getShiftDayStartMinutes) fall after
+ *    midnight and lone IN and OUT punches are paired; otherwise a pair
+ *    with OUT before IN is inverted (likely swapped columns): it is
+ *    counted in invertedPunchCount and contributes no hours
+ * 3. Merge overlapping intervals so duplicated punches are not double counted
+ * 4. Worked hours = sum of merged intervals; gaps between them are breaks
+ *    already taken off the clock
+ * 5. Unpaid break rule: on days reaching unpaidBreakAfterHours, deduct
+ *    unpaidBreakMinutes minus the breaks already recorded
+ * 
+ * @param {PunchInput[]} punches - Punch pairs for one day (any order)
+ * @param {Pick<WorkScheduleRule, 'unpaidBreakMinutes' | 'unpaidBreakAfterHours'> | null} [breakRule] - Schedule in effect (no deduction when omitted)
+ * @param {ShiftRule | null} [shift] - Shift of the employee (no shift = day work)
+ * @returns {DailyPunchSummary} Worked time and punch details
+ * @throws {InvalidTimeFormatError} If any time is malformed
+ * @throws {CalculationError} If punches is empty
+ * 
+ * @example
+ * calculatePunchHours([
+ *   { inTime: '09:00', outTime: '13:00' },
+ *   { inTime: '13:45', outTime: '18:00' },
+ * ])
+ * // Returns: { workedHours: 8.25, recordedBreakHours: 0.75, firstIn: '09:00', lastOut: '18:00', ... }
+ */
+export function calculatePunchHours(
+  punches: PunchInput[],
+  breakRule: Pick<WorkScheduleRule, 'unpaidBreakMinutes' | 'unpaidBreakAfterHours'> | null = null,
+  shift: ShiftRule | null = null
+): DailyPunchSummary {
+  if (!Array.isArray(punches) || punches.length === 0) {
+    throw new CalculationError('punches must be a non-empty array', 'calculatePunchHours');
+  }
+  
+  // Minutes since the start of the shift day; after midnight counts on for night shifts
+  const dayStartMinutes = shift ? getShiftDayStartMinutes(shift) : 0;
+  const toShiftMinutes = (time: string): number => {
+    const minutes = parseTime(time) * 60;
+    return minutes < dayStartMinutes ? minutes + MINUTES_PER_DAY : minutes;
+  };
+  const overnight = shift !== null && isOvernightShift(shift);
+  
+  const processed: Array<ProcessedPunch & { start: number; end: number }> = [];
+  let unmatchedPunchCount = 0;
+  let invertedPunchCount = 0;
+  
+  for (const punch of overnight ? pairSplitPunches(punches, toShiftMinutes) : punches) {
+    const start = punch.inTime !== null ? toShiftMinutes(punch.inTime) : null;
+    const end = punch.outTime !== null ? toShiftMinutes(punch.outTime) : null;
+    
+    if (start === null || end === null) {
+      unmatchedPunchCount++;
+      processed.push({
+        ...punch,
+        hours: 0,
+        start: start ?? end ?? 0,
+        end: start ?? end ?? 0,
+      });
+      continue;
+    }
+    
+    if (end < start) {
+      // OUT before IN outside a night shift: flag instead of assuming overnight
+      invertedPunchCount++;
+      processed.push({ ...punch, hours: 0, start, end: start });
+      continue;
+    }
+    
+    processed.push({
+      inTime: punch.inTime,
+      outTime: punch.outTime,
+      hours: calculateWorkedHours(punch.inTime as string, punch.outTime as string, overnight),
+      start,
+      end,
+    });
+  }
+  
+  processed.sort((a, b) => a.start - b.start);
+  
+  // Merge overlapping complete intervals
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const punch of processed) {
+    if (punch.inTime === null || punch.outTime === null || punch.start === punch.end) {
+      continue;
+    }
+    
+    const last = merged[merged.length - 1];
+    if (last && punch.start <= last.end) {
+      last.end = Math.max(last.end, punch.end);
+    } else {
+      merged.push({ start: punch.start, end: punch.end });
+    }
+  }
+  
+  const workedMinutes = merged.reduce((total, interval) => total + interval.end - interval.start, 0);
+  const breakMinutes = merged.length > 1
+    ? merged[merged.length - 1].end - merged[0].start - workedMinutes
+    : 0;
+  
+  let workedHours = workedMinutes / 60;
+  const recordedBreakHours = breakMinutes / 60;
+  
+  // Unpaid break rule (breaks already punched out count towards it)
+  let breakDeductionHours = 0;
+  const unpaidBreakHours = (breakRule?.unpaidBreakMinutes ?? 0) / 60;
+  if (unpaidBreakHours > 0 && workedHours >= (breakRule?.unpaidBreakAfterHours ?? 0)) {
+    breakDeductionHours = Math.min(workedHours, Math.max(0, unpaidBreakHours - recordedBreakHours));
+    workedHours -= breakDeductionHours;
+  }
+  
+  const withIn = processed.filter((punch) => punch.inTime !== null);
+  const withOut = processed.filter((punch) => punch.outTime !== null);
+  const lastOutPunch = withOut.reduce<(typeof withOut)[number] | null>(
+    (latest, punch) => (!latest || punch.end >= latest.end ? punch : latest),
+    null
+  );
+  
+  return {
+    firstIn: withIn[0]?.inTime ?? null,
+    lastOut: lastOutPunch?.outTime ?? null,
+    workedHours: Math.round(workedHours * 100) / 100,
+    recordedBreakHours: Math.round(recordedBreakHours * 100) / 100,
+    breakDeductionHours: Math.round(breakDeductionHours * 100) / 100,
+    unmatchedPunchCount,
+    invertedPunchCount,
+    punches: processed.map(({ inTime, outTime, hours }) => ({ inTime, outTime, hours })),
+  };
+}
+
 // ============================================================================
 // BUSINESS RULES: EXPECTED HOURS CALCULATION
 // ============================================================================
 
 /**
  * Expected work hours per day based on business rules
+ * Used when no WorkSchedule is in effect for a date
  */
 const EXPECTED_HOURS = {
   /** Monday through Friday */
@@ -335,21 +788,122 @@ const EXPECTED_HOURS = {
   SUNDAY: 0.0,
 } as const;
 
+/**
+ * WorkScheduleRule hour fields indexed by JavaScript day of week (0 = Sunday)
+ */
+const WEEKDAY_HOUR_FIELDS = [
+  'sundayHours',
+  'mondayHours',
+  'tuesdayHours',
+  'wednesdayHours',
+  'thursdayHours',
+  'fridayHours',
+  'saturdayHours',
+] as const;
+
+/**
+ * Default schedule equivalent to the EXPECTED_HOURS business rules
+ */
+const DEFAULT_WORK_SCHEDULE: Omit<WorkScheduleRule, 'effectiveFrom'> = {
+  mondayHours: EXPECTED_HOURS.WEEKDAY,
+  tuesdayHours: EXPECTED_HOURS.WEEKDAY,
+  wednesdayHours: EXPECTED_HOURS.WEEKDAY,
+  thursdayHours: EXPECTED_HOURS.WEEKDAY,
+  fridayHours: EXPECTED_HOURS.WEEKDAY,
+  saturdayHours: EXPECTED_HOURS.SATURDAY,
+  sundayHours: EXPECTED_HOURS.SUNDAY,
+};
+
+/**
+ * Find the work schedule in effect on a given date
+ * 
+ * The schedule with the latest effectiveFrom on or before the date applies.
+ * Schedules effective only after the date are ignored, so historical months
+ * keep the rules that were valid at the time.
+ * 
+ * @param {Date} date - Date to resolve (any time component)
+ * @param {readonly WorkScheduleRule[]} schedules - Schedule history (any order)
+ * @returns {WorkScheduleRule | null} Schedule in effect, or null if none applies
+ * 
+ * @example
+ * resolveWorkSchedule(new Date(2024, 5, 3), schedules)
+ * // Returns the schedule with the greatest effectiveFrom <= 2024-06-03
+ */
+export function resolveWorkSchedule(
+  date: Date,
+  schedules: readonly WorkScheduleRule[]
+): WorkScheduleRule | null {
+  const targetTime = startOfDay(date).getTime();
+  let active: WorkScheduleRule | null = null;
+  
+  for (const schedule of schedules) {
+    const effectiveTime = startOfDay(schedule.effectiveFrom).getTime();
+    
+    if (
+      effectiveTime <= targetTime &&
+      (!active || effectiveTime > startOfDay(active.effectiveFrom).getTime())
+    ) {
+      active = schedule;
+    }
+  }
+  
+  return active;
+}
+
+/**
+ * Check whether a date is a company holiday
+ * 
+ * @param {Date} date - Date to check (any time component)
+ * @param {readonly HolidayRule[]} holidays - Holiday calendar
+ * @returns {boolean} True if the date matches a holiday
+ */
+export function isHoliday(date: Date, holidays: readonly HolidayRule[]): boolean {
+  const targetTime = startOfDay(date).getTime();
+  
+  return holidays.some((holiday) => startOfDay(holiday.date).getTime() === targetTime);
+}
+
+/**
+ * Check whether a date lies within an employment period
+ * 
+ * @param {Date} date - Date to check (any time component)
+ * @param {EmploymentPeriod} employment - Employment start and end
+ * @returns {boolean} True if the employee is employed on the date
+ * 
+ * @example
+ * isEmployedOn(new Date(2024, 0, 10), { employmentStartDate: new Date(2024, 0, 15), employmentEndDate: null })
+ * // Returns: false
+ */
+export function isEmployedOn(date: Date, employment: EmploymentPeriod): boolean {
+  const targetTime = startOfDay(date).getTime();
+  const { employmentStartDate, employmentEndDate } = employment;
+  
+  return (
+    (employmentStartDate === null || startOfDay(employmentStartDate).getTime() <= targetTime) &&
+    (employmentEndDate === null || startOfDay(employmentEndDate).getTime() >= targetTime)
+  );
+}
+
 /**
  * Get expected work hours for a given date
  * 
- * Applies business rules to determine expected hours based on day of week.
- * Uses date-fns for reliable day-of-week detection.
+ * Applies the holiday calendar and the work schedule in effect on the date
+ * to determine expected hours based on day of week.
  * 
  * BUSINESS RULES:
- * - Sunday: 0 hours (weekend)
- * - Saturday: 4 hours (half day)
- * - Monday-Friday: 8.5 hours (full day)
+ * - Days outside the employee's employment period: 0 hours
+ * - Holidays: 0 hours
+ * - Uses the WorkSchedule with the latest effectiveFrom on or before the date
+ * - Without an applicable schedule, the default rules apply:
+ *   - Sunday: 0 hours (weekend)
+ *   - Saturday: 4 hours (half day)
+ *   - Monday-Friday: 8.5 hours (full day)
  * 
  * IMPORTANT: Input date should be normalized to midnight for consistency.
  * This function does NOT modify the input date.
  * 
  * @param {Date} date - Date to check (should be normalized to midnight)
+ * @param {ExpectedHoursOptions} [options] - Schedule history and holidays to apply
  * @returns {number} Expected hours for that date
  * @throws {InvalidDateError} If date is invalid
  * 
@@ -362,24 +916,364 @@ const EXPECTED_HOURS = {
  * 
  * // Sunday, Jan 7, 2024
  * getExpectedHours(new Date(2024, 0, 7)) // Returns: 0.0
+ * 
+ * // Saturday under a five-day schedule
+ * getExpectedHours(new Date(2024, 0, 6), { schedules: [fiveDaySchedule] }) // Returns: 0.0
  */
-export function getExpectedHours(date: Date): number {
+export function getExpectedHours(date: Date, options: ExpectedHoursOptions = {}): number {
   // Validate input is a valid Date object
   if (!(date instanceof Date) || isNaN(date.getTime())) {
     throw new InvalidDateError('Invalid date provided to getExpectedHours', date);
   }
 
-  // Use date-fns for reliable day-of-week detection
-  if (isSunday(date)) {
-    return EXPECTED_HOURS.SUNDAY;
+  if (options.employment && !isEmployedOn(date, options.employment)) {
+    return 0;
+  }
+
+  if (isHoliday(date, options.holidays ?? [])) {
+    return 0;
+  }
+
+  const schedule = resolveWorkSchedule(date, options.schedules ?? []) ?? DEFAULT_WORK_SCHEDULE;
+
+  return schedule[WEEKDAY_HOUR_FIELDS[date.getDay()]];
+}
+
+// ============================================================================
+// BUSINESS RULES: ATTENDANCE STATUSES
+// ============================================================================
+
+/**
+ * Expected-hours, worked-hours and leave semantics per status
+ * 
+ * - PRESENT: worked hours from punches, full day expected
+ * - WORK_FROM_HOME, ON_DUTY (client site, travel): worked hours from
+ *   punches; without punches the day's expected hours are credited
+ * - HALF_DAY: half-day leave; half the day expected, worked hours from
+ *   punches, 0.5 leave days
+ * - LEAVE: leave recorded by the source; nothing expected, 1 leave day
+ * - ABSENT: full day expected and missed, 1 leave day (unexplained unless
+ *   covered by an approved leave request)
+ * - WEEKEND, HOLIDAY: no expected hours by the schedule and holiday calendar
+ */
+export const ATTENDANCE_STATUS_RULES: Readonly<Record<AttendanceStatus, AttendanceStatusRule>> = {
+  PRESENT: { label: 'Present', expectedHoursFactor: 1, leaveDays: 0, creditsExpectedHours: false, allowsTimes: true },
+  WORK_FROM_HOME: { label: 'Work from home', expectedHoursFactor: 1, leaveDays: 0, creditsExpectedHours: true, allowsTimes: true },
+  ON_DUTY: { label: 'On duty', expectedHoursFactor: 1, leaveDays: 0, creditsExpectedHours: true, allowsTimes: true },
+  HALF_DAY: { label: 'Half day', expectedHoursFactor: 0.5, leaveDays: 0.5, creditsExpectedHours: false, allowsTimes: true },
+  LEAVE: { label: 'Leave', expectedHoursFactor: 0, leaveDays: 1, creditsExpectedHours: false, allowsTimes: false },
+  ABSENT: { label: 'Absent', expectedHoursFactor: 1, leaveDays: 1, creditsExpectedHours: false, allowsTimes: false },
+  WEEKEND: { label: 'Weekend', expectedHoursFactor: 1, leaveDays: 0, creditsExpectedHours: false, allowsTimes: false },
+  HOLIDAY: { label: 'Holiday', expectedHoursFactor: 1, leaveDays: 0, creditsExpectedHours: false, allowsTimes: false },
+};
+
+/**
+ * Statuses that use leave days
+ */
+export const LEAVE_STATUSES: readonly AttendanceStatus[] = ATTENDANCE_STATUSES.filter(
+  (status) => ATTENDANCE_STATUS_RULES[status].leaveDays > 0
+);
+
+/**
+ * Get the hours an employee owes on a day with a given status
+ * 
+ * @param {Date} date - Date to check (should be normalized to midnight)
+ * @param {AttendanceStatus} status - Recorded status of the day
+ * @param {ExpectedHoursOptions} [options] - Schedule history, holidays and employment period
+ * @returns {number} Expected hours scaled by the status
+ * @throws {InvalidDateError} If date is invalid
+ * 
+ * @example
+ * // Monday, Jan 1, 2024
+ * getStatusExpectedHours(new Date(2024, 0, 1), 'HALF_DAY') // Returns: 4.25
+ * getStatusExpectedHours(new Date(2024, 0, 1), 'LEAVE') // Returns: 0
+ */
+export function getStatusExpectedHours(
+  date: Date,
+  status: AttendanceStatus,
+  options: ExpectedHoursOptions = {}
+): number {
+  return getExpectedHours(date, options) * ATTENDANCE_STATUS_RULES[status].expectedHoursFactor;
+}
+
+/**
+ * Resolve the status of a day from the statuses given on its rows
+ * 
+ * @param {RawAttendanceInput[]} dayRecords - Rows of one employee and date
+ * @returns {AttendanceStatus} The given status, or PRESENT when none is given
+ * @throws {CalculationError} If rows give different statuses, or times on a
+ *   status that allows none
+ */
+function resolveDayStatus(dayRecords: RawAttendanceInput[]): AttendanceStatus {
+  const given = new Set(dayRecords.map((record) => record.status ?? 'PRESENT'));
+  if (given.size > 1) {
+    throw new CalculationError(
+      `Conflicting statuses on the same day: ${Array.from(given).join(', ')}`,
+      'resolveDayStatus'
+    );
+  }
+  
+  const [status] = Array.from(given);
+  if (!ATTENDANCE_STATUS_RULES[status].allowsTimes && dayRecords.some((record) => record.inTime || record.outTime)) {
+    throw new CalculationError(`Times cannot be recorded on a ${status} day`, 'resolveDayStatus');
+  }
+  
+  return status;
+}
+
+// ============================================================================
+// BUSINESS RULES: OVERTIME
+// ============================================================================
+
+/**
+ * Overtime pay multipliers used when the schedule in effect sets none
+ */
+const OVERTIME_MULTIPLIERS = {
+  /** Beyond expected hours on working days and Saturdays */
+  REGULAR: 1.5,
+  
+  /** Work on Sundays */
+  SUNDAY: 2.0,
+  
+  /** Work on holidays */
+  HOLIDAY: 2.0,
+} as const;
+
+/**
+ * Calculate the overtime of one day
+ * 
+ * Overtime is every hour worked beyond the day's expected hours, so on a
+ * holiday or a Sunday without expected hours all worked time is overtime.
+ * Expected hours are scaled by the recorded status exactly as in the
+ * monthly report (see getStatusExpectedHours), so a half day worked to
+ * full length earns overtime. The day's bucket decides the multiplier,
+ * taken from the work schedule in effect on the date.
+ * 
+ * @param {Date} date - Date worked (should be normalized to midnight)
+ * @param {number} workedHours - Hours worked on the date
+ * @param {AttendanceStatus | null} status - Recorded status of the day (null when nothing is recorded)
+ * @param {ExpectedHoursOptions} [options] - Schedule history, holidays and employment period
+ * @returns {DailyOvertime} Overtime hours, bucket and multiplier
+ * @throws {InvalidDateError} If date is invalid
+ * 
+ * @example
+ * // Monday, Jan 1, 2024 with 10 hours worked (8.5 expected)
+ * calculateDailyOvertime(new Date(2024, 0, 1), 10, 'PRESENT')
+ * // Returns: { bucket: 'REGULAR', hours: 1.5, multiplier: 1.5, weightedHours: 2.25 }
+ * 
+ * // Same day as a half day (4.25 expected)
+ * calculateDailyOvertime(new Date(2024, 0, 1), 8.5, 'HALF_DAY')
+ * // Returns: { bucket: 'REGULAR', hours: 4.25, multiplier: 1.5, weightedHours: 6.38 }
+ * 
+ * // Sunday, Jan 7, 2024 with 4 hours worked
+ * calculateDailyOvertime(new Date(2024, 0, 7), 4, 'PRESENT')
+ * // Returns: { bucket: 'SUNDAY', hours: 4, multiplier: 2, weightedHours: 8 }
+ */
+export function calculateDailyOvertime(
+  date: Date,
+  workedHours: number,
+  status: AttendanceStatus | null,
+  options: ExpectedHoursOptions = {}
+): DailyOvertime {
+  const expectedHours = status
+    ? getStatusExpectedHours(date, status, options)
+    : getExpectedHours(date, options);
+  const schedule = resolveWorkSchedule(date, options.schedules ?? []);
+  
+  let bucket: OvertimeBucket = 'REGULAR';
+  let multiplier: number = schedule?.overtimeMultiplier ?? OVERTIME_MULTIPLIERS.REGULAR;
+  if (isHoliday(date, options.holidays ?? [])) {
+    bucket = 'HOLIDAY';
+    multiplier = schedule?.holidayOvertimeMultiplier ?? OVERTIME_MULTIPLIERS.HOLIDAY;
+  } else if (date.getDay() === 0) {
+    bucket = 'SUNDAY';
+    multiplier = schedule?.sundayOvertimeMultiplier ?? OVERTIME_MULTIPLIERS.SUNDAY;
+  }
+  
+  const hours = Math.round(Math.max(0, workedHours - expectedHours) * 100) / 100;
+  
+  return {
+    bucket,
+    hours,
+    multiplier,
+    weightedHours: Math.round(hours * multiplier * 100) / 100,
+  };
+}
+
+// ============================================================================
+// BUSINESS RULES: SHIFTS
+// ============================================================================
+
+/**
+ * Minutes in a day, used to wrap times around midnight
+ */
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Signed difference between two clock times in minutes
+ * 
+ * The result is wrapped into [-12 h, +12 h) so that times on either side
+ * of midnight compare correctly for overnight shifts.
+ * 
+ * @param {string} time - Actual time (HH:MM)
+ * @param {string} reference - Reference time (HH:MM)
+ * @returns {number} Minutes time is after reference (negative = before)
+ * 
+ * @example
+ * minutesAfter("09:20", "09:00") // Returns: 20
+ * minutesAfter("00:30", "22:00") // Returns: 150
+ */
+function minutesAfter(time: string, reference: string): number {
+  const difference = Math.round((parseTime(time) - parseTime(reference)) * 60);
+  const half = MINUTES_PER_DAY / 2;
+  
+  return ((((difference + half) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY) - half;
+}
+
+/**
+ * Check whether a shift runs across midnight
+ * 
+ * @param {Pick<ShiftRule, 'startTime' | 'endTime'>} shift - Shift times
+ * @returns {boolean} True if the shift ends before it starts (e.g., 22:00 to 06:00)
+ */
+export function isOvernightShift(shift: Pick<ShiftRule, 'startTime' | 'endTime'>): boolean {
+  return parseTime(shift.endTime) < parseTime(shift.startTime);
+}
+
+/**
+ * Time of day at which a shift's working day begins
+ * 
+ * Day shifts use midnight. A night shift's day begins halfway through the
+ * off-duty gap between its end and its next start, so punches before that
+ * time belong to the shift that started the previous evening.
+ * 
+ * @param {Pick<ShiftRule, 'startTime' | 'endTime'>} shift - Shift times
+ * @returns {number} Minutes after midnight
+ * 
+ * @example
+ * getShiftDayStartMinutes({ startTime: "22:00", endTime: "06:00" }) // Returns: 840 (14:00)
+ * getShiftDayStartMinutes({ startTime: "09:00", endTime: "18:00" }) // Returns: 0
+ */
+export function getShiftDayStartMinutes(shift: Pick<ShiftRule, 'startTime' | 'endTime'>): number {
+  if (!isOvernightShift(shift)) {
+    return 0;
   }
+  
+  const end = parseTime(shift.endTime) * 60;
+  const start = parseTime(shift.startTime) * 60;
+  return Math.round(end + (start - end) / 2);
+}
 
-  if (isSaturday(date)) {
-    return EXPECTED_HOURS.SATURDAY;
+/**
+ * Date of the shift a punch belongs to
+ * 
+ * @param {Date} date - Calendar date of the punch
+ * @param {string} time - Punch time (HH:MM)
+ * @param {ShiftRule | null} shift - Shift of the employee
+ * @returns {Date} Shift start date (midnight); the previous day for the
+ *   after-midnight part of a night shift
+ * @throws {InvalidTimeFormatError} If the time is malformed
+ * 
+ * @example
+ * // 22:00-06:00 shift: an OUT at 06:05 on Jan 2 closes the Jan 1 shift
+ * getShiftStartDate(new Date(2024, 0, 2), "06:05", { startTime: "22:00", endTime: "06:00", graceMinutes: 0 })
+ * // Returns: Date object for 2024-01-01
+ */
+export function getShiftStartDate(date: Date, time: string, shift: ShiftRule | null): Date {
+  const normalized = normalizeDate(date);
+  if (!shift || parseTime(time) * 60 >= getShiftDayStartMinutes(shift)) {
+    return normalized;
   }
+  
+  return subDays(normalized, 1);
+}
 
-  // Monday through Friday
-  return EXPECTED_HOURS.WEEKDAY;
+/**
+ * Re-date punch rows to the start date of their shift
+ * 
+ * Rows are dated by the check-in time, or the check-out time when the IN
+ * is missing. Without a night shift every row keeps its date.
+ * 
+ * @param {T[]} records - Punch rows by calendar date
+ * @param {ShiftRule | null} shift - Shift of the employee
+ * @returns {T[]} Copies of the rows dated by shift start date
+ * @throws {InvalidTimeFormatError} If a time is malformed
+ */
+export function assignShiftDates<T extends { date: Date; inTime: string | null; outTime: string | null }>(
+  records: T[],
+  shift: ShiftRule | null
+): T[] {
+  if (!shift || !isOvernightShift(shift)) {
+    return records;
+  }
+  
+  return records.map((record) => {
+    const anchor = record.inTime ?? record.outTime;
+    return anchor ? { ...record, date: getShiftStartDate(record.date, anchor, shift) } : record;
+  });
+}
+
+/**
+ * Check a day's first check-in and last check-out against a shift
+ * 
+ * BUSINESS RULES:
+ * - Only days with expected hours are checked; Sundays, holidays and days
+ *   outside employment are never late
+ * - Arriving or leaving within the grace period is not flagged; beyond it,
+ *   the full minutes since the shift start (or until the shift end) count
+ * - On days shorter than the longest day of the work schedule in effect
+ *   (e.g., a 4 hour Saturday in a 8.5 hour week) the shift ends earlier by
+ *   the difference
+ * - A missing check-in or check-out is not flagged (unmatched punches are
+ *   reported separately)
+ * 
+ * @param {Date} date - Date worked (should be normalized to midnight)
+ * @param {string | null} inTime - First check-in (HH:MM)
+ * @param {string | null} outTime - Last check-out (HH:MM)
+ * @param {ShiftRule | null} shift - Shift of the employee
+ * @param {ExpectedHoursOptions} [options] - Schedule history, holidays and employment period
+ * @returns {ShiftPunctuality} Minutes late and minutes left early
+ * @throws {InvalidTimeFormatError} If a time is malformed
+ * 
+ * @example
+ * // Monday, Jan 1, 2024 on a 09:00-18:00 shift with 10 minutes grace
+ * calculateShiftPunctuality(new Date(2024, 0, 1), "09:25", "17:55", { startTime: "09:00", endTime: "18:00", graceMinutes: 10 })
+ * // Returns: { lateMinutes: 25, earlyDepartureMinutes: 0 }
+ */
+export function calculateShiftPunctuality(
+  date: Date,
+  inTime: string | null,
+  outTime: string | null,
+  shift: ShiftRule | null,
+  options: ExpectedHoursOptions = {}
+): ShiftPunctuality {
+  const punctuality: ShiftPunctuality = { lateMinutes: 0, earlyDepartureMinutes: 0 };
+  
+  const expectedHours = getExpectedHours(date, options);
+  if (!shift || expectedHours === 0) {
+    return punctuality;
+  }
+  
+  if (inTime) {
+    const late = minutesAfter(inTime, shift.startTime);
+    if (late > shift.graceMinutes) {
+      punctuality.lateMinutes = late;
+    }
+  }
+  
+  if (outTime) {
+    // Shorter days end earlier than the full shift
+    const schedule = resolveWorkSchedule(date, options.schedules ?? []) ?? DEFAULT_WORK_SCHEDULE;
+    const fullDayHours = Math.max(...WEEKDAY_HOUR_FIELDS.map((field) => schedule[field]));
+    const shortenedMinutes = Math.round(Math.max(0, fullDayHours - expectedHours) * 60);
+    
+    const early = -minutesAfter(outTime, shift.endTime) - shortenedMinutes;
+    if (early > shift.graceMinutes) {
+      punctuality.earlyDepartureMinutes = early;
+    }
+  }
+  
+  return punctuality;
 }
 
 // ============================================================================
@@ -459,27 +1353,33 @@ function generateMonthDates(year: number, month: number): Date[] {
 }
 
 /**
- * Find raw attendance record for a specific date
+ * Group raw punch records by normalized date
  * 
- * Searches rawRecords array for a matching date (normalized comparison).
- * Returns the first match found, or undefined if no match.
+ * Every punch pair for a date is kept so that days with several IN/OUT
+ * pairs (lunch, breaks) are summed instead of taking the first row.
  * 
- * PERFORMANCE: O(n) linear search. For large datasets, consider indexing.
+ * PERFORMANCE: O(n) single pass, O(1) lookup per date afterwards.
  * 
- * @param {Date} targetDate - Normalized date to find
- * @param {RawAttendanceInput[]} rawRecords - Array of raw attendance records
- * @returns {RawAttendanceInput | undefined} Matching record or undefined
+ * @param {RawAttendanceInput[]} rawRecords - Array of raw attendance records (dates normalized)
+ * @returns {Map<number, RawAttendanceInput[]>} Records keyed by midnight timestamp
  */
-function findRecordForDate(
-  targetDate: Date,
+function groupRecordsByDate(
   rawRecords: RawAttendanceInput[]
-): RawAttendanceInput | undefined {
-  const targetTime = targetDate.getTime();
+): Map<number, RawAttendanceInput[]> {
+  const recordsByDate = new Map<number, RawAttendanceInput[]>();
   
-  return rawRecords.find((record) => {
-    const normalizedRecordDate = normalizeDate(record.date);
-    return normalizedRecordDate.getTime() === targetTime;
-  });
+  for (const record of rawRecords) {
+    const key = normalizeDate(record.date).getTime();
+    const dayRecords = recordsByDate.get(key);
+    
+    if (dayRecords) {
+      dayRecords.push(record);
+    } else {
+      recordsByDate.set(key, [record]);
+    }
+  }
+  
+  return recordsByDate;
 }
 
 /**
@@ -490,7 +1390,7 @@ function findRecordForDate(
  * 
  * CRITICAL FEATURES:
  * 1. **Gap Filling**: Excel data only contains present days. This function fills
- *    in ALL missing days as ABSENT or WEEKEND.
+ *    in ALL missing days as ABSENT, WEEKEND or HOLIDAY.
  * 2. **Date Normalization**: All dates normalized to midnight to prevent
  *    time-based matching issues.
  * 3. **Business Rule Application**: Automatically determines status based on
@@ -500,27 +1400,49 @@ function findRecordForDate(
  * ALGORITHM:
  * 1. Generate complete array of dates for the month
  * 2. For each date:
- *    a. Check if raw record exists
- *    b. If YES: Calculate worked hours, mark PRESENT
- *    c. If NO: Check day of week
- *       - Sunday: Mark WEEKEND
- *       - Monday-Saturday: Mark ABSENT (this identifies leaves!)
+ *    a. Check if raw punch records exist
+ *    b. If YES: Sum worked hours over all punch pairs, mark with the
+ *       status given on the rows (PRESENT when none)
+ *    c. If NO: Check the holiday calendar and work schedule
+ *       - Holiday: Mark HOLIDAY
+ *       - 0 expected hours (e.g., Sunday): Mark WEEKEND
+ *       - Working day: Mark ABSENT (this identifies leaves!)
  * 3. Return complete processed array
  * 
  * BUSINESS RULES APPLIED:
- * - Present days: Calculate actual worked hours from in/out times
+ * - Present days: Worked hours summed over all punch pairs of the day, less
+ *   the unpaid break rule of the schedule in effect
+ * - Unmatched punches (IN or OUT missing): day stays PRESENT, the punch adds
+ *   no hours and is counted in unmatchedPunchCount
+ * - Inverted punches (OUT before IN outside a night shift): day stays
+ *   PRESENT, the pair adds no hours and is counted in invertedPunchCount;
+ *   the day is not checked for punctuality
+ * - With a shift: present days record the minutes late and the minutes
+ *   left early (see calculateShiftPunctuality)
+ * - Rows may give a status (see ATTENDANCE_STATUS_RULES): WORK_FROM_HOME
+ *   and ON_DUTY days without times are credited their expected hours;
+ *   LEAVE days carry no times; HALF_DAY, WORK_FROM_HOME and ON_DUTY are
+ *   not checked for punctuality
  * - Absent days: 0 worked hours, ABSENT status
- * - Sundays: 0 worked hours, WEEKEND status
- * - Saturdays without records: 0 worked hours, ABSENT status (treated as leave)
+ * - Holidays without records: 0 worked hours, HOLIDAY status
+ * - Holidays with records: PRESENT with 0 expected hours (worked on a holiday)
+ * - Non-working days (0 expected hours): 0 worked hours, WEEKEND status
+ * - Days outside options.employment have 0 expected hours, so without
+ *   records they are WEEKEND rather than ABSENT (no leave is charged)
+ * - Saturdays without records: 0 worked hours, ABSENT status under the
+ *   default schedule (treated as leave)
  * 
  * INPUT VALIDATION:
  * - All raw records must have valid employeeId
  * - All times must be in correct format (validated by parseTime)
- * - Duplicate dates for same employee should be handled by caller
+ * - Several rows for the same employee and date are treated as punch pairs
+ * - Night-shift rows must already be dated by shift start date
+ *   (see assignShiftDates)
  * 
  * @param {number} year - Full year (e.g., 2024)
  * @param {number} month - Month number (1-12, NOT 0-11)
- * @param {RawAttendanceInput[]} rawRecords - Raw attendance data (only present days)
+ * @param {RawAttendanceInput[]} rawRecords - Raw punch pairs (only present days)
+ * @param {AttendanceProcessingOptions} [options] - Schedule history (expected hours, break rule), holidays used to classify missing days, and the employee's shift
  * @returns {ProcessedAttendanceRecord[]} Complete month of attendance records
  * @throws {InvalidDateError} If year/month are invalid
  * @throws {InvalidTimeFormatError} If time strings are malformed
@@ -547,7 +1469,8 @@ function findRecordForDate(
 export function processMonthlyAttendance(
   year: number,
   month: number,
-  rawRecords: RawAttendanceInput[]
+  rawRecords: RawAttendanceInput[],
+  options: AttendanceProcessingOptions = {}
 ): ProcessedAttendanceRecord[] {
   // Validate inputs
   if (!Array.isArray(rawRecords)) {
@@ -562,24 +1485,65 @@ export function processMonthlyAttendance(
 
   // Generate complete array of dates for the month
   const allDatesInMonth = generateMonthDates(year, month);
+  const recordsByDate = groupRecordsByDate(normalizedRawRecords);
 
   // Process each date
   const processedRecords: ProcessedAttendanceRecord[] = allDatesInMonth.map((date) => {
-    // Check if we have a raw record for this date
-    const rawRecord = findRecordForDate(date, normalizedRawRecords);
+    // Check if we have punch records for this date
+    const dayRecords = recordsByDate.get(date.getTime());
 
-    if (rawRecord) {
+    if (dayRecords) {
       // CASE 1: Employee was present on this day
       try {
-        const workedHours = calculateWorkedHours(rawRecord.inTime, rawRecord.outTime);
+        const status = resolveDayStatus(dayRecords);
+        const punches = dayRecords.filter((record) => record.inTime !== null || record.outTime !== null);
+        
+        if (punches.length === 0) {
+          // Status without times (e.g., LEAVE, or WORK_FROM_HOME credited its expected hours)
+          return {
+            employeeId: dayRecords[0].employeeId,
+            date: date,
+            inTime: null,
+            outTime: null,
+            workedHours: ATTENDANCE_STATUS_RULES[status].creditsExpectedHours ? getExpectedHours(date, options) : 0,
+            punches: [],
+            breakDeductionHours: 0,
+            unmatchedPunchCount: 0,
+            invertedPunchCount: 0,
+            lateMinutes: 0,
+            earlyDepartureMinutes: 0,
+            status,
+          };
+        }
+        
+        const summary = calculatePunchHours(
+          punches,
+          resolveWorkSchedule(date, options.schedules ?? []),
+          options.shift ?? null
+        );
+        // Only regular office days are checked against the shift, and
+        // inverted times are unreliable until reviewed
+        const punctuality = calculateShiftPunctuality(
+          date,
+          summary.firstIn,
+          summary.lastOut,
+          status === 'PRESENT' && summary.invertedPunchCount === 0 ? options.shift ?? null : null,
+          options
+        );
 
         return {
-          employeeId: rawRecord.employeeId,
+          employeeId: dayRecords[0].employeeId,
           date: date,
-          inTime: rawRecord.inTime,
-          outTime: rawRecord.outTime,
-          workedHours: workedHours,
-          status: 'PRESENT' as const,
+          inTime: summary.firstIn,
+          outTime: summary.lastOut,
+          workedHours: summary.workedHours,
+          punches: summary.punches,
+          breakDeductionHours: summary.breakDeductionHours,
+          unmatchedPunchCount: summary.unmatchedPunchCount,
+          invertedPunchCount: summary.invertedPunchCount,
+          lateMinutes: punctuality.lateMinutes,
+          earlyDepartureMinutes: punctuality.earlyDepartureMinutes,
+          status,
         };
       } catch (error) {
         // If time calculation fails, log error and mark as invalid/absent
@@ -592,25 +1556,53 @@ export function processMonthlyAttendance(
         throw error;
       }
     } else {
-      // CASE 2: No raw record exists - determine status based on day of week
-      if (isSunday(date)) {
-        // Sunday: Always weekend
+      // CASE 2: No raw record exists - determine status from holidays and work schedule
+      if (isHoliday(date, options.holidays ?? [])) {
+        // Company holiday: not a leave
+        return {
+          employeeId: normalizedRawRecords[0]?.employeeId || '',
+          date: date,
+          inTime: null,
+          outTime: null,
+          workedHours: 0,
+          punches: [],
+          breakDeductionHours: 0,
+          unmatchedPunchCount: 0,
+          invertedPunchCount: 0,
+          lateMinutes: 0,
+          earlyDepartureMinutes: 0,
+          status: 'HOLIDAY' as const,
+        };
+      } else if (getExpectedHours(date, options) === 0) {
+        // Non-working day (Sunday under the default schedule)
         return {
           employeeId: normalizedRawRecords[0]?.employeeId || '', // Use first record's employeeId
           date: date,
           inTime: null,
           outTime: null,
           workedHours: 0,
+          punches: [],
+          breakDeductionHours: 0,
+          unmatchedPunchCount: 0,
+          invertedPunchCount: 0,
+          lateMinutes: 0,
+          earlyDepartureMinutes: 0,
           status: 'WEEKEND' as const,
         };
       } else {
-        // Monday-Saturday without record: Mark as ABSENT (leave/absence)
+        // Working day without record: Mark as ABSENT (leave/absence)
         return {
           employeeId: normalizedRawRecords[0]?.employeeId || '',
           date: date,
           inTime: null,
           outTime: null,
           workedHours: 0,
+          punches: [],
+          breakDeductionHours: 0,
+          unmatchedPunchCount: 0,
+          invertedPunchCount: 0,
+          lateMinutes: 0,
+          earlyDepartureMinutes: 0,
           status: 'ABSENT' as const,
         };
       }
@@ -688,9 +1680,12 @@ export function calculateProductivity(
  * Calculate aggregate productivity metrics for a time period
  * 
  * Aggregates multiple attendance records to compute overall productivity.
- * Useful for monthly/quarterly reports.
+ * Useful for monthly/quarterly reports. Each day's expected hours are
+ * scaled by its status (getStatusExpectedHours): a half day owes half the
+ * day, recorded leave nothing.
  * 
  * @param {ProcessedAttendanceRecord[]} records - Array of processed attendance records
+ * @param {ExpectedHoursOptions} [options] - Schedule history and holidays used for expected hours
  * @returns {ProductivityMetrics} Aggregated productivity metrics
  * @throws {CalculationError} If records array is invalid
  * 
@@ -700,7 +1695,8 @@ export function calculateProductivity(
  * console.log(`Productivity: ${metrics.productivityPercentage}%`);
  */
 export function calculateAggregateProductivity(
-  records: ProcessedAttendanceRecord[]
+  records: ProcessedAttendanceRecord[],
+  options: ExpectedHoursOptions = {}
 ): ProductivityMetrics {
   if (!Array.isArray(records) || records.length === 0) {
     throw new CalculationError(
@@ -714,7 +1710,7 @@ export function calculateAggregateProductivity(
 
   for (const record of records) {
     totalActualHours += record.workedHours;
-    totalExpectedHours += getExpectedHours(record.date);
+    totalExpectedHours += getStatusExpectedHours(record.date, record.status, options);
   }
 
   const productivityPercentage = calculateProductivity(
@@ -738,5 +1734,8 @@ export function calculateAggregateProductivity(
  */
 export const CONSTANTS = {
   EXPECTED_HOURS,
+  WEEKDAY_HOUR_FIELDS,
+  DEFAULT_WORK_SCHEDULE,
+  OVERTIME_MULTIPLIERS,
   TIME_24HR_REGEX,
 } as const;
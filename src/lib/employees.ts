@@ -0,0 +1,415 @@
+/**
+ * Employee Validation & Identity
+ *
+ * Validation of employee updates made outside the attendance upload:
+ * assigning the manager whose team lead account sees the employee, the
+ * department and team the employee belongs to, the employee code, name
+ * aliases and merging duplicate employees.
+ *
+ * IDENTITY RULES (attendance upload):
+ * 1. A row with an employee code matches the employee with that code
+ * 2. An unknown code is given to the only employee without a code whose
+ *    name or alias matches; otherwise a new employee is created
+ * 3. A row without a code matches by exact name, then by alias; a name
+ *    shared by several employees is ambiguous and rejects the upload
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/employees
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { RequestValidationError, isValidObjectId, parseDateOnly, requireString } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Validated employee update; omitted fields stay unchanged
+ */
+export interface EmployeeUpdateInput {
+  /** New display name */
+  name?: string;
+
+  /** Employee code, or null to clear */
+  employeeCode?: string | null;
+
+  /** Manager ObjectId, or null to clear */
+  managerId?: string | null;
+
+  /** Department ObjectId, or null to clear */
+  departmentId?: string | null;
+
+  /** Team ObjectId, or null to clear */
+  teamId?: string | null;
+
+  /** Shift ObjectId, or null to clear */
+  shiftId?: string | null;
+
+  /** First day of employment, or null to clear */
+  employmentStartDate?: Date | null;
+
+  /** Last day of employment, or null to clear */
+  employmentEndDate?: Date | null;
+}
+
+/**
+ * Validated alias payload
+ */
+export interface EmployeeAliasInput {
+  employeeId: string;
+  alias: string;
+}
+
+/**
+ * Serializable alias representation for JSON responses and client components
+ */
+export interface EmployeeAliasSummary {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Alternative name */
+  alias: string;
+
+  /** Employee the alias resolves to */
+  employeeId: string;
+}
+
+/**
+ * How an upload row names its employee
+ */
+export interface EmployeeIdentity {
+  /** Employee code from the file, if the row has one */
+  employeeCode: string | null;
+
+  /** Employee name from the file */
+  employeeName: string;
+}
+
+/**
+ * Employee fields used to resolve identities
+ */
+export interface KnownEmployee {
+  id: string;
+  name: string;
+  employeeCode: string | null;
+}
+
+/**
+ * Employee an upload identity resolves to
+ */
+export interface ResolvedEmployee {
+  /** Existing employee ObjectId, or null when the upload creates the employee */
+  id: string | null;
+
+  /** Stored name of an existing employee, or the name in the file */
+  name: string;
+
+  /** Employee code after the upload */
+  employeeCode: string | null;
+
+  /** True when an existing employee without a code is given the file's code */
+  assignCode: boolean;
+}
+
+/**
+ * Result of resolving the identities of an upload
+ */
+export interface IdentityResolution {
+  /** Resolved employee keyed by getEmployeeIdentityKey() */
+  employees: Map<string, ResolvedEmployee>;
+
+  /** Names that cannot be resolved unambiguously */
+  conflicts: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum length of an employee code
+ */
+export const EMPLOYEE_CODE_MAX_LENGTH = 50;
+
+/**
+ * Maximum length of an employee name or alias
+ */
+export const EMPLOYEE_NAME_MAX_LENGTH = 100;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a nullable id field
+ *
+ * @param {unknown} value - Raw value
+ * @param {string} field - Field name used in the error message
+ * @returns {string | null} ObjectId or null
+ * @throws {RequestValidationError} If neither a valid id nor null
+ */
+function parseNullableId(value: unknown, field: string): string | null {
+  if (value !== null && !isValidObjectId(value)) {
+    throw new RequestValidationError(`${field} must be a valid id or null`, field);
+  }
+
+  return value;
+}
+
+/**
+ * Validate an employee update body
+ *
+ * Body shape: { name?, employeeCode?, managerId?, departmentId?, teamId?,
+ * shiftId?, employmentStartDate?, employmentEndDate? } with dates as
+ * YYYY-MM-DD
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @returns {EmployeeUpdateInput} Validated changes
+ * @throws {RequestValidationError} If a field is invalid or nothing changes
+ */
+export function parseEmployeeUpdateInput(body: Record<string, unknown>): EmployeeUpdateInput {
+  const input: EmployeeUpdateInput = {};
+
+  if (body.name !== undefined) {
+    input.name = requireString(body.name, 'name', EMPLOYEE_NAME_MAX_LENGTH);
+  }
+
+  if (body.employeeCode !== undefined) {
+    input.employeeCode =
+      body.employeeCode === null || body.employeeCode === ''
+        ? null
+        : requireString(body.employeeCode, 'employeeCode', EMPLOYEE_CODE_MAX_LENGTH);
+  }
+
+  if (body.managerId !== undefined) {
+    input.managerId = parseNullableId(body.managerId, 'managerId');
+  }
+
+  if (body.departmentId !== undefined) {
+    input.departmentId = parseNullableId(body.departmentId, 'departmentId');
+  }
+
+  if (body.teamId !== undefined) {
+    input.teamId = parseNullableId(body.teamId, 'teamId');
+  }
+
+  if (body.shiftId !== undefined) {
+    input.shiftId = parseNullableId(body.shiftId, 'shiftId');
+  }
+
+  for (const field of ['employmentStartDate', 'employmentEndDate'] as const) {
+    if (body[field] !== undefined) {
+      input[field] = body[field] === null || body[field] === '' ? null : parseDateOnly(body[field], field);
+    }
+  }
+
+  if (Object.keys(input).length === 0) {
+    throw new RequestValidationError('Provide at least one field to update');
+  }
+
+  return input;
+}
+
+/**
+ * Validate an alias request body
+ *
+ * Body shape: { employeeId, alias }
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @returns {EmployeeAliasInput} Validated alias
+ * @throws {RequestValidationError} If a field is invalid
+ */
+export function parseEmployeeAliasInput(body: Record<string, unknown>): EmployeeAliasInput {
+  if (!isValidObjectId(body.employeeId)) {
+    throw new RequestValidationError('employeeId must be a valid id', 'employeeId');
+  }
+
+  return {
+    employeeId: body.employeeId,
+    alias: requireString(body.alias, 'alias', EMPLOYEE_NAME_MAX_LENGTH),
+  };
+}
+
+/**
+ * Validate a merge request body
+ *
+ * Body shape: { duplicateIds: string[] }
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {string} targetId - Employee the duplicates are merged into
+ * @returns {string[]} Distinct duplicate ObjectIds
+ * @throws {RequestValidationError} If the list is empty, has invalid ids or contains the target
+ */
+export function parseEmployeeMergeInput(body: Record<string, unknown>, targetId: string): string[] {
+  const { duplicateIds } = body;
+
+  if (!Array.isArray(duplicateIds) || duplicateIds.length === 0) {
+    throw new RequestValidationError('duplicateIds must be a non-empty array', 'duplicateIds');
+  }
+
+  if (!duplicateIds.every(isValidObjectId)) {
+    throw new RequestValidationError('duplicateIds must contain valid ids', 'duplicateIds');
+  }
+
+  if (duplicateIds.includes(targetId)) {
+    throw new RequestValidationError('An employee cannot be merged into itself', 'duplicateIds');
+  }
+
+  return Array.from(new Set(duplicateIds));
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted alias into its serializable summary
+ *
+ * @param {EmployeeAliasSummary} alias - Prisma EmployeeAlias record
+ * @returns {EmployeeAliasSummary} JSON-safe summary
+ */
+export function toEmployeeAliasSummary(alias: EmployeeAliasSummary): EmployeeAliasSummary {
+  return { id: alias.id, alias: alias.alias, employeeId: alias.employeeId };
+}
+
+// ============================================================================
+// IDENTITY RESOLUTION
+// ============================================================================
+
+/**
+ * Key identifying an upload identity: the code when present, else the name
+ *
+ * @param {EmployeeIdentity} identity - Code and name from one row
+ * @returns {string} "code:<code>" or "name:<name>"
+ */
+export function getEmployeeIdentityKey(identity: EmployeeIdentity): string {
+  return identity.employeeCode !== null ? `code:${identity.employeeCode}` : `name:${identity.employeeName}`;
+}
+
+/**
+ * Format an employee for messages: "Name (CODE)" or "Name"
+ *
+ * @param {{ name: string; employeeCode: string | null }} employee - Employee or resolved identity
+ * @returns {string} Display label
+ */
+export function formatEmployeeLabel(employee: { name: string; employeeCode: string | null }): string {
+  return employee.employeeCode ? `${employee.name} (${employee.employeeCode})` : employee.name;
+}
+
+/**
+ * Resolve upload identities to existing or new employees
+ *
+ * Applies the identity rules in the module description. Several
+ * identities may resolve to the same existing employee (e.g., two
+ * spellings that are aliases of one person); callers group rows by the
+ * resolved id.
+ *
+ * @param {EmployeeIdentity[]} identities - Identities found in the file (duplicates allowed)
+ * @param {KnownEmployee[]} employees - All stored employees
+ * @param {Array<{ alias: string; employeeId: string }>} aliases - All stored aliases
+ * @returns {IdentityResolution} Resolved employees and ambiguous names
+ */
+export function resolveEmployeeIdentities(
+  identities: EmployeeIdentity[],
+  employees: KnownEmployee[],
+  aliases: Array<{ alias: string; employeeId: string }>
+): IdentityResolution {
+  const employeeById = new Map(employees.map((employee) => [employee.id, employee]));
+  const employeeByCode = new Map<string, KnownEmployee>();
+  const employeesByName = new Map<string, KnownEmployee[]>();
+
+  for (const employee of employees) {
+    if (employee.employeeCode !== null) {
+      employeeByCode.set(employee.employeeCode, employee);
+    }
+    employeesByName.set(employee.name, [...(employeesByName.get(employee.name) ?? []), employee]);
+  }
+
+  const aliasTargets = new Map(aliases.map(({ alias, employeeId }) => [alias, employeeById.get(employeeId)]));
+
+  /**
+   * Employees matching a name: exact names first, then an alias
+   */
+  const matchName = (name: string): KnownEmployee[] => {
+    const named = employeesByName.get(name);
+    if (named) {
+      return named;
+    }
+
+    const aliased = aliasTargets.get(name);
+    return aliased ? [aliased] : [];
+  };
+
+  const resolved = new Map<string, ResolvedEmployee>();
+  const conflicts: string[] = [];
+  const claimedCodes = new Map<string, string[]>(); // codeless employee id -> codes claiming it
+
+  for (const identity of identities) {
+    const key = getEmployeeIdentityKey(identity);
+    if (resolved.has(key)) {
+      continue;
+    }
+
+    const { employeeCode, employeeName } = identity;
+
+    if (employeeCode !== null) {
+      const coded = employeeByCode.get(employeeCode);
+      if (coded) {
+        resolved.set(key, { id: coded.id, name: coded.name, employeeCode, assignCode: false });
+        continue;
+      }
+
+      const candidates = matchName(employeeName).filter((employee) => employee.employeeCode === null);
+      if (candidates.length === 1) {
+        const [candidate] = candidates;
+        claimedCodes.set(candidate.id, [...(claimedCodes.get(candidate.id) ?? []), employeeCode]);
+        resolved.set(key, { id: candidate.id, name: candidate.name, employeeCode, assignCode: true });
+      } else {
+        resolved.set(key, { id: null, name: employeeName, employeeCode, assignCode: false });
+      }
+      continue;
+    }
+
+    const candidates = matchName(employeeName);
+    if (candidates.length > 1) {
+      conflicts.push(
+        `"${employeeName}" matches ${candidates.length} employees; add an employee code column or merge the duplicates`
+      );
+    } else if (candidates.length === 1) {
+      const [candidate] = candidates;
+      resolved.set(key, {
+        id: candidate.id,
+        name: candidate.name,
+        employeeCode: candidate.employeeCode,
+        assignCode: false,
+      });
+    } else {
+      resolved.set(key, { id: null, name: employeeName, employeeCode: null, assignCode: false });
+    }
+  }
+
+  for (const [employeeId, codes] of claimedCodes) {
+    if (codes.length > 1) {
+      conflicts.push(
+        `"${employeeById.get(employeeId)?.name}" has no employee code and matches codes ${codes.join(', ')}; ` +
+        'set the code on the employee first'
+      );
+    }
+  }
+
+  // A name-only row of an employee whose code this file assigns sees the new code
+  for (const employee of resolved.values()) {
+    if (employee.id !== null && !employee.assignCode) {
+      const codes = claimedCodes.get(employee.id);
+      if (codes?.length === 1) {
+        employee.employeeCode = codes[0];
+      }
+    }
+  }
+
+  return { employees: resolved, conflicts };
+}
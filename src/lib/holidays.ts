@@ -0,0 +1,344 @@
+/**
+ * Holiday Calendar Definitions, Validation & iCalendar Import
+ *
+ * Shared types and validation for the holiday calendar, plus a dependency-free
+ * parser that extracts holidays from iCalendar (.ics, RFC 5545) files such as
+ * the public holiday feeds published by Google Calendar or Outlook.
+ *
+ * ICALENDAR SUPPORT:
+ * - Line unfolding (continuation lines starting with space/tab)
+ * - VEVENT blocks with DTSTART / DTEND / SUMMARY
+ * - All-day dates (VALUE=DATE) and date-times (time component ignored)
+ * - Multi-day events expanded into one holiday per day (DTEND exclusive)
+ * - Text unescaping (\, \; \n)
+ * - RRULE recurrence is NOT expanded: only the first occurrence is imported
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/holidays
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import {
+  RequestValidationError,
+  formatDateOnly,
+  parseDateOnly,
+  requireString,
+} from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Validated holiday payload ready for Prisma create/update
+ */
+export interface HolidayInput {
+  /** Holiday name (e.g., "New Year's Day") */
+  name: string;
+
+  /** Holiday date normalized to midnight */
+  date: Date;
+}
+
+/**
+ * Serializable holiday representation for JSON responses and client components
+ */
+export interface HolidaySummary {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Holiday name */
+  name: string;
+
+  /** Holiday date (YYYY-MM-DD) */
+  date: string;
+}
+
+// ============================================================================
+// CUSTOM ERROR CLASSES
+// ============================================================================
+
+/**
+ * Error thrown when an iCalendar file cannot be parsed
+ */
+export class ICalendarParseError extends Error {
+  /**
+   * @param {string} message - Error description
+   * @param {number} [lineNumber] - 1-based line number (after unfolding) where parsing failed
+   */
+  constructor(message: string, public readonly lineNumber?: number) {
+    super(lineNumber ? `Line ${lineNumber}: ${message}` : message);
+    this.name = 'ICalendarParseError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ICalendarParseError);
+    }
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Longest event (in days) expanded into individual holidays
+ * Guards against malformed files producing thousands of entries.
+ */
+const MAX_EVENT_DAYS = 31;
+
+/**
+ * iCalendar DATE / DATE-TIME value: YYYYMMDD with optional THHMMSS[Z]
+ */
+const ICAL_DATE_REGEX = /^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a holiday request body
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {boolean} [partial=false] - Allow missing fields (PATCH semantics)
+ * @returns {Partial<HolidayInput>} Validated fields (complete when partial is false)
+ * @throws {RequestValidationError} If any provided field is invalid
+ */
+export function parseHolidayInput(body: Record<string, unknown>, partial: true): Partial<HolidayInput>;
+export function parseHolidayInput(body: Record<string, unknown>, partial?: false): HolidayInput;
+export function parseHolidayInput(
+  body: Record<string, unknown>,
+  partial = false
+): Partial<HolidayInput> {
+  const input: Partial<HolidayInput> = {};
+
+  if (!partial || body.name !== undefined) {
+    input.name = requireString(body.name, 'name', 100);
+  }
+
+  if (!partial || body.date !== undefined) {
+    input.date = parseDateOnly(body.date, 'date');
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    throw new RequestValidationError('Request body contains no holiday fields to update');
+  }
+
+  return input;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted holiday into its serializable summary
+ *
+ * @param {HolidayInput & { id: string }} holiday - Prisma Holiday record
+ * @returns {HolidaySummary} JSON-safe summary
+ */
+export function toHolidaySummary(holiday: HolidayInput & { id: string }): HolidaySummary {
+  return {
+    id: holiday.id,
+    name: holiday.name,
+    date: formatDateOnly(holiday.date),
+  };
+}
+
+// ============================================================================
+// ICALENDAR PARSING
+// ============================================================================
+
+/**
+ * A single content line split into name, parameters and value
+ */
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Unfold iCalendar content lines
+ *
+ * RFC 5545 §3.1: long lines are split with CRLF followed by a single
+ * space or tab, which must be removed before parsing.
+ *
+ * @param {string} content - Raw file content
+ * @returns {string[]} Logical content lines
+ */
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Parse a content line of the form NAME;PARAM=VALUE:value
+ *
+ * @param {string} line - Unfolded content line
+ * @returns {ICalProperty | null} Parsed property, or null if the line has no colon
+ */
+function parsePropertyLine(line: string): ICalProperty | null {
+  const colonIndex = line.indexOf(':');
+  if (colonIndex === -1) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+
+  for (const part of paramParts) {
+    const [key, paramValue = ''] = part.split('=');
+    params[key.toUpperCase()] = paramValue;
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(colonIndex + 1),
+  };
+}
+
+/**
+ * Unescape an iCalendar TEXT value
+ *
+ * @param {string} value - Escaped text
+ * @returns {string} Plain text
+ */
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\[nN]/g, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value to a local-midnight Date
+ *
+ * The calendar date is taken literally; time and timezone are ignored
+ * because holidays apply to whole days.
+ *
+ * @param {string} value - Value such as "20241225" or "20241225T000000Z"
+ * @param {number} lineNumber - Line number for error reporting
+ * @returns {Date} Date at local midnight
+ * @throws {ICalendarParseError} If the value is not a valid date
+ */
+function parseICalDate(value: string, lineNumber: number): Date {
+  const match = value.trim().match(ICAL_DATE_REGEX);
+  if (!match) {
+    throw new ICalendarParseError(`Unsupported date value "${value}"`, lineNumber);
+  }
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  const day = parseInt(match[3], 10);
+  const date = new Date(year, month - 1, day);
+
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+    throw new ICalendarParseError(`Invalid calendar date "${value}"`, lineNumber);
+  }
+
+  return date;
+}
+
+/**
+ * Parse holidays from iCalendar content
+ *
+ * ALGORITHM:
+ * 1. Unfold continuation lines
+ * 2. Collect DTSTART / DTEND / SUMMARY inside each VEVENT
+ * 3. Expand multi-day events into one entry per day (DTEND is exclusive)
+ * 4. De-duplicate by date (first event on a date wins)
+ *
+ * @param {string} content - Raw .ics file content
+ * @returns {HolidayInput[]} Holidays sorted by date
+ * @throws {ICalendarParseError} If the content is not a VCALENDAR or an event is malformed
+ *
+ * @example
+ * parseICalendarHolidays('BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20241225\nSUMMARY:Christmas Day\nEND:VEVENT\nEND:VCALENDAR')
+ * // Returns: [{ name: 'Christmas Day', date: 2024-12-25T00:00 }]
+ */
+export function parseICalendarHolidays(content: string): HolidayInput[] {
+  const lines = unfoldLines(content);
+
+  if (lines.length === 0 || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new ICalendarParseError('File is not an iCalendar file (missing BEGIN:VCALENDAR)');
+  }
+
+  const holidaysByDate = new Map<number, HolidayInput>();
+  let event: { start?: Date; end?: Date; summary?: string; line: number } | null = null;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const property = parsePropertyLine(line.trim());
+    if (!property) {
+      return;
+    }
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      event = { line: lineNumber };
+      return;
+    }
+
+    if (!event) {
+      return;
+    }
+
+    switch (property.name) {
+      case 'DTSTART':
+        event.start = parseICalDate(property.value, lineNumber);
+        break;
+
+      case 'DTEND':
+        event.end = parseICalDate(property.value, lineNumber);
+        break;
+
+      case 'SUMMARY':
+        event.summary = unescapeText(property.value);
+        break;
+
+      case 'END':
+        if (property.value.toUpperCase() !== 'VEVENT') {
+          break;
+        }
+
+        if (!event.start) {
+          throw new ICalendarParseError('Event is missing DTSTART', event.line);
+        }
+
+        // DTEND is exclusive; a missing or same-day DTEND means a single day
+        const dayCount = event.end
+          ? Math.max(1, differenceInCalendarDays(event.end, event.start))
+          : 1;
+
+        if (dayCount > MAX_EVENT_DAYS) {
+          throw new ICalendarParseError(
+            `Event spans ${dayCount} days; at most ${MAX_EVENT_DAYS} days are supported`,
+            event.line
+          );
+        }
+
+        for (let offset = 0; offset < dayCount; offset++) {
+          const date = addDays(event.start, offset);
+          if (!holidaysByDate.has(date.getTime())) {
+            holidaysByDate.set(date.getTime(), {
+              name: (event.summary || 'Holiday').slice(0, 100),
+              date,
+            });
+          }
+        }
+
+        event = null;
+        break;
+    }
+  });
+
+  return Array.from(holidaysByDate.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+}
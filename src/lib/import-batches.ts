@@ -0,0 +1,191 @@
+/**
+ * Import Batch Provenance & Rollback Rules
+ *
+ * Every confirmed upload is recorded as an import batch: the file name and
+ * SHA-256, the uploader, and the months and employees it replaced. The
+ * records it wrote link to it, and the records it replaced are kept as
+ * snapshots so the batch can be rolled back from the import history page.
+ *
+ * ROLLBACK RULES:
+ * - Only an APPLIED batch can be rolled back
+ * - Every record in the months and employees the batch replaced must still
+ *   be one the batch wrote: a later upload of the same month, or a merge
+ *   or deletion that moved or removed some of them, blocks the rollback
+ *   (roll back the later upload first)
+ * - Rolling back deletes the batch's records and restores the replaced ones
+ *   under their original ids; corrections made after the upload are lost
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/import-batches
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { formatMonthParam } from '@/lib/months';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Batch state (mirrors the Prisma ImportBatchStatus enum)
+ */
+export type ImportBatchStatus = 'APPLIED' | 'ROLLED_BACK';
+
+/**
+ * One month replaced by a batch (mirrors the Prisma ImportBatchMonth type)
+ */
+export interface ImportBatchMonth {
+  /** Full year (e.g., 2024) */
+  year: number;
+
+  /** Month (1-12) */
+  month: number;
+
+  /** Employees whose month was replaced */
+  employeeIds: string[];
+
+  /** Records written for the month */
+  recordCount: number;
+
+  /** Existing records replaced for the month */
+  replacedCount: number;
+}
+
+/**
+ * Serializable batch representation for JSON responses and client components
+ */
+export interface ImportBatchSummary {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Name of the uploaded file */
+  filename: string;
+
+  /** SHA-256 of the file contents (hex) */
+  sha256: string;
+
+  /** Name of the uploading user */
+  uploaderName: string;
+
+  /** Upload timestamp (ISO 8601) */
+  createdAt: string;
+
+  /** Replaced months in chronological order, without employee ids */
+  months: Array<Omit<ImportBatchMonth, 'employeeIds'> & { employeeCount: number }>;
+
+  /** Distinct employees across all months */
+  employeeCount: number;
+
+  /** Records written */
+  recordCount: number;
+
+  /** Existing records replaced */
+  replacedCount: number;
+
+  /** Whether the upload is still applied */
+  status: ImportBatchStatus;
+
+  /** Person who rolled the upload back */
+  rolledBackBy: string | null;
+
+  /** Rollback timestamp (ISO 8601) */
+  rolledBackAt: string | null;
+}
+
+/**
+ * Stored record fields the rollback check looks at
+ */
+export interface RollbackScopeRecord {
+  employeeId: string;
+  date: Date;
+  importBatchId: string | null;
+}
+
+// ============================================================================
+// ROLLBACK RULES
+// ============================================================================
+
+/**
+ * Explain why a batch cannot be rolled back
+ *
+ * @param {object} batch - Batch id, state and record count
+ * @param {RollbackScopeRecord[]} scopeRecords - Stored records in the batch's months and employees
+ * @returns {string | null} Reason the rollback is blocked, or null when it can proceed
+ *
+ * @example
+ * findRollbackConflict({ id: 'a', status: 'APPLIED', recordCount: 31 }, records)
+ * // Returns: '31 record(s) in these months were replaced since this upload. Roll back later uploads first.'
+ */
+export function findRollbackConflict(
+  batch: { id: string; status: ImportBatchStatus; recordCount: number },
+  scopeRecords: RollbackScopeRecord[]
+): string | null {
+  if (batch.status === 'ROLLED_BACK') {
+    return 'This upload was already rolled back';
+  }
+
+  const replacedLater = scopeRecords.filter((record) => record.importBatchId !== batch.id).length;
+  if (replacedLater > 0) {
+    return `${replacedLater} record(s) in these months were replaced since this upload. Roll back later uploads first.`;
+  }
+
+  const missing = batch.recordCount - scopeRecords.length;
+  if (missing > 0) {
+    return `${missing} record(s) of this upload were removed or moved to another employee`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// FORMATTING & SERIALIZATION
+// ============================================================================
+
+/**
+ * List the months of a batch for display
+ *
+ * @param {Array<Pick<ImportBatchMonth, 'year' | 'month'>>} months - Replaced months
+ * @returns {string} e.g. "2024-01, 2024-02"
+ */
+export function formatImportMonths(months: Array<Pick<ImportBatchMonth, 'year' | 'month'>>): string {
+  return months.map(({ year, month }) => formatMonthParam(year, month)).join(', ');
+}
+
+/**
+ * Convert a persisted batch into its serializable summary
+ *
+ * @param {object} batch - Prisma ImportBatch record
+ * @returns {ImportBatchSummary} JSON-safe summary
+ */
+export function toImportBatchSummary(batch: {
+  id: string;
+  filename: string;
+  sha256: string;
+  uploaderName: string;
+  createdAt: Date;
+  months: ImportBatchMonth[];
+  employeeCount: number;
+  recordCount: number;
+  replacedCount: number;
+  status: ImportBatchStatus;
+  rolledBackBy: string | null;
+  rolledBackAt: Date | null;
+}): ImportBatchSummary {
+  return {
+    id: batch.id,
+    filename: batch.filename,
+    sha256: batch.sha256,
+    uploaderName: batch.uploaderName,
+    createdAt: batch.createdAt.toISOString(),
+    months: batch.months.map(({ employeeIds, ...month }) => ({ ...month, employeeCount: employeeIds.length })),
+    employeeCount: batch.employeeCount,
+    recordCount: batch.recordCount,
+    replacedCount: batch.replacedCount,
+    status: batch.status,
+    rolledBackBy: batch.rolledBackBy,
+    rolledBackAt: batch.rolledBackAt ? batch.rolledBackAt.toISOString() : null,
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Import Profile Definitions & Validation
+ *
+ * An import profile describes how a source spreadsheet maps onto the
+ * attendance fields the upload pipeline expects: which worksheet to read,
+ * which header holds each field and how date strings are written. Used by
+ * the /api/import-profiles routes, the upload route and the profile editor
+ * in the dashboard uploader.
+ *
+ * The employee code and status columns are optional: each is read when the
+ * sheet has the mapped header and ignored otherwise, so files without codes
+ * keep matching employees by name and files without statuses record every
+ * row as PRESENT.
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/import-profiles
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import {
+  RequestValidationError,
+  requireString,
+} from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Attendance field populated from a source column
+ */
+export type ImportField = 'employeeName' | 'employeeCode' | 'date' | 'inTime' | 'outTime' | 'status';
+
+/**
+ * Fields that may be left unmapped
+ */
+export type OptionalImportField = 'employeeCode' | 'status';
+
+/**
+ * Source column header for each attendance field (null = not mapped)
+ */
+export type ImportColumnMapping = Record<Exclude<ImportField, OptionalImportField>, string> &
+  Record<OptionalImportField, string | null>;
+
+/**
+ * Settings applied when parsing an uploaded spreadsheet
+ */
+export interface ImportSettings {
+  /** Worksheet to read (null = first sheet) */
+  sheetName: string | null;
+
+  /** date-fns pattern for text dates (null = automatic detection) */
+  dateFormat: string | null;
+
+  /** Source header for each field */
+  columns: ImportColumnMapping;
+}
+
+/**
+ * Validated import profile payload ready for Prisma create/update
+ */
+export interface ImportProfileInput {
+  name: string;
+  sheetName: string | null;
+  dateFormat: string | null;
+  employeeNameColumn: string;
+  employeeCodeColumn: string | null;
+  dateColumn: string;
+  inTimeColumn: string;
+  outTimeColumn: string;
+  statusColumn: string | null;
+}
+
+/**
+ * Serializable import profile representation for JSON responses and client components
+ */
+export interface ImportProfileSummary extends ImportSettings {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Human-readable profile name */
+  name: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Attendance fields in display order with labels and the default header
+ */
+export const IMPORT_FIELDS: ReadonlyArray<{
+  field: ImportField;
+  label: string;
+  column: `${ImportField}Column`;
+  defaultHeader: string;
+  required: boolean;
+}> = [
+  { field: 'employeeName', label: 'Employee Name', column: 'employeeNameColumn', defaultHeader: 'Employee Name', required: true },
+  { field: 'employeeCode', label: 'Employee Code', column: 'employeeCodeColumn', defaultHeader: 'Employee Code', required: false },
+  { field: 'date', label: 'Date', column: 'dateColumn', defaultHeader: 'Date', required: true },
+  { field: 'inTime', label: 'In Time', column: 'inTimeColumn', defaultHeader: 'In Time', required: true },
+  { field: 'outTime', label: 'Out Time', column: 'outTimeColumn', defaultHeader: 'Out Time', required: true },
+  { field: 'status', label: 'Status', column: 'statusColumn', defaultHeader: 'Status', required: false },
+];
+
+/**
+ * Supported date-fns patterns for text dates, with labels
+ */
+export const IMPORT_DATE_FORMATS: ReadonlyArray<{ format: string; label: string }> = [
+  { format: 'yyyy-MM-dd', label: 'YYYY-MM-DD (2024-01-31)' },
+  { format: 'MM/dd/yyyy', label: 'MM/DD/YYYY (01/31/2024)' },
+  { format: 'dd/MM/yyyy', label: 'DD/MM/YYYY (31/01/2024)' },
+  { format: 'dd-MM-yyyy', label: 'DD-MM-YYYY (31-01-2024)' },
+  { format: 'dd.MM.yyyy', label: 'DD.MM.YYYY (31.01.2024)' },
+  { format: 'd MMM yyyy', label: 'D MMM YYYY (31 Jan 2024)' },
+];
+
+/**
+ * Settings used when no profile is selected (the documented file layout)
+ */
+export const DEFAULT_IMPORT_SETTINGS: ImportSettings = {
+  sheetName: null,
+  dateFormat: null,
+  columns: {
+    employeeName: 'Employee Name',
+    employeeCode: 'Employee Code',
+    date: 'Date',
+    inTime: 'In Time',
+    outTime: 'Out Time',
+    status: 'Status',
+  },
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate an optional text field, mapping empty values to null
+ *
+ * @param {unknown} value - Raw value
+ * @param {string} field - Field name for error messages
+ * @returns {string | null} Trimmed string or null
+ * @throws {RequestValidationError} If the value is not a string
+ */
+function parseOptionalString(value: unknown, field: string): string | null {
+  if (value === null || value === '') {
+    return null;
+  }
+
+  return requireString(value, field, 100);
+}
+
+/**
+ * Validate an import profile request body
+ *
+ * Body shape: { name, sheetName?, dateFormat?, columns: { employeeName, employeeCode?, date, inTime, outTime, status? } }
+ * For partial updates only the provided fields (and provided column keys)
+ * are validated and returned.
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {boolean} [partial=false] - Allow missing fields (PATCH semantics)
+ * @returns {Partial<ImportProfileInput>} Validated fields (complete when partial is false)
+ * @throws {RequestValidationError} If any provided field is invalid
+ */
+export function parseImportProfileInput(
+  body: Record<string, unknown>,
+  partial: true
+): Partial<ImportProfileInput>;
+export function parseImportProfileInput(
+  body: Record<string, unknown>,
+  partial?: false
+): ImportProfileInput;
+export function parseImportProfileInput(
+  body: Record<string, unknown>,
+  partial = false
+): Partial<ImportProfileInput> {
+  const input: Partial<ImportProfileInput> = {};
+
+  if (!partial || body.name !== undefined) {
+    input.name = requireString(body.name, 'name', 100);
+  }
+
+  if (!partial || body.sheetName !== undefined) {
+    input.sheetName = body.sheetName === undefined ? null : parseOptionalString(body.sheetName, 'sheetName');
+  }
+
+  if (!partial || body.dateFormat !== undefined) {
+    const dateFormat = body.dateFormat === undefined ? null : parseOptionalString(body.dateFormat, 'dateFormat');
+
+    if (dateFormat !== null && !IMPORT_DATE_FORMATS.some((option) => option.format === dateFormat)) {
+      throw new RequestValidationError(
+        `dateFormat must be one of: ${IMPORT_DATE_FORMATS.map((option) => option.format).join(', ')}`,
+        'dateFormat'
+      );
+    }
+
+    input.dateFormat = dateFormat;
+  }
+
+  if (!partial || body.columns !== undefined) {
+    const columns = body.columns;
+    if (typeof columns !== 'object' || columns === null || Array.isArray(columns)) {
+      throw new RequestValidationError('columns must be an object', 'columns');
+    }
+
+    for (const { field, column, required } of IMPORT_FIELDS) {
+      const header = (columns as Record<string, unknown>)[field];
+      if (partial && header === undefined) {
+        continue;
+      }
+
+      (input as Record<string, string | null>)[column] = required
+        ? requireString(header, `columns.${field}`, 100)
+        : parseOptionalString(header ?? null, `columns.${field}`);
+    }
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    throw new RequestValidationError('Request body contains no import profile fields to update');
+  }
+
+  return input;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted import profile into its serializable summary
+ *
+ * @param {ImportProfileInput & { id: string }} profile - Prisma ImportProfile record
+ * @returns {ImportProfileSummary} JSON-safe summary
+ */
+export function toImportProfileSummary(
+  profile: ImportProfileInput & { id: string }
+): ImportProfileSummary {
+  return {
+    id: profile.id,
+    name: profile.name,
+    sheetName: profile.sheetName,
+    dateFormat: profile.dateFormat,
+    columns: {
+      employeeName: profile.employeeNameColumn,
+      employeeCode: profile.employeeCodeColumn,
+      date: profile.dateColumn,
+      inTime: profile.inTimeColumn,
+      outTime: profile.outTimeColumn,
+      status: profile.statusColumn,
+    },
+  };
+}
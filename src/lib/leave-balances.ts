@@ -0,0 +1,436 @@
+/**
+ * Leave Entitlements, Accrual & Balance Calculation
+ *
+ * Shared types and validation for leave entitlements, plus the pure accrual
+ * engine that turns an entitlement and the days used into a balance as of
+ * any date.
+ *
+ * BUSINESS RULES:
+ * - Entitlements are per leave type; an employee-specific entitlement
+ *   overrides the company default (employeeId null) for that type
+ * - YEARLY accrual credits all annual days on 1 January; the first year is
+ *   prorated by the months remaining after effectiveFrom
+ * - MONTHLY accrual credits annualDays / 12 at the start of each month
+ * - Every 1 January the balance resets: at most carryForwardCap unused
+ *   days carry over (a negative balance carries over in full)
+ * - Each recorded ABSENT or LEAVE day uses one day, a HALF_DAY half a day
+ *   (see ATTENDANCE_STATUS_RULES): of the approved leave's type when
+ *   covered by an approved request, otherwise of UNEXPLAINED_ABSENCE_LEAVE_TYPE
+ * - Leave types without an entitlement are not balance-tracked
+ *
+ * This module has no database dependency so it can be imported from client
+ * components. Loading the inputs lives in lib/leave-balance-queries.
+ *
+ * @module lib/leave-balances
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { endOfDay, endOfYear, max } from 'date-fns';
+import { ATTENDANCE_STATUS_RULES, type AttendanceStatus } from '@/lib/calculations';
+import { LEAVE_TYPES, parseLeaveType, type LeaveType } from '@/lib/leave-requests';
+import {
+  RequestValidationError,
+  formatDateOnly,
+  isValidObjectId,
+  parseDateOnly,
+  parseNumberInRange,
+} from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Accrual schedule (mirrors the Prisma LeaveAccrualFrequency enum)
+ */
+export type LeaveAccrualFrequency = 'MONTHLY' | 'YEARLY';
+
+/**
+ * Entitlement fields used by the accrual engine
+ */
+export interface LeaveEntitlementRule {
+  /** Leave type accrued */
+  type: LeaveType;
+
+  /** Days granted per calendar year */
+  annualDays: number;
+
+  /** Accrual schedule */
+  accrualFrequency: LeaveAccrualFrequency;
+
+  /** Most unused days carried into the next year */
+  carryForwardCap: number;
+
+  /** First date the entitlement accrues (midnight) */
+  effectiveFrom: Date;
+}
+
+/**
+ * Validated entitlement payload ready for Prisma create/update
+ */
+export interface LeaveEntitlementInput extends LeaveEntitlementRule {
+  /** Employee ObjectId, or null for the company default */
+  employeeId: string | null;
+}
+
+/**
+ * Serializable entitlement representation for JSON responses and client components
+ */
+export interface LeaveEntitlementSummary {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Employee ObjectId, or null for the company default */
+  employeeId: string | null;
+
+  /** Employee name, or null for the company default */
+  employeeName: string | null;
+
+  type: LeaveType;
+  annualDays: number;
+  accrualFrequency: LeaveAccrualFrequency;
+  carryForwardCap: number;
+
+  /** First date the entitlement accrues (YYYY-MM-DD) */
+  effectiveFrom: string;
+}
+
+/**
+ * Leave used on one day
+ */
+export interface LeaveUsageDay {
+  /** Day the leave was taken (midnight) */
+  date: Date;
+
+  /** Days used (0.5 for a half day) */
+  days: number;
+}
+
+/**
+ * Balance of one leave type as of a date
+ */
+export interface LeaveBalance {
+  /** Leave type */
+  type: LeaveType;
+
+  /** Days granted per calendar year */
+  annualDays: number;
+
+  /** Days carried over from the previous year (after the cap) */
+  carriedForward: number;
+
+  /** Days credited so far this year */
+  accrued: number;
+
+  /** Days used so far this year */
+  used: number;
+
+  /** carriedForward + accrued - used (negative when overdrawn) */
+  remaining: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Leave type charged for leave days (ABSENT, LEAVE, HALF_DAY) without an
+ * approved leave request
+ */
+export const UNEXPLAINED_ABSENCE_LEAVE_TYPE: LeaveType = 'CASUAL';
+
+/**
+ * Accrual schedules with labels
+ */
+export const LEAVE_ACCRUAL_FREQUENCIES: ReadonlyArray<{ value: LeaveAccrualFrequency; label: string }> = [
+  { value: 'YEARLY', label: 'Yearly (1 January)' },
+  { value: 'MONTHLY', label: 'Monthly (1/12 per month)' },
+];
+
+/**
+ * Largest annual entitlement accepted (days)
+ */
+const MAX_ANNUAL_DAYS = 366;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate an entitlement request body
+ *
+ * Body shape: { employeeId?, type, annualDays, accrualFrequency?, carryForwardCap?, effectiveFrom }
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {boolean} [partial=false] - Allow missing fields (PATCH semantics)
+ * @returns {Partial<LeaveEntitlementInput>} Validated fields (complete when partial is false)
+ * @throws {RequestValidationError} If any provided field is invalid
+ */
+export function parseLeaveEntitlementInput(
+  body: Record<string, unknown>,
+  partial: true
+): Partial<LeaveEntitlementInput>;
+export function parseLeaveEntitlementInput(
+  body: Record<string, unknown>,
+  partial?: false
+): LeaveEntitlementInput;
+export function parseLeaveEntitlementInput(
+  body: Record<string, unknown>,
+  partial = false
+): Partial<LeaveEntitlementInput> {
+  const input: Partial<LeaveEntitlementInput> = {};
+
+  if (!partial || body.employeeId !== undefined) {
+    if (body.employeeId === undefined || body.employeeId === null || body.employeeId === '') {
+      input.employeeId = null;
+    } else if (isValidObjectId(body.employeeId)) {
+      input.employeeId = body.employeeId;
+    } else {
+      throw new RequestValidationError('employeeId must be a valid employee id or null', 'employeeId');
+    }
+  }
+
+  if (!partial || body.type !== undefined) {
+    input.type = parseLeaveType(body.type);
+  }
+
+  if (!partial || body.annualDays !== undefined) {
+    input.annualDays = parseNumberInRange(body.annualDays, 'annualDays', 0, MAX_ANNUAL_DAYS);
+  }
+
+  if (!partial || body.accrualFrequency !== undefined) {
+    const frequency = body.accrualFrequency ?? 'YEARLY';
+    const match = LEAVE_ACCRUAL_FREQUENCIES.find(({ value }) => value === frequency);
+    if (!match) {
+      throw new RequestValidationError('accrualFrequency must be MONTHLY or YEARLY', 'accrualFrequency');
+    }
+    input.accrualFrequency = match.value;
+  }
+
+  if (!partial || body.carryForwardCap !== undefined) {
+    input.carryForwardCap = body.carryForwardCap === undefined
+      ? 0
+      : parseNumberInRange(body.carryForwardCap, 'carryForwardCap', 0, MAX_ANNUAL_DAYS);
+  }
+
+  if (!partial || body.effectiveFrom !== undefined) {
+    input.effectiveFrom = parseDateOnly(body.effectiveFrom, 'effectiveFrom');
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    throw new RequestValidationError('Request body contains no leave entitlement fields to update');
+  }
+
+  return input;
+}
+
+// ============================================================================
+// ACCRUAL ENGINE
+// ============================================================================
+
+/**
+ * Round a day count to 2 decimals
+ *
+ * @param {number} value - Day count
+ * @returns {number} Rounded value
+ */
+function roundDays(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Days credited between two dates of the same calendar year
+ *
+ * @param {LeaveEntitlementRule} rule - Entitlement
+ * @param {Date} periodStart - First accruing day in the year
+ * @param {Date} periodEnd - Last day considered in the year
+ * @returns {number} Days credited
+ */
+function accrueForPeriod(rule: LeaveEntitlementRule, periodStart: Date, periodEnd: Date): number {
+  const monthlyDays = rule.annualDays / 12;
+
+  if (rule.accrualFrequency === 'MONTHLY') {
+    // Credited at the start of each month reached
+    return monthlyDays * (periodEnd.getMonth() - periodStart.getMonth() + 1);
+  }
+
+  // Whole-year grant, prorated by the months left in a partial first year
+  return monthlyDays * (12 - periodStart.getMonth());
+}
+
+/**
+ * Calculate the balance of one leave type as of a date
+ *
+ * ALGORITHM:
+ * 1. Walk calendar years from effectiveFrom to asOf
+ * 2. Per year: opening = min(previous closing, carryForwardCap) (0 in the first year),
+ *    closing = opening + accrued - used
+ * 3. Report the components of the year containing asOf
+ *
+ * @param {LeaveEntitlementRule} rule - Entitlement in effect
+ * @param {LeaveUsageDay[]} usedDays - Days charged to this leave type (any order, any range)
+ * @param {Date} asOf - Balance date (inclusive)
+ * @returns {LeaveBalance} Balance as of the date (all zero before effectiveFrom)
+ *
+ * @example
+ * // 12 days/year accrued monthly, 2 days used by 15 March
+ * calculateLeaveBalance(
+ *   { type: 'CASUAL', annualDays: 12, accrualFrequency: 'MONTHLY', carryForwardCap: 0, effectiveFrom: new Date(2024, 0, 1) },
+ *   [{ date: new Date(2024, 1, 5), days: 1 }, { date: new Date(2024, 1, 6), days: 1 }],
+ *   new Date(2024, 2, 15)
+ * )
+ * // Returns: { accrued: 3, used: 2, remaining: 1, ... }
+ */
+export function calculateLeaveBalance(
+  rule: LeaveEntitlementRule,
+  usedDays: LeaveUsageDay[],
+  asOf: Date
+): LeaveBalance {
+  const balance: LeaveBalance = {
+    type: rule.type,
+    annualDays: rule.annualDays,
+    carriedForward: 0,
+    accrued: 0,
+    used: 0,
+    remaining: 0,
+  };
+
+  const asOfEnd = endOfDay(asOf);
+  if (asOfEnd < rule.effectiveFrom) {
+    return balance;
+  }
+
+  let closing = 0;
+
+  for (let year = rule.effectiveFrom.getFullYear(); year <= asOf.getFullYear(); year++) {
+    const yearStart = new Date(year, 0, 1);
+    const periodStart = max([yearStart, rule.effectiveFrom]);
+    const periodEnd = year === asOf.getFullYear() ? asOfEnd : endOfYear(yearStart);
+
+    const opening = year === rule.effectiveFrom.getFullYear()
+      ? 0
+      : Math.min(closing, rule.carryForwardCap);
+    const accrued = accrueForPeriod(rule, periodStart, periodEnd);
+    const used = usedDays
+      .filter(({ date }) => date >= periodStart && date <= periodEnd)
+      .reduce((sum, { days }) => sum + days, 0);
+
+    closing = opening + accrued - used;
+
+    balance.carriedForward = opening;
+    balance.accrued = accrued;
+    balance.used = used;
+  }
+
+  return {
+    ...balance,
+    carriedForward: roundDays(balance.carriedForward),
+    accrued: roundDays(balance.accrued),
+    used: roundDays(balance.used),
+    remaining: roundDays(closing),
+  };
+}
+
+/**
+ * Pick the entitlement of each leave type that applies to an employee
+ *
+ * @template T
+ * @param {T[]} entitlements - All entitlements (defaults and overrides)
+ * @param {string} employeeId - Employee ObjectId
+ * @returns {T[]} At most one entitlement per leave type, in LEAVE_TYPES order
+ */
+export function resolveLeaveEntitlements<T extends LeaveEntitlementRule & { employeeId: string | null }>(
+  entitlements: T[],
+  employeeId: string
+): T[] {
+  const resolved: T[] = [];
+
+  for (const { type } of LEAVE_TYPES) {
+    const entitlement =
+      entitlements.find((entry) => entry.type === type && entry.employeeId === employeeId) ??
+      entitlements.find((entry) => entry.type === type && entry.employeeId === null);
+
+    if (entitlement) {
+      resolved.push(entitlement);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Group recorded leave days into leave usage per employee and leave type
+ *
+ * @param {Array<{ employeeId: string; date: Date; status: AttendanceStatus }>} leaveRecords - Attendance records with a leave status (lib/calculations LEAVE_STATUSES)
+ * @param {Map<string, LeaveType>} approvedLeave - Index from indexApprovedLeave
+ * @returns {Map<string, Map<LeaveType, LeaveUsageDay[]>>} Used days keyed by employee, then type
+ */
+export function collectLeaveUsage(
+  leaveRecords: Array<{ employeeId: string; date: Date; status: AttendanceStatus }>,
+  approvedLeave: Map<string, LeaveType>
+): Map<string, Map<LeaveType, LeaveUsageDay[]>> {
+  const usage = new Map<string, Map<LeaveType, LeaveUsageDay[]>>();
+
+  for (const record of leaveRecords) {
+    const days = ATTENDANCE_STATUS_RULES[record.status].leaveDays;
+    if (days === 0) {
+      continue;
+    }
+
+    const type =
+      approvedLeave.get(`${record.employeeId}|${formatDateOnly(record.date)}`) ??
+      UNEXPLAINED_ABSENCE_LEAVE_TYPE;
+
+    const byType = usage.get(record.employeeId) ?? new Map<LeaveType, LeaveUsageDay[]>();
+    byType.set(type, [...(byType.get(type) ?? []), { date: record.date, days }]);
+    usage.set(record.employeeId, byType);
+  }
+
+  return usage;
+}
+
+/**
+ * Calculate every tracked balance of an employee as of a date
+ *
+ * @param {Array<LeaveEntitlementRule & { employeeId: string | null }>} entitlements - All entitlements
+ * @param {Map<LeaveType, LeaveUsageDay[]> | undefined} usage - The employee's used days by type
+ * @param {string} employeeId - Employee ObjectId
+ * @param {Date} asOf - Balance date (inclusive)
+ * @returns {LeaveBalance[]} One balance per leave type with an entitlement
+ */
+export function calculateEmployeeLeaveBalances(
+  entitlements: Array<LeaveEntitlementRule & { employeeId: string | null }>,
+  usage: Map<LeaveType, LeaveUsageDay[]> | undefined,
+  employeeId: string,
+  asOf: Date
+): LeaveBalance[] {
+  return resolveLeaveEntitlements(entitlements, employeeId).map((entitlement) =>
+    calculateLeaveBalance(entitlement, usage?.get(entitlement.type) ?? [], asOf)
+  );
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted entitlement into its serializable summary
+ *
+ * @param {object} entitlement - Prisma LeaveEntitlement record with its optional employee
+ * @returns {LeaveEntitlementSummary} JSON-safe summary
+ */
+export function toLeaveEntitlementSummary(
+  entitlement: LeaveEntitlementInput & { id: string; employee: { name: string } | null }
+): LeaveEntitlementSummary {
+  return {
+    id: entitlement.id,
+    employeeId: entitlement.employeeId,
+    employeeName: entitlement.employee?.name ?? null,
+    type: entitlement.type,
+    annualDays: entitlement.annualDays,
+    accrualFrequency: entitlement.accrualFrequency,
+    carryForwardCap: entitlement.carryForwardCap,
+    effectiveFrom: formatDateOnly(entitlement.effectiveFrom),
+  };
+}
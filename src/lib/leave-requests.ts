@@ -0,0 +1,347 @@
+/**
+ * Leave Request Definitions, Validation & Leave Coverage
+ *
+ * Shared types and validation for the leave request workflow, plus the
+ * lookup used by the dashboard to tell approved leave apart from
+ * unexplained absences.
+ *
+ * WORKFLOW:
+ * - Requests are submitted as PENDING for an inclusive date range
+ * - A PENDING request is approved or rejected exactly once
+ * - ABSENT days inside an APPROVED request count as approved leave;
+ *   PRESENT, WEEKEND and HOLIDAY days are never reclassified
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/leave-requests
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { differenceInCalendarDays, eachDayOfInterval, max, min } from 'date-fns';
+import {
+  RequestValidationError,
+  formatDateOnly,
+  isValidObjectId,
+  parseDateOnly,
+  requireString,
+} from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Kind of leave (mirrors the Prisma LeaveType enum)
+ */
+export type LeaveType = 'SICK' | 'CASUAL' | 'EARNED' | 'UNPAID';
+
+/**
+ * Workflow state (mirrors the Prisma LeaveRequestStatus enum)
+ */
+export type LeaveRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/**
+ * Validated leave request payload ready for Prisma create
+ */
+export interface LeaveRequestInput {
+  /** Employee ObjectId */
+  employeeId: string;
+
+  /** Kind of leave */
+  type: LeaveType;
+
+  /** First day of leave (midnight) */
+  startDate: Date;
+
+  /** Last day of leave, inclusive (midnight) */
+  endDate: Date;
+
+  /** Optional explanation */
+  reason: string | null;
+}
+
+/**
+ * Validated approve/reject payload
+ */
+export interface LeaveDecisionInput {
+  /** Name of the person deciding the request */
+  approver: string;
+
+  /** Optional note recorded with the decision */
+  decisionNote: string | null;
+}
+
+/**
+ * Minimal leave request shape needed to resolve leave coverage
+ */
+export interface LeaveRequestRange {
+  employeeId: string;
+  type: LeaveType;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Serializable leave request representation for JSON responses and client components
+ */
+export interface LeaveRequestSummary {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Employee ObjectId */
+  employeeId: string;
+
+  /** Employee name */
+  employeeName: string;
+
+  /** Kind of leave */
+  type: LeaveType;
+
+  /** First day of leave (YYYY-MM-DD) */
+  startDate: string;
+
+  /** Last day of leave, inclusive (YYYY-MM-DD) */
+  endDate: string;
+
+  /** Calendar days in the range */
+  dayCount: number;
+
+  /** Optional explanation */
+  reason: string | null;
+
+  /** Workflow state */
+  status: LeaveRequestStatus;
+
+  /** Person who approved or rejected the request */
+  approver: string | null;
+
+  /** Note recorded with the decision */
+  decisionNote: string | null;
+
+  /** Decision timestamp (ISO 8601) */
+  decidedAt: string | null;
+
+  /** Submission timestamp (ISO 8601) */
+  createdAt: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Leave types in display order with labels
+ */
+export const LEAVE_TYPES: ReadonlyArray<{ type: LeaveType; label: string }> = [
+  { type: 'SICK', label: 'Sick' },
+  { type: 'CASUAL', label: 'Casual' },
+  { type: 'EARNED', label: 'Earned' },
+  { type: 'UNPAID', label: 'Unpaid' },
+];
+
+/**
+ * Workflow states accepted as list filters
+ */
+export const LEAVE_REQUEST_STATUSES: ReadonlyArray<LeaveRequestStatus> = ['PENDING', 'APPROVED', 'REJECTED'];
+
+/**
+ * Longest leave range accepted in a single request (calendar days)
+ */
+export const MAX_LEAVE_REQUEST_DAYS = 90;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate an optional text field, mapping empty values to null
+ *
+ * @param {unknown} value - Raw value
+ * @param {string} field - Field name for error messages
+ * @returns {string | null} Trimmed string or null
+ * @throws {RequestValidationError} If the value is not a string or too long
+ */
+function parseOptionalText(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  return requireString(value, field, 500);
+}
+
+/**
+ * Validate a leave type value
+ *
+ * @param {unknown} value - Raw value
+ * @returns {LeaveType} Leave type
+ * @throws {RequestValidationError} If the value is not a known leave type
+ */
+export function parseLeaveType(value: unknown): LeaveType {
+  const match = LEAVE_TYPES.find(({ type }) => type === value);
+  if (!match) {
+    throw new RequestValidationError(
+      `type must be one of: ${LEAVE_TYPES.map(({ type }) => type).join(', ')}`,
+      'type'
+    );
+  }
+
+  return match.type;
+}
+
+/**
+ * Validate a leave request status filter
+ *
+ * @param {unknown} value - Raw value
+ * @returns {LeaveRequestStatus} Status
+ * @throws {RequestValidationError} If the value is not a known status
+ */
+export function parseLeaveRequestStatus(value: unknown): LeaveRequestStatus {
+  const match = LEAVE_REQUEST_STATUSES.find((status) => status === value);
+  if (!match) {
+    throw new RequestValidationError(
+      `status must be one of: ${LEAVE_REQUEST_STATUSES.join(', ')}`,
+      'status'
+    );
+  }
+
+  return match;
+}
+
+/**
+ * Validate a leave request submission body
+ *
+ * Body shape: { employeeId, type, startDate, endDate, reason? }
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @returns {LeaveRequestInput} Validated request
+ * @throws {RequestValidationError} If any field is invalid or the range is reversed or too long
+ */
+export function parseLeaveRequestInput(body: Record<string, unknown>): LeaveRequestInput {
+  if (!isValidObjectId(body.employeeId)) {
+    throw new RequestValidationError('employeeId must be a valid employee id', 'employeeId');
+  }
+
+  const startDate = parseDateOnly(body.startDate, 'startDate');
+  const endDate = parseDateOnly(body.endDate, 'endDate');
+
+  if (endDate < startDate) {
+    throw new RequestValidationError('endDate must be on or after startDate', 'endDate');
+  }
+
+  if (differenceInCalendarDays(endDate, startDate) + 1 > MAX_LEAVE_REQUEST_DAYS) {
+    throw new RequestValidationError(
+      `A leave request may cover at most ${MAX_LEAVE_REQUEST_DAYS} days`,
+      'endDate'
+    );
+  }
+
+  return {
+    employeeId: body.employeeId,
+    type: parseLeaveType(body.type),
+    startDate,
+    endDate,
+    reason: parseOptionalText(body.reason, 'reason'),
+  };
+}
+
+/**
+ * Validate an approve/reject body
+ *
+ * Body shape: { note? }. The approver is the signed-in user, never taken
+ * from the body.
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {string} approver - Name of the signed-in user deciding the request
+ * @returns {LeaveDecisionInput} Validated decision
+ * @throws {RequestValidationError} If the note is invalid
+ */
+export function parseLeaveDecisionInput(body: Record<string, unknown>, approver: string): LeaveDecisionInput {
+  return {
+    approver,
+    decisionNote: parseOptionalText(body.note, 'note'),
+  };
+}
+
+// ============================================================================
+// LEAVE COVERAGE
+// ============================================================================
+
+/**
+ * Index approved leave by employee and calendar day
+ *
+ * Only days inside the optional window are indexed, so callers can pass
+ * requests that merely overlap the period they are reporting on. When two
+ * requests cover the same day the first one wins.
+ *
+ * @param {LeaveRequestRange[]} requests - APPROVED leave requests
+ * @param {{ start: Date; end: Date }} [window] - Limit indexing to this inclusive range
+ * @returns {Map<string, LeaveType>} Leave type keyed by "employeeId|YYYY-MM-DD"
+ *
+ * @example
+ * const leave = indexApprovedLeave(requests, { start: monthStart, end: monthEnd });
+ * leave.get(`${employeeId}|2024-03-04`) // Returns: 'SICK' or undefined
+ */
+export function indexApprovedLeave(
+  requests: LeaveRequestRange[],
+  window?: { start: Date; end: Date }
+): Map<string, LeaveType> {
+  const index = new Map<string, LeaveType>();
+
+  for (const request of requests) {
+    const start = window ? max([request.startDate, window.start]) : request.startDate;
+    const end = window ? min([request.endDate, window.end]) : request.endDate;
+
+    if (end < start) {
+      continue;
+    }
+
+    for (const day of eachDayOfInterval({ start, end })) {
+      const key = `${request.employeeId}|${formatDateOnly(day)}`;
+      if (!index.has(key)) {
+        index.set(key, request.type);
+      }
+    }
+  }
+
+  return index;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted leave request into its serializable summary
+ *
+ * @param {object} request - Prisma LeaveRequest record with its employee
+ * @returns {LeaveRequestSummary} JSON-safe summary
+ */
+export function toLeaveRequestSummary(
+  request: LeaveRequestInput & {
+    id: string;
+    status: LeaveRequestStatus;
+    approver: string | null;
+    decisionNote: string | null;
+    decidedAt: Date | null;
+    createdAt: Date;
+    employee: { name: string };
+  }
+): LeaveRequestSummary {
+  return {
+    id: request.id,
+    employeeId: request.employeeId,
+    employeeName: request.employee.name,
+    type: request.type,
+    startDate: formatDateOnly(request.startDate),
+    endDate: formatDateOnly(request.endDate),
+    dayCount: differenceInCalendarDays(request.endDate, request.startDate) + 1,
+    reason: request.reason,
+    status: request.status,
+    approver: request.approver,
+    decisionNote: request.decisionNote,
+    decidedAt: request.decidedAt ? request.decidedAt.toISOString() : null,
+    createdAt: request.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,493 @@
+/**
+ * Monthly Report Queries
+ *
+ * Loads a month of attendance records and aggregates them into per-employee
+ * and company-wide metrics. Shared by the dashboard, the report export
+ * route and the trends page so all of them show the same numbers.
+ *
+ * SERVER ONLY: imports the Prisma client.
+ *
+ * @module lib/monthly-report
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { startOfMonth, endOfMonth, startOfDay, eachDayOfInterval } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import {
+  ATTENDANCE_STATUS_RULES,
+  getExpectedHours,
+  getStatusExpectedHours,
+  calculateDailyOvertime,
+  calculateProductivity,
+  isEmployedOn,
+  type EmploymentPeriod,
+  type ExpectedHoursOptions,
+} from '@/lib/calculations';
+import { indexApprovedLeave } from '@/lib/leave-requests';
+import { getLeaveBalances } from '@/lib/leave-balance-queries';
+import type { LeaveBalance } from '@/lib/leave-balances';
+import {
+  addOvertime,
+  createMonthWeeks,
+  createOvertimeTotals,
+  getOvertimeWeekStart,
+  type OvertimeTotals,
+  type WeeklyOvertime,
+} from '@/lib/overtime';
+import { formatDateOnly } from '@/lib/validation';
+import { toScopeFilter, type EmployeeScope } from '@/lib/users';
+import type { MonthSelection } from '@/lib/months';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Employee productivity metrics
+ */
+export interface EmployeeMetrics {
+  /** Employee unique identifier */
+  employeeId: string;
+
+  /** Employee name */
+  employeeName: string;
+
+  /** Employee code from the HR system, if any */
+  employeeCode: string | null;
+
+  /** Department the employee belongs to, if any */
+  departmentName: string | null;
+
+  /** Team the employee belongs to, if any */
+  teamName: string | null;
+
+  /** Total hours worked in the period */
+  workedHours: number;
+
+  /** Total hours expected based on business rules, over the days employed (scaled by day status) */
+  expectedHours: number;
+
+  /** Leave days taken while employed: ABSENT and LEAVE days, half days count 0.5 */
+  leavesTaken: number;
+
+  /** Leave days explained: recorded LEAVE/HALF_DAY days and absent days covered by an approved leave request */
+  approvedLeaveDays: number;
+
+  /** Absent days without an approved leave request */
+  unexplainedAbsences: number;
+
+  /** Balance per tracked leave type as of the end of the month */
+  leaveBalances: LeaveBalance[];
+
+  /** Productivity percentage */
+  productivityPercentage: number;
+
+  /** Overtime of the month per bucket (lib/overtime) */
+  overtime: OvertimeTotals;
+
+  /** Overtime per week overlapping the month, counting only days in the month */
+  weeklyOvertime: WeeklyOvertime[];
+
+  /** Days checked in after the shift start plus grace (late marks) */
+  lateMarks: number;
+
+  /** Minutes late summed over the late marks */
+  lateMinutes: number;
+
+  /** Days checked out before the shift end less grace */
+  earlyDepartures: number;
+
+  /** Minutes left early summed over the early departures */
+  earlyDepartureMinutes: number;
+}
+
+/**
+ * Company-wide aggregated metrics
+ */
+export interface CompanyMetrics {
+  /** Total number of employees */
+  totalEmployees: number;
+
+  /** Average productivity across all employees (unweighted mean of their percentages) */
+  averageProductivity: number;
+
+  /**
+   * Productivity of all hours: total worked over total expected hours, so
+   * employees who owed more hours (e.g., a full month rather than from a
+   * mid-month start) weigh more
+   */
+  weightedProductivity: number;
+
+  /** Total leaves taken company-wide */
+  totalLeavesTaken: number;
+
+  /** Total absent days without an approved leave request */
+  totalUnexplainedAbsences: number;
+
+  /** Total hours worked company-wide */
+  totalWorkedHours: number;
+
+  /** Total expected hours company-wide (sum of the employees' expected hours) */
+  totalExpectedHours: number;
+
+  /** Total overtime hours company-wide */
+  totalOvertimeHours: number;
+}
+
+/**
+ * Options for getMonthlyReport
+ */
+export interface MonthlyReportOptions {
+  /** Calculate leave balances (default true); trends skip them */
+  leaveBalances?: boolean;
+}
+
+/**
+ * Monthly report shown on the dashboard and exported by /api/export
+ */
+export interface MonthlyReport {
+  /** Year being displayed */
+  year: number;
+
+  /** Month being displayed (1-12) */
+  month: number;
+
+  /** Company-wide aggregated metrics */
+  companyMetrics: CompanyMetrics;
+
+  /** Individual employee metrics */
+  employeeMetrics: EmployeeMetrics[];
+
+  /** Whether any data exists for this period */
+  hasData: boolean;
+}
+
+// ============================================================================
+// DATA FETCHING
+// ============================================================================
+
+/**
+ * Calculate an employee's total expected hours for an entire month
+ *
+ * Applies the work schedule in effect on every day in the month. Without a
+ * configured schedule the default rules apply:
+ * - Monday-Friday: 8.5 hours
+ * - Saturday: 4.0 hours
+ * - Sunday: 0 hours
+ *
+ * A schedule change mid-month is honoured day by day, so each date uses
+ * the schedule version that was effective on that date. Holidays and days
+ * outside the employee's employment period contribute 0 expected hours, so
+ * someone who joined mid-month only owes the hours from their start date.
+ *
+ * This is the TRUE denominator for productivity calculations,
+ * not just the sum of records (which would miss absent days).
+ *
+ * @param {number} year - Full year (e.g., 2024)
+ * @param {number} month - Month (1-12)
+ * @param {ExpectedHoursOptions} rules - Work schedule history, holidays and employment period
+ * @returns {number} Total expected hours for the month
+ */
+function calculateMonthlyExpectedHours(
+  year: number,
+  month: number,
+  rules: ExpectedHoursOptions
+): number {
+  // Generate all dates in the month
+  const firstDay = new Date(year, month - 1, 1);
+  const lastDay = new Date(year, month, 0);
+
+  const allDays = eachDayOfInterval({
+    start: firstDay,
+    end: lastDay,
+  });
+
+  // Sum expected hours for each day
+  let totalExpected = 0;
+  for (const day of allDays) {
+    totalExpected += getExpectedHours(day, rules);
+  }
+
+  return totalExpected;
+}
+
+/**
+ * Fetch and aggregate the monthly report for specified month
+ *
+ * With a scope, only the visible employees are reported and the company
+ * metrics aggregate just those employees (e.g., a team lead's team, or an
+ * org unit resolved by lib/org-chart-queries).
+ *
+ * ALGORITHM:
+ * 1. Query all attendance records for the month, the work schedule history,
+ *    the month's holidays and approved leave overlapping the month
+ * 2. Group records by employee
+ * 3. Calculate per-employee metrics (worked hours, leaves, productivity,
+ *    daily overtime summed per week and month, late marks and early
+ *    departures stored by the upload);
+ *    ABSENT days covered by approved leave are not unexplained absences,
+ *    and ABSENT days outside the employment period (filled in by the
+ *    upload) are no leave at all; statuses scale expected hours and leave
+ *    days per ATTENDANCE_STATUS_RULES (e.g., a half day owes half the day
+ *    and uses 0.5 leave days)
+ * 4. Calculate leave balances as of the last day of the month
+ * 5. Aggregate company-wide metrics: the mean of the employee percentages
+ *    and the hours-weighted productivity
+ * 6. Return structured dashboard data
+ *
+ * PERFORMANCE:
+ * - Single database query with filtering
+ * - In-memory aggregation (efficient for typical dataset sizes)
+ * - Optimized for Next.js server-side rendering
+ *
+ * @param {number} year - Full year (e.g., 2024)
+ * @param {number} month - Month (1-12)
+ * @param {EmployeeScope} [scope=null] - Employees to include; null for everyone
+ * @param {MonthlyReportOptions} [options={}] - Report options
+ * @returns {Promise<MonthlyReport>} Aggregated monthly report
+ */
+export async function getMonthlyReport(
+  year: number,
+  month: number,
+  scope: EmployeeScope = null,
+  options: MonthlyReportOptions = {}
+): Promise<MonthlyReport> {
+  // Create date range for the month
+  const startDate = startOfMonth(new Date(year, month - 1, 1));
+  const endDate = endOfMonth(new Date(year, month - 1, 1));
+
+  // Query all attendance records for this month (with employee data)
+  const records = await prisma.attendanceRecord.findMany({
+    where: {
+      date: {
+        gte: startDate,
+        lte: endDate,
+      },
+      employeeId: toScopeFilter(scope),
+    },
+    include: {
+      employee: { include: { department: true, team: true } },
+    },
+    orderBy: [
+      { employee: { name: 'asc' } },
+      { date: 'asc' },
+    ],
+  });
+
+  // Early return if no data
+  if (records.length === 0) {
+    return {
+      year,
+      month,
+      companyMetrics: {
+        totalEmployees: 0,
+        averageProductivity: 0,
+        weightedProductivity: 0,
+        totalLeavesTaken: 0,
+        totalUnexplainedAbsences: 0,
+        totalWorkedHours: 0,
+        totalExpectedHours: 0,
+        totalOvertimeHours: 0,
+      },
+      employeeMetrics: [],
+      hasData: false,
+    };
+  }
+
+  // Load schedule history so each day uses the rules effective on that date
+  const [schedules, holidays, approvedLeave] = await Promise.all([
+    prisma.workSchedule.findMany({ orderBy: { effectiveFrom: 'asc' } }),
+    prisma.holiday.findMany({ where: { date: { gte: startDate, lte: endDate } } }),
+    prisma.leaveRequest.findMany({
+      where: {
+        status: 'APPROVED',
+        employeeId: toScopeFilter(scope),
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+    }),
+  ]);
+
+  // Approved leave per employee-day, used to reclassify ABSENT days
+  const leaveIndex = indexApprovedLeave(approvedLeave, { start: startDate, end: endDate });
+
+  // Group records by employee and calculate metrics
+  const employeeMap = new Map<string, {
+    id: string;
+    name: string;
+    employeeCode: string | null;
+    departmentName: string | null;
+    teamName: string | null;
+    employment: EmploymentPeriod;
+    workedHours: number;
+    excusedHours: number;
+    leavesTaken: number;
+    approvedLeaveDays: number;
+    overtime: OvertimeTotals;
+    weeklyOvertime: Map<string, WeeklyOvertime>;
+    lateMarks: number;
+    lateMinutes: number;
+    earlyDepartures: number;
+    earlyDepartureMinutes: number;
+  }>();
+
+  for (const record of records) {
+    let existing = employeeMap.get(record.employeeId);
+
+    if (!existing) {
+      // First record for this employee
+      existing = {
+        id: record.employeeId,
+        name: record.employee.name,
+        employeeCode: record.employee.employeeCode,
+        departmentName: record.employee.department?.name ?? null,
+        teamName: record.employee.team?.name ?? null,
+        employment: {
+          employmentStartDate: record.employee.employmentStartDate,
+          employmentEndDate: record.employee.employmentEndDate,
+        },
+        workedHours: 0,
+        excusedHours: 0,
+        leavesTaken: 0,
+        approvedLeaveDays: 0,
+        overtime: createOvertimeTotals(),
+        weeklyOvertime: new Map(createMonthWeeks(year, month).map((week) => [week.weekStart, week])),
+        lateMarks: 0,
+        lateMinutes: 0,
+        earlyDepartures: 0,
+        earlyDepartureMinutes: 0,
+      };
+      employeeMap.set(record.employeeId, existing);
+    }
+
+    // Accumulate data
+    existing.workedHours += record.workedHours;
+
+    // Hours a status excuses from the day (e.g., recorded leave, half day)
+    const rules = { schedules, holidays, employment: existing.employment };
+    existing.excusedHours +=
+      getExpectedHours(record.date, rules) - getStatusExpectedHours(record.date, record.status, rules);
+
+    if (record.lateMinutes > 0) {
+      existing.lateMarks += 1;
+      existing.lateMinutes += record.lateMinutes;
+    }
+    if (record.earlyDepartureMinutes > 0) {
+      existing.earlyDepartures += 1;
+      existing.earlyDepartureMinutes += record.earlyDepartureMinutes;
+    }
+
+    const overtime = calculateDailyOvertime(record.date, record.workedHours, record.status, {
+      schedules,
+      holidays,
+      employment: existing.employment,
+    });
+    if (overtime.hours > 0) {
+      addOvertime(existing.overtime, overtime);
+      const week = existing.weeklyOvertime.get(getOvertimeWeekStart(record.date));
+      if (week) {
+        addOvertime(week, overtime);
+      }
+    }
+
+    // Recorded leave is explained; ABSENT days only by an approved request
+    const { leaveDays } = ATTENDANCE_STATUS_RULES[record.status];
+    if (leaveDays > 0 && isEmployedOn(record.date, existing.employment)) {
+      existing.leavesTaken += leaveDays;
+      if (
+        record.status !== 'ABSENT' ||
+        leaveIndex.has(`${record.employeeId}|${formatDateOnly(record.date)}`)
+      ) {
+        existing.approvedLeaveDays += leaveDays;
+      }
+    }
+  }
+
+  // Leave balances as of the last day of the month
+  const leaveBalances = options.leaveBalances === false
+    ? new Map<string, LeaveBalance[]>()
+    : await getLeaveBalances(Array.from(employeeMap.keys()), startOfDay(endDate));
+
+  // Convert to array and calculate productivity for each employee
+  const employeeMetrics: EmployeeMetrics[] = Array.from(employeeMap.values()).map((emp) => {
+    const expectedHours = calculateMonthlyExpectedHours(year, month, {
+      schedules,
+      holidays,
+      employment: emp.employment,
+    }) - emp.excusedHours;
+    const productivity = calculateProductivity(emp.workedHours, expectedHours);
+
+    return {
+      employeeId: emp.id,
+      employeeName: emp.name,
+      employeeCode: emp.employeeCode,
+      departmentName: emp.departmentName,
+      teamName: emp.teamName,
+      workedHours: Math.round(emp.workedHours * 100) / 100, // Round to 2 decimals
+      expectedHours: Math.round(expectedHours * 100) / 100,
+      leavesTaken: emp.leavesTaken,
+      approvedLeaveDays: emp.approvedLeaveDays,
+      unexplainedAbsences: emp.leavesTaken - emp.approvedLeaveDays,
+      leaveBalances: leaveBalances.get(emp.id) ?? [],
+      productivityPercentage: productivity,
+      overtime: emp.overtime,
+      weeklyOvertime: Array.from(emp.weeklyOvertime.values()),
+      lateMarks: emp.lateMarks,
+      lateMinutes: emp.lateMinutes,
+      earlyDepartures: emp.earlyDepartures,
+      earlyDepartureMinutes: emp.earlyDepartureMinutes,
+    };
+  });
+
+  // Calculate company-wide metrics
+  const totalWorkedHours = employeeMetrics.reduce((sum, emp) => sum + emp.workedHours, 0);
+  const totalLeavesTaken = employeeMetrics.reduce((sum, emp) => sum + emp.leavesTaken, 0);
+  const totalUnexplainedAbsences = employeeMetrics.reduce((sum, emp) => sum + emp.unexplainedAbsences, 0);
+  const totalExpectedHours = employeeMetrics.reduce((sum, emp) => sum + emp.expectedHours, 0);
+  const totalOvertimeHours = employeeMetrics.reduce((sum, emp) => sum + emp.overtime.totalHours, 0);
+  const averageProductivity = employeeMetrics.length > 0
+    ? employeeMetrics.reduce((sum, emp) => sum + emp.productivityPercentage, 0) / employeeMetrics.length
+    : 0;
+
+  return {
+    year,
+    month,
+    companyMetrics: {
+      totalEmployees: employeeMetrics.length,
+      averageProductivity: Math.round(averageProductivity * 10) / 10,
+      weightedProductivity: calculateProductivity(totalWorkedHours, totalExpectedHours),
+      totalLeavesTaken,
+      totalUnexplainedAbsences,
+      totalWorkedHours: Math.round(totalWorkedHours * 100) / 100,
+      totalExpectedHours: Math.round(totalExpectedHours * 100) / 100,
+      totalOvertimeHours: Math.round(totalOvertimeHours * 100) / 100,
+    },
+    employeeMetrics,
+    hasData: true,
+  };
+}
+
+/**
+ * Fetch the monthly reports of consecutive months
+ *
+ * Each month is aggregated by getMonthlyReport, so trends show exactly the
+ * dashboard figures. Leave balances are not calculated.
+ *
+ * @param {MonthSelection[]} months - Months in chronological order
+ * @param {EmployeeScope} [scope=null] - Employees to include; null for everyone
+ * @returns {Promise<MonthlyReport[]>} One report per month, in the same order
+ */
+export async function getMonthlyReports(
+  months: MonthSelection[],
+  scope: EmployeeScope = null
+): Promise<MonthlyReport[]> {
+  const reports: MonthlyReport[] = [];
+
+  // One month at a time keeps the number of concurrent queries small
+  for (const { year, month } of months) {
+    reports.push(await getMonthlyReport(year, month, scope, { leaveBalances: false }));
+  }
+
+  return reports;
+}
@@ -0,0 +1,118 @@
+/**
+ * Month Parameter Utilities
+ *
+ * Pages that show one calendar month (the dashboard and the employee
+ * drill-down) and the API routes that report on one month select it with a
+ * `month=YYYY-MM` search param. These helpers keep the parsing rules in one
+ * place. getMonthWindow gives the date range uploads replace per month.
+ *
+ * @module lib/months
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { RequestValidationError } from '@/lib/validation';
+
+/**
+ * Year and month (1-12) selected by a page
+ */
+export interface MonthSelection {
+  year: number;
+  month: number;
+}
+
+/**
+ * Match a "YYYY-MM" string within the supported year range
+ *
+ * @param {string} value - Raw month value
+ * @returns {MonthSelection | null} Parsed year and month, or null if invalid
+ */
+function matchMonth(value: string): MonthSelection | null {
+  // Validate format: YYYY-MM
+  const match = value.match(/^(\d{4})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+
+  // Validate ranges
+  if (year < 2000 || year > 2100 || month < 1 || month > 12) {
+    return null;
+  }
+
+  return { year, month };
+}
+
+/**
+ * Get the current calendar month
+ *
+ * @returns {MonthSelection} Today's year and month
+ */
+function currentMonth(): MonthSelection {
+  const now = new Date();
+  return { year: now.getFullYear(), month: now.getMonth() + 1 };
+}
+
+/**
+ * Parse and validate month parameter from search params
+ *
+ * Expected format: "YYYY-MM" (e.g., "2024-01")
+ * Falls back to current month if invalid or missing.
+ *
+ * @param {string | undefined} monthParam - Month parameter from URL
+ * @returns {MonthSelection} Parsed year and month
+ */
+export function parseMonthParam(monthParam: string | undefined): MonthSelection {
+  return (monthParam && matchMonth(monthParam)) || currentMonth();
+}
+
+/**
+ * Parse the month query parameter of an API route
+ *
+ * Same format as parseMonthParam, but a malformed value is rejected rather
+ * than silently replaced, so API clients notice typos. A missing value
+ * selects the current month.
+ *
+ * @param {string | null} value - Raw search param value
+ * @returns {MonthSelection} Parsed year and month
+ * @throws {RequestValidationError} If the value is not a valid "YYYY-MM" month
+ */
+export function parseMonthQuery(value: string | null): MonthSelection {
+  if (value === null || value === '') {
+    return currentMonth();
+  }
+
+  const selection = matchMonth(value);
+  if (!selection) {
+    throw new RequestValidationError('month must be a month in YYYY-MM format', 'month');
+  }
+
+  return selection;
+}
+
+/**
+ * Format a year and month as the "YYYY-MM" search param value
+ *
+ * @param {number} year - Full year (e.g., 2024)
+ * @param {number} month - Month (1-12)
+ * @returns {string} Month parameter
+ */
+export function formatMonthParam(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Get the first and last instant of a month
+ *
+ * @param {number} year - Full year
+ * @param {number} month - Month (1-12)
+ * @returns {{ startDate: Date; endDate: Date }} Inclusive month window
+ */
+export function getMonthWindow(year: number, month: number): { startDate: Date; endDate: Date } {
+  return {
+    startDate: new Date(year, month - 1, 1),
+    endDate: new Date(year, month, 0, 23, 59, 59, 999),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Org Chart Queries
+ *
+ * Resolves an org unit filter (department, team, reporting subtree) into
+ * the employee scope used by the monthly report. Shared by the dashboard,
+ * the report export and GET /api/v1/metrics, so company metrics can be
+ * computed for any part of the org chart.
+ *
+ * SERVER ONLY: imports the Prisma client.
+ *
+ * @module lib/org-chart-queries
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { prisma } from '@/lib/prisma';
+import { hasOrgFilter, narrowScope, selectOrgUnit, type OrgFilter } from '@/lib/org-chart';
+import type { EmployeeScope } from '@/lib/users';
+
+/**
+ * Restrict a user's scope to an org unit
+ *
+ * @param {EmployeeScope} scope - Scope of the signed-in user
+ * @param {OrgFilter} filter - Org unit filter
+ * @returns {Promise<EmployeeScope>} Employees visible to the user within the unit
+ */
+export async function resolveOrgScope(scope: EmployeeScope, filter: OrgFilter): Promise<EmployeeScope> {
+  if (!hasOrgFilter(filter)) {
+    return scope;
+  }
+
+  const employees = await prisma.employee.findMany({
+    select: { id: true, departmentId: true, teamId: true, managerId: true },
+  });
+
+  return narrowScope(scope, selectOrgUnit(employees, filter));
+}
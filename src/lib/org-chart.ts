@@ -0,0 +1,504 @@
+/**
+ * Org Chart Definitions, Validation, Filters & Roster Parsing
+ *
+ * Shared types and validation for departments and teams, the org unit
+ * filter used by the dashboard, export and read API, and the parser of
+ * roster sheets that assign employees to departments, teams and managers.
+ *
+ * ORG STRUCTURE:
+ * - A department contains teams; team names are unique per department
+ * - An employee belongs to at most one department and one team of it
+ * - An employee reports to at most one manager; reporting lines form a
+ *   tree (no cycles)
+ *
+ * FILTERS:
+ * - departmentId / teamId: employees assigned to that unit
+ * - managerId: the manager and everyone below them in the reporting line
+ * - Criteria combine (AND) and never widen the signed-in user's scope
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/org-chart
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { RequestValidationError, isValidObjectId, requireString } from '@/lib/validation';
+import type { EmployeeScope } from '@/lib/users';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Validated department payload
+ */
+export interface DepartmentInput {
+  name: string;
+}
+
+/**
+ * Validated team payload
+ */
+export interface TeamInput {
+  name: string;
+  departmentId: string;
+}
+
+/**
+ * Serializable department representation for JSON responses and client components
+ */
+export interface DepartmentSummary {
+  id: string;
+  name: string;
+
+  /** Employees assigned to the department */
+  employeeCount: number;
+}
+
+/**
+ * Serializable team representation for JSON responses and client components
+ */
+export interface TeamSummary {
+  id: string;
+  name: string;
+  departmentId: string;
+  departmentName: string;
+
+  /** Employees assigned to the team */
+  employeeCount: number;
+}
+
+/**
+ * Org unit filter; null criteria are not applied
+ */
+export interface OrgFilter {
+  departmentId: string | null;
+  teamId: string | null;
+
+  /** Root of a reporting subtree (the manager is included) */
+  managerId: string | null;
+}
+
+/**
+ * Org fields of an employee, as needed to resolve a filter
+ */
+export interface OrgEmployee {
+  id: string;
+  departmentId: string | null;
+  teamId: string | null;
+  managerId: string | null;
+}
+
+/**
+ * One validated roster row
+ *
+ * Org fields are undefined when the sheet has no such column (left
+ * unchanged) and null when the cell is empty (cleared).
+ */
+export interface RosterEntry {
+  /** Spreadsheet row number (1-indexed, header is row 1) */
+  row: number;
+
+  employeeName: string;
+  departmentName?: string | null;
+  teamName?: string | null;
+  managerName?: string | null;
+}
+
+/**
+ * A single cell-level roster validation failure
+ */
+export interface RosterRowError {
+  /** Spreadsheet row number (1-indexed, header is row 1) */
+  row: number;
+
+  /** Column header the value was read from */
+  column: string;
+
+  /** Raw cell value as text ('' for empty cells) */
+  value: string;
+
+  /** Human-readable reason the value was rejected */
+  reason: string;
+}
+
+/**
+ * Result of parsing a roster sheet
+ */
+export interface RosterParseResult {
+  entries: RosterEntry[];
+  errors: RosterRowError[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Roster sheet headers (matched case-insensitively); only Employee Name is required
+ */
+export const ROSTER_COLUMNS = {
+  employeeName: 'Employee Name',
+  departmentName: 'Department',
+  teamName: 'Team',
+  managerName: 'Manager',
+} as const;
+
+/**
+ * Filter that applies no criteria
+ */
+export const EMPTY_ORG_FILTER: OrgFilter = { departmentId: null, teamId: null, managerId: null };
+
+/**
+ * Search params carrying the org filter, shared by pages and API routes
+ */
+const ORG_FILTER_KEYS: ReadonlyArray<keyof OrgFilter> = ['departmentId', 'teamId', 'managerId'];
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a department body
+ *
+ * Body shape: { name }
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @returns {DepartmentInput} Validated department
+ * @throws {RequestValidationError} If the name is missing or too long
+ */
+export function parseDepartmentInput(body: Record<string, unknown>): DepartmentInput {
+  return { name: requireString(body.name, 'name', 100) };
+}
+
+/**
+ * Validate a team body
+ *
+ * Body shape: { name, departmentId }
+ * For partial updates only the provided fields are validated and returned.
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {boolean} [partial=false] - Allow missing fields (PATCH semantics)
+ * @returns {Partial<TeamInput>} Validated fields (complete when partial is false)
+ * @throws {RequestValidationError} If a field is invalid or, for partial updates, nothing changes
+ */
+export function parseTeamInput(body: Record<string, unknown>, partial: true): Partial<TeamInput>;
+export function parseTeamInput(body: Record<string, unknown>, partial?: false): TeamInput;
+export function parseTeamInput(body: Record<string, unknown>, partial = false): Partial<TeamInput> {
+  const input: Partial<TeamInput> = {};
+
+  if (!partial || body.name !== undefined) {
+    input.name = requireString(body.name, 'name', 100);
+  }
+
+  if (!partial || body.departmentId !== undefined) {
+    if (!isValidObjectId(body.departmentId)) {
+      throw new RequestValidationError('departmentId must be a valid department id', 'departmentId');
+    }
+    input.departmentId = body.departmentId;
+  }
+
+  if (Object.keys(input).length === 0) {
+    throw new RequestValidationError('Provide at least one field to update');
+  }
+
+  return input;
+}
+
+// ============================================================================
+// ORG FILTER
+// ============================================================================
+
+/**
+ * Read the org filter from page search params
+ *
+ * Malformed ids are ignored rather than rejected, mirroring
+ * lib/months parseMonthParam.
+ *
+ * @param {Partial<Record<keyof OrgFilter, string>>} params - Page search params
+ * @returns {OrgFilter} Filter
+ */
+export function parseOrgFilterParams(params: Partial<Record<keyof OrgFilter, string>>): OrgFilter {
+  const filter: OrgFilter = { ...EMPTY_ORG_FILTER };
+
+  for (const key of ORG_FILTER_KEYS) {
+    const value = params[key];
+    filter[key] = isValidObjectId(value) ? value : null;
+  }
+
+  return filter;
+}
+
+/**
+ * Validate the org filter of an API query
+ *
+ * @param {URLSearchParams} searchParams - Request search params
+ * @returns {OrgFilter} Filter
+ * @throws {RequestValidationError} If an id is malformed
+ */
+export function parseOrgFilterQuery(searchParams: URLSearchParams): OrgFilter {
+  const filter: OrgFilter = { ...EMPTY_ORG_FILTER };
+
+  for (const key of ORG_FILTER_KEYS) {
+    const value = searchParams.get(key);
+    if (value === null || value === '') {
+      continue;
+    }
+
+    if (!isValidObjectId(value)) {
+      throw new RequestValidationError(`${key} must be a valid id`, key);
+    }
+    filter[key] = value;
+  }
+
+  return filter;
+}
+
+/**
+ * Check whether a filter applies any criterion
+ *
+ * @param {OrgFilter} filter - Filter
+ * @returns {boolean} True if at least one criterion is set
+ */
+export function hasOrgFilter(filter: OrgFilter): boolean {
+  return ORG_FILTER_KEYS.some((key) => filter[key] !== null);
+}
+
+/**
+ * Serialize the criteria of a filter as a query string
+ *
+ * @param {OrgFilter} filter - Filter
+ * @returns {string} "departmentId=...&teamId=..." ('' without criteria)
+ */
+export function formatOrgFilterQuery(filter: OrgFilter): string {
+  const params = new URLSearchParams();
+
+  for (const key of ORG_FILTER_KEYS) {
+    const value = filter[key];
+    if (value !== null) {
+      params.set(key, value);
+    }
+  }
+
+  return params.toString();
+}
+
+/**
+ * Collect a manager and everyone below them in the reporting line
+ *
+ * Visits each employee once, so stray cycles in stored data cannot loop.
+ *
+ * @param {Array<Pick<OrgEmployee, 'id' | 'managerId'>>} employees - All employees
+ * @param {string} rootId - Manager at the top of the subtree
+ * @returns {string[]} Employee ids, the root first
+ */
+export function collectReportingTree(
+  employees: Array<Pick<OrgEmployee, 'id' | 'managerId'>>,
+  rootId: string
+): string[] {
+  const reportsByManager = new Map<string, string[]>();
+  for (const employee of employees) {
+    if (employee.managerId) {
+      reportsByManager.set(employee.managerId, [...(reportsByManager.get(employee.managerId) ?? []), employee.id]);
+    }
+  }
+
+  const visited = new Set<string>([rootId]);
+  const queue = [rootId];
+
+  while (queue.length > 0) {
+    const managerId = queue.shift() as string;
+    for (const reportId of reportsByManager.get(managerId) ?? []) {
+      if (!visited.has(reportId)) {
+        visited.add(reportId);
+        queue.push(reportId);
+      }
+    }
+  }
+
+  return Array.from(visited);
+}
+
+/**
+ * Select the employees of an org unit
+ *
+ * @param {OrgEmployee[]} employees - All employees
+ * @param {OrgFilter} filter - Filter with at least one criterion
+ * @returns {string[]} Ids of employees matching every criterion
+ */
+export function selectOrgUnit(employees: OrgEmployee[], filter: OrgFilter): string[] {
+  const subtree = filter.managerId ? new Set(collectReportingTree(employees, filter.managerId)) : null;
+
+  return employees
+    .filter((employee) =>
+      (filter.departmentId === null || employee.departmentId === filter.departmentId) &&
+      (filter.teamId === null || employee.teamId === filter.teamId) &&
+      (subtree === null || subtree.has(employee.id))
+    )
+    .map((employee) => employee.id);
+}
+
+/**
+ * Restrict a user's scope to a set of employees
+ *
+ * @param {EmployeeScope} scope - Scope of the signed-in user
+ * @param {string[]} employeeIds - Employees of the selected org unit
+ * @returns {EmployeeScope} Employees in both
+ */
+export function narrowScope(scope: EmployeeScope, employeeIds: string[]): EmployeeScope {
+  return scope === null ? employeeIds : employeeIds.filter((employeeId) => scope.includes(employeeId));
+}
+
+// ============================================================================
+// ROSTER PARSING
+// ============================================================================
+
+/**
+ * Read one optional roster cell
+ *
+ * @param {unknown[]} cells - Row cells
+ * @param {number} index - Column index, or -1 when the column is absent
+ * @returns {string | null | undefined} Trimmed text, null if empty, undefined if no column
+ */
+function readRosterCell(cells: unknown[], index: number): string | null | undefined {
+  if (index < 0) {
+    return undefined;
+  }
+
+  const value = String(cells[index] ?? '').trim();
+  return value === '' ? null : value;
+}
+
+/**
+ * Parse a roster sheet
+ *
+ * The first row holds the headers (see ROSTER_COLUMNS). Blank rows are
+ * skipped. Manager names are only checked against the row itself here;
+ * the import route checks that they exist and form no cycle.
+ *
+ * VALIDATION:
+ * - Employee Name is required and may appear only once
+ * - A team needs a department (team names are unique per department)
+ * - Names are at most 100 characters
+ * - An employee cannot be their own manager
+ *
+ * @param {unknown[][]} rows - Sheet rows, header first (xlsx `header: 1` format)
+ * @returns {RosterParseResult} Valid entries and every row error
+ * @throws {RequestValidationError} If the Employee Name column is missing
+ */
+export function parseRosterSheet(rows: unknown[][]): RosterParseResult {
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map((cell) => String(cell ?? '').trim().toLowerCase());
+  const columnIndex = (header: string): number => headers.indexOf(header.toLowerCase());
+
+  const nameIndex = columnIndex(ROSTER_COLUMNS.employeeName);
+  const departmentIndex = columnIndex(ROSTER_COLUMNS.departmentName);
+  const teamIndex = columnIndex(ROSTER_COLUMNS.teamName);
+  const managerIndex = columnIndex(ROSTER_COLUMNS.managerName);
+
+  if (nameIndex < 0) {
+    throw new RequestValidationError(`The roster must have an "${ROSTER_COLUMNS.employeeName}" column`, 'file');
+  }
+
+  const entries: RosterEntry[] = [];
+  const errors: RosterRowError[] = [];
+  const rowByName = new Map<string, number>();
+
+  dataRows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every((cell) => String(cell ?? '').trim() === '')) {
+      return;
+    }
+
+    const entry: RosterEntry = {
+      row,
+      employeeName: readRosterCell(cells, nameIndex) ?? '',
+      departmentName: readRosterCell(cells, departmentIndex),
+      teamName: readRosterCell(cells, teamIndex),
+      managerName: readRosterCell(cells, managerIndex),
+    };
+    const rowErrors: RosterRowError[] = [];
+    const addError = (column: string, value: string | null | undefined, reason: string): void => {
+      rowErrors.push({ row, column, value: value ?? '', reason });
+    };
+
+    if (entry.employeeName === '') {
+      addError(ROSTER_COLUMNS.employeeName, '', 'Required value is missing');
+    } else if (rowByName.has(entry.employeeName)) {
+      addError(ROSTER_COLUMNS.employeeName, entry.employeeName, `Employee is already listed on row ${rowByName.get(entry.employeeName)}`);
+    }
+
+    for (const field of ['employeeName', 'departmentName', 'teamName', 'managerName'] as const) {
+      const value = entry[field];
+      if (value && value.length > 100) {
+        addError(ROSTER_COLUMNS[field], value, 'Must be at most 100 characters');
+      }
+    }
+
+    if (entry.teamName && !entry.departmentName) {
+      addError(ROSTER_COLUMNS.teamName, entry.teamName, 'A team needs a department on the same row');
+    }
+
+    if (entry.managerName && entry.managerName === entry.employeeName) {
+      addError(ROSTER_COLUMNS.managerName, entry.managerName, 'An employee cannot be their own manager');
+    }
+
+    if (entry.employeeName !== '' && !rowByName.has(entry.employeeName)) {
+      rowByName.set(entry.employeeName, row);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      entries.push(entry);
+    }
+  });
+
+  return { entries, errors };
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted department into its serializable summary
+ *
+ * @param {object} department - Prisma Department record with its employee count
+ * @returns {DepartmentSummary} JSON-safe summary
+ */
+export function toDepartmentSummary(department: {
+  id: string;
+  name: string;
+  _count: { employees: number };
+}): DepartmentSummary {
+  return {
+    id: department.id,
+    name: department.name,
+    employeeCount: department._count.employees,
+  };
+}
+
+/**
+ * Convert a persisted team into its serializable summary
+ *
+ * @param {object} team - Prisma Team record with its department and employee count
+ * @returns {TeamSummary} JSON-safe summary
+ */
+export function toTeamSummary(team: {
+  id: string;
+  name: string;
+  departmentId: string;
+  department: { name: string };
+  _count: { employees: number };
+}): TeamSummary {
+  return {
+    id: team.id,
+    name: team.name,
+    departmentId: team.departmentId,
+    departmentName: team.department.name,
+    employeeCount: team._count.employees,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Overtime Totals
+ *
+ * Aggregates the daily overtime calculated by lib/calculations into weekly
+ * and monthly totals per bucket (regular, Sunday, holiday), as reported on
+ * the dashboard metrics and the overtime report page.
+ *
+ * Weeks start on Monday. A month's weeks are every week overlapping it;
+ * the first and last week only count the days inside the month.
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/overtime
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { addWeeks, endOfMonth, startOfWeek } from 'date-fns';
+import type { DailyOvertime, OvertimeBucket } from '@/lib/calculations';
+import { formatDateOnly } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Overtime hours summed over a period
+ */
+export interface OvertimeTotals {
+  /** Overtime on days other than Sundays and holidays */
+  regularHours: number;
+
+  /** Overtime on Sundays */
+  sundayHours: number;
+
+  /** Overtime on holidays */
+  holidayHours: number;
+
+  /** All overtime hours */
+  totalHours: number;
+
+  /** Overtime hours multiplied by their bucket's pay multiplier */
+  weightedHours: number;
+}
+
+/**
+ * Overtime of one week
+ */
+export interface WeeklyOvertime extends OvertimeTotals {
+  /** Monday of the week (YYYY-MM-DD); may lie in the previous month */
+  weekStart: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Overtime buckets in display order with labels and their totals field
+ */
+export const OVERTIME_BUCKETS: ReadonlyArray<{
+  bucket: OvertimeBucket;
+  label: string;
+  field: 'regularHours' | 'sundayHours' | 'holidayHours';
+}> = [
+  { bucket: 'REGULAR', label: 'Regular', field: 'regularHours' },
+  { bucket: 'SUNDAY', label: 'Sunday', field: 'sundayHours' },
+  { bucket: 'HOLIDAY', label: 'Holiday', field: 'holidayHours' },
+];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Round hours to two decimals
+ *
+ * @param {number} hours - Hours
+ * @returns {number} Rounded hours
+ */
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Create totals without any overtime
+ *
+ * @returns {OvertimeTotals} Zero totals
+ */
+export function createOvertimeTotals(): OvertimeTotals {
+  return { regularHours: 0, sundayHours: 0, holidayHours: 0, totalHours: 0, weightedHours: 0 };
+}
+
+/**
+ * Add one day's overtime to running totals (in place)
+ *
+ * @param {OvertimeTotals} totals - Totals to update
+ * @param {DailyOvertime} overtime - Overtime of one day
+ */
+export function addOvertime(totals: OvertimeTotals, overtime: DailyOvertime): void {
+  const { field } = OVERTIME_BUCKETS.find((entry) => entry.bucket === overtime.bucket) ?? OVERTIME_BUCKETS[0];
+
+  totals[field] = roundHours(totals[field] + overtime.hours);
+  totals.totalHours = roundHours(totals.totalHours + overtime.hours);
+  totals.weightedHours = roundHours(totals.weightedHours + overtime.weightedHours);
+}
+
+/**
+ * Monday of the week containing a date
+ *
+ * @param {Date} date - Any date
+ * @returns {string} Week start (YYYY-MM-DD)
+ */
+export function getOvertimeWeekStart(date: Date): string {
+  return formatDateOnly(startOfWeek(date, { weekStartsOn: 1 }));
+}
+
+/**
+ * Create empty weekly totals for every week overlapping a month
+ *
+ * @param {number} year - Full year (e.g., 2024)
+ * @param {number} month - Month (1-12)
+ * @returns {WeeklyOvertime[]} One entry per week, chronological
+ *
+ * @example
+ * createMonthWeeks(2024, 1).map((week) => week.weekStart)
+ * // Returns: ['2024-01-01', '2024-01-08', '2024-01-15', '2024-01-22', '2024-01-29']
+ */
+export function createMonthWeeks(year: number, month: number): WeeklyOvertime[] {
+  const lastDay = endOfMonth(new Date(year, month - 1, 1));
+  const weeks: WeeklyOvertime[] = [];
+
+  for (
+    let weekStart = startOfWeek(new Date(year, month - 1, 1), { weekStartsOn: 1 });
+    weekStart <= lastDay;
+    weekStart = addWeeks(weekStart, 1)
+  ) {
+    weeks.push({ weekStart: formatDateOnly(weekStart), ...createOvertimeTotals() });
+  }
+
+  return weeks;
+}
@@ -0,0 +1,138 @@
+/**
+ * Pagination Utilities
+ *
+ * Page-number pagination for list endpoints: `page` (1-based) and
+ * `pageSize` search params in, a `pagination` block out. List responses
+ * always report the total so clients know when to stop.
+ *
+ * @module lib/pagination
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { parseNumberInRange, RequestValidationError } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Requested page
+ */
+export interface PageRequest {
+  /** Page number, starting at 1 */
+  page: number;
+
+  /** Items per page */
+  pageSize: number;
+}
+
+/**
+ * Pagination block of list responses
+ */
+export interface PaginationInfo extends PageRequest {
+  /** Items across all pages */
+  totalItems: number;
+
+  /** Number of pages (0 when there are no items) */
+  totalPages: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Page size when `pageSize` is omitted
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Largest accepted page size
+ */
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * Largest accepted page number (guards against absurd skip values)
+ */
+const MAX_PAGE = 100_000;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Validate the `page` and `pageSize` search params
+ *
+ * @param {URLSearchParams} searchParams - Request search params
+ * @returns {PageRequest} Requested page (defaults: page 1, DEFAULT_PAGE_SIZE)
+ * @throws {RequestValidationError} If either value is not a positive integer in range
+ */
+export function parsePageRequest(searchParams: URLSearchParams): PageRequest {
+  const page = searchParams.get('page');
+  const pageSize = searchParams.get('pageSize');
+
+  return {
+    page: page ? parseInteger(page, 'page', MAX_PAGE) : 1,
+    pageSize: pageSize ? parseInteger(pageSize, 'pageSize', MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+  };
+}
+
+/**
+ * Validate a positive integer search param
+ *
+ * @param {string} value - Raw value
+ * @param {string} field - Field name used in error messages
+ * @param {number} max - Maximum allowed value
+ * @returns {number} Parsed integer
+ * @throws {RequestValidationError} If not an integer between 1 and max
+ */
+function parseInteger(value: string, field: string, max: number): number {
+  const parsed = parseNumberInRange(value, field, 1, max);
+  if (!Number.isInteger(parsed)) {
+    throw new RequestValidationError(`${field} must be a whole number`, field);
+  }
+
+  return parsed;
+}
+
+// ============================================================================
+// QUERY HELPERS
+// ============================================================================
+
+/**
+ * Convert a page request into Prisma `skip` / `take` arguments
+ *
+ * @param {PageRequest} request - Requested page
+ * @returns {{ skip: number; take: number }} Prisma pagination arguments
+ */
+export function toSkipTake(request: PageRequest): { skip: number; take: number } {
+  return { skip: (request.page - 1) * request.pageSize, take: request.pageSize };
+}
+
+/**
+ * Build the pagination block of a list response
+ *
+ * @param {PageRequest} request - Requested page
+ * @param {number} totalItems - Items across all pages
+ * @returns {PaginationInfo} Pagination block
+ */
+export function toPaginationInfo(request: PageRequest, totalItems: number): PaginationInfo {
+  return {
+    ...request,
+    totalItems,
+    totalPages: Math.ceil(totalItems / request.pageSize),
+  };
+}
+
+/**
+ * Slice one page out of an in-memory list
+ *
+ * @param {readonly T[]} items - All items, in output order
+ * @param {PageRequest} request - Requested page
+ * @returns {T[]} Items on the requested page
+ */
+export function paginateArray<T>(items: readonly T[], request: PageRequest): T[] {
+  const { skip, take } = toSkipTake(request);
+  return items.slice(skip, skip + take);
+}
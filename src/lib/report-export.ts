@@ -0,0 +1,314 @@
+/**
+ * Monthly Report Export
+ *
+ * Turns a monthly report and its raw attendance records into tabular
+ * sheets and serializes them as an Excel workbook or CSV. The PDF rendering
+ * of the same sheets lives in lib/report-pdf.
+ *
+ * SHEETS:
+ * - summary:   company-wide metrics (one metric per row)
+ * - employees: per-employee metrics
+ * - daily:     one row per attendance record, by employee and date
+ *
+ * @module lib/report-export
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import * as XLSX from 'xlsx';
+import { formatDateOnly, RequestValidationError } from '@/lib/validation';
+import { formatMonthParam } from '@/lib/months';
+import type { MonthlyReport } from '@/lib/monthly-report';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Output formats of the export route
+ */
+export type ReportFormat = 'xlsx' | 'csv' | 'pdf';
+
+/**
+ * Sheets of the report
+ */
+export type ReportSheetKey = 'summary' | 'employees' | 'daily';
+
+/**
+ * Value of one report cell
+ */
+export type ReportCell = string | number;
+
+/**
+ * One table of the report
+ */
+export interface ReportSheet {
+  key: ReportSheetKey;
+
+  /** Worksheet name and PDF section title */
+  name: string;
+
+  /** Column headings */
+  columns: string[];
+
+  /** Data rows, one cell per column */
+  rows: ReportCell[][];
+}
+
+/**
+ * Attendance record fields exported on the daily sheet
+ *
+ * Structurally compatible with the Prisma AttendanceRecord model including
+ * its employee.
+ */
+export interface ExportedAttendanceRecord {
+  date: Date;
+  status: string;
+  inTime: string | null;
+  outTime: string | null;
+  workedHours: number;
+  breakDeductionHours: number;
+  lateMinutes: number;
+  earlyDepartureMinutes: number;
+  punches: readonly unknown[];
+  employee: { name: string };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Supported output formats with their MIME type and file extension
+ */
+export const REPORT_FORMATS: Record<ReportFormat, { contentType: string; extension: string }> = {
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+};
+
+/**
+ * Sheet keys in workbook order
+ */
+export const REPORT_SHEET_KEYS: ReportSheetKey[] = ['summary', 'employees', 'daily'];
+
+/**
+ * UTF-8 byte order mark, so Excel opens CSV exports with the right encoding
+ */
+const UTF8_BOM = '\uFEFF';
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Validate the export format query parameter (default "xlsx")
+ *
+ * @param {string | null} value - Raw search param value
+ * @returns {ReportFormat} Output format
+ * @throws {RequestValidationError} If the format is not supported
+ */
+export function parseReportFormat(value: string | null): ReportFormat {
+  if (value === null || value === '') {
+    return 'xlsx';
+  }
+
+  if (!(value in REPORT_FORMATS)) {
+    throw new RequestValidationError(
+      `format must be one of ${Object.keys(REPORT_FORMATS).join(', ')}`,
+      'format'
+    );
+  }
+
+  return value as ReportFormat;
+}
+
+/**
+ * Validate the sheet query parameter of CSV exports (default "employees")
+ *
+ * @param {string | null} value - Raw search param value
+ * @returns {ReportSheetKey} Sheet to export
+ * @throws {RequestValidationError} If the sheet does not exist
+ */
+export function parseReportSheet(value: string | null): ReportSheetKey {
+  if (value === null || value === '') {
+    return 'employees';
+  }
+
+  if (!REPORT_SHEET_KEYS.includes(value as ReportSheetKey)) {
+    throw new RequestValidationError(`sheet must be one of ${REPORT_SHEET_KEYS.join(', ')}`, 'sheet');
+  }
+
+  return value as ReportSheetKey;
+}
+
+// ============================================================================
+// SHEET BUILDING
+// ============================================================================
+
+/**
+ * Build the summary, per-employee and daily sheets of a monthly report
+ *
+ * @param {MonthlyReport} report - Aggregated monthly report
+ * @param {readonly ExportedAttendanceRecord[]} records - The month's records, in output order
+ * @returns {ReportSheet[]} Sheets in REPORT_SHEET_KEYS order
+ */
+export function buildReportSheets(
+  report: MonthlyReport,
+  records: readonly ExportedAttendanceRecord[]
+): ReportSheet[] {
+  const { companyMetrics } = report;
+
+  return [
+    {
+      key: 'summary',
+      name: 'Summary',
+      columns: ['Metric', 'Value'],
+      rows: [
+        ['Month', formatMonthParam(report.year, report.month)],
+        ['Total Employees', companyMetrics.totalEmployees],
+        ['Average Productivity (%)', companyMetrics.averageProductivity],
+        ['Weighted Productivity (%)', companyMetrics.weightedProductivity],
+        ['Total Leaves Taken', companyMetrics.totalLeavesTaken],
+        ['Unexplained Absences', companyMetrics.totalUnexplainedAbsences],
+        ['Total Worked Hours', companyMetrics.totalWorkedHours],
+        ['Total Expected Hours', companyMetrics.totalExpectedHours],
+        ['Total Overtime Hours', companyMetrics.totalOvertimeHours],
+      ],
+    },
+    {
+      key: 'employees',
+      name: 'Employees',
+      columns: [
+        'Employee',
+        'Employee Code',
+        'Department',
+        'Team',
+        'Worked Hours',
+        'Expected Hours',
+        'Productivity (%)',
+        'Leaves Taken',
+        'Approved Leave Days',
+        'Unexplained Absences',
+        'Leave Balance (days)',
+        'Overtime Hours',
+        'Weighted Overtime Hours',
+        'Late Marks',
+        'Early Departures',
+      ],
+      rows: report.employeeMetrics.map((employee) => [
+        employee.employeeName,
+        employee.employeeCode ?? '',
+        employee.departmentName ?? '',
+        employee.teamName ?? '',
+        employee.workedHours,
+        employee.expectedHours,
+        employee.productivityPercentage,
+        employee.leavesTaken,
+        employee.approvedLeaveDays,
+        employee.unexplainedAbsences,
+        Math.round(employee.leaveBalances.reduce((sum, balance) => sum + balance.remaining, 0) * 10) / 10,
+        employee.overtime.totalHours,
+        employee.overtime.weightedHours,
+        employee.lateMarks,
+        employee.earlyDepartures,
+      ]),
+    },
+    {
+      key: 'daily',
+      name: 'Daily Records',
+      columns: [
+        'Employee',
+        'Date',
+        'Status',
+        'In Time',
+        'Out Time',
+        'Punch Pairs',
+        'Worked Hours',
+        'Break Deduction (h)',
+        'Late (min)',
+        'Left Early (min)',
+      ],
+      rows: records.map((record) => [
+        record.employee.name,
+        formatDateOnly(record.date),
+        record.status,
+        record.inTime ?? '',
+        record.outTime ?? '',
+        record.punches.length,
+        record.workedHours,
+        record.breakDeductionHours,
+        record.lateMinutes,
+        record.earlyDepartureMinutes,
+      ]),
+    },
+  ];
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a sheet to an xlsx worksheet with columns sized to their content
+ *
+ * @param {ReportSheet} sheet - Report sheet
+ * @returns {XLSX.WorkSheet} Worksheet
+ */
+function toWorksheet(sheet: ReportSheet): XLSX.WorkSheet {
+  const worksheet = XLSX.utils.aoa_to_sheet([sheet.columns, ...sheet.rows]);
+
+  worksheet['!cols'] = sheet.columns.map((column, index) => ({
+    wch: Math.max(column.length, ...sheet.rows.map((row) => String(row[index]).length)) + 2,
+  }));
+
+  return worksheet;
+}
+
+/**
+ * Serialize sheets as an Excel workbook
+ *
+ * @param {readonly ReportSheet[]} sheets - Report sheets, one worksheet each
+ * @returns {Buffer} .xlsx file contents
+ */
+export function toXlsxBuffer(sheets: readonly ReportSheet[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(workbook, toWorksheet(sheet), sheet.name);
+  }
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+/**
+ * Serialize one sheet as RFC 4180 CSV with a UTF-8 byte order mark
+ *
+ * @param {ReportSheet} sheet - Report sheet
+ * @returns {string} CSV text
+ */
+export function toCsv(sheet: ReportSheet): string {
+  return UTF8_BOM + XLSX.utils.sheet_to_csv(toWorksheet(sheet), { blankrows: false });
+}
+
+/**
+ * Build the download file name of a report
+ *
+ * @param {number} year - Full year (e.g., 2024)
+ * @param {number} month - Month (1-12)
+ * @param {ReportFormat} format - Output format
+ * @param {ReportSheetKey} [sheet] - Exported sheet, for single-sheet formats
+ * @returns {string} File name, e.g. "attendance-report-2024-01.xlsx"
+ */
+export function getReportFileName(
+  year: number,
+  month: number,
+  format: ReportFormat,
+  sheet?: ReportSheetKey
+): string {
+  const suffix = sheet ? `-${sheet}` : '';
+  return `attendance-report-${formatMonthParam(year, month)}${suffix}.${REPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,225 @@
+/**
+ * Monthly Report PDF Rendering
+ *
+ * Renders the report sheets from lib/report-export as a printable A4
+ * landscape PDF: a title, then one table per sheet. Tables flow across
+ * pages with the column headings repeated, and every page is numbered.
+ *
+ * Uses the standard Helvetica font, so characters outside the Windows-1252
+ * range (e.g., non-Latin names) are printed as "?".
+ *
+ * @module lib/report-pdf
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { PDFDocument, PageSizes, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { ReportCell, ReportSheet } from '@/lib/report-export';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * A4 landscape (points)
+ */
+const [PAGE_HEIGHT, PAGE_WIDTH] = PageSizes.A4;
+
+/**
+ * Layout measurements (points)
+ */
+const LAYOUT = {
+  MARGIN: 36,
+  TITLE_SIZE: 16,
+  SECTION_SIZE: 11,
+  FONT_SIZE: 8,
+  ROW_HEIGHT: 14,
+  CELL_PADDING: 4,
+  SECTION_GAP: 18,
+} as const;
+
+const TABLE_WIDTH = PAGE_WIDTH - 2 * LAYOUT.MARGIN;
+const HEADER_FILL = rgb(0.92, 0.92, 0.92);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Shorten text with an ellipsis until it fits a width
+ *
+ * @param {string} text - Text to fit
+ * @param {PDFFont} font - Font used to measure
+ * @param {number} maxWidth - Available width
+ * @returns {string} Text that fits
+ */
+function fitText(text: string, font: PDFFont, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, LAYOUT.FONT_SIZE) <= maxWidth) {
+    return text;
+  }
+
+  let fitted = text;
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}…`, LAYOUT.FONT_SIZE) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+
+  return `${fitted}…`;
+}
+
+/**
+ * Size columns to their widest cell, scaled down to fit the page
+ *
+ * @param {ReportSheet} sheet - Sheet with pre-encoded text
+ * @param {PDFFont} font - Body font
+ * @param {PDFFont} boldFont - Heading font
+ * @returns {number[]} Column widths
+ */
+function getColumnWidths(sheet: ReportSheet, font: PDFFont, boldFont: PDFFont): number[] {
+  const natural = sheet.columns.map((column, index) =>
+    sheet.rows.reduce(
+      (width, row) => Math.max(width, font.widthOfTextAtSize(String(row[index]), LAYOUT.FONT_SIZE)),
+      boldFont.widthOfTextAtSize(column, LAYOUT.FONT_SIZE)
+    ) + 2 * LAYOUT.CELL_PADDING
+  );
+
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  const scale = total > TABLE_WIDTH ? TABLE_WIDTH / total : 1;
+
+  return natural.map((width) => width * scale);
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Render report sheets as a PDF document
+ *
+ * @param {string} title - Report title printed on the first page
+ * @param {readonly ReportSheet[]} sheets - Sheets, one table each
+ * @returns {Promise<Uint8Array>} PDF file contents
+ */
+export async function renderReportPdf(title: string, sheets: readonly ReportSheet[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  // Replace characters the standard font cannot encode
+  const characterSet = new Set(font.getCharacterSet());
+  const encodeText = (value: ReportCell): string =>
+    Array.from(String(value), (char) => (characterSet.has(char.codePointAt(0) ?? 0) ? char : '?')).join('');
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - LAYOUT.MARGIN - LAYOUT.TITLE_SIZE;
+
+  page.drawText(encodeText(title), { x: LAYOUT.MARGIN, y, size: LAYOUT.TITLE_SIZE, font: boldFont });
+  y -= LAYOUT.SECTION_GAP + LAYOUT.SECTION_SIZE;
+
+  /**
+   * Draw one table row at the cursor and move the cursor down
+   */
+  const drawRow = (cells: string[], widths: number[], rowFont: PDFFont, isHeader: boolean): void => {
+    if (isHeader) {
+      page.drawRectangle({
+        x: LAYOUT.MARGIN,
+        y: y - LAYOUT.ROW_HEIGHT,
+        width: widths.reduce((sum, width) => sum + width, 0),
+        height: LAYOUT.ROW_HEIGHT,
+        color: HEADER_FILL,
+      });
+    }
+
+    let x = LAYOUT.MARGIN;
+    cells.forEach((cell, index) => {
+      const text = fitText(cell, rowFont, widths[index] - 2 * LAYOUT.CELL_PADDING);
+      const textWidth = rowFont.widthOfTextAtSize(text, LAYOUT.FONT_SIZE);
+      const isNumeric = !isHeader && cell !== '' && !Number.isNaN(Number(cell));
+
+      page.drawText(text, {
+        x: isNumeric ? x + widths[index] - LAYOUT.CELL_PADDING - textWidth : x + LAYOUT.CELL_PADDING,
+        y: y - LAYOUT.ROW_HEIGHT + LAYOUT.CELL_PADDING,
+        size: LAYOUT.FONT_SIZE,
+        font: rowFont,
+      });
+      x += widths[index];
+    });
+
+    y -= LAYOUT.ROW_HEIGHT;
+    page.drawLine({
+      start: { x: LAYOUT.MARGIN, y },
+      end: { x, y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    });
+  };
+
+  /**
+   * Start a new page when fewer than the given number of rows still fit
+   */
+  const ensureSpace = (rows: number): boolean => {
+    if (y - rows * LAYOUT.ROW_HEIGHT >= LAYOUT.MARGIN) {
+      return false;
+    }
+
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - LAYOUT.MARGIN;
+    return true;
+  };
+
+  for (const sheet of sheets) {
+    const encoded: ReportSheet = {
+      ...sheet,
+      columns: sheet.columns.map(encodeText),
+      rows: sheet.rows.map((row) => row.map(encodeText)),
+    };
+    const widths = getColumnWidths(encoded, font, boldFont);
+
+    // Keep the section title with its heading row and first data row
+    ensureSpace(4);
+    y -= LAYOUT.SECTION_SIZE;
+    page.drawText(encoded.name, { x: LAYOUT.MARGIN, y, size: LAYOUT.SECTION_SIZE, font: boldFont });
+    y -= LAYOUT.CELL_PADDING;
+
+    drawRow(encoded.columns, widths, boldFont, true);
+
+    if (encoded.rows.length === 0) {
+      page.drawText('No records', {
+        x: LAYOUT.MARGIN + LAYOUT.CELL_PADDING,
+        y: y - LAYOUT.ROW_HEIGHT + LAYOUT.CELL_PADDING,
+        size: LAYOUT.FONT_SIZE,
+        font,
+        color: MUTED_COLOR,
+      });
+      y -= LAYOUT.ROW_HEIGHT;
+    }
+
+    for (const row of encoded.rows) {
+      // Repeat the column headings at the top of every continuation page
+      if (ensureSpace(1)) {
+        drawRow(encoded.columns, widths, boldFont, true);
+      }
+      drawRow(row.map(String), widths, font, false);
+    }
+
+    y -= LAYOUT.SECTION_GAP;
+  }
+
+  // Page numbers
+  const pages = pdf.getPages();
+  pages.forEach((pdfPage, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    pdfPage.drawText(label, {
+      x: PAGE_WIDTH - LAYOUT.MARGIN - font.widthOfTextAtSize(label, LAYOUT.FONT_SIZE),
+      y: LAYOUT.MARGIN / 2,
+      size: LAYOUT.FONT_SIZE,
+      font,
+      color: MUTED_COLOR,
+    });
+  });
+
+  return pdf.save();
+}
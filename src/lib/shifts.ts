@@ -0,0 +1,182 @@
+/**
+ * Shift Definitions & Validation
+ *
+ * Shared types and validation for shifts: the start and end time assigned
+ * employees are expected to keep, with a grace period before late arrival
+ * or early departure is flagged (see calculateShiftPunctuality in
+ * lib/calculations).
+ *
+ * SHIFT RULES:
+ * - Times are 24-hour "HH:MM" (the format of <input type="time">)
+ * - A shift ending before it starts runs overnight (e.g., 22:00 to 06:00)
+ * - Start and end must differ
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/shifts
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { RequestValidationError, parseNumberInRange, requireString } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Validated shift payload ready for Prisma create/update
+ */
+export interface ShiftInput {
+  /** Shift name (e.g., "Morning") */
+  name: string;
+
+  /** Start of the shift (HH:MM) */
+  startTime: string;
+
+  /** End of the shift (HH:MM) */
+  endTime: string;
+
+  /** Minutes of lateness or early departure that are not flagged */
+  graceMinutes: number;
+}
+
+/**
+ * Serializable shift representation for JSON responses and client components
+ */
+export interface ShiftSummary extends ShiftInput {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Number of employees assigned to the shift */
+  employeeCount: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Shift times must be 24-hour "HH:MM"
+ */
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Longest accepted grace period in minutes
+ */
+export const MAX_GRACE_MINUTES = 120;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a required "HH:MM" time
+ *
+ * @param {unknown} value - Raw value
+ * @param {string} field - Field name used in error messages
+ * @returns {string} Time
+ * @throws {RequestValidationError} If the value is not a valid time
+ */
+function parseShiftTime(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !TIME_PATTERN.test(value.trim())) {
+    throw new RequestValidationError(`${field} must be a time in HH:MM format`, field);
+  }
+
+  return value.trim();
+}
+
+/**
+ * Validate a shift request body
+ *
+ * On partial updates the caller must re-check that start and end differ
+ * against the stored values (see validateShiftTimes).
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {boolean} [partial=false] - Allow missing fields (PATCH semantics)
+ * @returns {Partial<ShiftInput>} Validated fields (complete when partial is false)
+ * @throws {RequestValidationError} If any provided field is invalid
+ */
+export function parseShiftInput(body: Record<string, unknown>, partial: true): Partial<ShiftInput>;
+export function parseShiftInput(body: Record<string, unknown>, partial?: false): ShiftInput;
+export function parseShiftInput(
+  body: Record<string, unknown>,
+  partial = false
+): Partial<ShiftInput> {
+  const input: Partial<ShiftInput> = {};
+
+  if (!partial || body.name !== undefined) {
+    input.name = requireString(body.name, 'name', 100);
+  }
+
+  if (!partial || body.startTime !== undefined) {
+    input.startTime = parseShiftTime(body.startTime, 'startTime');
+  }
+
+  if (!partial || body.endTime !== undefined) {
+    input.endTime = parseShiftTime(body.endTime, 'endTime');
+  }
+
+  if (!partial || body.graceMinutes !== undefined) {
+    input.graceMinutes = Math.trunc(
+      parseNumberInRange(body.graceMinutes ?? 0, 'graceMinutes', 0, MAX_GRACE_MINUTES)
+    );
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    throw new RequestValidationError('Request body contains no shift fields to update');
+  }
+
+  if (!partial) {
+    validateShiftTimes(input as ShiftInput);
+  }
+
+  return input;
+}
+
+/**
+ * Check that a shift has a length
+ *
+ * @param {Pick<ShiftInput, 'startTime' | 'endTime'>} shift - Resulting shift times
+ * @throws {RequestValidationError} If start and end are equal
+ */
+export function validateShiftTimes(shift: Pick<ShiftInput, 'startTime' | 'endTime'>): void {
+  if (shift.startTime === shift.endTime) {
+    throw new RequestValidationError('endTime must differ from startTime', 'endTime');
+  }
+}
+
+// ============================================================================
+// FORMATTING & SERIALIZATION
+// ============================================================================
+
+/**
+ * Format a shift's hours for display
+ *
+ * @param {Pick<ShiftInput, 'startTime' | 'endTime'>} shift - Shift times
+ * @returns {string} e.g. "09:00–18:00" or "22:00–06:00 (overnight)"
+ */
+export function formatShiftTimes(shift: Pick<ShiftInput, 'startTime' | 'endTime'>): string {
+  const overnight = shift.endTime < shift.startTime;
+  return `${shift.startTime}–${shift.endTime}${overnight ? ' (overnight)' : ''}`;
+}
+
+/**
+ * Convert a persisted shift into its serializable summary
+ *
+ * @param {ShiftInput & { id: string; _count?: { employees: number } }} shift - Prisma Shift record, optionally with its employee count
+ * @returns {ShiftSummary} JSON-safe summary
+ */
+export function toShiftSummary(
+  shift: ShiftInput & { id: string; _count?: { employees: number } }
+): ShiftSummary {
+  return {
+    id: shift.id,
+    name: shift.name,
+    startTime: shift.startTime,
+    endTime: shift.endTime,
+    graceMinutes: shift.graceMinutes,
+    employeeCount: shift._count?.employees ?? 0,
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Spreadsheet File Reading (Excel, CSV, TSV)
+ *
+ * Turns an uploaded file into an xlsx WorkBook so Excel and delimited text
+ * exports share one parsing path in the upload route and in the browser
+ * (profile builder, annotated error sheet).
+ *
+ * DELIMITED TEXT SUPPORT:
+ * - Encoding detection: UTF-8 / UTF-16 LE / UTF-16 BE byte order marks,
+ *   BOM-less UTF-16 (zero-byte pattern), strict UTF-8, Windows-1252 fallback
+ * - Delimiter detection among comma, tab, semicolon and pipe, based on the
+ *   count that is consistent across the first lines (.tsv prefers tab)
+ * - RFC 4180 quoting (quoted delimiters, "" escapes, line breaks in quotes)
+ * - Every cell is kept as text so dates and times go through the same
+ *   normalization as text cells in Excel files
+ *
+ * @module lib/spreadsheet-files
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import * as XLSX from 'xlsx';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Text encodings recognized in delimited files
+ */
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/**
+ * Options for reading a workbook
+ */
+export interface ReadWorkbookOptions {
+  /** Only read this many rows per sheet (e.g., 1 for header detection) */
+  sheetRows?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * File extensions accepted for attendance uploads
+ */
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv'] as const;
+
+/**
+ * Extensions read as delimited text instead of Excel workbooks
+ */
+const DELIMITED_EXTENSIONS = ['.csv', '.tsv'] as const;
+
+/**
+ * Delimiters considered during detection, in tie-break order
+ */
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'] as const;
+
+/**
+ * Worksheet name given to CSV/TSV content
+ */
+const DELIMITED_SHEET_NAME = 'Sheet1';
+
+/**
+ * Number of lines sampled for delimiter detection
+ */
+const DELIMITER_SAMPLE_LINES = 10;
+
+/**
+ * Number of bytes sampled for BOM-less UTF-16 detection
+ */
+const ENCODING_SAMPLE_BYTES = 1024;
+
+// ============================================================================
+// FILE TYPE HELPERS
+// ============================================================================
+
+/**
+ * Check whether a filename has an accepted spreadsheet extension
+ *
+ * @param {string} filename - File name
+ * @returns {boolean} True for .xlsx, .xls, .csv and .tsv
+ */
+export function isSpreadsheetFile(filename: string): boolean {
+  const lowerFilename = filename.toLowerCase();
+  return SPREADSHEET_EXTENSIONS.some((ext) => lowerFilename.endsWith(ext));
+}
+
+/**
+ * Check whether a filename denotes a delimited text file
+ *
+ * @param {string} filename - File name
+ * @returns {boolean} True for .csv and .tsv
+ */
+export function isDelimitedTextFile(filename: string): boolean {
+  const lowerFilename = filename.toLowerCase();
+  return DELIMITED_EXTENSIONS.some((ext) => lowerFilename.endsWith(ext));
+}
+
+// ============================================================================
+// ENCODING DETECTION
+// ============================================================================
+
+/**
+ * Detect the text encoding of raw file bytes
+ *
+ * ALGORITHM:
+ * 1. Byte order mark (UTF-8 EF BB BF, UTF-16 LE FF FE, UTF-16 BE FE FF)
+ * 2. BOM-less UTF-16: ASCII text leaves every other byte zero
+ * 3. Bytes that decode as valid UTF-8
+ * 4. Windows-1252 (legacy Windows "ANSI" exports)
+ *
+ * @param {Uint8Array} bytes - File content
+ * @returns {TextEncoding} Detected encoding
+ */
+export function detectTextEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+
+  // Count zero bytes at even and odd offsets
+  const sampleLength = Math.min(bytes.length, ENCODING_SAMPLE_BYTES) & ~1;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sampleLength; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  const pairCount = sampleLength / 2;
+  if (pairCount > 0 && oddZeros / pairCount > 0.4 && evenZeros === 0) {
+    return 'utf-16le';
+  }
+  if (pairCount > 0 && evenZeros / pairCount > 0.4 && oddZeros === 0) {
+    return 'utf-16be';
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Decode file bytes to text, removing any byte order mark
+ *
+ * A BOM is always detected as its UTF encoding, and TextDecoder drops it.
+ *
+ * @param {Uint8Array} bytes - File content
+ * @returns {string} Decoded text
+ */
+export function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder(detectTextEncoding(bytes)).decode(bytes);
+}
+
+// ============================================================================
+// DELIMITED TEXT PARSING
+// ============================================================================
+
+/**
+ * Count delimiter occurrences per line outside quoted sections
+ *
+ * @param {string} text - Decoded text
+ * @param {string} delimiter - Candidate delimiter
+ * @returns {number[]} Count for each of the first non-empty lines
+ */
+function countDelimiterPerLine(text: string, delimiter: string): number[] {
+  const counts: number[] = [];
+  let count = 0;
+  let inQuotes = false;
+  let lineHasContent = false;
+
+  for (let i = 0; i < text.length && counts.length < DELIMITER_SAMPLE_LINES; i++) {
+    const char = text[i];
+
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (lineHasContent) {
+        counts.push(count);
+      }
+      count = 0;
+      lineHasContent = false;
+      continue;
+    } else if (!inQuotes && char === delimiter) {
+      count++;
+    }
+
+    lineHasContent = true;
+  }
+
+  if (lineHasContent && counts.length < DELIMITER_SAMPLE_LINES) {
+    counts.push(count);
+  }
+
+  return counts;
+}
+
+/**
+ * Detect the field delimiter of delimited text
+ *
+ * A delimiter that appears the same number of times on every sampled line
+ * wins over one that does not; among those the highest count wins. The
+ * preferred delimiter (tab for .tsv) is chosen when it is consistent.
+ *
+ * @param {string} text - Decoded text
+ * @param {string} [preferred] - Delimiter implied by the file extension
+ * @returns {string} Detected delimiter (comma when nothing matches)
+ */
+export function detectDelimiter(text: string, preferred?: string): string {
+  let best: { delimiter: string; count: number; consistent: boolean } | null = null;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = countDelimiterPerLine(text, delimiter);
+    if (counts.length === 0 || counts[0] === 0) {
+      continue;
+    }
+
+    const consistent = counts.every((count) => count === counts[0]);
+    if (consistent && delimiter === preferred) {
+      return delimiter;
+    }
+
+    const isBetter =
+      !best ||
+      (consistent && !best.consistent) ||
+      (consistent === best.consistent && counts[0] > best.count);
+
+    if (isBetter) {
+      best = { delimiter, count: counts[0], consistent };
+    }
+  }
+
+  return best?.delimiter ?? preferred ?? ',';
+}
+
+/**
+ * Parse delimited text into rows of cells (RFC 4180)
+ *
+ * @param {string} text - Decoded text
+ * @param {string} delimiter - Field delimiter
+ * @returns {string[][]} Rows of raw cell text
+ *
+ * @example
+ * parseDelimitedText('Name,Note\n"Doe, John","said ""hi"""', ',')
+ * // Returns: [['Name', 'Note'], ['Doe, John', 'said "hi"']]
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r' || char === '\n') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ============================================================================
+// WORKBOOK READING
+// ============================================================================
+
+/**
+ * Read an uploaded spreadsheet into an xlsx WorkBook
+ *
+ * Excel files are read by xlsx directly. CSV/TSV files are decoded and
+ * split here, then wrapped in a single-sheet workbook whose cells are all
+ * text; empty cells are left out so blank rows
+ * behave as in Excel.
+ *
+ * @param {Uint8Array | ArrayBuffer} data - File content
+ * @param {string} filename - Original file name (selects the reader)
+ * @param {ReadWorkbookOptions} [options] - Read options
+ * @returns {XLSX.WorkBook} Parsed workbook
+ */
+export function readWorkbook(
+  data: Uint8Array | ArrayBuffer,
+  filename: string,
+  options: ReadWorkbookOptions = {}
+): XLSX.WorkBook {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (!isDelimitedTextFile(filename)) {
+    return XLSX.read(bytes, {
+      type: 'array',
+      cellDates: false, // Date conversion is handled by the upload route
+      sheetRows: options.sheetRows,
+    });
+  }
+
+  const text = decodeText(bytes);
+  const preferred = filename.toLowerCase().endsWith('.tsv') ? '\t' : undefined;
+  const rows = parseDelimitedText(text, detectDelimiter(text, preferred));
+  const limitedRows = options.sheetRows ? rows.slice(0, options.sheetRows) : rows;
+
+  const worksheet = XLSX.utils.aoa_to_sheet(
+    limitedRows.map((cells) => cells.map((cell) => (cell.trim() === '' ? null : cell)))
+  );
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, DELIMITED_SHEET_NAME);
+
+  return workbook;
+}
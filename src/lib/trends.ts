@@ -0,0 +1,227 @@
+/**
+ * Trend Analytics
+ *
+ * Turns the monthly reports of a range of months into chart series for the
+ * trends page: company average productivity and total leaves per month,
+ * one productivity line per employee, and month-over-month deltas.
+ *
+ * The range is selected like the dashboard month: `month=YYYY-MM` is the
+ * last month shown and `months` the number of months up to it.
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/trends
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { format } from 'date-fns';
+import { parseMonthParam, type MonthSelection } from '@/lib/months';
+import type { MonthlyReport } from '@/lib/monthly-report';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Range of months selected on the trends page
+ */
+export interface TrendRange {
+  /** Last month of the range */
+  end: MonthSelection;
+
+  /** Number of months up to and including the last one */
+  count: TrendMonthCount;
+}
+
+/**
+ * Selectable range lengths
+ */
+export type TrendMonthCount = (typeof TREND_MONTH_COUNTS)[number];
+
+/**
+ * Company figures of one month
+ */
+export interface TrendMonth extends MonthSelection {
+  /** Short label, e.g. "Jan 2024" */
+  label: string;
+
+  /** Whether any attendance exists for the month */
+  hasData: boolean;
+
+  /** Employees with attendance in the month */
+  totalEmployees: number;
+
+  /** Average productivity (%), as on the dashboard */
+  averageProductivity: number;
+
+  /** Hours-weighted productivity (%): total worked over total expected hours */
+  weightedProductivity: number;
+
+  /** Absent days */
+  totalLeavesTaken: number;
+
+  /** Absent days without approved leave */
+  totalUnexplainedAbsences: number;
+
+  /** Change of averageProductivity in percentage points (null without a previous month with data) */
+  productivityDelta: number | null;
+
+  /** Change of totalLeavesTaken (null without a previous month with data) */
+  leavesDelta: number | null;
+}
+
+/**
+ * Productivity of one employee across the range
+ */
+export interface EmployeeTrend {
+  employeeId: string;
+  employeeName: string;
+
+  /** Productivity (%) per month of the range; null when the employee has no attendance */
+  productivity: Array<number | null>;
+
+  /** Month-over-month change per month, in percentage points */
+  deltas: Array<number | null>;
+}
+
+/**
+ * Series shown on the trends page
+ */
+export interface TrendReport {
+  months: TrendMonth[];
+
+  /** Employees with attendance in at least one month, alphabetical */
+  employees: EmployeeTrend[];
+
+  /** Whether any month has attendance */
+  hasData: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Range lengths offered on the trends page
+ */
+export const TREND_MONTH_COUNTS = [3, 6, 12, 24] as const;
+
+/**
+ * Range length used when none (or an unsupported one) is selected
+ */
+export const DEFAULT_TREND_MONTH_COUNT: TrendMonthCount = 12;
+
+// ============================================================================
+// RANGE SELECTION
+// ============================================================================
+
+/**
+ * Parse the trend range from page search params
+ *
+ * Lenient like parseMonthParam: an invalid month selects the current
+ * month and an unsupported count selects the default.
+ *
+ * @param {{ month?: string; months?: string }} params - Raw search params
+ * @returns {TrendRange} Selected range
+ */
+export function parseTrendRangeParams(params: { month?: string; months?: string }): TrendRange {
+  const count = TREND_MONTH_COUNTS.find((option) => String(option) === params.months);
+
+  return {
+    end: parseMonthParam(params.month),
+    count: count ?? DEFAULT_TREND_MONTH_COUNT,
+  };
+}
+
+/**
+ * List the months of a range in chronological order
+ *
+ * @param {TrendRange} range - Selected range
+ * @returns {MonthSelection[]} Months from the first to the last
+ */
+export function listTrendMonths(range: TrendRange): MonthSelection[] {
+  return Array.from({ length: range.count }, (_, index) => {
+    const date = new Date(range.end.year, range.end.month - range.count + index, 1);
+    return { year: date.getFullYear(), month: date.getMonth() + 1 };
+  });
+}
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/**
+ * Month-over-month changes of a series
+ *
+ * Each value is compared with the previous month; months without a value
+ * (or after one) get null.
+ *
+ * @param {Array<number | null>} values - Values per month
+ * @returns {Array<number | null>} Change per month, rounded to one decimal
+ *
+ * @example
+ * monthOverMonth([80, 85.5, null, 90]) // Returns: [null, 5.5, null, null]
+ */
+export function monthOverMonth(values: Array<number | null>): Array<number | null> {
+  return values.map((value, index) => {
+    const previous = index > 0 ? values[index - 1] : null;
+    return value === null || previous === null ? null : Math.round((value - previous) * 10) / 10;
+  });
+}
+
+/**
+ * Build the trend series from consecutive monthly reports
+ *
+ * @param {MonthlyReport[]} reports - Reports in chronological order (lib/monthly-report)
+ * @returns {TrendReport} Company and per-employee series
+ */
+export function buildTrendReport(reports: MonthlyReport[]): TrendReport {
+  const productivitySeries = reports.map((report) => (report.hasData ? report.companyMetrics.averageProductivity : null));
+  const leavesSeries = reports.map((report) => (report.hasData ? report.companyMetrics.totalLeavesTaken : null));
+  const productivityDeltas = monthOverMonth(productivitySeries);
+  const leavesDeltas = monthOverMonth(leavesSeries);
+
+  const months: TrendMonth[] = reports.map((report, index) => ({
+    year: report.year,
+    month: report.month,
+    label: format(new Date(report.year, report.month - 1, 1), 'MMM yyyy'),
+    hasData: report.hasData,
+    totalEmployees: report.companyMetrics.totalEmployees,
+    averageProductivity: report.companyMetrics.averageProductivity,
+    weightedProductivity: report.companyMetrics.weightedProductivity,
+    totalLeavesTaken: report.companyMetrics.totalLeavesTaken,
+    totalUnexplainedAbsences: report.companyMetrics.totalUnexplainedAbsences,
+    productivityDelta: productivityDeltas[index],
+    leavesDelta: leavesDeltas[index],
+  }));
+
+  // One productivity value per employee and month
+  const employees = new Map<string, EmployeeTrend>();
+  reports.forEach((report, index) => {
+    for (const metrics of report.employeeMetrics) {
+      let trend = employees.get(metrics.employeeId);
+      if (!trend) {
+        trend = {
+          employeeId: metrics.employeeId,
+          employeeName: metrics.employeeName,
+          productivity: reports.map(() => null),
+          deltas: [],
+        };
+        employees.set(metrics.employeeId, trend);
+      }
+      trend.productivity[index] = metrics.productivityPercentage;
+    }
+  });
+
+  for (const trend of employees.values()) {
+    trend.deltas = monthOverMonth(trend.productivity);
+  }
+
+  return {
+    months,
+    employees: Array.from(employees.values()).sort((a, b) => a.employeeName.localeCompare(b.employeeName)),
+    hasData: reports.some((report) => report.hasData),
+  };
+}
@@ -0,0 +1,418 @@
+/**
+ * User Roles, Validation & Employee Scope
+ *
+ * Shared types and validation for login accounts, the role groups that
+ * guard routes and pages, and the employee scope that limits which
+ * employees a user can see.
+ *
+ * ROLES:
+ * - ADMIN: everything, including user management
+ * - HR_MANAGER: uploads, corrections, settings; sees every employee
+ * - TEAM_LEAD: sees themselves and everyone reporting to them (directly or
+ *   through other managers), decides their leave
+ * - EMPLOYEE: sees only their own attendance and leave
+ *
+ * This module has no database dependency so it can be imported from client
+ * components.
+ *
+ * @module lib/users
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { RequestValidationError, isValidObjectId, requireString } from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Access role (mirrors the Prisma UserRole enum)
+ */
+export type UserRole = 'ADMIN' | 'HR_MANAGER' | 'TEAM_LEAD' | 'EMPLOYEE';
+
+/**
+ * Signed-in user as seen by route handlers and pages
+ */
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+
+  /** Employee the account belongs to, if linked */
+  employeeId: string | null;
+}
+
+/**
+ * Employees a user may see: null for everyone, otherwise an id list
+ */
+export type EmployeeScope = string[] | null;
+
+/**
+ * Validated login body
+ */
+export interface LoginInput {
+  email: string;
+  password: string;
+}
+
+/**
+ * Validated user create payload (password still in plain text)
+ */
+export interface UserCreateInput {
+  email: string;
+  name: string;
+  password: string;
+  role: UserRole;
+  employeeId: string | null;
+}
+
+/**
+ * Validated user update payload; omitted fields stay unchanged
+ */
+export interface UserUpdateInput {
+  email?: string;
+  name?: string;
+
+  /** New password, when resetting it */
+  password?: string;
+
+  role?: UserRole;
+  employeeId?: string | null;
+  active?: boolean;
+}
+
+/**
+ * Serializable user representation for JSON responses and client components
+ */
+export interface UserSummary {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  employeeId: string | null;
+  employeeName: string | null;
+  active: boolean;
+
+  /** Last successful login (ISO 8601) */
+  lastLoginAt: string | null;
+
+  /** Creation timestamp (ISO 8601) */
+  createdAt: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Roles in display order with labels
+ */
+export const USER_ROLES: ReadonlyArray<{ role: UserRole; label: string }> = [
+  { role: 'ADMIN', label: 'Admin' },
+  { role: 'HR_MANAGER', label: 'HR Manager' },
+  { role: 'TEAM_LEAD', label: 'Team Lead' },
+  { role: 'EMPLOYEE', label: 'Employee' },
+];
+
+/**
+ * Roles that upload and correct attendance, manage settings and see every
+ * employee
+ */
+export const ATTENDANCE_MANAGER_ROLES: readonly UserRole[] = ['ADMIN', 'HR_MANAGER'];
+
+/**
+ * Roles that approve or reject leave requests within their scope
+ */
+export const LEAVE_APPROVER_ROLES: readonly UserRole[] = ['ADMIN', 'HR_MANAGER', 'TEAM_LEAD'];
+
+/**
+ * Roles that manage login accounts
+ */
+export const USER_MANAGER_ROLES: readonly UserRole[] = ['ADMIN'];
+
+/**
+ * Shortest accepted password
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Roles whose accounts must be linked to an employee
+ */
+const EMPLOYEE_LINKED_ROLES: readonly UserRole[] = ['TEAM_LEAD', 'EMPLOYEE'];
+
+/**
+ * Loose e-mail shape check; delivery is never attempted
+ */
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================================================
+// ROLE CHECKS
+// ============================================================================
+
+/**
+ * Check whether a user has one of the given roles
+ *
+ * @param {Pick<SessionUser, 'role'>} user - Signed-in user
+ * @param {readonly UserRole[]} roles - Allowed roles
+ * @returns {boolean} True if the user's role is allowed
+ */
+export function hasRole(user: Pick<SessionUser, 'role'>, roles: readonly UserRole[]): boolean {
+  return roles.includes(user.role);
+}
+
+/**
+ * Get the display label of a role
+ *
+ * @param {UserRole} role - Role
+ * @returns {string} Label (e.g., "HR Manager")
+ */
+export function getRoleLabel(role: UserRole): string {
+  return USER_ROLES.find((option) => option.role === role)?.label ?? role;
+}
+
+/**
+ * Check whether an employee is inside a scope
+ *
+ * @param {EmployeeScope} scope - Scope of the signed-in user
+ * @param {string} employeeId - Employee ObjectId
+ * @returns {boolean} True if the employee may be seen
+ */
+export function isInScope(scope: EmployeeScope, employeeId: string): boolean {
+  return scope === null || scope.includes(employeeId);
+}
+
+/**
+ * Build a Prisma `employeeId` filter for a scope
+ *
+ * @param {EmployeeScope} scope - Scope of the signed-in user
+ * @returns {{ in: string[] } | undefined} Filter, or undefined for everyone
+ *
+ * @example
+ * prisma.leaveRequest.findMany({ where: { employeeId: toScopeFilter(scope) } })
+ */
+export function toScopeFilter(scope: EmployeeScope): { in: string[] } | undefined {
+  return scope === null ? undefined : { in: scope };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate an e-mail address and normalize it to lowercase
+ *
+ * @param {unknown} value - Raw value
+ * @returns {string} Lowercase e-mail address
+ * @throws {RequestValidationError} If missing or malformed
+ */
+function parseEmail(value: unknown): string {
+  const email = requireString(value, 'email', 254).toLowerCase();
+  if (!EMAIL_REGEX.test(email)) {
+    throw new RequestValidationError('email must be a valid e-mail address', 'email');
+  }
+
+  return email;
+}
+
+/**
+ * Validate a new password
+ *
+ * Not trimmed: leading and trailing spaces are part of the password.
+ *
+ * @param {unknown} value - Raw value
+ * @returns {string} Password
+ * @throws {RequestValidationError} If missing, too short or too long
+ */
+function parsePassword(value: unknown): string {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+    throw new RequestValidationError(
+      `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      'password'
+    );
+  }
+
+  if (value.length > 200) {
+    throw new RequestValidationError('password must be at most 200 characters', 'password');
+  }
+
+  return value;
+}
+
+/**
+ * Validate a role
+ *
+ * @param {unknown} value - Raw value
+ * @returns {UserRole} Role
+ * @throws {RequestValidationError} If not a known role
+ */
+function parseUserRole(value: unknown): UserRole {
+  const match = USER_ROLES.find((option) => option.role === value);
+  if (!match) {
+    throw new RequestValidationError(
+      `role must be one of: ${USER_ROLES.map((option) => option.role).join(', ')}`,
+      'role'
+    );
+  }
+
+  return match.role;
+}
+
+/**
+ * Validate a nullable employee reference
+ *
+ * @param {unknown} value - Raw value
+ * @returns {string | null} Employee ObjectId or null
+ * @throws {RequestValidationError} If not a valid id
+ */
+function parseEmployeeLink(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (!isValidObjectId(value)) {
+    throw new RequestValidationError('employeeId must be a valid employee id', 'employeeId');
+  }
+
+  return value;
+}
+
+/**
+ * Check that a role has the employee link it needs
+ *
+ * Team leads and employees only see data through their employee, so their
+ * accounts must be linked to one.
+ *
+ * @param {UserRole} role - Role of the account
+ * @param {string | null} employeeId - Linked employee
+ * @throws {RequestValidationError} If the role needs an employee and has none
+ */
+export function assertEmployeeLink(role: UserRole, employeeId: string | null): void {
+  if (EMPLOYEE_LINKED_ROLES.includes(role) && employeeId === null) {
+    throw new RequestValidationError(`A ${getRoleLabel(role)} account must be linked to an employee`, 'employeeId');
+  }
+}
+
+/**
+ * Validate a login body
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @returns {LoginInput} Credentials
+ * @throws {RequestValidationError} If a field is missing
+ */
+export function parseLoginInput(body: Record<string, unknown>): LoginInput {
+  if (typeof body.password !== 'string' || body.password.length === 0) {
+    throw new RequestValidationError('password is required', 'password');
+  }
+
+  return {
+    email: requireString(body.email, 'email', 254).toLowerCase(),
+    password: body.password,
+  };
+}
+
+/**
+ * Validate a user create body
+ *
+ * Body shape: { email, name, password, role, employeeId? }
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @returns {UserCreateInput} Validated user
+ * @throws {RequestValidationError} If a field is invalid
+ */
+export function parseUserCreateInput(body: Record<string, unknown>): UserCreateInput {
+  const input: UserCreateInput = {
+    email: parseEmail(body.email),
+    name: requireString(body.name, 'name', 100),
+    password: parsePassword(body.password),
+    role: parseUserRole(body.role),
+    employeeId: parseEmployeeLink(body.employeeId),
+  };
+
+  assertEmployeeLink(input.role, input.employeeId);
+  return input;
+}
+
+/**
+ * Validate a user update body
+ *
+ * Every field is optional; the employee link is checked against the
+ * resulting role by the route, which knows the stored values.
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @returns {UserUpdateInput} Validated changes
+ * @throws {RequestValidationError} If a field is invalid or nothing changes
+ */
+export function parseUserUpdateInput(body: Record<string, unknown>): UserUpdateInput {
+  const input: UserUpdateInput = {};
+
+  if (body.email !== undefined) {
+    input.email = parseEmail(body.email);
+  }
+
+  if (body.name !== undefined) {
+    input.name = requireString(body.name, 'name', 100);
+  }
+
+  if (body.password !== undefined) {
+    input.password = parsePassword(body.password);
+  }
+
+  if (body.role !== undefined) {
+    input.role = parseUserRole(body.role);
+  }
+
+  if (body.employeeId !== undefined) {
+    input.employeeId = parseEmployeeLink(body.employeeId);
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      throw new RequestValidationError('active must be true or false', 'active');
+    }
+    input.active = body.active;
+  }
+
+  if (Object.keys(input).length === 0) {
+    throw new RequestValidationError('Provide at least one field to update');
+  }
+
+  return input;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted user into its serializable summary
+ *
+ * Never includes the password hash.
+ *
+ * @param {object} user - Prisma User record with its employee
+ * @returns {UserSummary} JSON-safe summary
+ */
+export function toUserSummary(user: {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  employeeId: string | null;
+  active: boolean;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+  employee: { name: string } | null;
+}): UserSummary {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    employeeId: user.employeeId,
+    employeeName: user.employee?.name ?? null,
+    active: user.active,
+    lastLoginAt: user.lastLoginAt ? user.lastLoginAt.toISOString() : null,
+    createdAt: user.createdAt.toISOString(),
+  };
+}
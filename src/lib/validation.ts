@@ -0,0 +1,198 @@
+/**
+ * Request Validation Utilities
+ *
+ * Shared, dependency-free validators for JSON request bodies and query
+ * parameters used by the API routes. Every validator either returns a
+ * correctly typed value or throws a RequestValidationError naming the
+ * offending field, so route handlers can map failures to HTTP 400.
+ *
+ * CONVENTIONS:
+ * - Calendar dates are exchanged as "YYYY-MM-DD" strings
+ * - Parsed dates are normalized to local midnight, matching lib/calculations
+ * - MongoDB identifiers are 24-character hexadecimal ObjectId strings
+ *
+ * @module lib/validation
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { format } from 'date-fns';
+
+// ============================================================================
+// CUSTOM ERROR CLASSES
+// ============================================================================
+
+/**
+ * Error thrown when a request body or query parameter fails validation
+ */
+export class RequestValidationError extends Error {
+  /**
+   * @param {string} message - Error description
+   * @param {string} [field] - Name of the invalid field
+   */
+  constructor(message: string, public readonly field?: string) {
+    super(message);
+    this.name = 'RequestValidationError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RequestValidationError);
+    }
+  }
+}
+
+// ============================================================================
+// PRIMITIVE VALIDATORS
+// ============================================================================
+
+/**
+ * MongoDB ObjectId format (24 hexadecimal characters)
+ */
+const OBJECT_ID_REGEX = /^[a-f0-9]{24}$/i;
+
+/**
+ * Calendar date format (YYYY-MM-DD)
+ */
+const DATE_ONLY_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Check whether a value is a valid MongoDB ObjectId string
+ *
+ * Prisma throws on malformed ObjectIds, so route handlers validate path
+ * parameters up front to return 400/404 instead of 500.
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if value is a 24-character hex string
+ */
+export function isValidObjectId(value: unknown): value is string {
+  return typeof value === 'string' && OBJECT_ID_REGEX.test(value);
+}
+
+/**
+ * Parse a "YYYY-MM-DD" string into a Date at local midnight
+ *
+ * Rejects impossible dates such as "2024-02-30" rather than letting the
+ * Date constructor silently roll them over into the next month.
+ *
+ * @param {unknown} value - Raw value from the request
+ * @param {string} field - Field name used in error messages
+ * @returns {Date} Date normalized to midnight
+ * @throws {RequestValidationError} If the value is not a valid calendar date
+ *
+ * @example
+ * parseDateOnly('2024-03-01', 'effectiveFrom') // Returns: Date for 2024-03-01T00:00
+ */
+export function parseDateOnly(value: unknown, field: string): Date {
+  if (typeof value !== 'string') {
+    throw new RequestValidationError(`${field} must be a date string in YYYY-MM-DD format`, field);
+  }
+
+  const match = value.trim().match(DATE_ONLY_REGEX);
+  if (!match) {
+    throw new RequestValidationError(`${field} must be in YYYY-MM-DD format, got "${value}"`, field);
+  }
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  const day = parseInt(match[3], 10);
+  const date = new Date(year, month - 1, day);
+
+  if (
+    year < 1900 ||
+    year > 2100 ||
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    throw new RequestValidationError(`${field} is not a valid calendar date: "${value}"`, field);
+  }
+
+  return date;
+}
+
+/**
+ * Format a Date as a "YYYY-MM-DD" string (local calendar date)
+ *
+ * Inverse of parseDateOnly; used when serializing dates for JSON responses
+ * and client components.
+ *
+ * @param {Date} date - Date to format
+ * @returns {string} Calendar date string
+ */
+export function formatDateOnly(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Validate a required, non-empty string
+ *
+ * @param {unknown} value - Raw value from the request
+ * @param {string} field - Field name used in error messages
+ * @param {number} [maxLength=200] - Maximum allowed length after trimming
+ * @returns {string} Trimmed string
+ * @throws {RequestValidationError} If missing, empty or too long
+ */
+export function requireString(value: unknown, field: string, maxLength = 200): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new RequestValidationError(`${field} is required`, field);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new RequestValidationError(`${field} must be at most ${maxLength} characters`, field);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Validate a finite number within an inclusive range
+ *
+ * Numeric strings (e.g., from form inputs) are accepted and converted.
+ *
+ * @param {unknown} value - Raw value from the request
+ * @param {string} field - Field name used in error messages
+ * @param {number} min - Minimum allowed value (inclusive)
+ * @param {number} max - Maximum allowed value (inclusive)
+ * @returns {number} Parsed number
+ * @throws {RequestValidationError} If not a number or out of range
+ */
+export function parseNumberInRange(value: unknown, field: string, min: number, max: number): number {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new RequestValidationError(`${field} must be a number`, field);
+  }
+
+  if (parsed < min || parsed > max) {
+    throw new RequestValidationError(`${field} must be between ${min} and ${max}`, field);
+  }
+
+  return parsed;
+}
+
+// ============================================================================
+// REQUEST BODY PARSING
+// ============================================================================
+
+/**
+ * Read and parse a JSON object request body
+ *
+ * @param {Request} request - Incoming request
+ * @returns {Promise<Record<string, unknown>>} Parsed JSON object
+ * @throws {RequestValidationError} If the body is not valid JSON or not an object
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    throw new RequestValidationError('Request body must be valid JSON');
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new RequestValidationError('Request body must be a JSON object');
+  }
+
+  return body as Record<string, unknown>;
+}
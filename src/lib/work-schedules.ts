@@ -0,0 +1,230 @@
+/**
+ * Work Schedule Definitions & Validation
+ *
+ * Shared types, display metadata and input validation for configurable work
+ * schedules. Used by the /api/work-schedules routes, the settings page and
+ * the schedule editor client component.
+ *
+ * This module has no database dependency so it can be imported from client
+ * components. Schedule resolution (which schedule applies on which date)
+ * lives in lib/calculations alongside getExpectedHours.
+ *
+ * @module lib/work-schedules
+ * @author Principal Software Engineer
+ * @version 1.0.0
+ */
+
+import { CONSTANTS, type WorkScheduleRule } from '@/lib/calculations';
+import {
+  RequestValidationError,
+  formatDateOnly,
+  parseDateOnly,
+  parseNumberInRange,
+  requireString,
+} from '@/lib/validation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Per-weekday hour field on a work schedule
+ */
+export type WorkScheduleDayField = (typeof CONSTANTS.WEEKDAY_HOUR_FIELDS)[number];
+
+/**
+ * Validated work schedule payload ready for Prisma create/update
+ */
+export interface WorkScheduleInput extends Required<WorkScheduleRule> {
+  /** Human-readable schedule name */
+  name: string;
+}
+
+/**
+ * Serializable work schedule representation for JSON responses and client components
+ */
+export type WorkScheduleSummary = Record<WorkScheduleDayField, number> & {
+  /** MongoDB ObjectId */
+  id: string;
+
+  /** Human-readable schedule name */
+  name: string;
+
+  /** First date the schedule applies (YYYY-MM-DD) */
+  effectiveFrom: string;
+
+  /** Unpaid break deducted on long days, in minutes (0 = none) */
+  unpaidBreakMinutes: number;
+
+  /** Worked hours from which the unpaid break applies */
+  unpaidBreakAfterHours: number;
+} & Record<OvertimeMultiplierField, number>;
+
+/**
+ * Overtime multiplier field on a work schedule
+ */
+export type OvertimeMultiplierField = 'overtimeMultiplier' | 'sundayOvertimeMultiplier' | 'holidayOvertimeMultiplier';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Weekday fields in display order (Monday first) with labels
+ */
+export const WORK_SCHEDULE_DAYS: ReadonlyArray<{ field: WorkScheduleDayField; label: string }> = [
+  { field: 'mondayHours', label: 'Monday' },
+  { field: 'tuesdayHours', label: 'Tuesday' },
+  { field: 'wednesdayHours', label: 'Wednesday' },
+  { field: 'thursdayHours', label: 'Thursday' },
+  { field: 'fridayHours', label: 'Friday' },
+  { field: 'saturdayHours', label: 'Saturday' },
+  { field: 'sundayHours', label: 'Sunday' },
+];
+
+/**
+ * Overtime multiplier fields in display order with labels and defaults
+ */
+export const OVERTIME_MULTIPLIER_FIELDS: ReadonlyArray<{
+  field: OvertimeMultiplierField;
+  label: string;
+  defaultValue: number;
+}> = [
+  { field: 'overtimeMultiplier', label: 'Overtime', defaultValue: CONSTANTS.OVERTIME_MULTIPLIERS.REGULAR },
+  { field: 'sundayOvertimeMultiplier', label: 'Sunday Overtime', defaultValue: CONSTANTS.OVERTIME_MULTIPLIERS.SUNDAY },
+  { field: 'holidayOvertimeMultiplier', label: 'Holiday Overtime', defaultValue: CONSTANTS.OVERTIME_MULTIPLIERS.HOLIDAY },
+];
+
+/**
+ * Highest overtime pay multiplier
+ */
+const MAX_OVERTIME_MULTIPLIER = 5;
+
+/**
+ * Maximum expected hours for a single day
+ */
+const MAX_DAILY_HOURS = 24;
+
+/**
+ * Maximum unpaid break deduction in minutes
+ */
+const MAX_UNPAID_BREAK_MINUTES = 240;
+
+/**
+ * Unpaid break rule values applied when a new schedule omits them
+ */
+const DEFAULT_BREAK_RULE = {
+  unpaidBreakMinutes: 0,
+  unpaidBreakAfterHours: 6,
+} as const;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a work schedule request body
+ *
+ * For creation every field except the unpaid break rule and the overtime
+ * multipliers is required (the rule defaults to no deduction, the
+ * multipliers to 1.5 / 2 / 2). For partial updates only the provided
+ * fields are validated and returned.
+ *
+ * @param {Record<string, unknown>} body - Parsed JSON request body
+ * @param {boolean} [partial=false] - Allow missing fields (PATCH semantics)
+ * @returns {Partial<WorkScheduleInput>} Validated fields (complete when partial is false)
+ * @throws {RequestValidationError} If any provided field is invalid
+ */
+export function parseWorkScheduleInput(
+  body: Record<string, unknown>,
+  partial: true
+): Partial<WorkScheduleInput>;
+export function parseWorkScheduleInput(
+  body: Record<string, unknown>,
+  partial?: false
+): WorkScheduleInput;
+export function parseWorkScheduleInput(
+  body: Record<string, unknown>,
+  partial = false
+): Partial<WorkScheduleInput> {
+  const input: Partial<WorkScheduleInput> = {};
+
+  if (!partial || body.name !== undefined) {
+    input.name = requireString(body.name, 'name', 100);
+  }
+
+  if (!partial || body.effectiveFrom !== undefined) {
+    input.effectiveFrom = parseDateOnly(body.effectiveFrom, 'effectiveFrom');
+  }
+
+  for (const { field } of WORK_SCHEDULE_DAYS) {
+    if (!partial || body[field] !== undefined) {
+      input[field] = parseNumberInRange(body[field], field, 0, MAX_DAILY_HOURS);
+    }
+  }
+
+  if (body.unpaidBreakMinutes !== undefined) {
+    input.unpaidBreakMinutes = Math.round(
+      parseNumberInRange(body.unpaidBreakMinutes, 'unpaidBreakMinutes', 0, MAX_UNPAID_BREAK_MINUTES)
+    );
+  } else if (!partial) {
+    input.unpaidBreakMinutes = DEFAULT_BREAK_RULE.unpaidBreakMinutes;
+  }
+
+  if (body.unpaidBreakAfterHours !== undefined) {
+    input.unpaidBreakAfterHours = parseNumberInRange(
+      body.unpaidBreakAfterHours,
+      'unpaidBreakAfterHours',
+      0,
+      MAX_DAILY_HOURS
+    );
+  } else if (!partial) {
+    input.unpaidBreakAfterHours = DEFAULT_BREAK_RULE.unpaidBreakAfterHours;
+  }
+
+  for (const { field, defaultValue } of OVERTIME_MULTIPLIER_FIELDS) {
+    if (body[field] !== undefined) {
+      input[field] = parseNumberInRange(body[field], field, 1, MAX_OVERTIME_MULTIPLIER);
+    } else if (!partial) {
+      input[field] = defaultValue;
+    }
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    throw new RequestValidationError('Request body contains no schedule fields to update');
+  }
+
+  return input;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a persisted work schedule into its serializable summary
+ *
+ * @param {WorkScheduleInput & { id: string }} schedule - Prisma WorkSchedule record
+ * @returns {WorkScheduleSummary} JSON-safe summary
+ */
+export function toWorkScheduleSummary(
+  schedule: WorkScheduleInput & { id: string }
+): WorkScheduleSummary {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    effectiveFrom: formatDateOnly(schedule.effectiveFrom),
+    mondayHours: schedule.mondayHours,
+    tuesdayHours: schedule.tuesdayHours,
+    wednesdayHours: schedule.wednesdayHours,
+    thursdayHours: schedule.thursdayHours,
+    fridayHours: schedule.fridayHours,
+    saturdayHours: schedule.saturdayHours,
+    sundayHours: schedule.sundayHours,
+    unpaidBreakMinutes: schedule.unpaidBreakMinutes,
+    unpaidBreakAfterHours: schedule.unpaidBreakAfterHours,
+    overtimeMultiplier: schedule.overtimeMultiplier,
+    sundayOvertimeMultiplier: schedule.sundayOvertimeMultiplier,
+    holidayOvertimeMultiplier: schedule.holidayOvertimeMultiplier,
+  };
+}